@@ -2,20 +2,37 @@ import type { Plugin } from '@opencode-ai/plugin';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { loadAgent } from './utils/agentLoader.ts';
+import {
+  createOpencodeSuggestionBackend,
+  setSuggestionBackend,
+} from './utils/suggestionBackend.ts';
 import {
   fetchCurrencyPrices,
   classifyStatements,
   importStatements,
   reconcileStatement,
   importPipeline,
+  cleanupWorktrees,
+  initDirectories,
+  suggestionCache,
+  applyRuleSuggestions,
+  lintRules,
+  rulesCoverage,
+  proposeProvider,
 } from './tools/index.ts';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const AGENT_FILE = join(__dirname, '..', 'agent', 'accountant.md');
+const SUGGESTER_AGENT_FILE = join(__dirname, '..', 'agent', 'account-suggester.md');
 
-const AccountantPlugin: Plugin = async () => {
+const AccountantPlugin: Plugin = async ({ client }) => {
   const agent = loadAgent(AGENT_FILE);
 
+  const suggesterAgent = loadAgent(SUGGESTER_AGENT_FILE);
+  if (suggesterAgent) {
+    setSuggestionBackend(createOpencodeSuggestionBackend(client, suggesterAgent));
+  }
+
   return {
     tool: {
       'fetch-currency-prices': fetchCurrencyPrices,
@@ -23,6 +40,13 @@ const AccountantPlugin: Plugin = async () => {
       'import-statements': importStatements,
       'reconcile-statements': reconcileStatement,
       'import-pipeline': importPipeline,
+      'cleanup-worktrees': cleanupWorktrees,
+      'init-directories': initDirectories,
+      'suggestion-cache': suggestionCache,
+      'apply-rule-suggestions': applyRuleSuggestions,
+      'lint-rules': lintRules,
+      'rules-coverage': rulesCoverage,
+      'propose-provider': proposeProvider,
     },
     config: async (config: Record<string, unknown>): Promise<void> => {
       if (agent) {
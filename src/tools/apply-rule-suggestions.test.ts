@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyRuleSuggestions } from './apply-rule-suggestions.ts';
+import type { HledgerExecutor } from '../utils/hledgerExecutor.ts';
+import type { ImportConfig } from '../utils/importConfig.ts';
+import { loadLastDryRun, saveLastDryRun } from '../utils/lastDryRun.ts';
+
+describe('apply-rule-suggestions tool', () => {
+  let testDir: string;
+  let rulesPath: string;
+  let logDir: string;
+  let executedArgs: string[][];
+
+  const configLoader = (): ImportConfig => ({
+    paths: {
+      import: 'import/incoming',
+      pending: 'import/pending',
+      done: 'import/done',
+      unrecognized: 'import/unrecognized',
+      rules: 'ledger/rules',
+    },
+    providers: {},
+  });
+
+  const csv = 'import/pending/ubs/chf/transactions.csv';
+
+  /**
+   * Executor reporting an unknown posting for every `if` pattern missing in the rules file
+   */
+  const rulesAwareExecutor: HledgerExecutor = async (args) => {
+    executedArgs.push(args);
+    const rules = fs.readFileSync(args[4], 'utf-8');
+    let stdout = '';
+    if (!rules.includes('if Migros')) {
+      stdout +=
+        '2026-01-02 Migros\n    expenses:unknown   CHF12.50\n    assets:bank   CHF-12.50\n\n';
+    }
+    if (!rules.includes('if Coop \\(Basel\\)')) {
+      stdout +=
+        '2026-01-03 Coop (Basel)\n    expenses:unknown   CHF8.00\n    assets:bank   CHF-8.00\n\n';
+    }
+    return { stdout, stderr: '', exitCode: 0 };
+  };
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apply-rule-suggestions-test-'));
+    logDir = path.join(testDir, '.memory');
+    executedArgs = [];
+
+    rulesPath = path.join(testDir, 'ledger/rules/ubs.rules');
+    fs.mkdirSync(path.dirname(rulesPath), { recursive: true });
+    fs.writeFileSync(rulesPath, 'skip 1\nfields date, description, amount\n');
+
+    fs.mkdirSync(path.join(testDir, path.dirname(csv)), { recursive: true });
+    fs.writeFileSync(path.join(testDir, csv), 'date,description,amount\n');
+
+    saveLastDryRun(logDir, {
+      createdAt: '2026-01-10T00:00:00.000Z',
+      directory: path.join(testDir, 'gone-worktree'),
+      files: [
+        {
+          csv,
+          rulesFile: 'ledger/rules/ubs.rules',
+          unknownPostings: [
+            {
+              date: '2026-01-02',
+              description: 'Migros',
+              amount: 'CHF12.50',
+              account: 'expenses:unknown',
+              suggestedAccount: 'expenses:groceries',
+              suggestionConfidence: 'high',
+            },
+            {
+              date: '2026-01-09',
+              description: 'Migros',
+              amount: 'CHF3.00',
+              account: 'expenses:unknown',
+              suggestedAccount: 'expenses:groceries',
+              suggestionConfidence: 'high',
+            },
+            {
+              date: '2026-01-03',
+              description: 'Coop (Basel)',
+              amount: 'CHF8.00',
+              account: 'expenses:unknown',
+              suggestedAccount: 'expenses:other',
+              suggestionConfidence: 'low',
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should reject non-accountant agents', async () => {
+    const result = await applyRuleSuggestions(testDir, 'other-agent', {}, configLoader);
+
+    expect(result).toContain('restricted to the accountant agent');
+  });
+
+  it('should write escaped rules for accepted suggestions and confirm with a dry run', async () => {
+    const result = await applyRuleSuggestions(
+      testDir,
+      'accountant',
+      {},
+      configLoader,
+      rulesAwareExecutor
+    );
+
+    const parsed = JSON.parse(result);
+    expect(parsed.success).toBe(true);
+    expect(parsed.summary).toEqual({ rulesAdded: 2, skipped: 0, remainingUnknown: 0 });
+
+    const rules = fs.readFileSync(rulesPath, 'utf-8');
+    expect(rules).toContain('if Migros\n  account2 expenses:groceries\n');
+    expect(rules).toContain('if Coop \\(Basel\\)\n  account2 expenses:other\n');
+
+    expect(executedArgs[0]).toEqual([
+      'print',
+      '-f',
+      path.join(testDir, csv),
+      '--rules-file',
+      rulesPath,
+    ]);
+    expect(loadLastDryRun(logDir)).toBeNull();
+  });
+
+  it('should apply overrides and skips', async () => {
+    const result = await applyRuleSuggestions(
+      testDir,
+      'accountant',
+      {
+        decisions: [
+          { description: 'Migros', account: 'expenses:food', pattern: 'MIGROS|COOP' },
+          { description: 'Coop (Basel)', skip: true },
+        ],
+      },
+      configLoader,
+      rulesAwareExecutor
+    );
+
+    const parsed = JSON.parse(result);
+    const rules = fs.readFileSync(rulesPath, 'utf-8');
+    expect(rules).toContain('if MIGROS|COOP\n  account2 expenses:food\n');
+    expect(rules).not.toContain('Basel');
+    expect(parsed.skipped).toEqual([
+      { description: 'Coop (Basel)', reason: 'Skipped by decision' },
+    ]);
+
+    // The custom pattern isn't known to the fake executor, so both postings remain unknown
+    expect(parsed.success).toBe(false);
+    expect(parsed.summary.remainingUnknown).toBe(2);
+    expect(parsed.files[0].remainingUnknown[1].description).toBe('Coop (Basel)');
+    expect(loadLastDryRun(logDir)).not.toBeNull();
+  });
+
+  it('should reject invalid override accounts', async () => {
+    const result = await applyRuleSuggestions(
+      testDir,
+      'accountant',
+      { decisions: [{ description: 'Migros', account: 'expenses:food  CHF5' }] },
+      configLoader,
+      rulesAwareExecutor
+    );
+
+    const parsed = JSON.parse(result);
+    expect(parsed.skipped[0].reason).toContain('Invalid account');
+    expect(fs.readFileSync(rulesPath, 'utf-8')).not.toContain('if Migros');
+  });
+
+  it('should reject override patterns spanning several lines', async () => {
+    const result = await applyRuleSuggestions(
+      testDir,
+      'accountant',
+      { decisions: [{ description: 'Migros', pattern: 'Migros\ninclude /etc/other.rules' }] },
+      configLoader,
+      rulesAwareExecutor
+    );
+
+    const parsed = JSON.parse(result);
+    expect(parsed.skipped[0]).toMatchObject({ description: 'Migros' });
+    expect(parsed.skipped[0].reason).toContain('Invalid pattern');
+    expect(fs.readFileSync(rulesPath, 'utf-8')).not.toContain('include');
+  });
+
+  it('should report when the CSV is no longer available', async () => {
+    fs.rmSync(path.join(testDir, csv));
+
+    const parsed = JSON.parse(
+      await applyRuleSuggestions(testDir, 'accountant', {}, configLoader, rulesAwareExecutor)
+    );
+
+    expect(parsed.summary.rulesAdded).toBe(2);
+    expect(parsed.files[0].error).toContain('CSV not found');
+    expect(parsed.hint).toContain('could not be repeated');
+    expect(executedArgs).toHaveLength(0);
+  });
+
+  it('should fail without a recorded dry run', async () => {
+    fs.rmSync(logDir, { recursive: true });
+
+    const parsed = JSON.parse(await applyRuleSuggestions(testDir, 'accountant', {}, configLoader));
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.error).toContain('No unknown postings');
+  });
+});
@@ -0,0 +1,284 @@
+import { tool } from '@opencode-ai/plugin';
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkAccountantAgent } from '../utils/agentRestriction.ts';
+import { loadImportConfig, type ImportConfig } from '../utils/importConfig.ts';
+import {
+  defaultHledgerExecutor,
+  parseUnknownPostings,
+  type HledgerExecutor,
+  type UnknownPosting,
+  type UnknownPostingWithSuggestion,
+} from '../utils/hledgerExecutor.ts';
+import { clearLastDryRun, loadLastDryRun, type LastDryRun } from '../utils/lastDryRun.ts';
+import {
+  appendRuleBlocks,
+  escapeRulePattern,
+  isValidAccountName,
+  isValidRulePattern,
+  type RuleBlock,
+} from '../utils/ruleSuggestions.ts';
+
+/**
+ * Decision for the unknown postings with a given description
+ */
+export interface RuleSuggestionDecision {
+  /** Description of the unknown posting(s) as reported by the dry run */
+  description: string;
+  /** Account to use instead of the suggested one */
+  account?: string;
+  /** Custom `if` pattern instead of the escaped description */
+  pattern?: string;
+  /** Do not add a rule for this description */
+  skip?: boolean;
+}
+
+/**
+ * Arguments for the apply-rule-suggestions tool
+ */
+export interface ApplyRuleSuggestionsArgs {
+  /** Per-description decisions; suggestions for other descriptions are accepted */
+  decisions?: RuleSuggestionDecision[];
+}
+
+/**
+ * Result for a single rules file
+ */
+interface RulesFileResult {
+  rulesFile: string;
+  rulesAdded: RuleBlock[];
+  /** Unknown postings left after re-running the dry run (undefined if the CSV is gone) */
+  remainingUnknown?: UnknownPosting[];
+  error?: string;
+}
+
+/**
+ * Overall result of the apply-rule-suggestions tool
+ */
+interface ApplyRuleSuggestionsResult {
+  success: boolean;
+  files: RulesFileResult[];
+  skipped: { description: string; reason: string }[];
+  summary: {
+    rulesAdded: number;
+    skipped: number;
+    remainingUnknown: number;
+  };
+  error?: string;
+  hint?: string;
+}
+
+/**
+ * Builds an error result with an optional hint
+ */
+function buildErrorResult(error: string, hint?: string): string {
+  return JSON.stringify({
+    success: false,
+    error,
+    hint,
+  } satisfies Partial<ApplyRuleSuggestionsResult>);
+}
+
+/**
+ * Resolves the rules to add for the postings of one rules file.
+ * Postings are grouped by description, so each description yields at most one rule.
+ */
+function resolveRules(
+  postings: UnknownPostingWithSuggestion[],
+  decisions: Map<string, RuleSuggestionDecision>,
+  skipped: ApplyRuleSuggestionsResult['skipped']
+): RuleBlock[] {
+  const rules: RuleBlock[] = [];
+  const seen = new Set<string>();
+
+  for (const posting of postings) {
+    if (seen.has(posting.description)) {
+      continue;
+    }
+    seen.add(posting.description);
+
+    const decision = decisions.get(posting.description);
+    if (decision?.skip) {
+      skipped.push({ description: posting.description, reason: 'Skipped by decision' });
+      continue;
+    }
+
+    const account = decision?.account ?? posting.suggestedAccount;
+    if (!account) {
+      skipped.push({ description: posting.description, reason: 'No suggested account' });
+      continue;
+    }
+    if (!isValidAccountName(account)) {
+      skipped.push({ description: posting.description, reason: `Invalid account "${account}"` });
+      continue;
+    }
+
+    const pattern = decision?.pattern?.trim() || escapeRulePattern(posting.description);
+    if (!isValidRulePattern(pattern)) {
+      skipped.push({
+        description: posting.description,
+        reason: `Invalid pattern "${pattern}" (must be a single line)`,
+      });
+      continue;
+    }
+    rules.push({ pattern, account: account.trim() });
+  }
+
+  return rules;
+}
+
+/**
+ * Finds the CSV of a dry run file: in the directory the dry run ran in
+ * (the import worktree, if still present) or in the repository itself.
+ */
+function findDryRunCsv(lastDryRun: LastDryRun, directory: string, csv: string): string | null {
+  for (const candidate of [path.join(lastDryRun.directory, csv), path.join(directory, csv)]) {
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Writes accepted account suggestions from the last import-pipeline dry run
+ * as `if` blocks into the matching rules files and re-runs the dry run
+ */
+export async function applyRuleSuggestions(
+  directory: string,
+  agent: string,
+  options: ApplyRuleSuggestionsArgs,
+  configLoader: (dir: string) => ImportConfig = loadImportConfig,
+  hledgerExecutor: HledgerExecutor = defaultHledgerExecutor
+): Promise<string> {
+  // Agent restriction
+  const restrictionError = checkAccountantAgent(agent, 'apply rule suggestions');
+  if (restrictionError) {
+    return restrictionError;
+  }
+
+  let config: ImportConfig;
+  try {
+    config = configLoader(directory);
+  } catch (error) {
+    return buildErrorResult(
+      `Failed to load configuration: ${error instanceof Error ? error.message : String(error)}`,
+      'Ensure config/import/providers.yaml exists'
+    );
+  }
+
+  const logDir = path.join(directory, config.paths.logs ?? '.memory');
+  const lastDryRun = loadLastDryRun(logDir);
+  if (!lastDryRun || lastDryRun.files.length === 0) {
+    return buildErrorResult(
+      'No unknown postings from a previous dry run found',
+      'Run import-pipeline first; suggestions are recorded when its dry run finds unknown postings'
+    );
+  }
+
+  const decisions = new Map<string, RuleSuggestionDecision>();
+  for (const decision of options.decisions ?? []) {
+    decisions.set(decision.description, decision);
+  }
+
+  const result: ApplyRuleSuggestionsResult = {
+    success: true,
+    files: [],
+    skipped: [],
+    summary: { rulesAdded: 0, skipped: 0, remainingUnknown: 0 },
+  };
+  let allVerified = true;
+
+  for (const file of lastDryRun.files) {
+    const rulesPath = path.join(directory, file.rulesFile);
+    const fileResult: RulesFileResult = { rulesFile: file.rulesFile, rulesAdded: [] };
+    result.files.push(fileResult);
+
+    if (!fs.existsSync(rulesPath)) {
+      fileResult.error = 'Rules file not found';
+      result.success = false;
+      continue;
+    }
+
+    const rules = resolveRules(file.unknownPostings, decisions, result.skipped);
+    const { content, added } = appendRuleBlocks(fs.readFileSync(rulesPath, 'utf-8'), rules);
+    if (added.length > 0) {
+      fs.writeFileSync(rulesPath, content);
+    }
+    fileResult.rulesAdded = added;
+    result.summary.rulesAdded += added.length;
+
+    // Re-run the dry run for this CSV with the updated rules
+    const csvPath = findDryRunCsv(lastDryRun, directory, file.csv);
+    if (!csvPath) {
+      fileResult.error = `CSV not found (${file.csv}), dry run not repeated`;
+      allVerified = false;
+      continue;
+    }
+
+    const printResult = await hledgerExecutor(['print', '-f', csvPath, '--rules-file', rulesPath]);
+    if (printResult.exitCode !== 0) {
+      fileResult.error = `hledger error: ${printResult.stderr.trim() || 'Unknown error'}`;
+      result.success = false;
+      continue;
+    }
+
+    fileResult.remainingUnknown = parseUnknownPostings(printResult.stdout);
+    result.summary.remainingUnknown += fileResult.remainingUnknown.length;
+  }
+
+  result.summary.skipped = result.skipped.length;
+
+  if (result.summary.remainingUnknown > 0) {
+    result.success = false;
+    result.hint =
+      'Some postings are still unknown. Adjust the decisions (account or pattern) or edit the rules file manually.';
+  } else if (result.success && !allVerified) {
+    result.hint =
+      'Rules were added, but the dry run could not be repeated for every file. Commit the rules file(s) and re-run import-pipeline to verify.';
+  } else if (result.success) {
+    clearLastDryRun(logDir);
+    result.hint =
+      'All unknown postings are covered. Commit the rules file(s) and re-run import-pipeline.';
+  }
+
+  return JSON.stringify(result);
+}
+
+export default tool({
+  description: `ACCOUNTANT AGENT ONLY: Turn account suggestions from the last import-pipeline dry run into rules.
+
+When the dry run finds unknown postings, import-pipeline records them with their suggested accounts. This tool writes an \`if <pattern>\` / \`account2 <account>\` block per description into the matching rules file and re-runs the dry run to confirm the unknown postings are gone.
+
+**Decisions (optional, per description):**
+- Accept (default): use the suggested account and the escaped description as pattern
+- Override: { description, account: "expenses:food" } and/or { description, pattern: "COOP-\\\\d+" }
+- Skip: { description, skip: true }
+
+Rules files are modified in the repository but not committed.`,
+  args: {
+    decisions: tool.schema
+      .array(
+        tool.schema.object({
+          description: tool.schema
+            .string()
+            .describe('Description of the unknown posting as reported by the dry run'),
+          account: tool.schema
+            .string()
+            .optional()
+            .describe('Account to use instead of the suggestion'),
+          pattern: tool.schema
+            .string()
+            .optional()
+            .describe('Custom single-line if pattern (regex) instead of the escaped description'),
+          skip: tool.schema.boolean().optional().describe('Do not add a rule for this description'),
+        })
+      )
+      .optional()
+      .describe('Per-description decisions; suggestions for all other descriptions are accepted'),
+  },
+  async execute(params, context) {
+    const { directory, agent } = context;
+    return applyRuleSuggestions(directory, agent, { decisions: params.decisions });
+  },
+});
@@ -150,6 +150,14 @@ BTC,Buy,0.001,50000.00,50.00,0.50,"Jan 21, 2025"`
       expect(parsed.classified).toHaveLength(0);
       expect(parsed.unrecognized).toHaveLength(1);
       expect(parsed.unrecognized[0].filename).toBe(filename);
+      expect(parsed.unrecognized[0].diagnostics[0]).toMatchObject({
+        provider: 'revolut',
+        failures: expect.arrayContaining([
+          expect.objectContaining({ reason: 'filename-mismatch' }),
+          expect.objectContaining({ reason: 'header-mismatch' }),
+        ]),
+      });
+      expect(parsed.hint).toContain('providers.yaml');
 
       // Verify that the file was moved to unrecognized
       const targetPath = path.join(testDir, 'import/unrecognized', filename);
@@ -189,6 +197,70 @@ Transfer,Current,2024-01-19,2024-01-19,Test,500,0,EUR,COMPLETED,500`
         fs.existsSync(path.join(testDir, 'import/pending/revolut/eur/account-statement_eur.csv'))
       ).toBe(true);
     });
+    it('should split a multi-currency file into one file per currency', async () => {
+      const importsDir = path.join(testDir, 'import/incoming');
+      const header =
+        'Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance';
+      fs.writeFileSync(
+        path.join(importsDir, 'account-statement_2026.csv'),
+        `${header}
+Deposit,Current,2026-01-02,2026-01-02,Test,100,0,CHF,COMPLETED,100
+Transfer,Current,2026-01-03,2026-01-03,Test,500,0,EUR,COMPLETED,500
+`
+      );
+
+      const result = await classifyStatements(testDir, 'accountant', mockConfigLoader);
+      const parsed = JSON.parse(result);
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.classified).toEqual([
+        expect.objectContaining({
+          filename: 'account-statement_2026-chf.csv',
+          originalFilename: 'account-statement_2026.csv',
+          currency: 'chf',
+          targetPath: 'import/pending/revolut/chf/account-statement_2026-chf.csv',
+        }),
+        expect.objectContaining({
+          filename: 'account-statement_2026-eur.csv',
+          originalFilename: 'account-statement_2026.csv',
+          currency: 'eur',
+          targetPath: 'import/pending/revolut/eur/account-statement_2026-eur.csv',
+        }),
+      ]);
+      expect(
+        fs.readFileSync(
+          path.join(testDir, 'import/pending/revolut/eur/account-statement_2026-eur.csv'),
+          'utf-8'
+        )
+      ).toBe(`${header}\nTransfer,Current,2026-01-03,2026-01-03,Test,500,0,EUR,COMPLETED,500\n`);
+      expect(fs.existsSync(path.join(importsDir, 'account-statement_2026.csv'))).toBe(false);
+    });
+
+    it('should abort if a per-currency part would collide', async () => {
+      const importsDir = path.join(testDir, 'import/incoming');
+      fs.writeFileSync(
+        path.join(importsDir, 'account-statement_2026.csv'),
+        `Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance
+Deposit,Current,2026-01-02,2026-01-02,Test,100,0,CHF,COMPLETED,100
+Transfer,Current,2026-01-03,2026-01-03,Test,500,0,EUR,COMPLETED,500
+`
+      );
+      const eurDir = path.join(testDir, 'import/pending/revolut/eur');
+      fs.mkdirSync(eurDir, { recursive: true });
+      fs.writeFileSync(path.join(eurDir, 'account-statement_2026-eur.csv'), 'existing');
+
+      const result = await classifyStatements(testDir, 'accountant', mockConfigLoader);
+      const parsed = JSON.parse(result);
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.collisions).toHaveLength(1);
+      expect(fs.existsSync(path.join(importsDir, 'account-statement_2026.csv'))).toBe(true);
+      expect(
+        fs.existsSync(
+          path.join(testDir, 'import/pending/revolut/chf/account-statement_2026-chf.csv')
+        )
+      ).toBe(false);
+    });
   });
 
   describe('filename collision detection', () => {
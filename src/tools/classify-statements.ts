@@ -3,7 +3,13 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { checkAccountantAgent } from '../utils/agentRestriction.ts';
 import { loadImportConfig, type ImportConfig } from '../utils/importConfig.ts';
-import { detectProvider, type DetectionResult } from '../utils/providerDetector.ts';
+import {
+  detectProvider,
+  diagnoseDetection,
+  splitByCurrency,
+  type DetectionResult,
+  type RuleDiagnosis,
+} from '../utils/providerDetector.ts';
 import { findCSVFiles, ensureDirectory } from '../utils/fileUtils.ts';
 
 /**
@@ -14,6 +20,8 @@ interface ClassifiedFile {
   originalFilename?: string;
   provider: string;
   currency: string;
+  /** How well the header matched the detection rule, from 0 to 1 (1: exact header) */
+  confidence: number;
   targetPath: string;
 }
 
@@ -23,6 +31,8 @@ interface ClassifiedFile {
 interface UnrecognizedFile {
   filename: string;
   targetPath: string;
+  /** The closest detection rules and why each failed */
+  diagnostics: RuleDiagnosis[];
 }
 
 /**
@@ -42,6 +52,9 @@ interface PlannedMove {
   targetPath: string;
   targetFilename: string;
   detection: DetectionResult | null;
+  diagnostics?: RuleDiagnosis[];
+  /** Content of a per-currency part of a multi-currency CSV, written instead of moving the file */
+  content?: string;
 }
 
 /**
@@ -62,6 +75,14 @@ interface ClassifyResult {
   };
 }
 
+/**
+ * Names a per-currency part of a multi-currency CSV: the currency is appended to the name
+ */
+function currencyPartFilename(filename: string, currency: string): string {
+  const extension = path.extname(filename);
+  return `${path.basename(filename, extension)}-${currency}${extension}`;
+}
+
 function buildSuccessResult(
   classified: ClassifiedFile[],
   unrecognized: UnrecognizedFile[],
@@ -72,6 +93,10 @@ function buildSuccessResult(
     classified,
     unrecognized,
     message,
+    hint:
+      unrecognized.length > 0
+        ? 'The diagnostics of each unrecognized file list the closest detection rules and why they failed; adjust them in config/import/providers.yaml'
+        : undefined,
     summary: {
       total: classified.length + unrecognized.length,
       classified: classified.length,
@@ -119,6 +144,29 @@ function planMoves(
     const content = fs.readFileSync(sourcePath, 'utf-8');
     const detection: DetectionResult | null = detectProvider(filename, content, config);
 
+    // A multi-currency CSV is split into one CSV per currency, each classified on its own
+    const parts = detection
+      ? splitByCurrency(content, detection, config)
+      : new Map<string, string>();
+    if (detection && parts.size > 1) {
+      for (const [currency, partContent] of parts) {
+        const targetFilename = currencyPartFilename(detection.outputFilename || filename, currency);
+        const targetPath = path.join(pendingDir, detection.provider, currency, targetFilename);
+        if (fs.existsSync(targetPath)) {
+          collisions.push({ filename, existingPath: targetPath });
+        }
+        plannedMoves.push({
+          filename,
+          sourcePath,
+          targetPath,
+          targetFilename,
+          detection: { ...detection, currency },
+          content: partContent,
+        });
+      }
+      continue;
+    }
+
     let targetPath: string;
     let targetFilename: string;
 
@@ -144,6 +192,7 @@ function planMoves(
       targetPath,
       targetFilename,
       detection,
+      diagnostics: detection ? undefined : diagnoseDetection(filename, content, config),
     });
   }
 
@@ -165,13 +214,20 @@ function executeMoves(
     if (move.detection) {
       const targetDir = path.dirname(move.targetPath);
       ensureDirectory(targetDir);
-      fs.renameSync(move.sourcePath, move.targetPath);
+      if (move.content !== undefined) {
+        fs.writeFileSync(move.targetPath, move.content);
+        fs.rmSync(move.sourcePath, { force: true });
+      } else {
+        fs.renameSync(move.sourcePath, move.targetPath);
+      }
 
       classified.push({
         filename: move.targetFilename,
-        originalFilename: move.detection.outputFilename ? move.filename : undefined,
+        originalFilename:
+          move.detection.outputFilename || move.content !== undefined ? move.filename : undefined,
         provider: move.detection.provider,
         currency: move.detection.currency,
+        confidence: move.detection.confidence,
         targetPath: path.join(
           config.paths.pending,
           move.detection.provider,
@@ -186,6 +242,7 @@ function executeMoves(
       unrecognized.push({
         filename: move.filename,
         targetPath: path.join(config.paths.unrecognized, move.filename),
+        diagnostics: move.diagnostics ?? [],
       });
     }
   }
@@ -251,7 +308,7 @@ export async function classifyStatements(
 
 export default tool({
   description:
-    'ACCOUNTANT AGENT ONLY: Classifies bank statement CSV files from the imports directory by detecting their provider and currency, then moves them to the appropriate pending import directories.',
+    'ACCOUNTANT AGENT ONLY: Classifies bank statement CSV files from the imports directory by detecting their provider and currency, then moves them to the appropriate pending import directories. A CSV with rows in several currencies is split into one CSV per currency (named <file>-<currency>.csv, keeping the header and metadata rows). For unrecognized files, reports the closest detection rules and why each failed.',
   args: {},
   async execute(_params, context) {
     const { directory, agent } = context;
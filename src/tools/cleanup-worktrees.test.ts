@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { cleanupWorktrees, findLastPipelineLog } from './cleanup-worktrees.ts';
+import { createImportWorktree, type WorktreeContext } from '../utils/worktreeManager.ts';
+import { initTestGitRepo } from '../utils/testHelpers.ts';
+
+describe('cleanup-worktrees tool', () => {
+  let testRepoPath: string;
+  let worktree: WorktreeContext;
+
+  const makeOld = (worktreePath: string, hours: number) => {
+    const time = new Date(Date.now() - hours * 60 * 60 * 1000);
+    fs.utimesSync(worktreePath, time, time);
+  };
+
+  beforeEach(async () => {
+    testRepoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-worktrees-test-'));
+    initTestGitRepo(testRepoPath);
+    fs.writeFileSync(path.join(testRepoPath, '.hledger.journal'), '; Main journal\n');
+    execSync('git add .', { cwd: testRepoPath });
+    execSync('git commit -m "Initial commit"', { cwd: testRepoPath });
+
+    worktree = await createImportWorktree(testRepoPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(worktree.path, { recursive: true, force: true });
+    fs.rmSync(testRepoPath, { recursive: true, force: true });
+  });
+
+  describe('agent restriction', () => {
+    it('should reject non-accountant agents', async () => {
+      const result = await cleanupWorktrees(testRepoPath, 'other-agent', {});
+
+      expect(result).toContain('restricted to the accountant agent');
+    });
+  });
+
+  describe('age filtering', () => {
+    it('should keep worktrees younger than 24 hours', async () => {
+      const parsed = JSON.parse(await cleanupWorktrees(testRepoPath, 'accountant', {}));
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.summary).toEqual({ found: 1, removed: 0, kept: 1, failed: 0 });
+      expect(parsed.worktrees[0].action).toBe('kept');
+      expect(parsed.worktrees[0].branch).toBe(worktree.branch);
+      expect(fs.existsSync(worktree.path)).toBe(true);
+    });
+
+    it('should remove worktrees older than 24 hours', async () => {
+      makeOld(worktree.path, 25);
+
+      const parsed = JSON.parse(await cleanupWorktrees(testRepoPath, 'accountant', {}));
+
+      expect(parsed.worktrees[0].action).toBe('removed');
+      expect(parsed.worktrees[0].ageHours).toBeGreaterThan(24);
+      expect(fs.existsSync(worktree.path)).toBe(false);
+      const branches = execSync('git branch --list', { cwd: testRepoPath, encoding: 'utf-8' });
+      expect(branches).not.toContain(worktree.branch);
+    });
+
+    it('should remove all worktrees with all: true', async () => {
+      const parsed = JSON.parse(await cleanupWorktrees(testRepoPath, 'accountant', { all: true }));
+
+      expect(parsed.summary.removed).toBe(1);
+      expect(fs.existsSync(worktree.path)).toBe(false);
+    });
+
+    it('should never remove branches not created by an import run', async () => {
+      execSync('git branch import-foo', { cwd: testRepoPath });
+
+      const parsed = JSON.parse(await cleanupWorktrees(testRepoPath, 'accountant', { all: true }));
+
+      expect(parsed.summary.found).toBe(1);
+      const branches = execSync('git branch --list', { cwd: testRepoPath, encoding: 'utf-8' });
+      expect(branches).toContain('import-foo');
+    });
+  });
+
+  describe('dry run', () => {
+    it('should report without removing', async () => {
+      const parsed = JSON.parse(
+        await cleanupWorktrees(testRepoPath, 'accountant', { all: true, dryRun: true })
+      );
+
+      expect(parsed.dryRun).toBe(true);
+      expect(parsed.worktrees[0].action).toBe('would-remove');
+      expect(fs.existsSync(worktree.path)).toBe(true);
+    });
+  });
+
+  describe('missing worktree directories', () => {
+    it('should prune worktrees whose directory was deleted and remove the branch', async () => {
+      fs.rmSync(worktree.path, { recursive: true, force: true });
+
+      const parsed = JSON.parse(await cleanupWorktrees(testRepoPath, 'accountant', { all: true }));
+
+      expect(parsed.worktrees[0].exists).toBe(false);
+      expect(parsed.worktrees[0].action).toBe('removed');
+      const worktrees = execSync('git worktree list', { cwd: testRepoPath, encoding: 'utf-8' });
+      expect(worktrees).not.toContain(worktree.path);
+    });
+  });
+
+  describe('pipeline logs', () => {
+    it('should report the last pipeline log of a worktree', async () => {
+      const logDir = path.join(testRepoPath, '.memory');
+      fs.mkdirSync(logDir);
+      fs.writeFileSync(
+        path.join(logDir, 'import-2026-01-01T10-00-00.md'),
+        `# Import Pipeline Log\n**Worktree ID**: ${worktree.id}\n`
+      );
+      fs.writeFileSync(
+        path.join(logDir, 'import-2026-01-02T10-00-00.md'),
+        `# Import Pipeline Log\n**Worktree ID**: ${worktree.id}\n`
+      );
+      fs.writeFileSync(
+        path.join(logDir, 'import-2026-01-03T10-00-00.md'),
+        '# Import Pipeline Log\n**Worktree ID**: other\n'
+      );
+
+      expect(findLastPipelineLog(logDir, worktree.id)).toBe(
+        path.join(logDir, 'import-2026-01-02T10-00-00.md')
+      );
+
+      const parsed = JSON.parse(await cleanupWorktrees(testRepoPath, 'accountant', {}));
+      expect(parsed.worktrees[0].lastLog).toBe(
+        path.join('.memory', 'import-2026-01-02T10-00-00.md')
+      );
+    });
+
+    it('should return undefined when no log exists', () => {
+      expect(findLastPipelineLog(path.join(testRepoPath, '.memory'), worktree.id)).toBeUndefined();
+    });
+  });
+});
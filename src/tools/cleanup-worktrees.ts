@@ -0,0 +1,186 @@
+import { tool } from '@opencode-ai/plugin';
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkAccountantAgent } from '../utils/agentRestriction.ts';
+import {
+  listImportWorktrees,
+  removeWorktree,
+  type ImportWorktreeInfo,
+} from '../utils/worktreeManager.ts';
+
+/**
+ * Worktrees older than this are removed unless all: true is given
+ */
+const DEFAULT_MAX_AGE_HOURS = 24;
+
+/**
+ * Arguments for the cleanup-worktrees tool
+ */
+export interface CleanupWorktreesArgs {
+  /** Remove all import worktrees regardless of age */
+  all?: boolean;
+  /** Only report what would be removed */
+  dryRun?: boolean;
+}
+
+/**
+ * Result for a single import worktree
+ */
+interface WorktreeCleanupEntry {
+  id: string;
+  branch: string;
+  path: string;
+  exists: boolean;
+  ageHours: number;
+  lastLog?: string;
+  action: 'removed' | 'would-remove' | 'kept';
+  error?: string;
+}
+
+/**
+ * Overall result of the cleanup-worktrees tool
+ */
+interface CleanupWorktreesResult {
+  success: boolean;
+  dryRun: boolean;
+  worktrees: WorktreeCleanupEntry[];
+  summary: {
+    found: number;
+    removed: number;
+    kept: number;
+    failed: number;
+  };
+  error?: string;
+}
+
+/**
+ * Finds the most recent pipeline log that belongs to the given import run.
+ * Pipeline logs record the worktree ID in their header.
+ *
+ * @param logDir Directory containing the import-<timestamp>.md logs
+ * @param worktreeId The worktree ID to look for
+ * @returns Path of the log file, or undefined if none found
+ */
+export function findLastPipelineLog(logDir: string, worktreeId: string): string | undefined {
+  if (!fs.existsSync(logDir)) {
+    return undefined;
+  }
+
+  const logFiles = fs
+    .readdirSync(logDir)
+    .filter((file) => file.startsWith('import-') && file.endsWith('.md'))
+    .sort()
+    .reverse();
+
+  for (const file of logFiles) {
+    const logPath = path.join(logDir, file);
+    if (fs.readFileSync(logPath, 'utf-8').includes(`**Worktree ID**: ${worktreeId}`)) {
+      return logPath;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Lists import worktrees and removes stale ones (worktree and branch)
+ */
+export async function cleanupWorktrees(
+  directory: string,
+  agent: string,
+  options: CleanupWorktreesArgs
+): Promise<string> {
+  // Agent restriction
+  const restrictionError = checkAccountantAgent(agent, 'cleanup worktrees');
+  if (restrictionError) {
+    return restrictionError;
+  }
+
+  const dryRun = options.dryRun ?? false;
+  const result: CleanupWorktreesResult = {
+    success: true,
+    dryRun,
+    worktrees: [],
+    summary: { found: 0, removed: 0, kept: 0, failed: 0 },
+  };
+
+  let worktrees: ImportWorktreeInfo[];
+  try {
+    worktrees = await listImportWorktrees(directory);
+  } catch (error) {
+    result.success = false;
+    result.error = `Failed to list import worktrees: ${error instanceof Error ? error.message : String(error)}`;
+    return JSON.stringify(result);
+  }
+
+  const logDir = path.join(directory, '.memory');
+  const now = Date.now();
+
+  for (const worktree of worktrees) {
+    const ageHours = (now - worktree.modifiedAt.getTime()) / (1000 * 60 * 60);
+    const lastLog = findLastPipelineLog(logDir, worktree.id);
+
+    const entry: WorktreeCleanupEntry = {
+      id: worktree.id,
+      branch: worktree.branch,
+      path: worktree.path,
+      exists: worktree.exists,
+      ageHours: Math.round(ageHours * 10) / 10,
+      lastLog: lastLog ? path.relative(directory, lastLog) : undefined,
+      action: 'kept',
+    };
+
+    const isStale = options.all === true || ageHours > DEFAULT_MAX_AGE_HOURS;
+
+    if (isStale && dryRun) {
+      entry.action = 'would-remove';
+      result.summary.removed++;
+    } else if (isStale) {
+      try {
+        await removeWorktree(worktree);
+        entry.action = 'removed';
+        result.summary.removed++;
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : String(error);
+        result.summary.failed++;
+        result.success = false;
+      }
+    } else {
+      result.summary.kept++;
+    }
+
+    result.worktrees.push(entry);
+  }
+
+  result.summary.found = worktrees.length;
+
+  return JSON.stringify(result);
+}
+
+export default tool({
+  description: `ACCOUNTANT AGENT ONLY: Clean up import worktrees preserved by failed import-pipeline runs.
+
+Lists all import worktrees (/tmp/import-worktree-<uuid>) and import branches (import-<uuid>), reports their age and the last pipeline log, and removes the worktree together with its branch.
+
+**Usage:**
+- Default: removes worktrees older than 24 hours
+- cleanup-worktrees --all true: removes all import worktrees
+- cleanup-worktrees --dryRun true: preview without removing`,
+  args: {
+    all: tool.schema
+      .boolean()
+      .optional()
+      .describe('Remove all import worktrees regardless of age (default: false)'),
+    dryRun: tool.schema
+      .boolean()
+      .optional()
+      .describe('Only report what would be removed (default: false)'),
+  },
+  async execute(params, context) {
+    const { directory, agent } = context;
+    return cleanupWorktrees(directory, agent, {
+      all: params.all,
+      dryRun: params.dryRun,
+    });
+  },
+});
@@ -13,6 +13,7 @@ import {
 } from './import-pipeline.ts';
 import type { HledgerExecutor, HledgerResult } from '../utils/hledgerExecutor.ts';
 import type { ImportConfig } from '../utils/importConfig.ts';
+import { loadLastDryRun } from '../utils/lastDryRun.ts';
 import { initTestGitRepo } from '../utils/testHelpers.ts';
 
 describe('import-pipeline tool', () => {
@@ -182,6 +183,241 @@ describe('import-pipeline tool', () => {
     });
   });
 
+  describe('worktree isolation', () => {
+    const worktreeConfig: ImportConfig = {
+      ...mockConfig,
+      providers: {
+        testbank: {
+          detect: [{ header: 'Date,Description,Amount,Currency', currencyField: 'Currency' }],
+          currencies: { CHF: 'chf' },
+        },
+      },
+    };
+    const worktreeConfigLoader = () => worktreeConfig;
+
+    const transaction = `2026-01-15 Coffee
+    expenses:food                 CHF5.00
+    assets:bank:testbank         CHF-5.00
+`;
+
+    const createExecutor = (printOutput: string): HledgerExecutor => {
+      return async (args: string[]): Promise<HledgerResult> => {
+        switch (args[0]) {
+          case 'print':
+            // The main journal holds no transactions yet (no duplicates)
+            if (args[2].endsWith('.hledger.journal')) {
+              return { stdout: '', stderr: '', exitCode: 0 };
+            }
+            return { stdout: printOutput, stderr: '', exitCode: 0 };
+          case 'import':
+            fs.appendFileSync(args[2], `\n${transaction}`);
+            return { stdout: '', stderr: '', exitCode: 0 };
+          case 'register':
+            return {
+              stdout: `"txnidx","date","code","description","account","amount","total"
+"1","2026-01-15","","Coffee","assets:bank:testbank","CHF-5.00","CHF-5.00"`,
+              stderr: '',
+              exitCode: 0,
+            };
+          case 'bal':
+            return {
+              stdout: '           CHF -5.00  assets:bank:testbank',
+              stderr: '',
+              exitCode: 0,
+            };
+          default:
+            return { stdout: '', stderr: '', exitCode: 0 };
+        }
+      };
+    };
+
+    beforeEach(() => {
+      fs.writeFileSync(
+        path.join(testRepoPath, 'config/import/rules/testbank.rules'),
+        `source ../../../statements/pending/testbank/chf/*.csv
+skip 1
+fields date, description, amount, currency
+account1 assets:bank:testbank
+`
+      );
+      execSync('git add .', { cwd: testRepoPath });
+      execSync('git commit -m "Add rules"', { cwd: testRepoPath });
+
+      fs.writeFileSync(
+        path.join(testRepoPath, 'statements/import/testbank-2026-01.csv'),
+        'Date,Description,Amount,Currency\n2026-01-15,Coffee,-5.00,CHF\n'
+      );
+    });
+
+    it('should merge a successful import back with --no-ff', async () => {
+      const result = await importPipeline(
+        testRepoPath,
+        'accountant',
+        { closingBalance: 'CHF -5.00' },
+        worktreeConfigLoader,
+        createExecutor(transaction)
+      );
+
+      const parsed = JSON.parse(result);
+      expect(parsed.success).toBe(true);
+      expect(parsed.commitMessage).toBe('Import: statements (1 transactions)');
+
+      const log = execSync('git log --format=%s%n%P -1', { cwd: testRepoPath, encoding: 'utf-8' });
+      const [subject, parents] = log.trim().split('\n');
+      expect(subject).toBe('Import: statements (1 transactions)');
+      expect(parents.split(' ')).toHaveLength(2);
+
+      expect(fs.readFileSync(path.join(testRepoPath, 'ledger/2026.journal'), 'utf-8')).toContain(
+        'Coffee'
+      );
+      expect(
+        fs.existsSync(path.join(testRepoPath, 'statements/done/testbank/chf/testbank-2026-01.csv'))
+      ).toBe(true);
+      expect(fs.existsSync(path.join(testRepoPath, 'statements/import/testbank-2026-01.csv'))).toBe(
+        false
+      );
+
+      const worktrees = execSync('git worktree list', { cwd: testRepoPath, encoding: 'utf-8' });
+      expect(worktrees).not.toContain('import-worktree-');
+    });
+
+    it('should preserve the worktree and leave main untouched on failure', async () => {
+      const unknownTransaction = `2026-01-15 Coffee
+    expenses:unknown              CHF5.00
+    assets:bank:testbank         CHF-5.00
+`;
+      const result = await importPipeline(
+        testRepoPath,
+        'accountant',
+        {},
+        worktreeConfigLoader,
+        createExecutor(unknownTransaction)
+      );
+
+      const parsed = JSON.parse(result);
+      expect(parsed.success).toBe(false);
+      expect(parsed.worktree.preserved).toBe(true);
+      expect(fs.existsSync(parsed.worktree.path)).toBe(true);
+
+      expect(fs.existsSync(path.join(testRepoPath, 'ledger/2026.journal'))).toBe(false);
+      expect(fs.existsSync(path.join(testRepoPath, 'statements/import/testbank-2026-01.csv'))).toBe(
+        true
+      );
+      const log = execSync('git log --format=%s -1', { cwd: testRepoPath, encoding: 'utf-8' });
+      expect(log.trim()).toBe('Add rules');
+    });
+
+    it('should record unknown postings of a failed dry run for apply-rule-suggestions', async () => {
+      const unknownTransaction = `2026-01-15 Coffee
+    expenses:unknown              CHF5.00
+    assets:bank:testbank         CHF-5.00
+`;
+      await importPipeline(
+        testRepoPath,
+        'accountant',
+        {},
+        worktreeConfigLoader,
+        createExecutor(unknownTransaction)
+      );
+
+      const lastDryRun = loadLastDryRun(path.join(testRepoPath, '.memory'));
+      expect(lastDryRun?.files).toHaveLength(1);
+      expect(lastDryRun?.files[0].rulesFile).toBe('config/import/rules/testbank.rules');
+      expect(lastDryRun?.files[0].csv).toBe('statements/pending/testbank/chf/testbank-2026-01.csv');
+      expect(lastDryRun?.files[0].unknownPostings[0].description).toBe('Coffee');
+    });
+
+    it('should copy starter rules written for a CSV without rules file to the repository', async () => {
+      execSync('git rm -q config/import/rules/testbank.rules', { cwd: testRepoPath });
+      execSync('git commit -m "Remove rules"', { cwd: testRepoPath });
+      const unknownTransaction = `2026-01-15 Coffee
+    expenses:unknown              CHF5.00
+    assets:bank:testbank:chf     CHF-5.00
+`;
+
+      const result = await importPipeline(
+        testRepoPath,
+        'accountant',
+        {},
+        worktreeConfigLoader,
+        createExecutor(unknownTransaction)
+      );
+
+      const parsed = JSON.parse(result);
+      expect(parsed.success).toBe(false);
+      expect(parsed.steps.dryRun.details.rulesGenerated).toEqual([
+        'config/import/rules/testbank-chf.rules',
+      ]);
+      expect(parsed.hint).toContain('Starter rules files were written to the repository');
+      expect(
+        fs.readFileSync(path.join(testRepoPath, 'config/import/rules/testbank-chf.rules'), 'utf-8')
+      ).toContain('account1 assets:bank:testbank:chf\n');
+    });
+
+    it('should remove the worktree on failure when keepWorktreeOnError is false', async () => {
+      const result = await importPipeline(
+        testRepoPath,
+        'accountant',
+        { keepWorktreeOnError: false },
+        worktreeConfigLoader,
+        async () => ({ stdout: '', stderr: 'hledger failed', exitCode: 1 })
+      );
+
+      const parsed = JSON.parse(result);
+      expect(parsed.success).toBe(false);
+      expect(parsed.worktree.preserved).toBe(false);
+      expect(fs.existsSync(parsed.worktree.path)).toBe(false);
+    });
+
+    it('should abort a conflicting merge and keep the import branch', async () => {
+      const executor = createExecutor(transaction);
+      const conflictingExecutor: HledgerExecutor = async (args) => {
+        if (args[0] === 'import') {
+          // The main repository's year journal changes while the import runs
+          fs.mkdirSync(path.join(testRepoPath, 'ledger'), { recursive: true });
+          fs.writeFileSync(path.join(testRepoPath, 'ledger/2026.journal'), '; edited\n');
+          execSync('git add . && git commit -m "Edit journal"', { cwd: testRepoPath });
+        }
+        return executor(args);
+      };
+
+      const result = await importPipeline(
+        testRepoPath,
+        'accountant',
+        { closingBalance: 'CHF -5.00', keepWorktreeOnError: false },
+        worktreeConfigLoader,
+        conflictingExecutor
+      );
+
+      const parsed = JSON.parse(result);
+      expect(parsed.success).toBe(false);
+      expect(parsed.worktree.preserved).toBe(true);
+      expect(parsed.hint).toContain(parsed.worktree.branch);
+      expect(fs.existsSync(path.join(testRepoPath, '.git/MERGE_HEAD'))).toBe(false);
+      expect(fs.readFileSync(path.join(testRepoPath, 'ledger/2026.journal'), 'utf-8')).toBe(
+        '; edited\n'
+      );
+      const branches = execSync('git branch --list', { cwd: testRepoPath, encoding: 'utf-8' });
+      expect(branches).toContain(parsed.worktree.branch);
+    });
+
+    it('should refuse to run with uncommitted changes', async () => {
+      fs.appendFileSync(path.join(testRepoPath, '.hledger.journal'), '; local edit\n');
+
+      const result = await importPipeline(
+        testRepoPath,
+        'accountant',
+        {},
+        worktreeConfigLoader,
+        createExecutor(transaction)
+      );
+
+      const parsed = JSON.parse(result);
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toContain('uncommitted changes');
+    });
+  });
+
   describe('commit message format', () => {
     it('should build proper commit message with provider and currency', async () => {
       // This is a unit test for the commit message building logic
@@ -1,11 +1,20 @@
 import { tool } from '@opencode-ai/plugin';
+import * as fs from 'fs';
 import * as path from 'path';
 import { checkAccountantAgent } from '../utils/agentRestriction.ts';
 import { loadImportConfig, type ImportConfig } from '../utils/importConfig.ts';
 import { classifyStatements } from './classify-statements.ts';
 import { importStatements } from './import-statements.ts';
-import { reconcileStatement } from './reconcile-statement.ts';
+import {
+  reconcileStatement,
+  type AccountReconciliation,
+  type ReconcileStatementsResult,
+} from './reconcile-statement.ts';
 import { defaultHledgerExecutor, type HledgerExecutor } from '../utils/hledgerExecutor.ts';
+import { defaultSuggestionBackend, type SuggestionBackend } from '../utils/suggestionBackend.ts';
+import { getSuggestionCachePath } from '../utils/suggestionCache.ts';
+import { collectStatementAccounts, loadJournalHistory } from '../utils/historyClassifier.ts';
+import { clearLastDryRun, saveLastDryRun, type DryRunFileRecord } from '../utils/lastDryRun.ts';
 import { findRulesForCsv, loadRulesMapping } from '../utils/rulesMatcher.ts';
 import { ensureYearJournalExists, findCsvFiles } from '../utils/journalUtils.ts';
 import { extractTransactionYears } from '../utils/hledgerExecutor.ts';
@@ -14,6 +23,16 @@ import {
   ensureAccountDeclarations,
 } from '../utils/accountDeclarations.ts';
 import { createImportLogger, type Logger } from '../utils/logger.js';
+import {
+  createImportWorktree,
+  hasUncommittedChanges,
+  mergeWorktree,
+  removeProcessedCSVFiles,
+  removeWorktree,
+  syncCSVFiles,
+  WorktreeMergeError,
+  type WorktreeContext,
+} from '../utils/worktreeManager.ts';
 
 /**
  * Arguments for the import-pipeline tool
@@ -29,6 +48,10 @@ export interface ImportPipelineArgs {
   account?: string;
   /** Skip classify step if rules already exist */
   skipClassify?: boolean;
+  /** Keep the import worktree for inspection when a step fails (default: true) */
+  keepWorktreeOnError?: boolean;
+  /** Import even if transactions are already in the journal (default: false) */
+  allowDuplicates?: boolean;
 }
 
 /**
@@ -57,9 +80,12 @@ interface DryRunStepDetails {
   summary?: {
     totalTransactions: number;
     unknown?: number;
+    duplicates?: number;
   };
   unknownPostings?: import('../utils/hledgerExecutor.ts').UnknownPostingWithSuggestion[];
   detailsLog?: string;
+  /** Starter rules files written for CSVs without a rules file (copied to the main repository) */
+  rulesGenerated?: string[];
 }
 
 /**
@@ -72,6 +98,7 @@ interface ImportStepDetails {
   };
   files?: Array<{
     csv?: string;
+    doneFile?: string;
     [key: string]: unknown;
   }>;
   error?: string;
@@ -88,6 +115,14 @@ interface ReconcileStepDetails {
     'from-date'?: string;
     'until-date'?: string;
   };
+  statements?: Array<{
+    csvFile?: string;
+    account?: string;
+    success?: boolean;
+    skipped?: boolean;
+    [key: string]: unknown;
+  }>;
+  accounts?: AccountReconciliation[];
   error?: string;
 }
 
@@ -113,6 +148,12 @@ export interface ImportPipelineResult {
     reconcile?: StepResult<ReconcileStepDetails>;
   };
   summary?: string;
+  commitMessage?: string;
+  worktree?: {
+    path: string;
+    branch: string;
+    preserved: boolean;
+  };
   error?: string;
   hint?: string;
 }
@@ -122,10 +163,13 @@ export interface ImportPipelineResult {
  */
 export interface PipelineContext {
   directory: string;
+  /** Main repository (logs and caches are kept here, outside the import worktree) */
+  mainDirectory: string;
   agent: string;
   options: ImportPipelineArgs;
   configLoader: (_configDir: string) => ImportConfig;
   hledgerExecutor: HledgerExecutor;
+  suggestionBackend: SuggestionBackend;
   result: ImportPipelineResult;
 }
 
@@ -325,11 +369,13 @@ export async function executeAccountDeclarationsStep(
   // Load rules mapping and find matched rules files
   const rulesMapping = loadRulesMapping(rulesDir);
   const matchedRulesFiles = new Set<string>();
+  const csvRulesFiles = new Map<string, string>();
 
   for (const csvFile of csvFiles) {
     const rulesFile = findRulesForCsv(csvFile, rulesMapping);
     if (rulesFile) {
       matchedRulesFiles.add(rulesFile);
+      csvRulesFiles.set(csvFile, rulesFile);
     }
   }
 
@@ -362,27 +408,31 @@ export async function executeAccountDeclarationsStep(
     return;
   }
 
-  // Determine transaction year from first CSV (assuming single-year constraint)
-  // We need to parse at least one CSV to determine the year
-  let transactionYear: number | undefined;
+  // Determine the transaction years of all CSVs; each year journal needs the declarations
+  // (a CSV may span several years, and several CSVs may cover different years)
+  const transactionYears = new Set<number>();
 
-  for (const rulesFile of matchedRulesFiles) {
+  for (const [csvFile, rulesFile] of csvRulesFiles) {
     try {
-      const result = await context.hledgerExecutor(['print', '-f', rulesFile]);
+      const result = await context.hledgerExecutor([
+        'print',
+        '-f',
+        csvFile,
+        '--rules-file',
+        rulesFile,
+      ]);
       if (result.exitCode === 0) {
-        const years = extractTransactionYears(result.stdout);
-        if (years.size > 0) {
-          transactionYear = Array.from(years)[0];
-          break;
+        for (const year of extractTransactionYears(result.stdout)) {
+          transactionYears.add(year);
         }
       }
     } catch {
-      // Continue to next rules file
+      // Continue with the next CSV
       continue;
     }
   }
 
-  if (!transactionYear) {
+  if (transactionYears.size === 0) {
     context.result.steps.accountDeclarations = buildStepResult<AccountDeclarationsStepDetails>(
       false,
       'Could not determine transaction year from CSV files',
@@ -395,44 +445,57 @@ export async function executeAccountDeclarationsStep(
     return;
   }
 
-  // Ensure year journal exists
-  let yearJournalPath: string;
-  try {
-    yearJournalPath = ensureYearJournalExists(context.directory, transactionYear);
-  } catch (error) {
-    context.result.steps.accountDeclarations = buildStepResult<AccountDeclarationsStepDetails>(
-      false,
-      `Failed to create year journal: ${error instanceof Error ? error.message : String(error)}`,
-      {
-        accountsAdded: [],
-        journalUpdated: '',
-        rulesScanned: Array.from(matchedRulesFiles).map((f) => path.relative(context.directory, f)),
-      }
-    );
-    return;
-  }
+  const accountsAdded = new Set<string>();
+  const journalsUpdated: string[] = [];
 
-  // Add account declarations to year journal
-  const result = ensureAccountDeclarations(yearJournalPath, allAccounts);
+  for (const transactionYear of Array.from(transactionYears).sort((a, b) => a - b)) {
+    // Ensure year journal exists
+    let yearJournalPath: string;
+    try {
+      yearJournalPath = ensureYearJournalExists(context.directory, transactionYear);
+    } catch (error) {
+      context.result.steps.accountDeclarations = buildStepResult<AccountDeclarationsStepDetails>(
+        false,
+        `Failed to create year journal: ${error instanceof Error ? error.message : String(error)}`,
+        {
+          accountsAdded: [],
+          journalUpdated: '',
+          rulesScanned: Array.from(matchedRulesFiles).map((f) =>
+            path.relative(context.directory, f)
+          ),
+        }
+      );
+      return;
+    }
+
+    // Add account declarations to year journal
+    const result = ensureAccountDeclarations(yearJournalPath, allAccounts);
+    const relativeJournalPath = path.relative(context.directory, yearJournalPath);
+    journalsUpdated.push(relativeJournalPath);
+    for (const account of result.added) {
+      accountsAdded.add(account);
+    }
+    if (result.added.length > 0) {
+      logger?.info(`Added ${result.added.length} account declaration(s) to ${relativeJournalPath}`);
+    }
+  }
 
   const message =
-    result.added.length > 0
-      ? `Added ${result.added.length} account declaration(s) to ${path.relative(context.directory, yearJournalPath)}`
+    accountsAdded.size > 0
+      ? `Added ${accountsAdded.size} account declaration(s) to ${journalsUpdated.join(', ')}`
       : 'All required accounts already declared';
 
   logger?.logStep('Check Accounts', 'success', message);
-  if (result.added.length > 0) {
-    for (const account of result.added) {
-      logger?.info(`  - ${account}`);
-    }
+  for (const account of accountsAdded) {
+    logger?.info(`  - ${account}`);
   }
 
   context.result.steps.accountDeclarations = buildStepResult<AccountDeclarationsStepDetails>(
     true,
     message,
     {
-      accountsAdded: result.added,
-      journalUpdated: path.relative(context.directory, yearJournalPath),
+      accountsAdded: Array.from(accountsAdded).sort(),
+      journalUpdated: journalsUpdated.join(', '),
       rulesScanned: Array.from(matchedRulesFiles).map((f) => path.relative(context.directory, f)),
     }
   );
@@ -452,29 +515,70 @@ export async function executeDryRunStep(context: PipelineContext, logger?: Logge
       provider: context.options.provider,
       currency: context.options.currency,
       checkOnly: true,
+      allowDuplicates: context.options.allowDuplicates,
     },
     context.configLoader,
     context.hledgerExecutor
   );
 
   const dryRunParsed = JSON.parse(dryRunResult);
-  const message = dryRunParsed.success
-    ? `Dry run passed: ${dryRunParsed.summary?.totalTransactions || 0} transactions ready`
-    : `Dry run failed: ${dryRunParsed.summary?.unknown || 0} unknown account(s)`;
+  const duplicateCount: number = dryRunParsed.summary?.duplicates || 0;
+
+  // Starter rules files only exist in the worktree; copy them to the main repository,
+  // where the category rules are added before the next run
+  const rulesGenerated: string[] | undefined = dryRunParsed.rulesGenerated;
+  for (const rulesFile of rulesGenerated ?? []) {
+    const target = path.join(context.mainDirectory, rulesFile);
+    if (!fs.existsSync(target)) {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(path.join(context.directory, rulesFile), target);
+    }
+    logger?.info(`Wrote starter rules file: ${rulesFile}`);
+  }
+  const blockedByDuplicates =
+    !dryRunParsed.success &&
+    duplicateCount > 0 &&
+    !dryRunParsed.summary?.unknown &&
+    !dryRunParsed.summary?.filesWithErrors &&
+    !dryRunParsed.summary?.filesWithoutRules;
+  let message: string;
+  if (dryRunParsed.success) {
+    message = `Dry run passed: ${dryRunParsed.summary?.totalTransactions || 0} transactions ready`;
+  } else if (blockedByDuplicates) {
+    message = `Dry run failed: ${duplicateCount} transaction(s) already in the journal`;
+  } else {
+    message = `Dry run failed: ${dryRunParsed.summary?.unknown || 0} unknown account(s)`;
+  }
 
   logger?.logStep('Dry Run', dryRunParsed.success ? 'success' : 'error', message);
   if (dryRunParsed.summary?.totalTransactions) {
     logger?.info(`Found ${dryRunParsed.summary.totalTransactions} transactions`);
   }
+  if (duplicateCount > 0) {
+    logger?.warn(`Found ${duplicateCount} transaction(s) already in the journal`);
+    for (const file of dryRunParsed.files ?? []) {
+      for (const duplicate of file.duplicates ?? []) {
+        logger?.info(
+          `  - ${file.csv}: ${duplicate.date} ${duplicate.description} ${duplicate.amount} (${duplicate.reason})`
+        );
+      }
+    }
+  }
 
   // Collect unknown postings and generate suggestions if dry run failed
   let postingsWithSuggestions: import('../utils/hledgerExecutor.ts').UnknownPostingWithSuggestion[] =
     [];
   if (!dryRunParsed.success) {
     const allUnknownPostings: import('../utils/hledgerExecutor.ts').UnknownPosting[] = [];
+    // Postings are suggested per rules file, each against its own rules and cache section
+    const postingsByRulesFile = new Map<string, number[]>();
     for (const file of dryRunParsed.files ?? []) {
-      if (file.unknownPostings && file.unknownPostings.length > 0) {
-        allUnknownPostings.push(...file.unknownPostings);
+      for (const posting of file.unknownPostings ?? []) {
+        const rulesFile = file.rulesFile ?? '';
+        const indexes = postingsByRulesFile.get(rulesFile) ?? [];
+        indexes.push(allUnknownPostings.length);
+        postingsByRulesFile.set(rulesFile, indexes);
+        allUnknownPostings.push(posting);
       }
     }
 
@@ -498,13 +602,11 @@ export async function executeDryRunStep(context: PipelineContext, logger?: Logge
         const rulesMapping = loadRulesMapping(rulesDir);
 
         let yearJournalPath: string | undefined;
-        let firstRulesFile: string | undefined;
 
         // Find first CSV with rules to determine year
         for (const csvFile of csvFiles) {
           const rulesFile = findRulesForCsv(csvFile, rulesMapping);
           if (rulesFile) {
-            firstRulesFile = rulesFile;
             try {
               const result = await context.hledgerExecutor(['print', '-f', rulesFile]);
               if (result.exitCode === 0) {
@@ -521,20 +623,41 @@ export async function executeDryRunStep(context: PipelineContext, logger?: Logge
           }
         }
 
-        const suggestionContext = {
+        const sharedContext = {
           existingAccounts: yearJournalPath ? await loadExistingAccounts(yearJournalPath) : [],
-          rulesFilePath: firstRulesFile,
-          existingRules: firstRulesFile
-            ? await extractRulePatternsFromFile(firstRulesFile)
-            : undefined,
           yearJournalPath,
+          history: loadJournalHistory(
+            path.join(context.directory, 'ledger'),
+            collectStatementAccounts(rulesDir)
+          ),
+          cachePath: getSuggestionCachePath(
+            path.join(context.mainDirectory, config.paths.logs ?? '.memory')
+          ),
           logger,
         };
 
-        postingsWithSuggestions = await suggestAccountsForPostingsBatch(
-          allUnknownPostings,
-          suggestionContext
-        );
+        const suggested: import('../utils/hledgerExecutor.ts').UnknownPostingWithSuggestion[] = [
+          ...allUnknownPostings,
+        ];
+        for (const [rulesFile, indexes] of postingsByRulesFile) {
+          const rulesFilePath = rulesFile ? path.join(context.directory, rulesFile) : undefined;
+          const results = await suggestAccountsForPostingsBatch(
+            indexes.map((index) => allUnknownPostings[index]),
+            {
+              ...sharedContext,
+              rulesFilePath,
+              existingRules: rulesFilePath
+                ? await extractRulePatternsFromFile(rulesFilePath)
+                : undefined,
+              cacheSection: rulesFile,
+            },
+            context.suggestionBackend
+          );
+          results.forEach((result, i) => {
+            suggested[indexes[i]] = result;
+          });
+        }
+        postingsWithSuggestions = suggested;
       } catch (error) {
         logger?.error(
           `[ERROR] Failed to generate account suggestions: ${error instanceof Error ? error.message : String(error)}`
@@ -545,6 +668,8 @@ export async function executeDryRunStep(context: PipelineContext, logger?: Logge
     }
   }
 
+  recordLastDryRun(context, dryRunParsed, postingsWithSuggestions, logger);
+
   // Prepare detailsLog for dry run result if there are unknown postings
   const detailsLog =
     postingsWithSuggestions.length > 0
@@ -556,6 +681,7 @@ export async function executeDryRunStep(context: PipelineContext, logger?: Logge
     summary: dryRunParsed.summary,
     unknownPostings: postingsWithSuggestions.length > 0 ? postingsWithSuggestions : undefined,
     detailsLog,
+    rulesGenerated,
   });
 
   if (!dryRunParsed.success) {
@@ -566,9 +692,18 @@ export async function executeDryRunStep(context: PipelineContext, logger?: Logge
     }
 
     logger?.endSection();
-    context.result.error = 'Dry run found unknown accounts or errors';
-    context.result.hint =
-      'Add rules to categorize unknown transactions, then retry. See details above for suggestions.';
+    if (blockedByDuplicates) {
+      context.result.error = `Dry run found ${duplicateCount} transaction(s) already in the journal`;
+      context.result.hint =
+        'Remove the overlapping rows from the CSV (e.g., overlapping monthly and quarterly exports), or re-run with allowDuplicates: true if they are genuine repeats.';
+    } else if (rulesGenerated) {
+      context.result.error = 'Dry run found unknown accounts or errors';
+      context.result.hint = `Starter rules files were written to the repository: ${rulesGenerated.join(', ')}. Check account1 and date-format, add rules to categorize the unknown transactions (see the suggestions above), commit the rules files, then retry.`;
+    } else {
+      context.result.error = 'Dry run found unknown accounts or errors';
+      context.result.hint =
+        'Add rules to categorize unknown transactions, then retry. See details above for suggestions.';
+    }
     throw new Error('Dry run failed');
   }
 
@@ -581,6 +716,62 @@ export async function executeDryRunStep(context: PipelineContext, logger?: Logge
   logger?.endSection();
 }
 
+/**
+ * Records the unknown postings of a failed dry run (for apply-rule-suggestions),
+ * or removes the previous record once the dry run passes.
+ */
+function recordLastDryRun(
+  context: PipelineContext,
+  dryRunParsed: {
+    success: boolean;
+    files?: {
+      csv: string;
+      rulesFile: string | null;
+      unknownPostings?: import('../utils/hledgerExecutor.ts').UnknownPosting[];
+    }[];
+  },
+  postingsWithSuggestions: import('../utils/hledgerExecutor.ts').UnknownPostingWithSuggestion[],
+  logger?: Logger
+): void {
+  try {
+    const config = context.configLoader(context.directory);
+    const logDir = path.join(context.mainDirectory, config.paths.logs ?? '.memory');
+
+    if (dryRunParsed.success) {
+      clearLastDryRun(logDir);
+      return;
+    }
+
+    // Suggestions are returned in the same order as the per-file unknown postings
+    let offset = 0;
+    const files: DryRunFileRecord[] = [];
+    for (const file of dryRunParsed.files ?? []) {
+      const unknownPostings = file.unknownPostings ?? [];
+      const withSuggestions =
+        postingsWithSuggestions.length > 0
+          ? postingsWithSuggestions.slice(offset, offset + unknownPostings.length)
+          : unknownPostings;
+      offset += unknownPostings.length;
+
+      if (file.rulesFile && withSuggestions.length > 0) {
+        files.push({ csv: file.csv, rulesFile: file.rulesFile, unknownPostings: withSuggestions });
+      }
+    }
+
+    if (files.length > 0) {
+      saveLastDryRun(logDir, {
+        createdAt: new Date().toISOString(),
+        directory: context.directory,
+        files,
+      });
+    }
+  } catch (error) {
+    logger?.warn(
+      `Failed to record dry run result: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
 /**
  * Format unknown postings with suggestions for logging
  */
@@ -632,6 +823,7 @@ export async function executeImportStep(context: PipelineContext, logger?: Logge
       provider: context.options.provider,
       currency: context.options.currency,
       checkOnly: false,
+      allowDuplicates: context.options.allowDuplicates,
     },
     context.configLoader,
     context.hledgerExecutor
@@ -647,6 +839,7 @@ export async function executeImportStep(context: PipelineContext, logger?: Logge
   context.result.steps.import = buildStepResult<ImportStepDetails>(importParsed.success, message, {
     success: importParsed.success,
     summary: importParsed.summary,
+    files: importParsed.files,
     error: importParsed.error,
   });
 
@@ -661,7 +854,8 @@ export async function executeImportStep(context: PipelineContext, logger?: Logge
 }
 
 /**
- * Executes the reconcile step
+ * Executes the reconcile step for every statement imported in this run
+ * (or the most recent statement in the done directory if none is known)
  */
 export async function executeReconcileStep(
   context: PipelineContext,
@@ -669,6 +863,11 @@ export async function executeReconcileStep(
 ): Promise<void> {
   logger?.startSection('Step 5: Reconcile Balance');
   logger?.logStep('Reconcile', 'start');
+
+  const csvFiles = (context.result.steps.import?.details?.files ?? [])
+    .map((file) => file.doneFile)
+    .filter((doneFile): doneFile is string => !!doneFile);
+
   const reconcileResult = await reconcileStatement(
     context.directory,
     context.agent,
@@ -677,45 +876,94 @@ export async function executeReconcileStep(
       currency: context.options.currency,
       closingBalance: context.options.closingBalance,
       account: context.options.account,
+      csvFiles: csvFiles.length > 0 ? csvFiles : undefined,
+      diagnose: true,
     },
     context.configLoader,
     context.hledgerExecutor
   );
 
   const reconcileParsed = JSON.parse(reconcileResult);
-  const message = reconcileParsed.success
-    ? `Balance reconciled: ${reconcileParsed.actualBalance}`
-    : `Balance mismatch: expected ${reconcileParsed.expectedBalance}, got ${reconcileParsed.actualBalance}`;
+  const details: ReconcileStepDetails =
+    csvFiles.length > 0
+      ? buildStatementsReconcileDetails(reconcileParsed)
+      : {
+          success: reconcileParsed.success,
+          actualBalance: reconcileParsed.actualBalance,
+          expectedBalance: reconcileParsed.expectedBalance,
+          metadata: reconcileParsed.metadata,
+          error: reconcileParsed.error,
+        };
+
+  let message: string;
+  if (csvFiles.length > 1) {
+    const checked = details.statements?.filter((s) => s.success && !s.skipped).length ?? 0;
+    message = details.success
+      ? `Balance reconciled for ${checked} of ${csvFiles.length} statements: ${details.actualBalance}`
+      : `Reconciliation failed: ${details.error}`;
+  } else {
+    message = details.success
+      ? `Balance reconciled: ${details.actualBalance}`
+      : `Balance mismatch: expected ${details.expectedBalance}, got ${details.actualBalance}`;
+  }
 
-  logger?.logStep('Reconcile', reconcileParsed.success ? 'success' : 'error', message);
-  if (reconcileParsed.success) {
-    logger?.info(`Actual: ${reconcileParsed.actualBalance}`);
-    logger?.info(`Expected: ${reconcileParsed.expectedBalance}`);
+  logger?.logStep('Reconcile', details.success ? 'success' : 'error', message);
+  if (details.accounts && details.accounts.length > 0) {
+    for (const account of details.accounts) {
+      logger?.info(
+        `${account.account}: ${account.success ? 'reconciled' : 'FAILED'} (actual ${account.actualBalance ?? 'n/a'}, expected ${account.expectedBalance ?? 'n/a'})`
+      );
+    }
+  } else if (details.success) {
+    logger?.info(`Actual: ${details.actualBalance}`);
+    logger?.info(`Expected: ${details.expectedBalance}`);
   }
 
   context.result.steps.reconcile = buildStepResult<ReconcileStepDetails>(
-    reconcileParsed.success,
+    details.success,
     message,
-    {
-      success: reconcileParsed.success,
-      actualBalance: reconcileParsed.actualBalance,
-      expectedBalance: reconcileParsed.expectedBalance,
-      metadata: reconcileParsed.metadata,
-      error: reconcileParsed.error,
-    }
+    details
   );
 
-  if (!reconcileParsed.success) {
-    logger?.error('Reconciliation failed', new Error(reconcileParsed.error || 'Balance mismatch'));
+  if (!details.success) {
+    logger?.error('Reconciliation failed', new Error(details.error || 'Balance mismatch'));
     logger?.endSection();
-    context.result.error = `Reconciliation failed: ${reconcileParsed.error || 'Balance mismatch'}`;
-    context.result.hint = 'Check for missing transactions or incorrect rules';
+    context.result.error = `Reconciliation failed: ${details.error || 'Balance mismatch'}`;
+    context.result.hint =
+      reconcileParsed.hint || 'Check for missing transactions or incorrect rules';
     throw new Error('Reconciliation failed');
   }
 
   logger?.endSection();
 }
 
+/**
+ * Builds reconcile step details from a per-statement reconciliation result.
+ * Balances are those of the last checked statement; the metadata spans all statements.
+ */
+function buildStatementsReconcileDetails(
+  reconcileParsed: ReconcileStatementsResult
+): ReconcileStepDetails {
+  const checked = reconcileParsed.statements.filter((s) => s.actualBalance !== undefined);
+  const last = checked[checked.length - 1];
+  const withMetadata = reconcileParsed.statements.filter((s) => s.metadata);
+  const fromDate = withMetadata.find((s) => s.metadata?.['from-date'])?.metadata?.['from-date'];
+  const untilDate = withMetadata.filter((s) => s.metadata?.['until-date']).pop()?.metadata?.[
+    'until-date'
+  ];
+
+  return {
+    success: reconcileParsed.success,
+    actualBalance: last?.actualBalance,
+    expectedBalance: last?.expectedBalance,
+    metadata:
+      fromDate || untilDate ? { 'from-date': fromDate, 'until-date': untilDate } : undefined,
+    statements: reconcileParsed.statements,
+    accounts: reconcileParsed.accounts,
+    error: reconcileParsed.error,
+  };
+}
+
 /**
  * Handles the no transactions scenario
  */
@@ -726,6 +974,59 @@ function handleNoTransactions(result: ImportPipelineResult): string {
   return buildSuccessResult(result, 'No transactions found to import');
 }
 
+/**
+ * Builds the commit message for a successful import from the step results
+ */
+function buildImportCommitMessage(context: PipelineContext): string {
+  const { fromDate, untilDate } = extractCommitInfo(
+    JSON.stringify(context.result.steps.reconcile?.details ?? {})
+  );
+  const transactionCount = extractTransactionCount(
+    JSON.stringify(context.result.steps.import?.details ?? {})
+  );
+
+  return buildCommitMessage(
+    context.options.provider,
+    context.options.currency,
+    fromDate,
+    untilDate,
+    transactionCount
+  );
+}
+
+/**
+ * Brings the results of a finished run back to the main repository and removes the worktree.
+ * Merges the worktree branch (if a commit message is given), copies CSV files that were not
+ * imported back to the main repository and deletes the processed ones from it.
+ */
+async function finalizeWorktree(
+  worktree: WorktreeContext,
+  syncedFiles: string[],
+  config: ImportConfig,
+  commitMessage: string | undefined,
+  logger: Logger
+): Promise<boolean> {
+  let merged = false;
+  if (commitMessage) {
+    merged = await mergeWorktree(worktree, commitMessage);
+    logger.info(merged ? `Merged ${worktree.branch}: ${commitMessage}` : 'No changes to merge');
+  }
+
+  syncCSVFiles(worktree.path, worktree.mainRepoPath, [
+    config.paths.pending,
+    config.paths.unrecognized,
+  ]);
+  const removed = removeProcessedCSVFiles(worktree, syncedFiles);
+  for (const file of removed) {
+    logger.info(`Removed processed file: ${file}`);
+  }
+
+  await removeWorktree(worktree);
+  logger.info(`Removed worktree: ${worktree.path}`);
+
+  return merged;
+}
+
 /**
  * Implementation of the import-pipeline tool
  */
@@ -734,7 +1035,8 @@ export async function importPipeline(
   agent: string,
   options: ImportPipelineArgs,
   configLoader: (_configDir: string) => ImportConfig = loadImportConfig,
-  hledgerExecutor: HledgerExecutor = defaultHledgerExecutor
+  hledgerExecutor: HledgerExecutor = defaultHledgerExecutor,
+  suggestionBackend: SuggestionBackend = defaultSuggestionBackend
 ): Promise<string> {
   // Early return for agent restriction
   const restrictionError = checkAccountantAgent(agent, 'import pipeline');
@@ -742,26 +1044,66 @@ export async function importPipeline(
     return restrictionError;
   }
 
-  // Create logger for this import run
-  const logger = createImportLogger(directory, undefined, options.provider);
+  const result: ImportPipelineResult = {
+    success: false,
+    steps: {},
+  };
+
+  let config: ImportConfig;
+  try {
+    config = configLoader(directory);
+  } catch (error) {
+    return buildErrorResult(
+      result,
+      `Failed to load configuration: ${error instanceof Error ? error.message : String(error)}`,
+      'Ensure config/import/providers.yaml exists'
+    );
+  }
+
+  // Create an isolated worktree so a failed import never touches the main branch
+  let worktree: WorktreeContext;
+  try {
+    if (await hasUncommittedChanges(directory)) {
+      return buildErrorResult(
+        result,
+        'Repository has uncommitted changes',
+        'Commit or stash your changes before running import-pipeline'
+      );
+    }
+    worktree = await createImportWorktree(directory);
+  } catch (error) {
+    return buildErrorResult(
+      result,
+      `Failed to create import worktree: ${error instanceof Error ? error.message : String(error)}`,
+      'import-pipeline must be run in a git repository with at least one commit'
+    );
+  }
+
+  // Create logger for this import run (stored in the main repository to survive cleanup)
+  const logger = createImportLogger(directory, worktree.id, options.provider);
 
   logger.startSection('Import Pipeline', 1);
   logger.info(`Provider filter: ${options.provider || 'all'}`);
   logger.info(`Currency filter: ${options.currency || 'all'}`);
   logger.info(`Skip classify: ${options.skipClassify || false}`);
+  logger.info(`Worktree: ${worktree.path}`);
+
+  // Statement CSVs are usually git-ignored, so copy them into the worktree
+  const syncedFiles = syncCSVFiles(directory, worktree.path, [
+    config.paths.import,
+    config.paths.pending,
+  ]);
+  logger.info(`Synced ${syncedFiles.length} CSV file(s) to worktree`);
   logger.info('');
 
-  const result: ImportPipelineResult = {
-    success: false,
-    steps: {},
-  };
-
   const context: PipelineContext = {
-    directory,
+    directory: worktree.path,
+    mainDirectory: directory,
     agent,
     options,
     configLoader,
     hledgerExecutor,
+    suggestionBackend,
     result,
   };
 
@@ -774,6 +1116,12 @@ export async function importPipeline(
 
     const transactionCount = context.result.steps.import?.details?.summary?.totalTransactions || 0;
 
+    logger.startSection('Merge');
+    const commitMessage = buildImportCommitMessage(context);
+    await finalizeWorktree(worktree, syncedFiles, config, commitMessage, logger);
+    result.commitMessage = commitMessage;
+    logger.endSection();
+
     // Log final summary
     logger.startSection('Summary');
     logger.info(`Import completed successfully`);
@@ -785,17 +1133,46 @@ export async function importPipeline(
     logger.endSection();
 
     return buildSuccessResult(result, `Successfully imported ${transactionCount} transaction(s)`);
-  } catch (error) {
+  } catch (stepError) {
+    let error = stepError;
+    if (error instanceof NoTransactionsError) {
+      try {
+        await finalizeWorktree(worktree, syncedFiles, config, undefined, logger);
+        logger.info(`Log file: ${logger.getLogPath()}`);
+        return handleNoTransactions(result);
+      } catch (cleanupError) {
+        error = cleanupError;
+      }
+    }
+
     logger.error('Pipeline step failed', error);
-    logger.info(`Log file: ${logger.getLogPath()}`);
 
-    if (error instanceof NoTransactionsError) {
-      return handleNoTransactions(result);
+    // A failed merge leaves the committed import on its branch only, so it is always kept
+    const keepWorktree =
+      options.keepWorktreeOnError !== false || error instanceof WorktreeMergeError;
+    if (!keepWorktree) {
+      try {
+        await removeWorktree(worktree);
+        logger.info(`Removed worktree: ${worktree.path}`);
+      } catch (cleanupError) {
+        logger.error('Failed to remove worktree', cleanupError);
+      }
+    } else {
+      logger.info(`Worktree preserved for inspection: ${worktree.path}`);
     }
+    result.worktree = {
+      path: worktree.path,
+      branch: worktree.branch,
+      preserved: keepWorktree,
+    };
+    logger.info(`Log file: ${logger.getLogPath()}`);
 
     if (!result.error) {
       result.error = error instanceof Error ? error.message : String(error);
     }
+    if (error instanceof WorktreeMergeError && !result.hint) {
+      result.hint = `The import is committed on branch ${error.branch}. Resolve the conflict by merging it manually (git merge ${error.branch}), or remove it with cleanup-worktrees and re-run the import.`;
+    }
 
     return buildErrorResult(result, result.error, result.hint);
   } finally {
@@ -812,13 +1189,14 @@ This tool orchestrates the full import workflow:
 **Pipeline Steps:**
 1. **Classify**: Moves CSVs from import/incoming to import/pending (optional, skip with skipClassify)
 2. **Account Declarations**: Ensures all required accounts are declared in year journal
-3. **Dry Run**: Validates all transactions have known accounts
+3. **Dry Run**: Validates all transactions have known accounts and are not already in the journal
 4. **Import**: Imports transactions to the journal (moves CSVs to import/done)
 5. **Reconcile**: Validates closing balance matches CSV metadata
 
-**Important:**
-- All changes remain uncommitted in your working directory
-- If any step fails, changes remain in place for inspection
+**Isolation:**
+- All steps run in an isolated git worktree (/tmp/import-worktree-<uuid>) on branch import-<uuid>
+- On success, changes are committed and merged into the current branch with --no-ff
+- If any step fails, the main branch remains untouched and the worktree is preserved for inspection
 - CSV files move from incoming/ → pending/ → done/ during the process
 
 **Logging:**
@@ -829,7 +1207,9 @@ This tool orchestrates the full import workflow:
 - Basic: import-pipeline (processes all CSVs in incoming/)
 - Filtered: import-pipeline --provider ubs --currency chf
 - Manual balance: import-pipeline --closingBalance "CHF 1234.56"
-- Skip classify: import-pipeline --skipClassify true`,
+- Skip classify: import-pipeline --skipClassify true
+- Always clean up: import-pipeline --keepWorktreeOnError false
+- Genuine repeats: import-pipeline --allowDuplicates true`,
   args: {
     provider: tool.schema
       .string()
@@ -848,6 +1228,14 @@ This tool orchestrates the full import workflow:
       .boolean()
       .optional()
       .describe('Skip the classify step (default: false)'),
+    keepWorktreeOnError: tool.schema
+      .boolean()
+      .optional()
+      .describe('Keep the import worktree for inspection when a step fails (default: true)'),
+    allowDuplicates: tool.schema
+      .boolean()
+      .optional()
+      .describe('Import even if transactions are already in the journal (default: false)'),
   },
   async execute(params, context) {
     const { directory, agent } = context;
@@ -857,6 +1245,8 @@ This tool orchestrates the full import workflow:
       closingBalance: params.closingBalance,
       account: params.account,
       skipClassify: params.skipClassify,
+      keepWorktreeOnError: params.keepWorktreeOnError,
+      allowDuplicates: params.allowDuplicates,
     });
   },
 });
@@ -3,6 +3,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { importStatements } from './import-statements.ts';
 import type { ImportConfig } from '../utils/importConfig.ts';
+import { detectProvider, splitByCurrency } from '../utils/providerDetector.ts';
 import type { HledgerExecutor, HledgerResult } from '../utils/hledgerExecutor.ts';
 
 const testDir = path.join(process.cwd(), '.memory', 'test-import-statements');
@@ -134,6 +135,49 @@ describe('import-statements', () => {
       expect(parsed.summary.filesWithoutRules).toBe(1);
     });
 
+    it('should write starter rules for a detected CSV without rules file', async () => {
+      const pendingDir = path.join(testDir, 'doc/agent/todo/import/testbank/chf');
+      fs.mkdirSync(pendingDir, { recursive: true });
+      const csvPath = path.join(pendingDir, 'transactions.csv');
+      fs.writeFileSync(csvPath, 'Date,Description,Amount,Currency\n2026-01-16,Coffee,-4.50,CHF\n');
+
+      const config = createMockConfig();
+      config.providers.testbank = {
+        detect: [{ header: 'Date,Description,Amount,Currency', currencyField: 'Currency' }],
+        currencies: { CHF: 'chf' },
+      };
+      const mockExecutor = createMockHledgerExecutor(
+        new Map([
+          [
+            'print',
+            {
+              stdout:
+                '2026-01-16 Coffee\n    assets:bank:testbank:chf  CHF-4.50\n    expenses:unknown  CHF4.50\n',
+              stderr: '',
+              exitCode: 0,
+            },
+          ],
+        ])
+      );
+
+      const result = await importStatements(
+        testDir,
+        'accountant',
+        { checkOnly: true },
+        () => config,
+        mockExecutor
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.rulesGenerated).toEqual(['ledger/rules/testbank-chf.rules']);
+      expect(parsed.files[0].rulesFile).toBe('ledger/rules/testbank-chf.rules');
+      expect(parsed.summary.unknown).toBe(1);
+      expect(parsed.hint).toContain('Starter rules files were written');
+      expect(
+        fs.readFileSync(path.join(testDir, 'ledger/rules/testbank-chf.rules'), 'utf-8')
+      ).toContain('fields date, description, amount, currency\n');
+    });
+
     it('should detect unknown postings in hledger output', async () => {
       const pendingDir = path.join(testDir, 'doc/agent/todo/import/ubs/chf');
       const rulesDir = path.join(testDir, 'ledger/rules');
@@ -445,7 +489,7 @@ describe('import-statements', () => {
   });
 
   describe('year-based journal routing', () => {
-    it('should reject CSV with transactions from multiple years', async () => {
+    it('should reject a multi-year CSV that cannot be split by year', async () => {
       const pendingDir = path.join(testDir, 'doc/agent/todo/import/ubs/chf');
       const rulesDir = path.join(testDir, 'ledger/rules');
       fs.mkdirSync(pendingDir, { recursive: true });
@@ -482,11 +526,117 @@ describe('import-statements', () => {
 
       expect(parsed.success).toBe(false);
       expect(parsed.files[0].error).toContain('multiple years');
+      expect(parsed.files[0].error).toContain('could not be split');
       expect(parsed.files[0].error).toContain('2025');
       expect(parsed.files[0].error).toContain('2026');
       expect(parsed.summary.filesWithErrors).toBe(1);
     });
 
+    describe('multi-year CSV', () => {
+      const csvContent = `Account;CH93 0000
+From;30.12.2025
+Date;Description;Amount
+30.12.2025;December Transaction;-50.00
+31.12.2025;"Year-end
+fee";-1.00
+05.01.2026;January Transaction;-25.00
+`;
+
+      // Emulates hledger: prints one transaction per data row of the CSV, imports by appending
+      const createCsvExecutor = (imports: { journal: string; csv: string }[]): HledgerExecutor => {
+        return async (args: string[]): Promise<HledgerResult> => {
+          if (args[0] === 'print') {
+            const rows = fs.readFileSync(args[2], 'utf-8').split('\n').slice(3).join('\n');
+            const transactions = Array.from(rows.matchAll(/^(\d{2})\.(\d{2})\.(\d{4});/gm)).map(
+              (match) =>
+                `${match[3]}-${match[2]}-${match[1]} Transaction\n    expenses:food  CHF1.00\n    assets:bank:ubs  CHF-1.00\n`
+            );
+            return { stdout: transactions.join('\n'), stderr: '', exitCode: 0 };
+          }
+          if (args[0] === 'import') {
+            imports.push({
+              journal: path.basename(args[2]),
+              csv: fs.readFileSync(args[5], 'utf-8'),
+            });
+            return { stdout: '', stderr: '', exitCode: 0 };
+          }
+          return { stdout: '', stderr: '', exitCode: 0 };
+        };
+      };
+
+      const setupMultiYearCsv = (): string => {
+        const pendingDir = path.join(testDir, 'doc/agent/todo/import/ubs/chf');
+        const rulesDir = path.join(testDir, 'ledger/rules');
+        fs.mkdirSync(pendingDir, { recursive: true });
+        fs.mkdirSync(rulesDir, { recursive: true });
+        fs.writeFileSync(path.join(testDir, '.hledger.journal'), '; main journal\n');
+
+        const csvPath = path.join(pendingDir, 'transactions.csv');
+        fs.writeFileSync(csvPath, csvContent);
+        fs.writeFileSync(
+          path.join(rulesDir, 'ubs.rules'),
+          `source ${csvPath}\nskip 2\nseparator ;\nfields date, description, amount\ndate-format %d.%m.%Y\n`
+        );
+        return csvPath;
+      };
+
+      it('should accept a CSV that splits cleanly by year', async () => {
+        setupMultiYearCsv();
+
+        const result = await importStatements(
+          testDir,
+          'accountant',
+          { checkOnly: true },
+          () => createMockConfig(),
+          createCsvExecutor([])
+        );
+        const parsed = JSON.parse(result);
+
+        expect(parsed.success).toBe(true);
+        expect(parsed.files[0].transactionYears).toEqual([2025, 2026]);
+        expect(parsed.files[0].transactionYear).toBeUndefined();
+      });
+
+      it('should import each year into its own journal', async () => {
+        const csvPath = setupMultiYearCsv();
+        const imports: { journal: string; csv: string }[] = [];
+
+        const result = await importStatements(
+          testDir,
+          'accountant',
+          { checkOnly: false },
+          () => createMockConfig(),
+          createCsvExecutor(imports)
+        );
+        const parsed = JSON.parse(result);
+
+        expect(parsed.success).toBe(true);
+        expect(imports.map((i) => i.journal)).toEqual(['2025.journal', '2026.journal']);
+        expect(imports[0].csv).toBe(`Account;CH93 0000
+From;30.12.2025
+Date;Description;Amount
+30.12.2025;December Transaction;-50.00
+31.12.2025;"Year-end
+fee";-1.00
+`);
+        expect(imports[1].csv).toBe(`Account;CH93 0000
+From;30.12.2025
+Date;Description;Amount
+05.01.2026;January Transaction;-25.00
+`);
+
+        const mainJournal = fs.readFileSync(path.join(testDir, '.hledger.journal'), 'utf-8');
+        expect(mainJournal).toContain('include ledger/2025.journal');
+        expect(mainJournal).toContain('include ledger/2026.journal');
+
+        // The original CSV is moved to done, the temporary parts are removed
+        expect(fs.existsSync(csvPath)).toBe(false);
+        expect(
+          fs.existsSync(path.join(testDir, 'doc/agent/done/import/ubs/chf/transactions.csv'))
+        ).toBe(true);
+      });
+    });
+
     it('should include transactionYear in file result for single-year CSV', async () => {
       const pendingDir = path.join(testDir, 'doc/agent/todo/import/ubs/chf');
       const rulesDir = path.join(testDir, 'ledger/rules');
@@ -767,26 +917,24 @@ describe('import-statements', () => {
       );
     });
 
-    it('should pick newest file when multiple files match glob pattern', async () => {
+    it('should process every matching file in chronological order', async () => {
       const pendingDir = path.join(testDir, 'doc/agent/todo/import/ubs/chf');
       const rulesDir = path.join(testDir, 'ledger/rules');
       fs.mkdirSync(pendingDir, { recursive: true });
       fs.mkdirSync(rulesDir, { recursive: true });
 
-      // Create two CSV files with different timestamps
-      const olderCsv = path.join(
+      // Write the later statement first, so modification time and period disagree
+      const februaryCsv = path.join(
         pendingDir,
-        'ubs-0235-90250546.0-transactions-2026-01-05-to-2026-01-31.csv'
+        'ubs-0235-90250546.0-transactions-2026-02-01-to-2026-02-28.csv'
       );
-      const newerCsv = path.join(
+      const januaryCsv = path.join(
         pendingDir,
-        'ubs-0235-90250546.0-transactions-2026-02-01-to-2026-02-28.csv'
+        'ubs-0235-90250546.0-transactions-2026-01-05-to-2026-01-31.csv'
       );
-
-      fs.writeFileSync(olderCsv, 'date,amount\n2026-01-01,100');
-      // Wait a bit to ensure different mtime
+      fs.writeFileSync(februaryCsv, 'date,amount\n2026-02-01,200');
       await new Promise((resolve) => globalThis.setTimeout(resolve, 10));
-      fs.writeFileSync(newerCsv, 'date,amount\n2026-02-01,200');
+      fs.writeFileSync(januaryCsv, 'date,amount\n2026-01-05,100');
 
       // Create rules file with glob pattern
       const rulesPath = path.join(rulesDir, 'ubs.rules');
@@ -796,15 +944,268 @@ describe('import-statements', () => {
       );
       fs.writeFileSync(rulesPath, `source ${relativeGlobPattern}\nskip 1`);
 
-      const hledgerOutput = `2026-02-01 Test
-    expenses:test  CHF200.00
-    assets:bank   CHF-200.00
+      const printedFiles: string[] = [];
+      const mockExecutor: HledgerExecutor = async (args) => {
+        printedFiles.push(path.basename(args[2]));
+        return {
+          stdout: '2026-01-05 Test\n    expenses:test  CHF100.00\n    assets:bank   CHF-100.00\n',
+          stderr: '',
+          exitCode: 0,
+        };
+      };
+
+      const result = await importStatements(
+        testDir,
+        'accountant',
+        { checkOnly: true },
+        () => createMockConfig(),
+        mockExecutor
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.summary.filesProcessed).toBe(2);
+      expect(parsed.summary.totalTransactions).toBe(2);
+      expect(parsed.files[0].csv).toContain('2026-01-05-to-2026-01-31');
+      expect(parsed.files[1].csv).toContain('2026-02-01-to-2026-02-28');
+      expect(printedFiles).toEqual([path.basename(januaryCsv), path.basename(februaryCsv)]);
+    });
+
+    it('should import every matching file oldest first and move each to done', async () => {
+      const pendingDir = path.join(testDir, 'doc/agent/todo/import/ubs/chf');
+      const doneDir = path.join(testDir, 'doc/agent/done/import/ubs/chf');
+      const rulesDir = path.join(testDir, 'ledger/rules');
+      fs.mkdirSync(pendingDir, { recursive: true });
+      fs.mkdirSync(rulesDir, { recursive: true });
+      fs.writeFileSync(path.join(testDir, '.hledger.journal'), '; main journal\n');
+
+      const csvNames = [
+        'ubs-transactions-2026-03-01-to-2026-03-31.csv',
+        'ubs-transactions-2026-01-01-to-2026-01-31.csv',
+        'ubs-transactions-2026-02-01-to-2026-02-28.csv',
+      ];
+      for (const name of csvNames) {
+        fs.writeFileSync(path.join(pendingDir, name), 'date,amount\n2026-01-01,100');
+      }
+      fs.writeFileSync(
+        path.join(rulesDir, 'ubs.rules'),
+        `source ${path.relative(rulesDir, path.join(pendingDir, 'ubs-transactions-*.csv'))}\nskip 1`
+      );
+
+      const importedFiles: string[] = [];
+      const mockExecutor: HledgerExecutor = async (args) => {
+        if (args[0] === 'import') {
+          const csvFile = args[args.length - 1];
+          importedFiles.push(path.basename(csvFile));
+          // hledger import leaves a state file next to the CSV
+          fs.writeFileSync(
+            path.join(path.dirname(csvFile), `.latest.${path.basename(csvFile)}`),
+            ''
+          );
+          return { stdout: '', stderr: '', exitCode: 0 };
+        }
+        return {
+          stdout: '2026-01-01 Test\n    expenses:test  CHF100.00\n    assets:bank   CHF-100.00\n',
+          stderr: '',
+          exitCode: 0,
+        };
+      };
+
+      const result = await importStatements(
+        testDir,
+        'accountant',
+        { checkOnly: false },
+        () => createMockConfig(),
+        mockExecutor
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.message).toContain('from 3 file(s)');
+      expect(importedFiles).toEqual([
+        'ubs-transactions-2026-01-01-to-2026-01-31.csv',
+        'ubs-transactions-2026-02-01-to-2026-02-28.csv',
+        'ubs-transactions-2026-03-01-to-2026-03-31.csv',
+      ]);
+      for (const name of csvNames) {
+        expect(fs.existsSync(path.join(doneDir, name))).toBe(true);
+      }
+      expect(fs.readdirSync(pendingDir)).toEqual([]);
+    });
+  });
+
+  describe('duplicate detection', () => {
+    const journalOutput = `2026-01-15 Coffee Shop  ; Transaction no: TX-2001
+    expenses:food                   CHF5.00
+    assets:bank:ubs                CHF-5.00
 `;
 
-      const mockExecutor = createMockHledgerExecutor(
-        new Map([['print', { stdout: hledgerOutput, stderr: '', exitCode: 0 }]])
+    const statementOutput = `2026-01-15 Coffee Shop
+    expenses:food                   CHF5.00
+    assets:bank:ubs                CHF-5.00
+
+2026-01-16 Bakery
+    expenses:food                   CHF3.00
+    assets:bank:ubs                CHF-3.00
+`;
+
+    const setupStatement = (csvContent: string): string => {
+      const pendingDir = path.join(testDir, 'doc/agent/todo/import/ubs/chf');
+      const rulesDir = path.join(testDir, 'ledger/rules');
+      fs.mkdirSync(pendingDir, { recursive: true });
+      fs.mkdirSync(rulesDir, { recursive: true });
+      fs.writeFileSync(path.join(testDir, '.hledger.journal'), '; main journal\n');
+
+      const csvPath = path.join(pendingDir, 'transactions.csv');
+      fs.writeFileSync(csvPath, csvContent);
+      fs.writeFileSync(
+        path.join(rulesDir, 'ubs.rules'),
+        `source ${csvPath}\nfields date, description, amount, transaction_no\naccount1 assets:bank:ubs\n`
+      );
+      return csvPath;
+    };
+
+    const createExecutor = (): HledgerExecutor =>
+      createMockHledgerExecutor(
+        new Map([
+          ['.hledger.journal', { stdout: journalOutput, stderr: '', exitCode: 0 }],
+          ['print', { stdout: statementOutput, stderr: '', exitCode: 0 }],
+          ['import', { stdout: '', stderr: '', exitCode: 0 }],
+        ])
+      );
+
+    it('should report transactions already in the journal by transaction ID', async () => {
+      setupStatement(
+        'date,description,amount,transaction_no\n2026-01-15,Coffee Shop,-5.00,TX-2001\n2026-01-16,Bakery,-3.00,TX-2002\n'
+      );
+
+      const result = await importStatements(
+        testDir,
+        'accountant',
+        { checkOnly: true },
+        () => createMockConfig(),
+        createExecutor()
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.summary.duplicates).toBe(1);
+      expect(parsed.message).toContain('already in the journal');
+      expect(parsed.files[0].duplicates).toEqual([
+        {
+          date: '2026-01-15',
+          description: 'Coffee Shop',
+          amount: 'CHF-5.00',
+          reason: 'transaction-id',
+          transactionId: 'TX-2001',
+          existing: { date: '2026-01-15', description: 'Coffee Shop' },
+        },
+      ]);
+    });
+
+    it("should read the CSV amounts in the rules file's decimal mark", async () => {
+      const csvPath = setupStatement(
+        'date;description;amount;transaction_no\n2026-01-15;Coffee Shop;-5,00;TX-2001\n2026-01-16;Bakery;-3,00;TX-2002\n'
+      );
+      fs.writeFileSync(
+        path.join(testDir, 'ledger/rules/ubs.rules'),
+        `source ${csvPath}\nseparator ;\nfields date, description, amount, transaction_no\ndecimal-mark ,\naccount1 assets:bank:ubs\n`
+      );
+
+      const result = await importStatements(
+        testDir,
+        'accountant',
+        { checkOnly: true },
+        () => createMockConfig(),
+        createExecutor()
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.files[0].duplicates).toEqual([
+        expect.objectContaining({ reason: 'transaction-id', transactionId: 'TX-2001' }),
+      ]);
+    });
+
+    it('should abort the import when duplicates are found', async () => {
+      const csvPath = setupStatement(
+        'date,description,amount,transaction_no\n2026-01-15,Coffee Shop,-5.00,\n2026-01-16,Bakery,-3.00,\n'
+      );
+
+      const result = await importStatements(
+        testDir,
+        'accountant',
+        { checkOnly: false },
+        () => createMockConfig(),
+        createExecutor()
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error).toContain('already in the journal');
+      expect(parsed.hint).toContain('allowDuplicates');
+      expect(parsed.files[0].duplicates[0].reason).toBe('date-amount-description');
+      expect(fs.existsSync(csvPath)).toBe(true);
+    });
+
+    it('should import duplicates when allowDuplicates is set', async () => {
+      const csvPath = setupStatement(
+        'date,description,amount,transaction_no\n2026-01-15,Coffee Shop,-5.00,\n2026-01-16,Bakery,-3.00,\n'
+      );
+
+      const result = await importStatements(
+        testDir,
+        'accountant',
+        { checkOnly: false, allowDuplicates: true },
+        () => createMockConfig(),
+        createExecutor()
+      );
+      const parsed = JSON.parse(result);
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.summary.duplicates).toBe(1);
+      expect(fs.existsSync(csvPath)).toBe(false);
+    });
+
+    it('should report transactions of an earlier statement of the same run', async () => {
+      const pendingDir = path.join(testDir, 'doc/agent/todo/import/ubs/chf');
+      const rulesDir = path.join(testDir, 'ledger/rules');
+      fs.mkdirSync(pendingDir, { recursive: true });
+      fs.mkdirSync(rulesDir, { recursive: true });
+      fs.writeFileSync(path.join(testDir, '.hledger.journal'), '; main journal\n');
+      fs.writeFileSync(
+        path.join(rulesDir, 'ubs.rules'),
+        `source ${pendingDir}/*.csv\nfields date, description, amount, transaction_no\naccount1 assets:bank:ubs\n`
+      );
+      const header = 'date,description,amount,transaction_no\n';
+      fs.writeFileSync(
+        path.join(pendingDir, 'ubs-2026-01-01-to-2026-01-31.csv'),
+        `${header}2026-01-15,Coffee Shop,-5.00,TX-2001\n`
+      );
+      fs.writeFileSync(
+        path.join(pendingDir, 'ubs-2026-01-01-to-2026-03-31.csv'),
+        `${header}2026-01-15,Coffee Shop,-5.00,TX-2001\n2026-02-10,Bakery,-3.00,TX-2002\n`
       );
 
+      const mockExecutor: HledgerExecutor = async (args) => {
+        if (args[2].endsWith('.hledger.journal')) {
+          return { stdout: '', stderr: '', exitCode: 0 };
+        }
+        const monthly = `2026-01-15 Coffee Shop
+    expenses:food                   CHF5.00
+    assets:bank:ubs                CHF-5.00
+`;
+        const quarterly = `${monthly}
+2026-02-10 Bakery
+    expenses:food                   CHF3.00
+    assets:bank:ubs                CHF-3.00
+`;
+        return {
+          stdout: args[2].includes('2026-01-31') ? monthly : quarterly,
+          stderr: '',
+          exitCode: 0,
+        };
+      };
+
       const result = await importStatements(
         testDir,
         'accountant',
@@ -814,10 +1215,140 @@ describe('import-statements', () => {
       );
       const parsed = JSON.parse(result);
 
+      expect(parsed.success).toBe(false);
+      expect(parsed.summary.duplicates).toBe(1);
+      expect(parsed.files[0].duplicates).toEqual([]);
+      expect(parsed.files[1].duplicates).toEqual([
+        {
+          date: '2026-01-15',
+          description: 'Coffee Shop',
+          amount: 'CHF-5.00',
+          reason: 'transaction-id',
+          transactionId: 'TX-2001',
+          existing: {
+            date: '2026-01-15',
+            description: 'Coffee Shop',
+            csv: 'doc/agent/todo/import/ubs/chf/ubs-2026-01-01-to-2026-01-31.csv',
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('balance assertions', () => {
+    const assertionConfig = (): ImportConfig => ({
+      ...createMockConfig(),
+      providers: {
+        ubs: {
+          detect: [
+            {
+              header: 'Date,Description,Amount,Currency',
+              currencyField: 'Currency',
+              skipRows: 2,
+              delimiter: ';',
+              metadata: [
+                { field: 'closing-balance', row: 0, column: 1 },
+                { field: 'until-date', row: 1, column: 1 },
+              ],
+            },
+          ],
+          currencies: { CHF: 'chf' },
+        },
+      },
+    });
+
+    const importStatement = async (csvContent: string, config = assertionConfig()) => {
+      const pendingDir = path.join(testDir, 'doc/agent/todo/import/ubs/chf');
+      const rulesDir = path.join(testDir, 'ledger/rules');
+      fs.mkdirSync(pendingDir, { recursive: true });
+      fs.mkdirSync(rulesDir, { recursive: true });
+      fs.writeFileSync(path.join(testDir, '.hledger.journal'), '; main journal\n');
+
+      const csvPath = path.join(pendingDir, 'ubs-2026-01.csv');
+      fs.writeFileSync(csvPath, csvContent);
+      fs.writeFileSync(
+        path.join(rulesDir, 'ubs.rules'),
+        `source ${csvPath}\nskip 2\nseparator ;\nfields date, description, amount, currency\naccount1 assets:bank:ubs\n`
+      );
+
+      const mockExecutor = createMockHledgerExecutor(
+        new Map([
+          [
+            'print',
+            {
+              stdout:
+                '2026-01-20 Shop\n    expenses:shopping  CHF10.00\n    assets:bank:ubs  CHF-10.00\n',
+              stderr: '',
+              exitCode: 0,
+            },
+          ],
+          ['import', { stdout: '', stderr: '', exitCode: 0 }],
+        ])
+      );
+
+      const result = await importStatements(
+        testDir,
+        'accountant',
+        { checkOnly: false, allowDuplicates: true },
+        () => config,
+        mockExecutor
+      );
+      return JSON.parse(result);
+    };
+
+    it('should write the closing balance from metadata as a balance assertion', async () => {
+      const parsed = await importStatement(
+        "Closing balance;2'324.79\nUntil;31.01.2026\nDate;Description;Amount;Currency\n2026-01-20;Shop;-10.00;CHF\n"
+      );
+
       expect(parsed.success).toBe(true);
-      expect(parsed.summary.filesProcessed).toBe(1);
-      // Should process the newer file
-      expect(parsed.files[0].csv).toContain('2026-02-01-to-2026-02-28');
+      expect(parsed.files[0].balanceAssertion).toEqual({
+        journal: 'ledger/2026.journal',
+        date: '2026-01-31',
+        account: 'assets:bank:ubs',
+        balance: 'CHF 2324.79',
+      });
+      const yearJournal = fs.readFileSync(path.join(testDir, 'ledger/2026.journal'), 'utf-8');
+      expect(yearJournal).toContain(
+        '2026-01-31 Closing balance  ; statement: ubs-2026-01.csv\n    assets:bank:ubs  0 = CHF 2324.79\n'
+      );
+    });
+
+    it('should read the closing balance in the number format of the detection rule', async () => {
+      const config = assertionConfig();
+      config.providers.ubs.detect[0].numberFormat = { decimalMark: ',' };
+      const parsed = await importStatement(
+        'Closing balance;1.234,5\nUntil;31.01.2026\nDate;Description;Amount;Currency\n2026-01-20;Shop;-10,00;CHF\n',
+        config
+      );
+
+      expect(parsed.files[0].balanceAssertion?.balance).toBe('CHF 1234.50');
+    });
+
+    it('should not write an assertion without closing balance metadata', async () => {
+      const parsed = await importStatement(
+        'Closing balance;\nUntil;31.01.2026\nDate;Description;Amount;Currency\n2026-01-20;Shop;-10.00;CHF\n'
+      );
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.files[0].balanceAssertion).toBeUndefined();
+      const yearJournal = fs.readFileSync(path.join(testDir, 'ledger/2026.journal'), 'utf-8');
+      expect(yearJournal).not.toContain('Closing balance');
+    });
+
+    it('should not write an assertion for a currency part of a split statement', async () => {
+      const config = assertionConfig();
+      const content =
+        "Closing balance;2'324.79\nUntil;31.01.2026\nDate;Description;Amount;Currency\n" +
+        '2026-01-20;Shop;-10.00;CHF\n2026-01-21;Hotel;-50.00;EUR\n';
+      const parts = splitByCurrency(content, detectProvider('ubs.csv', content, config)!, config);
+
+      const parsed = await importStatement(parts.get('chf')!, config);
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.files[0].balanceAssertion).toBeUndefined();
+      const yearJournal = fs.readFileSync(path.join(testDir, 'ledger/2026.journal'), 'utf-8');
+      expect(yearJournal).not.toContain('Closing balance');
     });
   });
 });
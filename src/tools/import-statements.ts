@@ -1,7 +1,7 @@
 import { tool } from '@opencode-ai/plugin';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { glob } from 'glob';
 import { checkAccountantAgent } from '../utils/agentRestriction.ts';
 import { type ImportConfig, loadImportConfig } from '../utils/importConfig.ts';
 import { findRulesForCsv, loadRulesMapping, type RulesMapping } from '../utils/rulesMatcher.ts';
@@ -14,9 +14,30 @@ import {
   type UnknownPosting,
   validateLedger,
 } from '../utils/hledgerExecutor.ts';
-import { parseRulesFile } from '../utils/rulesParser.ts';
-import { findMatchingCsvRow, parseCsvFile } from '../utils/csvParser.ts';
-import { ensureYearJournalExists, findCsvFiles } from '../utils/journalUtils.ts';
+import { getAccountFromRulesFile, getRulesConfig, readRulesFile } from '../utils/rulesParser.ts';
+import {
+  findMatchingCsvRow,
+  findTransactionId,
+  parseCsvFile,
+  resolveNumberFormat,
+  splitCsvContentByYear,
+} from '../utils/csvParser.ts';
+import {
+  type DuplicateTransaction,
+  type PrintedTransaction,
+  findDuplicateTransactions,
+  parsePrintedTransactions,
+} from '../utils/duplicateDetector.ts';
+import {
+  appendBalanceAssertion,
+  type BalanceAssertion,
+  ensureYearJournalExists,
+  findCsvFiles,
+} from '../utils/journalUtils.ts';
+import { detectProvider } from '../utils/providerDetector.ts';
+import { writeStarterRules } from '../utils/rulesGenerator.ts';
+import { normalizeStatementDate } from '../utils/dateUtils.ts';
+import { normalizeBalance, type NumberFormat } from '../utils/balanceUtils.ts';
 
 /**
  * Result for single CSV file processing
@@ -27,10 +48,34 @@ interface FileResult {
   totalTransactions: number;
   matchedTransactions: number;
   unknownPostings: UnknownPosting[];
+  /**
+   * Transactions that are already in the journal for the rules file's account1, or in an
+   * earlier statement of the same rules file
+   */
+  duplicates?: DuplicateTransaction[];
   transactionYear?: number;
+  /** Years of a CSV spanning several years; it is imported as one temporary CSV per year */
+  transactionYears?: number[];
+  /** Path of the CSV in the done directory, once imported */
+  doneFile?: string;
+  /** Balance assertion written from the statement's closing-balance metadata */
+  balanceAssertion?: {
+    journal: string;
+    date: string;
+    account: string;
+    balance: string;
+  };
   error?: string;
 }
 
+/**
+ * Per-year parts of a multi-year CSV, written to a temporary directory
+ */
+interface YearParts {
+  tempDir: string;
+  parts: { year: number; csv: string }[];
+}
+
 /**
  * Overall result of the import-statements tool
  */
@@ -44,7 +89,10 @@ interface ImportStatementsResult {
     totalTransactions: number;
     matched: number;
     unknown: number;
+    duplicates?: number;
   };
+  /** Starter rules files written for CSVs without a rules file */
+  rulesGenerated?: string[];
   message?: string;
   error?: string;
   hint?: string;
@@ -68,7 +116,8 @@ function buildErrorResultWithDetails(
   error: string,
   files: FileResult[],
   summary: ImportStatementsResult['summary'],
-  hint?: string
+  hint?: string,
+  rulesGenerated?: string[]
 ): string {
   return JSON.stringify({
     success: false,
@@ -76,6 +125,7 @@ function buildErrorResultWithDetails(
     hint,
     files,
     summary,
+    rulesGenerated,
   } satisfies ImportStatementsResult);
 }
 
@@ -96,38 +146,110 @@ function buildSuccessResult(
 }
 
 /**
- * Find the CSV file that matches the source directive in a rules file.
- * Returns the newest matching file (matching hledger's behavior).
- * Returns null if no source directive found or no files match.
+ * Determines the start of the period covered by a statement: the from-date
+ * metadata extracted by the provider's detection rule, or else the first date
+ * in the filename (e.g., "ubs-...-transactions-2026-01-05-to-2026-01-31.csv").
  */
-function findCsvFromRulesFile(rulesFile: string): string | null {
-  const content = fs.readFileSync(rulesFile, 'utf-8');
-
-  // Parse source directive
-  const match = content.match(/^source\s+([^\n#]+)/m);
-  if (!match) {
-    return null;
+function getStatementStartDate(csvFile: string, config: ImportConfig): string | null {
+  try {
+    const content = fs.readFileSync(csvFile, 'utf-8');
+    const fromDate = detectProvider(path.basename(csvFile), content, config)?.metadata?.[
+      'from-date'
+    ];
+    const normalized = fromDate ? normalizeStatementDate(fromDate) : null;
+    if (normalized) {
+      return normalized;
+    }
+  } catch {
+    // Fall back to the filename
   }
-  const sourcePath = match[1].trim();
-
-  const rulesDir = path.dirname(rulesFile);
-  const absolutePattern = path.resolve(rulesDir, sourcePath);
 
-  // Use glob to find matching files
-  const matches = glob.sync(absolutePattern);
+  return normalizeStatementDate(path.basename(csvFile));
+}
 
-  if (matches.length === 0) {
-    return null;
+/**
+ * Determines how a statement writes amounts, from the number format of the
+ * provider's detection rule or else the rules file's decimal-mark directive
+ * (undefined for the default format).
+ */
+function getStatementNumberFormat(
+  csvFile: string,
+  rulesFile: string,
+  config: ImportConfig
+): NumberFormat | undefined {
+  try {
+    const content = fs.readFileSync(csvFile, 'utf-8');
+    return resolveNumberFormat(
+      getRulesConfig(readRulesFile(rulesFile)),
+      detectProvider(path.basename(csvFile), content, config)?.rule.numberFormat
+    );
+  } catch {
+    return undefined;
   }
+}
 
-  // Sort by modification time, newest first (matching hledger's behavior)
-  matches.sort((a, b) => {
-    const aStat = fs.statSync(a);
-    const bStat = fs.statSync(b);
-    return bStat.mtime.getTime() - aStat.mtime.getTime();
+/**
+ * Sorts the CSV files of a rules file chronologically by statement start date.
+ * Files without a known start date come last, ordered by filename.
+ */
+function sortStatementsChronologically(csvFiles: string[], config: ImportConfig): string[] {
+  const startDates = new Map(csvFiles.map((file) => [file, getStatementStartDate(file, config)]));
+
+  return [...csvFiles].sort((a, b) => {
+    const aDate = startDates.get(a);
+    const bDate = startDates.get(b);
+    if (aDate && bDate && aDate !== bDate) {
+      return aDate.localeCompare(bDate);
+    }
+    if (aDate && !bDate) {
+      return -1;
+    }
+    if (!aDate && bDate) {
+      return 1;
+    }
+    return path.basename(a).localeCompare(path.basename(b));
   });
+}
+
+/**
+ * Builds the balance assertion for a statement from the closing-balance and until-date
+ * metadata extracted by the provider's detection rule. The commodity is taken from the
+ * closing balance, or else from the detected currency; all decimals are kept.
+ * Returns null if the metadata or the rules file's account1 is missing.
+ */
+function buildStatementBalanceAssertion(
+  csvFile: string,
+  rulesFile: string,
+  config: ImportConfig
+): BalanceAssertion | null {
+  const detection = detectProvider(
+    path.basename(csvFile),
+    fs.readFileSync(csvFile, 'utf-8'),
+    config
+  );
+  const closingBalance = detection?.metadata?.['closing-balance'];
+  const untilDate = detection?.metadata?.['until-date'];
+  const date = untilDate ? normalizeStatementDate(untilDate) : null;
+  const balance =
+    detection && closingBalance
+      ? normalizeBalance(
+          closingBalance,
+          detection.currency.toUpperCase(),
+          getStatementNumberFormat(csvFile, rulesFile, config)
+        )
+      : null;
+  const account = getAccountFromRulesFile(rulesFile);
+  if (!balance || !date || !account) {
+    return null;
+  }
 
-  return matches[0];
+  return {
+    date,
+    account,
+    balance,
+    description: 'Closing balance',
+    comment: `statement: ${path.basename(csvFile)}`,
+  };
 }
 
 /**
@@ -139,48 +261,92 @@ async function executeImports(
   directory: string,
   pendingDir: string,
   doneDir: string,
+  config: ImportConfig,
   hledgerExecutor: HledgerExecutor
 ): Promise<{ success: boolean; error?: string; hint?: string; importedCount?: number }> {
-  const importedFiles: string[] = [];
+  const importedFiles: { fileResult: FileResult; csvFile: string }[] = [];
 
   for (const fileResult of fileResults) {
     const rulesFile = fileResult.rulesFile ? path.join(directory, fileResult.rulesFile) : null;
     if (!rulesFile) continue; // Already handled above
 
-    // Ensure the year journal exists
-    const year = fileResult.transactionYear;
-    if (!year) {
+    const years =
+      fileResult.transactionYears ??
+      (fileResult.transactionYear ? [fileResult.transactionYear] : []);
+    if (years.length === 0) {
       return {
         success: false,
         error: `No transactions found in ${fileResult.csv}`,
       };
     }
 
-    let yearJournalPath: string;
+    // Import this CSV explicitly; the rules file's source directive would only pick the newest file.
+    // A multi-year CSV is imported year by year, each part into its own year journal.
+    const csvFile = path.join(directory, fileResult.csv);
+    let yearParts: YearParts | undefined;
     try {
-      yearJournalPath = ensureYearJournalExists(directory, year);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        success: false,
-        error: errorMessage,
-      };
+      const inputs =
+        years.length > 1
+          ? (yearParts = writeYearParts(csvFile, rulesFile)).parts
+          : [{ year: years[0], csv: csvFile }];
+
+      for (const input of inputs) {
+        // Ensure the year journal exists
+        let yearJournalPath: string;
+        try {
+          yearJournalPath = ensureYearJournalExists(directory, input.year);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          return {
+            success: false,
+            error: errorMessage,
+          };
+        }
+
+        const result = await hledgerExecutor([
+          'import',
+          '-f',
+          yearJournalPath,
+          '--rules-file',
+          rulesFile,
+          input.csv,
+        ]);
+
+        if (result.exitCode !== 0) {
+          const yearSuffix = years.length > 1 ? ` (${input.year})` : '';
+          return {
+            success: false,
+            error: `Import failed for ${fileResult.csv}${yearSuffix}: ${result.stderr.trim()}`,
+          };
+        }
+      }
+    } finally {
+      if (yearParts) {
+        fs.rmSync(yearParts.tempDir, { recursive: true, force: true });
+      }
     }
 
-    const result = await hledgerExecutor(['import', '-f', yearJournalPath, rulesFile]);
-
-    if (result.exitCode !== 0) {
-      return {
-        success: false,
-        error: `Import failed for ${fileResult.csv}: ${result.stderr.trim()}`,
-      };
+    // Assert the statement's closing balance, so later journal edits that break it fail validation
+    const assertion = buildStatementBalanceAssertion(csvFile, rulesFile, config);
+    if (assertion) {
+      try {
+        const journalPath = ensureYearJournalExists(directory, parseInt(assertion.date, 10));
+        appendBalanceAssertion(journalPath, assertion);
+        fileResult.balanceAssertion = {
+          journal: path.relative(directory, journalPath),
+          date: assertion.date,
+          account: assertion.account,
+          balance: assertion.balance,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
     }
 
-    // Find which CSV was actually imported via the source directive
-    const importedCsv = findCsvFromRulesFile(rulesFile);
-    if (importedCsv) {
-      importedFiles.push(importedCsv);
-    }
+    importedFiles.push({ fileResult, csvFile });
   }
 
   // Validate the ledger after all imports to ensure integrity
@@ -191,12 +357,12 @@ async function executeImports(
     return {
       success: false,
       error: `Ledger validation failed after import: ${validationResult.errors.join('; ')}`,
-      hint: 'The import created invalid transactions. Check your rules file configuration. CSV files have NOT been moved to done.',
+      hint: 'The import created invalid transactions, or a statement closing balance assertion failed (the journal balance differs from the statement). Check your rules file configuration. CSV files have NOT been moved to done.',
     };
   }
 
   // Move imported files to the done directory
-  for (const csvFile of importedFiles) {
+  for (const { fileResult, csvFile } of importedFiles) {
     const relativePath = path.relative(pendingDir, csvFile);
     const destPath = path.join(doneDir, relativePath);
     const destDir = path.dirname(destPath);
@@ -206,6 +372,13 @@ async function executeImports(
     }
 
     fs.renameSync(csvFile, destPath);
+    fileResult.doneFile = path.relative(directory, destPath);
+
+    // hledger import leaves a .latest.<csv> state file next to the CSV; it is meaningless once moved
+    const latestFile = path.join(path.dirname(csvFile), `.latest.${path.basename(csvFile)}`);
+    if (fs.existsSync(latestFile)) {
+      fs.rmSync(latestFile);
+    }
   }
 
   return {
@@ -214,14 +387,190 @@ async function executeImports(
   };
 }
 
+/**
+ * Splits a multi-year CSV into temporary per-year CSVs (see splitCsvContentByYear).
+ * The caller removes the temporary directory when done.
+ */
+function writeYearParts(csvFile: string, rulesFile: string): YearParts {
+  const rulesConfig = getRulesConfig(readRulesFile(rulesFile));
+  const split = splitCsvContentByYear(fs.readFileSync(csvFile, 'utf-8'), rulesConfig);
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-split-'));
+  const baseName = path.basename(csvFile, path.extname(csvFile));
+  const parts = Array.from(split.entries()).map(([year, content]) => {
+    const csv = path.join(tempDir, `${baseName}-${year}.csv`);
+    fs.writeFileSync(csv, content);
+    return { year, csv };
+  });
+
+  return { tempDir, parts };
+}
+
+/**
+ * Checks that the per-year parts of a multi-year CSV add up to the original:
+ * one part per year, each with transactions of its year only, and as many
+ * transactions in total as the original CSV.
+ *
+ * @returns An error message, or null if the split is consistent
+ */
+async function verifyYearParts(
+  yearParts: YearParts,
+  years: number[],
+  transactionCount: number,
+  rulesFile: string,
+  hledgerExecutor: HledgerExecutor
+): Promise<string | null> {
+  const partYears = yearParts.parts.map((part) => part.year);
+  const missing = years.filter((year) => !partYears.includes(year));
+  if (missing.length > 0) {
+    return `no rows found for ${missing.join(', ')}. Check the date field and date-format in the rules file.`;
+  }
+
+  let partsTransactionCount = 0;
+  for (const part of yearParts.parts) {
+    const result = await hledgerExecutor(['print', '-f', part.csv, '--rules-file', rulesFile]);
+    if (result.exitCode !== 0) {
+      return `hledger error for the ${part.year} part: ${result.stderr.trim() || 'Unknown error'}`;
+    }
+
+    const otherYears = Array.from(extractTransactionYears(result.stdout)).filter(
+      (year) => year !== part.year
+    );
+    if (otherYears.length > 0) {
+      return `the ${part.year} part also contains transactions from ${otherYears.join(', ')}`;
+    }
+    partsTransactionCount += countTransactions(result.stdout);
+  }
+
+  if (partsTransactionCount !== transactionCount) {
+    return `the parts contain ${partsTransactionCount} transaction(s), the CSV ${transactionCount}`;
+  }
+
+  return null;
+}
+
+/**
+ * Finds transactions of a CSV that are already in the journal, or in an earlier statement
+ * of the same rules file imported in the same run (e.g., overlapping monthly and quarterly exports).
+ * Candidates from the dry run are compared with the journal's transactions for the
+ * rules file's account1 by transaction ID (if the CSV has one) or by date, amount and description.
+ *
+ * @param earlierStatements Transactions of the earlier statements of the rules file; the
+ *   candidates of this CSV are appended for the statements after it
+ * @returns The suspected duplicates, or undefined if the check could not run
+ *   (no account1 directive, no main journal, or hledger failed)
+ */
+async function detectDuplicates(
+  csvFile: string,
+  rulesFile: string,
+  printOutput: string,
+  directory: string,
+  numberFormat: NumberFormat | undefined,
+  hledgerExecutor: HledgerExecutor,
+  earlierStatements: PrintedTransaction[]
+): Promise<DuplicateTransaction[] | undefined> {
+  const account = getAccountFromRulesFile(rulesFile);
+  const mainJournalPath = path.join(directory, '.hledger.journal');
+  if (!account || !fs.existsSync(mainJournalPath)) {
+    return undefined;
+  }
+
+  const candidates = parsePrintedTransactions(printOutput, account);
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const journalResult = await hledgerExecutor(['print', '-f', mainJournalPath, '-I', account]);
+  if (journalResult.exitCode !== 0) {
+    return undefined;
+  }
+
+  // Look up the transaction ID of each candidate in its CSV row
+  let transactionIds: (string | undefined)[] = [];
+  try {
+    const rulesConfig = getRulesConfig(readRulesFile(rulesFile));
+    const csvRows = parseCsvFile(csvFile, rulesConfig);
+    transactionIds = candidates.map((candidate) => {
+      try {
+        const row = findMatchingCsvRow(candidate, csvRows, rulesConfig, numberFormat);
+        return findTransactionId(row)?.value;
+      } catch {
+        return undefined;
+      }
+    });
+  } catch {
+    // Without CSV rows, fall back to date, amount and description
+  }
+
+  const existing = [
+    ...parsePrintedTransactions(journalResult.stdout, account),
+    ...earlierStatements,
+  ];
+  const duplicates = findDuplicateTransactions(candidates, existing, transactionIds);
+
+  // Later statements find this CSV's transactions by their transaction ID as code
+  const csv = path.relative(directory, csvFile);
+  candidates.forEach((candidate, index) => {
+    earlierStatements.push({ ...candidate, code: transactionIds[index] ?? candidate.code, csv });
+  });
+
+  return duplicates;
+}
+
+/**
+ * Writes starter rules files for the CSVs without a rules file whose provider is detected.
+ *
+ * @returns The rules files written, and why no rules file was written for the other CSVs
+ */
+function generateMissingRules(
+  csvFiles: string[],
+  rulesMapping: RulesMapping,
+  rulesDir: string,
+  config: ImportConfig
+): { generated: string[]; failures: Map<string, string> } {
+  const generated: string[] = [];
+  const failures = new Map<string, string>();
+
+  for (const csvFile of csvFiles) {
+    if (findRulesForCsv(csvFile, rulesMapping)) {
+      continue;
+    }
+    const detection = detectProvider(
+      path.basename(csvFile),
+      fs.readFileSync(csvFile, 'utf-8'),
+      config
+    );
+    if (!detection) {
+      continue;
+    }
+    try {
+      const starter = writeStarterRules(csvFile, detection, rulesDir);
+      if (starter) {
+        generated.push(starter.rulesFile);
+        // Later CSVs of the same account use the rules file just written
+        Object.assign(rulesMapping, loadRulesMapping(rulesDir));
+      }
+    } catch (error) {
+      failures.set(csvFile, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return { generated, failures };
+}
+
 /**
  * Processes a single CSV file and returns its processing result
+ *
+ * @param earlierStatements Transactions of the earlier statements of the same rules file,
+ *   checked for duplicates (see detectDuplicates)
  */
 async function processCsvFile(
   csvFile: string,
   rulesMapping: RulesMapping,
   directory: string,
-  hledgerExecutor: HledgerExecutor
+  config: ImportConfig,
+  hledgerExecutor: HledgerExecutor,
+  earlierStatements: PrintedTransaction[] = []
 ): Promise<FileResult> {
   const rulesFile = findRulesForCsv(csvFile, rulesMapping);
 
@@ -236,8 +585,8 @@ async function processCsvFile(
     };
   }
 
-  // Run hledger print for dry-run check
-  const result = await hledgerExecutor(['print', '-f', rulesFile]);
+  // Run hledger print for dry-run check (this CSV only, not the rules file's source directive)
+  const result = await hledgerExecutor(['print', '-f', csvFile, '--rules-file', rulesFile]);
 
   if (result.exitCode !== 0) {
     return {
@@ -254,27 +603,49 @@ async function processCsvFile(
   const transactionCount = countTransactions(result.stdout);
   const matchedCount = transactionCount - unknownPostings.length;
 
-  // Extract transaction years and validate single-year constraint
-  const years = extractTransactionYears(result.stdout);
-  if (years.size > 1) {
-    const yearList = Array.from(years).sort().join(', ');
-    return {
-      csv: path.relative(directory, csvFile),
-      rulesFile: path.relative(directory, rulesFile),
-      totalTransactions: transactionCount,
-      matchedTransactions: matchedCount,
-      unknownPostings: [],
-      error: `CSV contains transactions from multiple years (${yearList}). Split the CSV by year before importing.`,
-    };
+  // Extract transaction years; a multi-year CSV must split cleanly into one part per year
+  const years = Array.from(extractTransactionYears(result.stdout)).sort((a, b) => a - b);
+  if (years.length > 1) {
+    let splitError: string | null;
+    let yearParts: YearParts | undefined;
+    try {
+      yearParts = writeYearParts(csvFile, rulesFile);
+      splitError = await verifyYearParts(
+        yearParts,
+        years,
+        transactionCount,
+        rulesFile,
+        hledgerExecutor
+      );
+    } catch (error) {
+      splitError = error instanceof Error ? error.message : String(error);
+    } finally {
+      if (yearParts) {
+        fs.rmSync(yearParts.tempDir, { recursive: true, force: true });
+      }
+    }
+
+    if (splitError) {
+      return {
+        csv: path.relative(directory, csvFile),
+        rulesFile: path.relative(directory, rulesFile),
+        totalTransactions: transactionCount,
+        matchedTransactions: matchedCount,
+        unknownPostings: [],
+        error: `CSV contains transactions from multiple years (${years.join(', ')}) and could not be split by year: ${splitError}`,
+      };
+    }
   }
 
-  const transactionYear = years.size === 1 ? Array.from(years)[0] : undefined;
+  const transactionYear = years.length === 1 ? years[0] : undefined;
+  const transactionYears = years.length > 1 ? years : undefined;
+
+  const numberFormat = getStatementNumberFormat(csvFile, rulesFile, config);
 
   // If there are unknown postings, attach the full CSV row data for context
   if (unknownPostings.length > 0) {
     try {
-      const rulesContent = fs.readFileSync(rulesFile, 'utf-8');
-      const rulesConfig = parseRulesFile(rulesContent);
+      const rulesConfig = getRulesConfig(readRulesFile(rulesFile));
       const csvRows = parseCsvFile(csvFile, rulesConfig);
 
       for (const posting of unknownPostings) {
@@ -285,7 +656,8 @@ async function processCsvFile(
             amount: posting.amount,
           },
           csvRows,
-          rulesConfig
+          rulesConfig,
+          numberFormat
         );
       }
     } catch {
@@ -297,13 +669,25 @@ async function processCsvFile(
     }
   }
 
+  const duplicates = await detectDuplicates(
+    csvFile,
+    rulesFile,
+    result.stdout,
+    directory,
+    numberFormat,
+    hledgerExecutor,
+    earlierStatements
+  );
+
   return {
     csv: path.relative(directory, csvFile),
     rulesFile: path.relative(directory, rulesFile),
     totalTransactions: transactionCount,
     matchedTransactions: matchedCount,
     unknownPostings,
+    duplicates,
     transactionYear,
+    transactionYears,
   };
 }
 
@@ -317,6 +701,8 @@ export async function importStatements(
     provider?: string;
     currency?: string;
     checkOnly?: boolean;
+    /** Import even if transactions are already in the journal */
+    allowDuplicates?: boolean;
   },
   configLoader: (configDir: string) => ImportConfig = loadImportConfig,
   hledgerExecutor: HledgerExecutor = defaultHledgerExecutor
@@ -349,6 +735,16 @@ export async function importStatements(
   // Find CSV files to process
   const csvFiles = findCsvFiles(pendingDir, options.provider, options.currency);
 
+  // Write starter rules files for newly detected providers, so their CSVs get a dry run
+  const { generated, failures: generationFailures } = generateMissingRules(
+    csvFiles,
+    rulesMapping,
+    rulesDir,
+    config
+  );
+  const rulesGenerated =
+    generated.length > 0 ? generated.map((file) => path.relative(directory, file)) : undefined;
+
   if (csvFiles.length === 0) {
     return buildSuccessResult(
       [],
@@ -368,13 +764,13 @@ export async function importStatements(
   let totalTransactions = 0;
   let totalMatched = 0;
   let totalUnknown = 0;
+  let totalDuplicates = 0;
   let filesWithErrors = 0;
   let filesWithoutRules = 0;
 
   // Group CSV files by their matching rules file
-  // When using glob patterns, multiple CSV files may match the same rules file.
-  // We only want to process each rules file once, using the newest matching CSV
-  // (matching hledger's native behavior).
+  // When using glob patterns, multiple CSV files may match the same rules file
+  // (e.g., several monthly statements of one account). All of them are processed.
   const rulesFileToCSVs = new Map<string, string[]>();
   const csvsWithoutRules: string[] = [];
 
@@ -392,7 +788,17 @@ export async function importStatements(
 
   // Process CSVs without rules
   for (const csvFile of csvsWithoutRules) {
-    const fileResult = await processCsvFile(csvFile, rulesMapping, directory, hledgerExecutor);
+    const fileResult = await processCsvFile(
+      csvFile,
+      rulesMapping,
+      directory,
+      config,
+      hledgerExecutor
+    );
+    const generationFailure = generationFailures.get(csvFile);
+    if (generationFailure) {
+      fileResult.error = `${fileResult.error} (no starter rules file written: ${generationFailure})`;
+    }
     fileResults.push(fileResult);
 
     if (fileResult.error) {
@@ -404,37 +810,40 @@ export async function importStatements(
     totalUnknown += fileResult.unknownPostings.length;
   }
 
-  // Process each rules file with its newest matching CSV
+  // Process every CSV of each rules file, oldest statement first, so they are imported in order
   for (const [_rulesFile, matchingCSVs] of rulesFileToCSVs.entries()) {
-    // Sort by modification time, newest first (matching hledger's behavior)
-    matchingCSVs.sort((a, b) => {
-      const aStat = fs.statSync(a);
-      const bStat = fs.statSync(b);
-      return bStat.mtime.getTime() - aStat.mtime.getTime();
-    });
-
-    // Process only the newest CSV
-    const newestCSV = matchingCSVs[0];
-    const fileResult = await processCsvFile(newestCSV, rulesMapping, directory, hledgerExecutor);
-    fileResults.push(fileResult);
+    const earlierStatements: PrintedTransaction[] = [];
+    for (const csvFile of sortStatementsChronologically(matchingCSVs, config)) {
+      const fileResult = await processCsvFile(
+        csvFile,
+        rulesMapping,
+        directory,
+        config,
+        hledgerExecutor,
+        earlierStatements
+      );
+      fileResults.push(fileResult);
+
+      // Update counters
+      if (fileResult.error) {
+        filesWithErrors++;
+      }
 
-    // Update counters
-    if (fileResult.error) {
-      filesWithErrors++;
+      totalTransactions += fileResult.totalTransactions;
+      totalMatched += fileResult.matchedTransactions;
+      totalUnknown += fileResult.unknownPostings.length;
+      totalDuplicates += fileResult.duplicates?.length ?? 0;
     }
-
-    totalTransactions += fileResult.totalTransactions;
-    totalMatched += fileResult.matchedTransactions;
-    totalUnknown += fileResult.unknownPostings.length;
   }
 
   const hasUnknowns = totalUnknown > 0;
   const hasErrors = filesWithErrors > 0 || filesWithoutRules > 0;
+  const hasBlockingDuplicates = totalDuplicates > 0 && !options.allowDuplicates;
 
   // Check-only mode: just report results
   if (options.checkOnly !== false) {
     const result: ImportStatementsResult = {
-      success: !hasUnknowns && !hasErrors,
+      success: !hasUnknowns && !hasErrors && !hasBlockingDuplicates,
       files: fileResults,
       summary: {
         filesProcessed: fileResults.length, // Count actually processed files, not total CSV files found
@@ -443,13 +852,21 @@ export async function importStatements(
         totalTransactions,
         matched: totalMatched,
         unknown: totalUnknown,
+        duplicates: totalDuplicates,
       },
+      rulesGenerated,
     };
 
+    if (rulesGenerated) {
+      result.hint = `Starter rules files were written: ${rulesGenerated.join(', ')}. Check account1 and date-format, then add if blocks assigning account2 for the unknown transactions.`;
+    }
+
     if (hasUnknowns) {
       result.message = `Found ${totalUnknown} transaction(s) with unknown accounts. Add rules to categorize them.`;
     } else if (hasErrors) {
       result.message = `Some files had errors. Check the file results for details.`;
+    } else if (hasBlockingDuplicates) {
+      result.message = `Found ${totalDuplicates} transaction(s) that are already in the journal or in an earlier statement. Remove the overlapping rows from the CSV, or import with allowDuplicates: true if they are genuine repeats.`;
     } else {
       result.message = 'All transactions matched. Ready to import with checkOnly: false';
     }
@@ -470,7 +887,26 @@ export async function importStatements(
         matched: totalMatched,
         unknown: totalUnknown,
       },
-      'Run with checkOnly: true to see details, then add missing rules'
+      'Run with checkOnly: true to see details, then add missing rules',
+      rulesGenerated
+    );
+  }
+
+  // Import mode: abort if transactions are already in the journal
+  if (hasBlockingDuplicates) {
+    return buildErrorResultWithDetails(
+      `Cannot import: ${totalDuplicates} transaction(s) are already in the journal or in an earlier statement`,
+      fileResults,
+      {
+        filesProcessed: fileResults.length,
+        filesWithErrors,
+        filesWithoutRules,
+        totalTransactions,
+        matched: totalMatched,
+        unknown: totalUnknown,
+        duplicates: totalDuplicates,
+      },
+      'Check the duplicates in the file results. Remove the overlapping rows from the CSV (e.g., overlapping monthly and quarterly exports), or set allowDuplicates: true if they are genuine repeats.'
     );
   }
 
@@ -480,6 +916,7 @@ export async function importStatements(
     directory,
     pendingDir,
     doneDir,
+    config,
     hledgerExecutor
   );
 
@@ -511,6 +948,7 @@ export async function importStatements(
       totalTransactions,
       matched: totalMatched,
       unknown: 0,
+      duplicates: totalDuplicates,
     },
     `Successfully imported ${totalTransactions} transaction(s) from ${importResult.importedCount} file(s)`
   );
@@ -526,10 +964,32 @@ This tool processes CSV files in the pending import directory and uses hledger's
 - Identifies transactions with 'income:unknown' or 'expenses:unknown' accounts
 - These indicate missing rules that need to be added
 
+**Duplicate Detection:**
+- Compares each transaction with the journal's transactions for the rules file's account1,
+  and with the earlier statements of the same rules file in this run (overlapping exports)
+- Matches by transaction ID (if the CSV has one) or by date, amount and description
+- Reported per file as 'duplicates'; blocks the import unless allowDuplicates: true
+
+**Multiple Statements:**
+- All CSVs matching a rules file (e.g., via a glob source directive) are processed, not only the newest
+- They are imported oldest first, ordered by the statement's from-date metadata (or the date in the filename)
+- Each CSV gets its own dry-run result and is moved to the done directory after import
+
+**Multi-Year Statements:**
+- A CSV spanning several years (e.g., a December–January statement) is split into temporary per-year CSVs
+- Each part keeps the metadata and header rows and is imported into its own ledger/YYYY.journal
+
+**Starter Rules:**
+- A CSV without a rules file whose provider is detected gets a starter rules file in the rules directory
+  (source, skip, separator, fields, date-format, amount/debit/credit handling and account1)
+- Reported in 'rulesGenerated'; its transactions are all unknown until category rules are added
+
 **Import Mode (checkOnly: false):**
-- First validates all transactions have known accounts
-- If any unknowns exist, aborts and reports them
+- First validates all transactions have known accounts and none are already in the journal
+- If any unknowns or duplicates exist, aborts and reports them
 - If all clean, imports transactions and moves CSVs to done directory
+- For statements with closing-balance and until-date metadata, appends a balance assertion
+  (\`account  0 = CHF 2324.79\`) to the year journal, enforced by \`hledger check\` from then on
 
 **Workflow:**
 1. Run with checkOnly: true (or no args)
@@ -555,6 +1015,12 @@ Note: This tool is typically called via import-pipeline for the full workflow.`,
       .describe(
         'If true (default), only check for unknown accounts without importing. Set to false to perform actual import.'
       ),
+    allowDuplicates: tool.schema
+      .boolean()
+      .optional()
+      .describe(
+        'If true, import even if transactions are already in the journal (default: false). Only use for genuine repeats.'
+      ),
   },
   async execute(params, context) {
     const { directory, agent } = context;
@@ -562,6 +1028,7 @@ Note: This tool is typically called via import-pipeline for the full workflow.`,
       provider: params.provider,
       currency: params.currency,
       checkOnly: params.checkOnly,
+      allowDuplicates: params.allowDuplicates,
     });
   },
 });
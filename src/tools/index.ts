@@ -4,3 +4,9 @@ export { default as importStatements } from './import-statements.ts';
 export { default as reconcileStatement } from './reconcile-statement.ts';
 export { default as importPipeline } from './import-pipeline.ts';
 export { default as initDirectories } from './init-directories.ts';
+export { default as cleanupWorktrees } from './cleanup-worktrees.ts';
+export { default as suggestionCache } from './suggestion-cache.ts';
+export { default as applyRuleSuggestions } from './apply-rule-suggestions.ts';
+export { default as lintRules } from './lint-rules.ts';
+export { default as rulesCoverage } from './rules-coverage.ts';
+export { default as proposeProvider } from './propose-provider.ts';
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initDirectories } from './init-directories.ts';
+import { loadImportConfig } from '../utils/importConfig.ts';
+import { loadPricesConfig } from '../utils/pricesConfig.ts';
+
+describe('init-directories', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'init-directories-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should fail without providers.yaml when not scaffolding', async () => {
+    const result = await initDirectories(testDir);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('providers.yaml');
+  });
+
+  describe('scaffold', () => {
+    it('should create the full ledger repository layout', async () => {
+      const year = new Date().getFullYear();
+
+      const result = await initDirectories(testDir, { scaffold: true });
+
+      expect(result.success).toBe(true);
+      for (const dir of ['ledger/currencies', 'ledger/rules', 'config/conventions']) {
+        expect(fs.existsSync(path.join(testDir, dir, '.gitkeep'))).toBe(true);
+      }
+      for (const dir of [
+        'import/incoming',
+        'import/pending',
+        'import/done',
+        'import/unrecognized',
+      ]) {
+        expect(fs.existsSync(path.join(testDir, dir))).toBe(true);
+      }
+      expect(result.filesCreated).toEqual([
+        '.hledger.journal',
+        'config/import/providers.yaml',
+        'config/prices.yaml',
+        path.join('ledger', `${year}.journal`),
+      ]);
+      expect(fs.readFileSync(path.join(testDir, '.hledger.journal'), 'utf-8')).toContain(
+        `include ledger/${year}.journal`
+      );
+      expect(result.gitignoreCreated).toBe(true);
+    });
+
+    it('should write starter configs that load', async () => {
+      await initDirectories(testDir, { scaffold: true });
+
+      const config = loadImportConfig(testDir);
+      expect(config.paths.rules).toBe('ledger/rules');
+      expect(Object.keys(config.providers)).toEqual(['revolut']);
+      expect(Object.keys(loadPricesConfig(testDir).currencies)).toEqual(['EUR']);
+    });
+
+    it('should not overwrite existing files', async () => {
+      fs.writeFileSync(path.join(testDir, '.hledger.journal'), '; My journal\n');
+
+      const first = await initDirectories(testDir, { scaffold: true });
+      const second = await initDirectories(testDir, { scaffold: true });
+
+      expect(first.filesCreated).not.toContain('.hledger.journal');
+      expect(fs.readFileSync(path.join(testDir, '.hledger.journal'), 'utf-8')).toMatch(
+        /^; My journal\n/
+      );
+      expect(second.filesCreated).toEqual([]);
+      expect(second.directoriesCreated).toEqual([]);
+      expect(second.message).toContain('already exists');
+    });
+  });
+});
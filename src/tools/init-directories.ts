@@ -3,6 +3,15 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { checkAccountantAgent } from '../utils/agentRestriction.ts';
 import { loadImportConfig } from '../utils/importConfig.ts';
+import { ensureYearJournalExists } from '../utils/journalUtils.ts';
+
+/**
+ * Options for initializing directories
+ */
+export interface InitDirectoriesOptions {
+  /** Also scaffold the full ledger repository layout (journals, ledger/, config/) */
+  scaffold?: boolean;
+}
 
 /**
  * Result of initializing import directories
@@ -11,21 +20,149 @@ interface InitDirectoriesResult {
   success: boolean;
   directoriesCreated: string[];
   gitkeepFiles: string[];
+  filesCreated: string[];
   gitignoreCreated: boolean;
   message?: string;
   error?: string;
 }
 
 /**
- * Create the directory structure needed for import operations
+ * Directories of the ledger repository layout described in the accountant agent prompt
  */
-export async function initDirectories(directory: string): Promise<InitDirectoriesResult> {
-  try {
-    // Load config to get directory paths
-    const config = loadImportConfig(directory);
+const LEDGER_DIRECTORIES = ['ledger', 'ledger/currencies', 'ledger/rules', 'config/conventions'];
+
+const STARTER_MAIN_JOURNAL = `; Global hledger journal
+; Year journals (ledger/YYYY.journal) are included automatically by import-pipeline.
+; Add includes for price journals in ledger/currencies/ once they exist.
+`;
+
+const STARTER_PROVIDERS_CONFIG = `# Statement import configuration
+# See https://github.com/f-u-z-z-l-e/opencode-accountant#statement-classification-configuration
+
+paths:
+  import: import/incoming
+  pending: import/pending
+  done: import/done
+  unrecognized: import/unrecognized
+  rules: ledger/rules
+
+providers:
+  revolut:
+    detect:
+      - filenamePattern: '^account-statement_'
+        header: 'Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance'
+        currencyField: Currency
+    currencies:
+      CHF: chf
+      EUR: eur
+`;
+
+const STARTER_PRICES_CONFIG = `# Currency price configuration
+# See https://github.com/f-u-z-z-l-e/opencode-accountant#price-fetching-configuration
+
+currencies:
+  EUR:
+    source: ecb
+    pair: EUR/CHF
+    file: eur-chf.journal
+`;
+
+/**
+ * Creates a directory (if missing) and adds a .gitkeep file to track it while empty
+ */
+function ensureTrackedDirectory(
+  directory: string,
+  dirPath: string,
+  directoriesCreated: string[],
+  gitkeepFiles: string[]
+): void {
+  const fullPath = path.join(directory, dirPath);
+
+  // Create directory if it doesn't exist
+  if (!fs.existsSync(fullPath)) {
+    fs.mkdirSync(fullPath, { recursive: true });
+    directoriesCreated.push(dirPath);
+  }
+
+  // Add .gitkeep to track empty directories
+  const gitkeepPath = path.join(fullPath, '.gitkeep');
+  if (!fs.existsSync(gitkeepPath)) {
+    fs.writeFileSync(gitkeepPath, '');
+    gitkeepFiles.push(path.join(dirPath, '.gitkeep'));
+  }
+}
+
+/**
+ * Writes a file with the given content unless it already exists
+ */
+function writeStarterFile(
+  directory: string,
+  filePath: string,
+  content: string,
+  filesCreated: string[]
+): void {
+  const fullPath = path.join(directory, filePath);
+  if (fs.existsSync(fullPath)) {
+    return;
+  }
 
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, content);
+  filesCreated.push(filePath);
+}
+
+/**
+ * Scaffolds the ledger repository layout: main journal with an include for the
+ * current year journal, ledger/ and config/ directories and starter configuration files.
+ * Existing files are never overwritten.
+ */
+function scaffoldLedgerRepository(
+  directory: string,
+  directoriesCreated: string[],
+  gitkeepFiles: string[],
+  filesCreated: string[]
+): void {
+  for (const dirPath of LEDGER_DIRECTORIES) {
+    ensureTrackedDirectory(directory, dirPath, directoriesCreated, gitkeepFiles);
+  }
+
+  writeStarterFile(directory, '.hledger.journal', STARTER_MAIN_JOURNAL, filesCreated);
+  writeStarterFile(
+    directory,
+    'config/import/providers.yaml',
+    STARTER_PROVIDERS_CONFIG,
+    filesCreated
+  );
+  writeStarterFile(directory, 'config/prices.yaml', STARTER_PRICES_CONFIG, filesCreated);
+
+  const year = new Date().getFullYear();
+  const yearJournal = path.join('ledger', `${year}.journal`);
+  const yearJournalExisted = fs.existsSync(path.join(directory, yearJournal));
+  ensureYearJournalExists(directory, year);
+  if (!yearJournalExisted) {
+    filesCreated.push(yearJournal);
+  }
+}
+
+/**
+ * Create the directory structure needed for import operations.
+ * With scaffold: true, the full ledger repository layout is created first.
+ */
+export async function initDirectories(
+  directory: string,
+  options: InitDirectoriesOptions = {}
+): Promise<InitDirectoriesResult> {
+  try {
     const directoriesCreated: string[] = [];
     const gitkeepFiles: string[] = [];
+    const filesCreated: string[] = [];
+
+    if (options.scaffold) {
+      scaffoldLedgerRepository(directory, directoriesCreated, gitkeepFiles, filesCreated);
+    }
+
+    // Load config to get directory paths
+    const config = loadImportConfig(directory);
 
     // Create base import directory
     const importBase = path.join(directory, 'import');
@@ -43,20 +180,7 @@ export async function initDirectories(directory: string): Promise<InitDirectorie
     ];
 
     for (const { path: dirPath } of pathsToCreate) {
-      const fullPath = path.join(directory, dirPath);
-
-      // Create directory if it doesn't exist
-      if (!fs.existsSync(fullPath)) {
-        fs.mkdirSync(fullPath, { recursive: true });
-        directoriesCreated.push(dirPath);
-      }
-
-      // Add .gitkeep to track empty directories
-      const gitkeepPath = path.join(fullPath, '.gitkeep');
-      if (!fs.existsSync(gitkeepPath)) {
-        fs.writeFileSync(gitkeepPath, '');
-        gitkeepFiles.push(path.join(dirPath, '.gitkeep'));
-      }
+      ensureTrackedDirectory(directory, dirPath, directoriesCreated, gitkeepFiles);
     }
 
     // Create .gitignore in import/ directory
@@ -98,6 +222,9 @@ Thumbs.db
         `added ${gitkeepFiles.length} .gitkeep file${gitkeepFiles.length === 1 ? '' : 's'}`
       );
     }
+    if (filesCreated.length > 0) {
+      parts.push(`created ${filesCreated.length} file${filesCreated.length === 1 ? '' : 's'}`);
+    }
     if (gitignoreCreated) {
       parts.push('created .gitignore');
     }
@@ -111,6 +238,7 @@ Thumbs.db
       success: true,
       directoriesCreated,
       gitkeepFiles,
+      filesCreated,
       gitignoreCreated,
       message,
     };
@@ -119,6 +247,7 @@ Thumbs.db
       success: false,
       directoriesCreated: [],
       gitkeepFiles: [],
+      filesCreated: [],
       gitignoreCreated: false,
       error: error instanceof Error ? error.message : String(error),
       message: 'Failed to initialize import directory structure',
@@ -131,16 +260,23 @@ Thumbs.db
  */
 export default tool({
   description:
-    'ACCOUNTANT AGENT ONLY: Initialize the import directory structure needed for processing bank statements. Creates import/incoming, import/pending, import/done, and import/unrecognized directories with .gitkeep files and appropriate .gitignore rules. Reads directory paths from config/import/providers.yaml. Safe to run multiple times (idempotent).',
-  args: {},
-  async execute(_params, context) {
+    'ACCOUNTANT AGENT ONLY: Initialize the import directory structure needed for processing bank statements. Creates import/incoming, import/pending, import/done, and import/unrecognized directories with .gitkeep files and appropriate .gitignore rules. Reads directory paths from config/import/providers.yaml. With scaffold: true, first bootstraps a new books repository: .hledger.journal including the current year journal, ledger/, ledger/currencies/, ledger/rules/, config/conventions/ and starter config/import/providers.yaml and config/prices.yaml. Existing files are never overwritten. Safe to run multiple times (idempotent).',
+  args: {
+    scaffold: tool.schema
+      .boolean()
+      .optional()
+      .describe(
+        'Also scaffold the full ledger repository layout with starter configuration (default: false)'
+      ),
+  },
+  async execute(params, context) {
     const restrictionError = checkAccountantAgent(context.agent, 'init directories');
     if (restrictionError) {
       throw new Error(restrictionError);
     }
     const { directory } = context;
 
-    const result = await initDirectories(directory);
+    const result = await initDirectories(directory, { scaffold: params.scaffold });
 
     if (!result.success) {
       return `Error: ${result.error}\n\n${result.message}`;
@@ -164,6 +300,13 @@ export default tool({
       }
     }
 
+    if (result.filesCreated.length > 0) {
+      output.push('\nFiles created:');
+      for (const file of result.filesCreated) {
+        output.push(`  - ${file}`);
+      }
+    }
+
     if (result.gitignoreCreated) {
       output.push('\nCreated import/.gitignore with rules to:');
       output.push('  - Ignore CSV/PDF files in incoming/, pending/, unrecognized/');
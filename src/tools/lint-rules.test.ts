@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lintRules } from './lint-rules.ts';
+import type { ImportConfig } from '../utils/importConfig.ts';
+
+describe('lint-rules tool', () => {
+  let testDir: string;
+
+  const configLoader = (): ImportConfig => ({
+    paths: {
+      import: 'import/incoming',
+      pending: 'import/pending',
+      done: 'import/done',
+      unrecognized: 'import/unrecognized',
+      rules: 'ledger/rules',
+    },
+    providers: {},
+  });
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(testDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-rules-test-'));
+    fs.mkdirSync(path.join(testDir, 'import/pending/ubs/chf'), { recursive: true });
+
+    writeFile(
+      'ledger/rules/ubs-account.rules',
+      `source ../../import/pending/ubs/chf/ubs-account*.csv
+fields date, description, amount
+account1 assets:bank:ubs
+
+if Migros
+  account2 expenses:groceries
+
+if Denner
+  account2 expenses:groceries
+`
+    );
+    writeFile(
+      'import/done/ubs/chf/ubs-account-2026-01.csv',
+      'Date,Description,Amount\n2026-01-02,Migros Basel,-12.50\n2026-01-03,Coop,-8.00\n'
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('rejects other agents', async () => {
+    const result = await lintRules(testDir, 'other', {}, configLoader);
+
+    expect(result).toContain('restricted to the accountant agent');
+  });
+
+  it('reports rules that never matched an imported CSV row', async () => {
+    const result = JSON.parse(await lintRules(testDir, 'accountant', {}, configLoader));
+
+    expect(result.success).toBe(true);
+    expect(result.files).toEqual([
+      {
+        rulesFile: 'ledger/rules/ubs-account.rules',
+        csvFiles: ['import/done/ubs/chf/ubs-account-2026-01.csv'],
+        records: 2,
+        issues: [expect.objectContaining({ line: 8, rule: 'unmatched-rule' })],
+      },
+    ]);
+    expect(result.summary).toEqual({ files: 1, errors: 0, warnings: 1 });
+  });
+
+  it('fails when a rules file has errors', async () => {
+    writeFile(
+      'ledger/rules/revolut.rules',
+      `source ../../import/pending/revolut/*.csv
+fields date, description, amount
+
+if Shop (
+  account2 expenses:shopping
+`
+    );
+
+    const result = JSON.parse(await lintRules(testDir, 'accountant', {}, configLoader));
+
+    expect(result.success).toBe(false);
+    expect(result.summary).toEqual({ files: 2, errors: 2, warnings: 1 });
+    expect(result.files[0].issues.map((issue: { rule: string }) => issue.rule)).toEqual([
+      'missing-source',
+      'invalid-regex',
+    ]);
+  });
+
+  it('lints a single rules file', async () => {
+    writeFile('ledger/rules/revolut.rules', 'fields date, description, amount\n');
+
+    const result = JSON.parse(
+      await lintRules(testDir, 'accountant', { rulesFile: 'revolut.rules' }, configLoader)
+    );
+
+    expect(result.files.map((file: { rulesFile: string }) => file.rulesFile)).toEqual([
+      'ledger/rules/revolut.rules',
+    ]);
+  });
+
+  it('returns an error for an unknown rules file', async () => {
+    const result = JSON.parse(
+      await lintRules(testDir, 'accountant', { rulesFile: 'missing.rules' }, configLoader)
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Rules file not found');
+  });
+});
@@ -0,0 +1,205 @@
+import { tool } from '@opencode-ai/plugin';
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkAccountantAgent } from '../utils/agentRestriction.ts';
+import { loadImportConfig, type ImportConfig } from '../utils/importConfig.ts';
+import { parseCsvFile } from '../utils/csvParser.ts';
+import { findCsvFiles } from '../utils/journalUtils.ts';
+import { groupCsvFilesByRules, loadRulesMapping } from '../utils/rulesMatcher.ts';
+import {
+  getFieldNames,
+  getRulesConfig,
+  parseRulesAst,
+  readRulesFile,
+} from '../utils/rulesParser.ts';
+import {
+  lintRulesAgainstRecords,
+  lintRulesAst,
+  toRulesRecords,
+  type LintIssue,
+  type RulesRecord,
+} from '../utils/rulesLinter.ts';
+
+/**
+ * Arguments for the lint-rules tool
+ */
+export interface LintRulesArgs {
+  /** File name of a single rules file to lint (default: all) */
+  rulesFile?: string;
+}
+
+/**
+ * Result for a single rules file
+ */
+interface RulesFileLintResult {
+  rulesFile: string;
+  issues: LintIssue[];
+  /** CSVs in done/ imported with this rules file, checked for unmatched rules */
+  csvFiles: string[];
+  records: number;
+  error?: string;
+}
+
+/**
+ * Overall result of the lint-rules tool
+ */
+interface LintRulesResult {
+  success: boolean;
+  files: RulesFileLintResult[];
+  summary: {
+    files: number;
+    errors: number;
+    warnings: number;
+  };
+  error?: string;
+  hint?: string;
+}
+
+/**
+ * Builds an error result with an optional hint
+ */
+function buildErrorResult(error: string, hint?: string): string {
+  return JSON.stringify({
+    success: false,
+    error,
+    hint,
+  } satisfies Partial<LintRulesResult>);
+}
+
+/**
+ * Lints one rules file, checking its rules against the given CSVs.
+ */
+function lintRulesFile(
+  directory: string,
+  rulesPath: string,
+  csvFiles: string[]
+): RulesFileLintResult {
+  const result: RulesFileLintResult = {
+    rulesFile: path.relative(directory, rulesPath),
+    issues: [],
+    csvFiles: csvFiles.map((csv) => path.relative(directory, csv)),
+    records: 0,
+  };
+
+  try {
+    const ast = parseRulesAst(fs.readFileSync(rulesPath, 'utf-8'));
+    const expanded = readRulesFile(rulesPath);
+    const fieldNames = getFieldNames(expanded);
+    result.issues = lintRulesAst(ast, fieldNames, rulesPath);
+
+    if (csvFiles.length > 0) {
+      const rulesConfig = getRulesConfig(expanded);
+      const records: RulesRecord[] = csvFiles.flatMap((csv) =>
+        toRulesRecords(parseCsvFile(csv, rulesConfig))
+      );
+      result.records = records.length;
+      result.issues = [...result.issues, ...lintRulesAgainstRecords(ast, fieldNames, records)].sort(
+        (a, b) => a.line - b.line
+      );
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return result;
+}
+
+/**
+ * Lints every rules file under paths.rules and reports issues with line numbers,
+ * including rules that never matched a CSV in paths.done
+ */
+export async function lintRules(
+  directory: string,
+  agent: string,
+  options: LintRulesArgs,
+  configLoader: (dir: string) => ImportConfig = loadImportConfig
+): Promise<string> {
+  // Agent restriction
+  const restrictionError = checkAccountantAgent(agent, 'lint rules');
+  if (restrictionError) {
+    return restrictionError;
+  }
+
+  let config: ImportConfig;
+  try {
+    config = configLoader(directory);
+  } catch (error) {
+    return buildErrorResult(
+      `Failed to load configuration: ${error instanceof Error ? error.message : String(error)}`,
+      'Ensure config/import/providers.yaml exists'
+    );
+  }
+
+  const rulesDir = path.join(directory, config.paths.rules);
+  if (!fs.existsSync(rulesDir)) {
+    return buildErrorResult(
+      `Rules directory not found: ${config.paths.rules}`,
+      'Run init-directories or create the rules directory'
+    );
+  }
+
+  // Assign the imported CSVs to the rules files they were imported with
+  const csvFilesByRules = groupCsvFilesByRules(
+    findCsvFiles(path.join(directory, config.paths.done)),
+    loadRulesMapping(rulesDir)
+  );
+
+  const rulesFiles = fs
+    .readdirSync(rulesDir)
+    .filter((file) => file.endsWith('.rules'))
+    .filter((file) => !options.rulesFile || file === path.basename(options.rulesFile))
+    .sort()
+    .map((file) => path.join(rulesDir, file));
+
+  if (options.rulesFile && rulesFiles.length === 0) {
+    return buildErrorResult(
+      `Rules file not found: ${options.rulesFile}`,
+      `Rules files are read from ${config.paths.rules}`
+    );
+  }
+
+  const result: LintRulesResult = {
+    success: true,
+    files: rulesFiles.map((rulesPath) =>
+      lintRulesFile(directory, rulesPath, csvFilesByRules.get(rulesPath) ?? [])
+    ),
+    summary: { files: rulesFiles.length, errors: 0, warnings: 0 },
+  };
+
+  for (const file of result.files) {
+    result.summary.errors +=
+      file.issues.filter((issue) => issue.severity === 'error').length + (file.error ? 1 : 0);
+    result.summary.warnings += file.issues.filter((issue) => issue.severity === 'warning').length;
+  }
+
+  if (result.summary.errors > 0) {
+    result.success = false;
+    result.hint = 'Fix the errors before importing; hledger would reject or misapply these rules.';
+  } else if (result.summary.warnings > 0) {
+    result.hint =
+      'Review the warnings; they point to rules that are likely not doing what you expect.';
+  }
+
+  return JSON.stringify(result);
+}
+
+export default tool({
+  description: `ACCOUNTANT AGENT ONLY: Check all rules files for mistakes.
+
+Analyses every .rules file under paths.rules and reports issues with line numbers:
+- Errors: invalid regexes, references to unknown CSV fields, matchers that can never match, invalid account names, \`source\` paths in missing directories
+- Warnings: \`account2\` outside an \`if\` block, if blocks without assignments, rules shadowed by another rule, accounts not following the naming conventions (lowercase, under assets/liabilities/equity/income/expenses), unknown lines
+- Rules that never matched any record of the CSVs already imported (in done/)
+
+Nothing is modified.`,
+  args: {
+    rulesFile: tool.schema
+      .string()
+      .optional()
+      .describe('File name of a single rules file to lint (default: all rules files)'),
+  },
+  async execute(params, context) {
+    const { directory, agent } = context;
+    return lintRules(directory, agent, { rulesFile: params.rulesFile });
+  },
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { proposeProvider } from './propose-provider.ts';
+import type { ImportConfig } from '../utils/importConfig.ts';
+
+describe('propose-provider tool', () => {
+  let testDir: string;
+
+  const configLoader = (): ImportConfig => ({
+    paths: {
+      import: 'import/incoming',
+      pending: 'import/pending',
+      done: 'import/done',
+      unrecognized: 'import/unrecognized',
+      rules: 'ledger/rules',
+    },
+    providers: {
+      revolut: {
+        detect: [{ header: 'Type,Product,Amount,Currency', currencyField: 'Currency' }],
+        currencies: { CHF: 'chf' },
+      },
+    },
+  });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'propose-provider-test-'));
+    fs.mkdirSync(path.join(testDir, 'import/unrecognized'), { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'import/unrecognized/transactions-2026-01.csv'),
+      `Account:;CH12 3456;
+Date;Description;Amount;Currency
+2026-01-02;Migros;-12.50;CHF
+2026-01-03;Coop;-3.00;CHF
+`
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('rejects other agents', async () => {
+    const result = await proposeProvider(
+      testDir,
+      'other',
+      { filename: 'transactions-2026-01.csv', provider: 'zkb' },
+      configLoader
+    );
+
+    expect(result).toContain('restricted to the accountant agent');
+  });
+
+  it('proposes a configuration that detects the file', async () => {
+    const result = JSON.parse(
+      await proposeProvider(
+        testDir,
+        'accountant',
+        { filename: 'transactions-2026-01.csv', provider: 'zkb' },
+        configLoader
+      )
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.file).toBe('import/unrecognized/transactions-2026-01.csv');
+    expect(result.config.detect[0]).toMatchObject({
+      filenamePattern: '^transactions',
+      header: 'Date,Description,Amount,Currency',
+      skipRows: 1,
+      delimiter: ';',
+      renamePattern: 'zkb-{account-number}.csv',
+    });
+    expect(result.detected).toEqual({
+      currency: 'chf',
+      confidence: 1,
+      outputFilename: 'zkb-CH12-3456.csv',
+      metadata: { 'account-number': 'CH12-3456' },
+    });
+    expect(result.yaml).toContain('zkb:\n  detect:\n');
+  });
+
+  it('notes when the provider already exists', async () => {
+    const result = JSON.parse(
+      await proposeProvider(
+        testDir,
+        'accountant',
+        { filename: 'transactions-2026-01.csv', provider: 'revolut' },
+        configLoader
+      )
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.notes.at(-1)).toContain("Provider 'revolut' already exists");
+  });
+
+  it('rejects invalid provider names', async () => {
+    const result = JSON.parse(
+      await proposeProvider(
+        testDir,
+        'accountant',
+        { filename: 'transactions-2026-01.csv', provider: 'My Bank' },
+        configLoader
+      )
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid provider name');
+  });
+
+  it('reports files missing from the unrecognized directory', async () => {
+    const result = JSON.parse(
+      await proposeProvider(
+        testDir,
+        'accountant',
+        { filename: 'missing.csv', provider: 'zkb' },
+        configLoader
+      )
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('File not found: import/unrecognized/missing.csv');
+  });
+});
@@ -0,0 +1,163 @@
+import { tool } from '@opencode-ai/plugin';
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkAccountantAgent } from '../utils/agentRestriction.ts';
+import { loadImportConfig, type ImportConfig, type ProviderConfig } from '../utils/importConfig.ts';
+import { detectProvider } from '../utils/providerDetector.ts';
+import { proposeProvider as draftProviderConfig } from '../utils/providerProposer.ts';
+
+/**
+ * Arguments for the propose-provider tool
+ */
+export interface ProposeProviderArgs {
+  /** Name of a CSV in paths.unrecognized */
+  filename: string;
+  /** Name of the new provider (lowercase letters, digits and dashes) */
+  provider: string;
+}
+
+/**
+ * Result of the propose-provider tool
+ */
+interface ProposeProviderResult {
+  success: boolean;
+  file?: string;
+  provider?: string;
+  config?: ProviderConfig;
+  /** The configuration as a YAML block to paste under `providers:` */
+  yaml?: string;
+  /** How classify-statements would classify the file with the proposed configuration */
+  detected?: {
+    currency: string;
+    confidence: number;
+    outputFilename?: string;
+    metadata?: Record<string, string>;
+  };
+  notes?: string[];
+  error?: string;
+  hint?: string;
+}
+
+/**
+ * Builds an error result with an optional hint
+ */
+function buildErrorResult(error: string, hint?: string): string {
+  return JSON.stringify({
+    success: false,
+    error,
+    hint,
+  } satisfies Partial<ProposeProviderResult>);
+}
+
+/**
+ * Drafts a provider configuration from a CSV in paths.unrecognized and checks that
+ * the file would be detected with it
+ */
+export async function proposeProvider(
+  directory: string,
+  agent: string,
+  options: ProposeProviderArgs,
+  configLoader: (dir: string) => ImportConfig = loadImportConfig
+): Promise<string> {
+  // Agent restriction
+  const restrictionError = checkAccountantAgent(agent, 'propose provider configurations');
+  if (restrictionError) {
+    return restrictionError;
+  }
+
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(options.provider)) {
+    return buildErrorResult(
+      `Invalid provider name: ${options.provider}`,
+      'Use lowercase letters, digits and dashes (the name becomes a directory under pending/ and done/)'
+    );
+  }
+
+  let config: ImportConfig;
+  try {
+    config = configLoader(directory);
+  } catch (error) {
+    return buildErrorResult(
+      `Failed to load configuration: ${error instanceof Error ? error.message : String(error)}`,
+      'Ensure config/import/providers.yaml exists'
+    );
+  }
+
+  const filename = path.basename(options.filename);
+  const filePath = path.join(directory, config.paths.unrecognized, filename);
+  if (!fs.existsSync(filePath)) {
+    return buildErrorResult(
+      `File not found: ${path.join(config.paths.unrecognized, filename)}`,
+      'Run classify-statements first: files no provider recognizes are moved to the unrecognized directory'
+    );
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+  let proposal;
+  try {
+    proposal = draftProviderConfig(filename, content, options.provider);
+  } catch (error) {
+    return buildErrorResult(
+      error instanceof Error ? error.message : String(error),
+      'Write the detect entry by hand, see the README section Statement Classification Configuration'
+    );
+  }
+
+  const detection = detectProvider(filename, content, {
+    ...config,
+    providers: { [options.provider]: proposal.config },
+  });
+  if (!detection) {
+    return buildErrorResult(
+      `The proposed configuration does not detect ${filename}`,
+      'Write the detect entry by hand, see the README section Statement Classification Configuration'
+    );
+  }
+
+  const notes = [...proposal.notes];
+  if (config.providers[options.provider]) {
+    notes.push(
+      `Provider '${options.provider}' already exists: add the detect entry to its detect list and merge the currencies`
+    );
+  }
+
+  return JSON.stringify({
+    success: true,
+    file: path.join(config.paths.unrecognized, filename),
+    provider: options.provider,
+    config: proposal.config,
+    yaml: proposal.yaml,
+    detected: {
+      currency: detection.currency,
+      confidence: detection.confidence,
+      outputFilename: detection.outputFilename,
+      metadata: detection.metadata,
+    },
+    notes,
+    hint: 'Review the notes, paste the YAML under providers: in config/import/providers.yaml, then move the file back to the import directory and run classify-statements',
+  } satisfies ProposeProviderResult);
+}
+
+export default tool({
+  description: `ACCOUNTANT AGENT ONLY: Draft a provider configuration for a CSV that classify-statements could not recognize.
+
+Reads a file in unrecognized/ and guesses:
+- The delimiter (",", ";", tab or "|") and the header row (skipRows)
+- The currency column and the currencies mapping
+- Metadata in the rows above the header (account number, IBAN, statement period, opening/closing balance) and a renamePattern using them
+- A filenamePattern from the file name, and the number format for comma decimals
+
+Returns a ready-to-paste YAML block for config/import/providers.yaml, validated like the configuration file and checked to detect the file. Review the notes before using it. Nothing is modified.`,
+  args: {
+    filename: tool.schema.string().describe('Name of the CSV file in the unrecognized directory'),
+    provider: tool.schema
+      .string()
+      .describe('Name of the new provider (lowercase letters, digits and dashes, e.g. "ubs")'),
+  },
+  async execute(params, context) {
+    const { directory, agent } = context;
+    return proposeProvider(directory, agent, {
+      filename: params.filename,
+      provider: params.provider,
+    });
+  },
+});
@@ -1,4 +1,7 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { reconcileStatement } from './reconcile-statement.ts';
 import type { HledgerExecutor } from '../utils/hledgerExecutor.ts';
 import type { ImportConfig } from '../utils/importConfig.ts';
@@ -108,6 +111,442 @@ describe('reconcile-statement tool', () => {
   });
 });
 
+describe('reconcile-statement with several statements', () => {
+  let testDir: string;
+
+  const config: ImportConfig = {
+    paths: {
+      import: 'statements/import',
+      pending: 'statements/pending',
+      done: 'statements/done',
+      unrecognized: 'statements/unrecognized',
+      rules: 'config/rules',
+    },
+    providers: {
+      ubs: {
+        detect: [
+          {
+            header: 'Date,Description,Amount,Currency',
+            currencyField: 'Currency',
+            skipRows: 4,
+            metadata: [
+              { field: 'closing-balance', row: 0, column: 1 },
+              { field: 'from-date', row: 1, column: 1 },
+              { field: 'until-date', row: 2, column: 1 },
+              { field: 'opening-balance', row: 3, column: 1 },
+            ],
+          },
+        ],
+        currencies: { CHF: 'chf' },
+      },
+    },
+  };
+
+  // Journal balances of assets:bank:ubs by exclusive end date
+  const balances: Record<string, string> = {
+    '2026-02-01': 'CHF 100.00',
+    '2026-03-01': 'CHF 150.00',
+  };
+  const transactionDates = ['2026-01-31', '2026-02-20'];
+
+  const executor: HledgerExecutor = async (args) => {
+    if (args[0] === 'register') {
+      const endDate = args.includes('-e') ? args[args.indexOf('-e') + 1] : '9999-12-31';
+      const rows = transactionDates
+        .filter((date) => date < endDate)
+        .map((date, i) => `"${i + 1}","${date}","","x","assets:bank:ubs","CHF 1.00","CHF 1.00"`);
+      return {
+        stdout: ['txnidx,date,code,description,account,amount,total', ...rows].join('\n'),
+        stderr: '',
+        exitCode: 0,
+      };
+    }
+    if (args[0] === 'bal') {
+      const endDate = args[args.indexOf('-e') + 1];
+      return {
+        stdout: `${balances[endDate] ?? 'CHF 0'}  assets:bank:ubs`,
+        stderr: '',
+        exitCode: 0,
+      };
+    }
+    return { stdout: '', stderr: '', exitCode: 0 };
+  };
+
+  const writeStatement = (
+    name: string,
+    closingBalance: string,
+    from: string,
+    until: string,
+    openingBalance = ''
+  ) => {
+    const dir = path.join(testDir, 'statements/done/ubs/chf');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, name),
+      `Closing balance,${closingBalance}\nFrom,${from}\nUntil,${until}\nOpening balance,${openingBalance}\nDate,Description,Amount,Currency\n${until},Shop,-10.00,CHF\n`
+    );
+    return `statements/done/ubs/chf/${name}`;
+  };
+
+  const reconcile = async (csvFiles: string[], closingBalance?: string) =>
+    JSON.parse(
+      await reconcileStatement(
+        testDir,
+        'accountant',
+        { csvFiles, closingBalance },
+        () => config,
+        executor
+      )
+    );
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reconcile-test-'));
+    fs.mkdirSync(path.join(testDir, 'config/rules'), { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'config/rules/ubs.rules'),
+      'source ../../statements/done/ubs/chf/*.csv\nskip 4\nfields date, description, amount, currency\naccount1 assets:bank:ubs\n'
+    );
+    fs.writeFileSync(path.join(testDir, '.hledger.journal'), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('checks each statement as of its own until-date', async () => {
+    const january = writeStatement('ubs-jan.csv', 'CHF 100.00', '2026-01-01', '2026-01-31');
+    const february = writeStatement('ubs-feb.csv', 'CHF 150.00', '2026-02-01', '2026-02-28');
+
+    const result = await reconcile([january, february]);
+
+    expect(result.success).toBe(true);
+    expect(result.statements.map((s: { balanceDate: string }) => s.balanceDate)).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+    ]);
+    expect(result.accounts).toEqual([
+      expect.objectContaining({
+        account: 'assets:bank:ubs',
+        success: true,
+        statements: 2,
+        reconciled: 2,
+        actualBalance: 'CHF 150.00',
+      }),
+    ]);
+  });
+
+  it('reports the statement whose closing balance does not match', async () => {
+    const january = writeStatement('ubs-jan.csv', 'CHF 120.00', '2026-01-01', '2026-01-31');
+    const february = writeStatement('ubs-feb.csv', 'CHF 150.00', '2026-02-01', '2026-02-28');
+
+    const result = await reconcile([january, february]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('1 of 2 statement(s)');
+    expect(result.error).toContain('ubs-jan.csv');
+    expect(result.statements[0].difference).toBeDefined();
+    expect(result.statements[1].success).toBe(true);
+    expect(result.accounts[0]).toMatchObject({ success: false, reconciled: 1, failed: 1 });
+  });
+
+  it('skips an earlier statement without closing balance', async () => {
+    const january = writeStatement('ubs-jan.csv', '', '2026-01-01', '2026-01-31');
+    const february = writeStatement('ubs-feb.csv', 'CHF 150.00', '2026-02-01', '2026-02-28');
+
+    const result = await reconcile([january, february]);
+
+    expect(result.success).toBe(true);
+    expect(result.statements[0].skipped).toBe(true);
+    expect(result.accounts[0]).toMatchObject({ reconciled: 1, skipped: 1 });
+  });
+
+  it('applies a manual closing balance to the last statement only', async () => {
+    const january = writeStatement('ubs-jan.csv', 'CHF 100.00', '2026-01-01', '2026-01-31');
+    const february = writeStatement('ubs-feb.csv', '', '2026-02-01', '2026-02-28');
+
+    const result = await reconcile([january, february], 'CHF 150.00');
+
+    expect(result.success).toBe(true);
+    expect(result.statements[0].expectedBalance).toBe('CHF 100.00');
+    expect(result.statements[1].expectedBalance).toBe('CHF 150.00');
+  });
+
+  it("accepts a difference within the provider's tolerance", async () => {
+    const january = writeStatement('ubs-jan.csv', 'CHF 100.01', '2026-01-01', '2026-01-31');
+    const tolerantConfig: ImportConfig = {
+      ...config,
+      providers: { ubs: { ...config.providers.ubs, tolerance: { CHF: 0.01 } } },
+    };
+
+    const exact = await reconcile([january]);
+    const tolerant = JSON.parse(
+      await reconcileStatement(
+        testDir,
+        'accountant',
+        { csvFiles: [january] },
+        () => tolerantConfig,
+        executor
+      )
+    );
+
+    expect(exact.success).toBe(false);
+    expect(tolerant.success).toBe(true);
+    expect(tolerant.statements[0].difference).toBe('CHF -0.01');
+    expect(tolerant.statements[0].note).toContain('within the configured tolerance');
+  });
+
+  it('diagnoses a mismatch from the running balance column', async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'config/rules/revolut.rules'),
+      'source ../../statements/done/revolut/chf/*.csv\nfields date, description, amount, balance\naccount1 assets:bank:ubs\n'
+    );
+    fs.mkdirSync(path.join(testDir, 'statements/done/revolut/chf'), { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'statements/done/revolut/chf/revolut-feb.csv'),
+      'Date,Description,Amount,Balance\n2026-02-05,Coop,-10.00,90.00\n2026-02-10,Migros,-20.00,70.00\n'
+    );
+    const diagnoseExecutor: HledgerExecutor = async (args) => {
+      if (args[0] === 'register') {
+        // The Migros row of 2026-02-10 was not imported
+        const rows = ['"1","2026-02-05","","Coop","assets:bank:ubs","CHF -10.00","CHF 90.00"'];
+        return {
+          stdout: ['txnidx,date,code,description,account,amount,total', ...rows].join('\n'),
+          stderr: '',
+          exitCode: 0,
+        };
+      }
+      if (args[0] === 'bal') {
+        const endDate = args[args.indexOf('-e') + 1];
+        const balance = endDate === '2026-02-05' ? 'CHF 100.00' : 'CHF 90.00';
+        return { stdout: `${balance}  assets:bank:ubs`, stderr: '', exitCode: 0 };
+      }
+      return { stdout: '', stderr: '', exitCode: 0 };
+    };
+
+    const result = JSON.parse(
+      await reconcileStatement(
+        testDir,
+        'accountant',
+        {
+          csvFiles: ['statements/done/revolut/chf/revolut-feb.csv'],
+          closingBalance: 'CHF 70.00',
+          diagnose: true,
+        },
+        () => config,
+        diagnoseExecutor
+      )
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.statements[0].diagnosis).toMatchObject({
+      balanceField: 'balance',
+      rowsChecked: 2,
+      divergence: {
+        date: '2026-02-10',
+        row: 2,
+        causes: [expect.objectContaining({ type: 'missing-row', row: 2 })],
+      },
+    });
+    expect(result.hint).toContain('Running balance first diverges on 2026-02-10 (row 2)');
+  });
+
+  it('diagnoses only the commodity of the statement in a multi-commodity account', async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'config/rules/revolut.rules'),
+      'source ../../statements/done/revolut/chf/*.csv\nfields date, description, amount, balance\naccount1 assets:bank:ubs\n'
+    );
+    fs.mkdirSync(path.join(testDir, 'statements/done/revolut/chf'), { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'statements/done/revolut/chf/revolut-feb.csv'),
+      'Date,Description,Amount,Balance\n2026-02-05,Coop,-10.00,90.00\n'
+    );
+    const calls: string[][] = [];
+    const diagnoseExecutor: HledgerExecutor = async (args) => {
+      calls.push(args);
+      if (args[0] === 'register') {
+        const rows = ['"1","2026-02-05","","Coop","assets:bank:ubs","CHF -10.00","CHF 90.00"'];
+        return {
+          stdout: ['txnidx,date,code,description,account,amount,total', ...rows].join('\n'),
+          stderr: '',
+          exitCode: 0,
+        };
+      }
+      if (args[0] === 'bal') {
+        const endDate = args[args.indexOf('-e') + 1];
+        const balance = endDate === '2026-02-05' ? 'CHF 100.00\nEUR 50.00' : 'CHF 90.00\nEUR 50.00';
+        return { stdout: `${balance}  assets:bank:ubs`, stderr: '', exitCode: 0 };
+      }
+      return { stdout: '', stderr: '', exitCode: 0 };
+    };
+
+    const result = JSON.parse(
+      await reconcileStatement(
+        testDir,
+        'accountant',
+        {
+          csvFiles: ['statements/done/revolut/chf/revolut-feb.csv'],
+          closingBalance: 'CHF 80.00',
+          diagnose: true,
+        },
+        () => config,
+        diagnoseExecutor
+      )
+    );
+
+    expect(result.statements[0].diagnosis).toMatchObject({ rowsChecked: 1, divergence: null });
+    const register = calls.find((args) => args[0] === 'register' && args.includes('-b'));
+    expect(register).toContain('cur:CHF');
+    expect(calls.filter((args) => args[0] === 'bal' && args.includes('cur:CHF'))).toHaveLength(1);
+  });
+
+  it('keeps all decimals of a running balance read from the CSV', async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'config/rules/kraken.rules'),
+      'source ../../statements/done/kraken/btc/*.csv\nfields date, description, amount, balance\naccount1 assets:crypto:kraken\n'
+    );
+    fs.mkdirSync(path.join(testDir, 'statements/done/kraken/btc'), { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'statements/done/kraken/btc/kraken-feb.csv'),
+      'Date,Description,Amount,Balance\n2026-02-05,Buy,BTC 0.00100000,0.12345678\n'
+    );
+    const cryptoExecutor: HledgerExecutor = async (args) =>
+      args[0] === 'bal'
+        ? { stdout: 'BTC 0.12345678  assets:crypto:kraken', stderr: '', exitCode: 0 }
+        : executor(args);
+
+    const result = JSON.parse(
+      await reconcileStatement(
+        testDir,
+        'accountant',
+        { csvFiles: ['statements/done/kraken/btc/kraken-feb.csv'] },
+        () => config,
+        cryptoExecutor
+      )
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.statements[0].expectedBalance).toBe('BTC 0.12345678');
+  });
+
+  it("reads CSV amounts in the rules file's decimal mark", async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'config/rules/bank.rules'),
+      'source ../../statements/done/bank/chf/*.csv\nseparator ;\nfields date, description, amount, balance\ndecimal-mark ,\naccount1 assets:bank:ubs\n'
+    );
+    fs.mkdirSync(path.join(testDir, 'statements/done/bank/chf'), { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'statements/done/bank/chf/bank-feb.csv'),
+      'Date;Description;Amount;Balance\n2026-02-05;Rent;-10,00;1.234,50\n'
+    );
+    const bankExecutor: HledgerExecutor = async (args) =>
+      args[0] === 'bal'
+        ? { stdout: 'CHF 1234.50  assets:bank:ubs', stderr: '', exitCode: 0 }
+        : executor(args);
+
+    const result = JSON.parse(
+      await reconcileStatement(
+        testDir,
+        'accountant',
+        { csvFiles: ['statements/done/bank/chf/bank-feb.csv'] },
+        () => config,
+        bankExecutor
+      )
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.statements[0].expectedBalance).toBe('1234.50');
+  });
+
+  it('reads the CSV settings of included rules files', async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'config/rules/revolut-csv.rules'),
+      'fields date, description, amount, balance\n'
+    );
+    fs.writeFileSync(
+      path.join(testDir, 'config/rules/revolut.rules'),
+      'source ../../statements/done/revolut/chf/*.csv\ninclude revolut-csv.rules\naccount1 assets:bank:ubs\n'
+    );
+    fs.mkdirSync(path.join(testDir, 'statements/done/revolut/chf'), { recursive: true });
+    fs.writeFileSync(
+      path.join(testDir, 'statements/done/revolut/chf/revolut-feb.csv'),
+      'Date,Description,Amount,Balance\n2026-02-05,Coop,-10.00,90.00\n2026-02-10,Migros,-20.00,70.00\n'
+    );
+
+    const result = JSON.parse(
+      await reconcileStatement(
+        testDir,
+        'accountant',
+        {
+          csvFiles: ['statements/done/revolut/chf/revolut-feb.csv'],
+          closingBalance: 'CHF 70.00',
+          diagnose: true,
+        },
+        () => config,
+        executor
+      )
+    );
+
+    expect(result.statements[0].diagnosis).toMatchObject({
+      balanceField: 'balance',
+      rowsChecked: 2,
+    });
+  });
+
+  describe('opening balance', () => {
+    it('checks the opening balance against the journal before the from-date', async () => {
+      const february = writeStatement(
+        'ubs-feb.csv',
+        'CHF 150.00',
+        '2026-02-01',
+        '2026-02-28',
+        '100.00'
+      );
+
+      const result = await reconcile([february]);
+
+      expect(result.success).toBe(true);
+      expect(result.statements[0]).toMatchObject({
+        openingBalance: '100.00',
+        actualOpeningBalance: 'CHF 100.00',
+      });
+    });
+
+    it('reports a missing statement when the opening balance does not match', async () => {
+      const march = writeStatement(
+        'ubs-mar.csv',
+        'CHF 150.00',
+        '2026-03-01',
+        '2026-03-31',
+        '200.00'
+      );
+
+      const result = await reconcile([march]);
+
+      expect(result.success).toBe(false);
+      expect(result.statements[0].error).toContain(
+        'missing statement between 2026-02-20 and 2026-03-01'
+      );
+      expect(result.statements[0].actualOpeningBalance).toBe('CHF 150.00');
+      expect(result.statements[0].expectedBalance).toBeUndefined();
+    });
+
+    it('does not check the first statement of an account', async () => {
+      const january = writeStatement(
+        'ubs-jan.csv',
+        'CHF 100.00',
+        '2026-01-01',
+        '2026-01-31',
+        '50.00'
+      );
+
+      const result = await reconcile([january]);
+
+      expect(result.success).toBe(true);
+      expect(result.statements[0].openingBalance).toBeUndefined();
+    });
+  });
+});
+
 describe('parseAccount1', async () => {
   // Import the function directly for unit testing
   const { parseAccount1 } = await import('../utils/rulesParser.ts');
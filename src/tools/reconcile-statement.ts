@@ -4,17 +4,36 @@ import * as path from 'path';
 import { checkAccountantAgent } from '../utils/agentRestriction.ts';
 import { type ImportConfig, loadImportConfig } from '../utils/importConfig.ts';
 import { findRulesForCsv, loadRulesMapping } from '../utils/rulesMatcher.ts';
-import { getAccountFromRulesFile, parseRulesFile } from '../utils/rulesParser.ts';
+import { getAccountFromRulesFile, getRulesConfig, readRulesFile } from '../utils/rulesParser.ts';
 import { detectProvider } from '../utils/providerDetector.ts';
 import {
   defaultHledgerExecutor,
   type HledgerExecutor,
   getLastTransactionDate,
+  getLastTransactionDateBefore,
   getAccountBalance,
+  commodityQuery,
 } from '../utils/hledgerExecutor.ts';
 import { findCsvFiles } from '../utils/journalUtils.ts';
-import { calculateDifference, balancesMatch, parseAmountValue } from '../utils/balanceUtils.ts';
-import { parseCsvFile } from '../utils/csvParser.ts';
+import {
+  calculateDifference,
+  balancesMatch,
+  parseAmountValue,
+  parseBalance,
+  getCommodityAmount,
+  normalizeBalance,
+  type BalanceTolerance,
+  type NumberFormat,
+} from '../utils/balanceUtils.ts';
+import { getNextDay, getPreviousDay, normalizeStatementDate } from '../utils/dateUtils.ts';
+import { parseCsvFile, resolveNumberFormat } from '../utils/csvParser.ts';
+import {
+  BALANCE_FIELD_NAMES,
+  type BalanceDivergence,
+  findRunningBalanceDivergence,
+  parseRegisterPostings,
+  toStatementRows,
+} from '../utils/runningBalance.ts';
 
 /**
  * Arguments for the reconcile-statement tool
@@ -28,6 +47,14 @@ interface ReconcileStatementsArgs {
   closingBalance?: string;
   /** Manual account override (if cannot be detected from rules file) */
   account?: string;
+  /**
+   * CSV files to reconcile, relative to the repository (e.g., the statements imported
+   * by a pipeline run), oldest first. If omitted, the most recent CSV in the done
+   * directory is reconciled.
+   */
+  csvFiles?: string[];
+  /** On a balance mismatch, walk the CSV running balance to find where it diverges */
+  diagnose?: boolean;
 }
 
 /**
@@ -43,7 +70,7 @@ interface CsvMetadata {
 }
 
 /**
- * Result of the reconcile-statement tool
+ * Result of reconciling a single statement
  */
 interface ReconcileResult {
   success: boolean;
@@ -52,6 +79,16 @@ interface ReconcileResult {
   actualBalance: string;
   difference?: string;
   lastTransactionDate: string;
+  /** Date the balance was checked as of (the statement's until-date or last transaction) */
+  balanceDate?: string;
+  /** Set if the statement has no closing balance and was not checked */
+  skipped?: boolean;
+  /** Opening balance from CSV metadata, checked against the journal before the from-date */
+  openingBalance?: string;
+  /** Journal balance on the day before the statement's from-date */
+  actualOpeningBalance?: string;
+  /** Running balance diagnosis of a mismatch (diagnose option) */
+  diagnosis?: RunningBalanceDiagnosis;
   csvFile: string;
   metadata?: CsvMetadata;
   note?: string;
@@ -60,37 +97,95 @@ interface ReconcileResult {
 }
 
 /**
- * Build an error result for the reconcile-statement tool.
- *
- * Creates a standardized JSON error response with optional context fields.
+ * Result of walking a statement's running balance alongside the journal
+ */
+interface RunningBalanceDiagnosis {
+  /** CSV field holding the running balance */
+  balanceField?: string;
+  rowsChecked: number;
+  /** First date where the journal diverges from the running balance */
+  divergence: BalanceDivergence | null;
+  note?: string;
+}
+
+/**
+ * Reconciliation summary for one account across the statements of a run
+ */
+export interface AccountReconciliation {
+  account: string;
+  success: boolean;
+  statements: number;
+  reconciled: number;
+  skipped: number;
+  failed: number;
+  /** Closing balance of the account's last statement */
+  expectedBalance?: string;
+  /** Balance in the journal as of the last statement's balance date */
+  actualBalance?: string;
+  balanceDate?: string;
+}
+
+/**
+ * Result of reconciling several statements (csvFiles argument)
+ */
+export interface ReconcileStatementsResult {
+  success: boolean;
+  statements: Partial<ReconcileResult>[];
+  accounts: AccountReconciliation[];
+  error?: string;
+  hint?: string;
+}
+
+/**
+ * Build the error details of a single statement reconciliation.
  *
  * @param params - Error result parameters
  * @param params.csvFile - Path to the CSV file being reconciled (optional)
  * @param params.account - The account being reconciled (optional)
  * @param params.lastTransactionDate - Date of last transaction (optional)
+ * @param params.balanceDate - Date the balance was checked as of (optional)
  * @param params.expectedBalance - Expected closing balance (optional)
  * @param params.actualBalance - Actual balance from hledger (optional)
  * @param params.difference - Calculated difference (optional)
+ * @param params.openingBalance - Opening balance from CSV metadata (optional)
+ * @param params.actualOpeningBalance - Journal balance before the from-date (optional)
+ * @param params.diagnosis - Running balance diagnosis (optional)
  * @param params.metadata - CSV metadata (optional)
  * @param params.error - Error message (required)
  * @param params.hint - Helpful hint for resolving the error (optional)
- * @returns JSON string with success: false
+ * @returns Result object with success: false
  */
-function buildErrorResult(params: {
+function buildErrorDetails(params: {
   csvFile?: string;
   account?: string;
   lastTransactionDate?: string;
+  balanceDate?: string;
   expectedBalance?: string;
   actualBalance?: string;
   difference?: string;
+  openingBalance?: string;
+  actualOpeningBalance?: string;
+  diagnosis?: RunningBalanceDiagnosis;
   metadata?: CsvMetadata;
   error: string;
   hint?: string;
-}): string {
-  return JSON.stringify({
+}): Partial<ReconcileResult> {
+  return {
     success: false,
     ...params,
-  } satisfies Partial<ReconcileResult>);
+  };
+}
+
+/**
+ * Build an error result for the reconcile-statement tool.
+ *
+ * Creates a standardized JSON error response with optional context fields.
+ *
+ * @param params - Error result parameters (see buildErrorDetails)
+ * @returns JSON string with success: false
+ */
+function buildErrorResult(params: Parameters<typeof buildErrorDetails>[0]): string {
+  return JSON.stringify(buildErrorDetails(params));
 }
 
 /**
@@ -153,6 +248,26 @@ function findCsvToReconcile(
   return { csvFile, relativePath };
 }
 
+/**
+ * Normalize a balance from CSV metadata written in the provider's number format,
+ * adding the metadata currency if not present.
+ */
+function normalizeMetadataBalance(
+  balance: string,
+  metadata: CsvMetadata,
+  numberFormat: NumberFormat | undefined
+): string {
+  const currency = metadata.currency;
+  const normalized = normalizeBalance(balance, currency, numberFormat);
+  if (normalized) {
+    return normalized;
+  }
+  if (currency && balance && !balance.includes(currency)) {
+    return `${currency} ${balance}`;
+  }
+  return balance;
+}
+
 /**
  * Determine closing balance from CSV metadata or manual override.
  *
@@ -161,65 +276,75 @@ function findCsvToReconcile(
  *
  * @param csvFile - Path to the CSV file
  * @param config - Import configuration
- * @param options - Reconciliation options (may include manual closingBalance)
- * @param relativeCsvPath - Relative path to CSV for error messages
+ * @param manualClosingBalance - Manual closing balance override (optional)
  * @param rulesDir - Directory containing rules files (for CSV analysis fallback)
- * @returns Closing balance and metadata on success, or error object
+ * @returns Closing balance (undefined if none was found), metadata, detected provider
+ *   and its number format
  */
 function determineClosingBalance(
   csvFile: string,
   config: ImportConfig,
-  options: ReconcileStatementsArgs,
-  relativeCsvPath: string,
+  manualClosingBalance: string | undefined,
   rulesDir: string
-):
-  | { closingBalance: string; metadata?: CsvMetadata; fromCSVAnalysis?: boolean }
-  | { error: string } {
+): {
+  closingBalance?: string;
+  metadata?: CsvMetadata;
+  provider?: string;
+  numberFormat?: NumberFormat;
+  fromCSVAnalysis?: boolean;
+} {
   // Extract metadata from CSV
   let metadata: CsvMetadata | undefined;
+  let provider: string | undefined;
+  let numberFormat: NumberFormat | undefined;
+  let currency: string | undefined;
   try {
     const content = fs.readFileSync(csvFile, 'utf-8');
     const filename = path.basename(csvFile);
     const detectionResult = detectProvider(filename, content, config);
     metadata = detectionResult?.metadata as CsvMetadata | undefined;
+    provider = detectionResult?.provider;
+    numberFormat = detectionResult?.rule.numberFormat;
+    currency = detectionResult?.currency.toUpperCase();
   } catch {
     metadata = undefined;
   }
+  try {
+    // Without a number format on the detection rule, use the rules file's decimal-mark
+    const rulesFile = findRulesForCsv(csvFile, loadRulesMapping(rulesDir));
+    if (rulesFile) {
+      numberFormat = resolveNumberFormat(getRulesConfig(readRulesFile(rulesFile)), numberFormat);
+    }
+  } catch {
+    // Keep the detection rule's number format
+  }
 
-  let closingBalance = options.closingBalance;
+  let closingBalance = manualClosingBalance;
 
   if (!closingBalance && metadata?.['closing-balance']) {
-    const closingBalanceValue = metadata['closing-balance'];
-    const currency = metadata.currency;
-    closingBalance = closingBalanceValue;
-    // Add currency if not present and metadata has it
-    if (currency && closingBalance && !closingBalance.includes(currency)) {
-      closingBalance = `${currency} ${closingBalance}`;
-    }
+    closingBalance = normalizeMetadataBalance(metadata['closing-balance'], metadata, numberFormat);
   }
 
   // If still no closing balance, try CSV analysis fallback
   if (!closingBalance) {
-    const csvAnalysis = tryExtractClosingBalanceFromCSV(csvFile, rulesDir);
+    const csvAnalysis = tryExtractClosingBalanceFromCSV(csvFile, rulesDir, numberFormat, currency);
     if (csvAnalysis && csvAnalysis.confidence === 'high') {
       closingBalance = csvAnalysis.balance;
-      return { closingBalance, metadata, fromCSVAnalysis: true };
+      return { closingBalance, metadata, provider, numberFormat, fromCSVAnalysis: true };
     }
   }
 
-  if (!closingBalance) {
-    const retryCmd = buildRetryCommand(options, 'CHF 2324.79', options.account);
-    return {
-      error: buildErrorResult({
-        csvFile: relativeCsvPath,
-        error: 'No closing balance found in CSV metadata or data',
-        hint: `Provide closingBalance parameter manually. Example retry: ${retryCmd}`,
-        metadata,
-      }),
-    };
-  }
+  return { closingBalance, metadata, provider, numberFormat };
+}
 
-  return { closingBalance, metadata };
+/**
+ * Get the reconciliation tolerance configured for a provider (exact match by default).
+ */
+function getProviderTolerance(
+  config: ImportConfig,
+  provider: string | undefined
+): BalanceTolerance {
+  return (provider && config.providers[provider]?.tolerance) || 0;
 }
 
 /**
@@ -272,7 +397,7 @@ function determineAccount(
   options: ReconcileStatementsArgs,
   relativeCsvPath: string,
   metadata?: CsvMetadata
-): { account: string } | { error: string } {
+): { account: string } | { error: Partial<ReconcileResult> } {
   let account = options.account;
 
   if (!account) {
@@ -291,7 +416,7 @@ function determineAccount(
       ? `Add 'account1 assets:bank:...' to ${rulesFile} or retry with: ${buildRetryCommand(options, undefined, 'assets:bank:...')}`
       : `Create a rules file in ${rulesDir} with 'account1' directive or retry with: ${buildRetryCommand(options, undefined, 'assets:bank:...')}`;
     return {
-      error: buildErrorResult({
+      error: buildErrorDetails({
         csvFile: relativeCsvPath,
         error: 'Could not determine account from rules file',
         hint: rulesHint,
@@ -309,11 +434,15 @@ function determineAccount(
  *
  * @param csvFile Path to the CSV file
  * @param rulesDir Directory containing rules files
+ * @param numberFormat Number format of the CSV amounts
+ * @param defaultCommodity Commodity of a balance written without one (optional)
  * @returns Closing balance with confidence level, or null if cannot be determined
  */
 function tryExtractClosingBalanceFromCSV(
   csvFile: string,
-  rulesDir: string
+  rulesDir: string,
+  numberFormat?: NumberFormat,
+  defaultCommodity?: string
 ): { balance: string; confidence: 'high' | 'low'; method: string } | null {
   try {
     // Find matching rules file
@@ -325,8 +454,7 @@ function tryExtractClosingBalanceFromCSV(
     }
 
     // Parse rules file to get CSV configuration
-    const rulesContent = fs.readFileSync(rulesFile, 'utf-8');
-    const rulesConfig = parseRulesFile(rulesContent);
+    const rulesConfig = getRulesConfig(readRulesFile(rulesFile));
 
     // Parse CSV file
     const csvRows = parseCsvFile(csvFile, rulesConfig);
@@ -335,27 +463,12 @@ function tryExtractClosingBalanceFromCSV(
       return null;
     }
 
-    // Try to find a balance field in the CSV
-    // Common balance field names
-    const balanceFieldNames = [
-      'balance',
-      'Balance',
-      'BALANCE',
-      'closing-balance',
-      'Closing Balance',
-      'account_balance',
-      'Account Balance',
-      'saldo',
-      'Saldo',
-      'SALDO',
-    ];
-
     // Check last row for balance field
     const lastRow = csvRows[csvRows.length - 1];
     let balanceField: string | undefined;
     let balanceValue: string | undefined;
 
-    for (const fieldName of balanceFieldNames) {
+    for (const fieldName of BALANCE_FIELD_NAMES) {
       if (lastRow[fieldName] !== undefined && lastRow[fieldName].trim() !== '') {
         balanceField = fieldName;
         balanceValue = lastRow[fieldName];
@@ -364,38 +477,23 @@ function tryExtractClosingBalanceFromCSV(
     }
 
     if (balanceValue && balanceField) {
-      // Parse the balance value
-      const numericValue = parseAmountValue(balanceValue);
-
-      // Try to detect currency from amount field or balance field itself
-      let currency = '';
-
-      // First check if balance field has currency
-      const balanceCurrencyMatch = balanceValue.match(/[A-Z]{3}/);
-      if (balanceCurrencyMatch) {
-        currency = balanceCurrencyMatch[0];
-      }
-
-      // If no currency in balance, try to detect from amount field
-      if (!currency) {
-        const amountField =
-          rulesConfig.amountFields.single ||
-          rulesConfig.amountFields.credit ||
-          rulesConfig.amountFields.debit;
-        if (amountField) {
-          const amountStr = lastRow[amountField] || '';
-          // Try to extract currency from amount string (e.g., "CHF 100.00" or "100.00 CHF")
-          const currencyMatch = amountStr.match(/[A-Z]{3}/);
-          if (currencyMatch) {
-            currency = currencyMatch[0];
-          }
-        }
+      // Take the commodity from the balance itself, else from the amount or the statement
+      const amountField =
+        rulesConfig.amountFields.single ||
+        rulesConfig.amountFields.credit ||
+        rulesConfig.amountFields.debit;
+      const amountCommodity = amountField
+        ? parseBalance(lastRow[amountField] || '', numberFormat)?.currency
+        : undefined;
+      const balanceStr = normalizeBalance(
+        balanceValue,
+        amountCommodity || defaultCommodity,
+        numberFormat
+      );
+      if (!balanceStr) {
+        return null;
       }
 
-      const balanceStr = currency
-        ? `${currency} ${numericValue.toFixed(2)}`
-        : numericValue.toFixed(2);
-
       return {
         balance: balanceStr,
         confidence: 'high',
@@ -413,60 +511,186 @@ function tryExtractClosingBalanceFromCSV(
 }
 
 /**
- * Implementation of the reconcile-statement tool
+ * Get the date of the last transaction in a statement CSV (via hledger print with its rules file).
+ *
+ * @param csvFile - Path to the CSV file
+ * @param rulesDir - Directory containing rules files
+ * @param hledgerExecutor - hledger executor
+ * @returns Date in YYYY-MM-DD format, or null if it cannot be determined
  */
-export async function reconcileStatement(
-  directory: string,
-  agent: string,
-  options: ReconcileStatementsArgs,
-  configLoader: (configDir: string) => ImportConfig = loadImportConfig,
-  hledgerExecutor: HledgerExecutor = defaultHledgerExecutor
-): Promise<string> {
-  // 1. Agent restriction
-  const restrictionError = checkAccountantAgent(agent, 'reconcile statement');
-  if (restrictionError) {
-    return restrictionError;
+async function getStatementLastTransactionDate(
+  csvFile: string,
+  rulesDir: string,
+  hledgerExecutor: HledgerExecutor
+): Promise<string | null> {
+  const rulesFile = findRulesForCsv(csvFile, loadRulesMapping(rulesDir));
+  if (!rulesFile) {
+    return null;
   }
 
-  // 2. Load configuration
-  const configResult = loadConfiguration(directory, configLoader);
-  if ('error' in configResult) {
-    return configResult.error;
+  const result = await hledgerExecutor(['print', '-f', csvFile, '--rules-file', rulesFile]);
+  if (result.exitCode !== 0) {
+    return null;
   }
-  const { config } = configResult;
 
-  const doneDir = path.join(directory, config.paths.done);
-  const rulesDir = path.join(directory, config.paths.rules);
-  const mainJournalPath = path.join(directory, '.hledger.journal');
+  const dates = Array.from(result.stdout.matchAll(/^(\d{4}-\d{2}-\d{2})\s/gm), (m) => m[1]);
+  return dates.length > 0 ? dates.sort()[dates.length - 1] : null;
+}
 
-  // 4. Find CSV file
-  const csvResult = findCsvToReconcile(doneDir, options);
-  if ('error' in csvResult) {
-    return csvResult.error;
+/**
+ * Check the statement's opening balance against the journal balance on the day before
+ * its from-date. A mismatch means transactions between the previous statement and this
+ * one are missing from the journal (usually a statement that was never imported).
+ * Not checked without opening-balance and from-date metadata, or if the journal has no
+ * earlier transactions for the account (first statement of the account).
+ *
+ * @param relativeCsvPath - Relative path to CSV for the result
+ * @param account - Account the statement belongs to
+ * @param metadata - CSV metadata
+ * @param mainJournalPath - Path to the main journal
+ * @param comparison - Tolerance and number format of the provider
+ * @param hledgerExecutor - hledger executor
+ * @returns Checked balances, error details on mismatch, or null if not checked
+ */
+async function checkOpeningBalance(
+  relativeCsvPath: string,
+  account: string,
+  metadata: CsvMetadata | undefined,
+  mainJournalPath: string,
+  comparison: { tolerance: BalanceTolerance; numberFormat?: NumberFormat },
+  hledgerExecutor: HledgerExecutor
+): Promise<
+  | { openingBalance: string; actualOpeningBalance: string }
+  | { error: Partial<ReconcileResult> }
+  | null
+> {
+  const fromDate = metadata?.['from-date'] ? normalizeStatementDate(metadata['from-date']) : null;
+  if (!metadata?.['opening-balance'] || !fromDate) {
+    return null;
   }
-  const { csvFile, relativePath: relativeCsvPath } = csvResult;
+  const openingBalance = normalizeMetadataBalance(
+    metadata['opening-balance'],
+    metadata,
+    comparison.numberFormat
+  );
 
-  // 5. Determine closing balance
-  const balanceResult = determineClosingBalance(
-    csvFile,
-    config,
-    options,
-    relativeCsvPath,
-    rulesDir
+  const previousTransactionDate = await getLastTransactionDateBefore(
+    mainJournalPath,
+    account,
+    fromDate,
+    hledgerExecutor
   );
-  if ('error' in balanceResult) {
-    return balanceResult.error;
+  if (!previousTransactionDate) {
+    return null;
   }
-  const { closingBalance, metadata, fromCSVAnalysis } = balanceResult;
 
-  // 6. Determine account
-  const accountResult = determineAccount(csvFile, rulesDir, options, relativeCsvPath, metadata);
-  if ('error' in accountResult) {
-    return accountResult.error;
+  const openingBalanceDate = getPreviousDay(fromDate);
+  const actualOpeningBalance = await getAccountBalance(
+    mainJournalPath,
+    account,
+    openingBalanceDate,
+    hledgerExecutor
+  );
+  if (actualOpeningBalance === null) {
+    return {
+      error: buildErrorDetails({
+        csvFile: relativeCsvPath,
+        account,
+        openingBalance,
+        error: 'Failed to query account balance from hledger',
+        hint: `Check journal syntax: hledger check -f ${mainJournalPath}`,
+        metadata,
+      }),
+    };
   }
-  const { account } = accountResult;
 
-  // 7. Get last transaction date
+  let matches: boolean;
+  try {
+    matches = balancesMatch(openingBalance, actualOpeningBalance, comparison.tolerance);
+  } catch (error) {
+    return {
+      error: buildErrorDetails({
+        csvFile: relativeCsvPath,
+        account,
+        openingBalance,
+        actualOpeningBalance,
+        error: `Cannot parse opening balances for comparison: ${error instanceof Error ? error.message : String(error)}`,
+        metadata,
+      }),
+    };
+  }
+
+  if (matches) {
+    return { openingBalance, actualOpeningBalance };
+  }
+
+  let difference: string | undefined;
+  try {
+    difference = calculateDifference(openingBalance, actualOpeningBalance);
+  } catch {
+    difference = undefined;
+  }
+
+  return {
+    error: buildErrorDetails({
+      csvFile: relativeCsvPath,
+      account,
+      openingBalance,
+      actualOpeningBalance,
+      difference,
+      error:
+        `Opening balance mismatch, missing statement between ${previousTransactionDate} and ${fromDate}: ` +
+        `expected ${openingBalance} as of ${openingBalanceDate}, got ${actualOpeningBalance}` +
+        (difference ? ` (difference: ${difference})` : ''),
+      hint: `Import the statement covering ${previousTransactionDate} to ${openingBalanceDate} for ${account}, or check for transactions missing from the previous statement`,
+      metadata,
+    }),
+  };
+}
+
+/**
+ * Reconcile a single statement: compare its closing balance with the account balance
+ * in the journal as of the statement's until-date (or its last transaction).
+ *
+ * @param csvFile - Path to the CSV file
+ * @param relativeCsvPath - Relative path to CSV for the result
+ * @param account - Account the statement belongs to
+ * @param params - Reconciliation context
+ * @param params.manualClosingBalance - Manual closing balance override (optional)
+ * @param params.allowMissingBalance - Skip instead of failing if the statement has no closing balance
+ * @returns Result for the statement
+ */
+async function reconcileCsvFile(
+  csvFile: string,
+  relativeCsvPath: string,
+  account: string,
+  params: {
+    config: ImportConfig;
+    rulesDir: string;
+    mainJournalPath: string;
+    options: ReconcileStatementsArgs;
+    manualClosingBalance?: string;
+    allowMissingBalance?: boolean;
+  },
+  hledgerExecutor: HledgerExecutor
+): Promise<Partial<ReconcileResult>> {
+  const { config, rulesDir, mainJournalPath, options } = params;
+
+  const { closingBalance, metadata, provider, numberFormat, fromCSVAnalysis } =
+    determineClosingBalance(csvFile, config, params.manualClosingBalance, rulesDir);
+  const tolerance = getProviderTolerance(config, provider ?? options.provider);
+
+  if (!closingBalance && !params.allowMissingBalance) {
+    const retryCmd = buildRetryCommand(options, 'CHF 2324.79', options.account);
+    return buildErrorDetails({
+      csvFile: relativeCsvPath,
+      error: 'No closing balance found in CSV metadata or data',
+      hint: `Provide closingBalance parameter manually. Example retry: ${retryCmd}`,
+      metadata,
+    });
+  }
+
+  // Get last transaction date
   const lastTransactionDate = await getLastTransactionDate(
     mainJournalPath,
     account,
@@ -474,7 +698,7 @@ export async function reconcileStatement(
   );
 
   if (!lastTransactionDate) {
-    return buildErrorResult({
+    return buildErrorDetails({
       csvFile: relativeCsvPath,
       account,
       error: 'No transactions found for account',
@@ -483,34 +707,70 @@ export async function reconcileStatement(
     });
   }
 
-  // 8. Get actual balance
+  // Catch gaps between statements before comparing the closing balance
+  const opening = await checkOpeningBalance(
+    relativeCsvPath,
+    account,
+    metadata,
+    mainJournalPath,
+    { tolerance, numberFormat },
+    hledgerExecutor
+  );
+  if (opening && 'error' in opening) {
+    return opening.error;
+  }
+
+  if (!closingBalance) {
+    return {
+      success: true,
+      skipped: true,
+      csvFile: relativeCsvPath,
+      account,
+      ...opening,
+      metadata,
+      note: 'No closing balance in CSV metadata or data; checked through the later statements of the account',
+    };
+  }
+
+  // Check the balance as of the end of the statement period, so later statements don't count
+  const untilDate = metadata?.['until-date']
+    ? normalizeStatementDate(metadata['until-date'])
+    : null;
+  const balanceDate =
+    untilDate ??
+    (await getStatementLastTransactionDate(csvFile, rulesDir, hledgerExecutor)) ??
+    lastTransactionDate;
+
+  // Get actual balance
   const actualBalance = await getAccountBalance(
     mainJournalPath,
     account,
-    lastTransactionDate,
+    balanceDate,
     hledgerExecutor
   );
 
   if (actualBalance === null) {
-    return buildErrorResult({
+    return buildErrorDetails({
       csvFile: relativeCsvPath,
       account,
       lastTransactionDate,
+      balanceDate,
       error: 'Failed to query account balance from hledger',
       hint: `Check journal syntax: hledger check -f ${mainJournalPath}`,
       metadata,
     });
   }
 
-  // 9. Compare balances
+  // Compare balances
   let doBalancesMatch: boolean;
   try {
-    doBalancesMatch = balancesMatch(closingBalance, actualBalance);
+    doBalancesMatch = balancesMatch(closingBalance, actualBalance, tolerance);
   } catch (error) {
-    return buildErrorResult({
+    return buildErrorDetails({
       csvFile: relativeCsvPath,
       account,
       lastTransactionDate,
+      balanceDate,
       expectedBalance: closingBalance,
       actualBalance,
       error: `Cannot parse balances for comparison: ${error instanceof Error ? error.message : String(error)}`,
@@ -524,8 +784,10 @@ export async function reconcileStatement(
       csvFile: relativeCsvPath,
       account,
       lastTransactionDate,
+      balanceDate,
       expectedBalance: closingBalance,
       actualBalance,
+      ...opening,
       metadata,
     };
 
@@ -534,18 +796,26 @@ export async function reconcileStatement(
       result.note = `Closing balance auto-detected from CSV data (no metadata available). Account: ${account}`;
     }
 
-    return JSON.stringify(result);
+    // Matched within the provider's tolerance, not exactly
+    if (tolerance !== 0 && !balancesMatch(closingBalance, actualBalance)) {
+      result.difference = calculateDifference(closingBalance, actualBalance);
+      const toleranceNote = `Balances differ by ${result.difference}, within the configured tolerance`;
+      result.note = result.note ? `${result.note}. ${toleranceNote}` : toleranceNote;
+    }
+
+    return result;
   }
 
-  // 10. Balance mismatch
+  // Balance mismatch
   let difference: string;
   try {
     difference = calculateDifference(closingBalance, actualBalance);
   } catch (error) {
-    return buildErrorResult({
+    return buildErrorDetails({
       csvFile: relativeCsvPath,
       account,
       lastTransactionDate,
+      balanceDate,
       expectedBalance: closingBalance,
       actualBalance,
       error: `Failed to calculate difference: ${error instanceof Error ? error.message : String(error)}`,
@@ -553,30 +823,374 @@ export async function reconcileStatement(
     });
   }
 
-  return buildErrorResult({
+  const diagnosis = options.diagnose
+    ? await diagnoseRunningBalance(
+        csvFile,
+        rulesDir,
+        account,
+        parseBalance(closingBalance)?.currency || undefined,
+        mainJournalPath,
+        numberFormat,
+        hledgerExecutor
+      )
+    : undefined;
+
+  return buildErrorDetails({
     csvFile: relativeCsvPath,
     account,
     lastTransactionDate,
+    balanceDate,
     expectedBalance: closingBalance,
     actualBalance,
     difference,
-    error: `Balance mismatch: expected ${closingBalance}, got ${actualBalance} (difference: ${difference})`,
-    hint: 'Check for missing transactions, duplicate imports, or incorrect rules',
+    diagnosis,
+    error: `Balance mismatch: expected ${closingBalance}, got ${actualBalance} as of ${balanceDate} (difference: ${difference})`,
+    hint: buildMismatchHint(diagnosis),
     metadata,
   });
 }
 
+/**
+ * Build the hint for a balance mismatch, pointing to the first divergence if diagnosed.
+ */
+function buildMismatchHint(diagnosis: RunningBalanceDiagnosis | undefined): string {
+  const divergence = diagnosis?.divergence;
+  if (!divergence) {
+    return diagnosis?.note
+      ? `Check for missing transactions, duplicate imports, or incorrect rules. ${diagnosis.note}`
+      : 'Check for missing transactions, duplicate imports, or incorrect rules';
+  }
+
+  const location = divergence.row ? `${divergence.date} (row ${divergence.row})` : divergence.date;
+  const causes =
+    divergence.causes.length > 0
+      ? divergence.causes.map((cause) => cause.description).join('; ')
+      : 'no obvious cause, check the rules for that date';
+  return `Running balance first diverges on ${location}: ${causes}`;
+}
+
+/**
+ * Walk the statement's running balance column alongside the journal postings of the
+ * account, to find the first date where they diverge and its likely causes.
+ *
+ * @param csvFile - Path to the CSV file
+ * @param rulesDir - Directory containing rules files
+ * @param account - Account the statement belongs to
+ * @param commodity - Commodity of the statement; the journal is restricted to it (optional)
+ * @param mainJournalPath - Path to the main journal
+ * @param numberFormat - Number format of the CSV amounts
+ * @param hledgerExecutor - hledger executor
+ * @returns Diagnosis (with a note if the statement cannot be diagnosed)
+ */
+async function diagnoseRunningBalance(
+  csvFile: string,
+  rulesDir: string,
+  account: string,
+  commodity: string | undefined,
+  mainJournalPath: string,
+  numberFormat: NumberFormat | undefined,
+  hledgerExecutor: HledgerExecutor
+): Promise<RunningBalanceDiagnosis> {
+  const rulesFile = findRulesForCsv(csvFile, loadRulesMapping(rulesDir));
+  if (!rulesFile) {
+    return { rowsChecked: 0, divergence: null, note: 'No rules file found for the CSV.' };
+  }
+
+  const rulesConfig = getRulesConfig(readRulesFile(rulesFile));
+  const csvRows = parseCsvFile(csvFile, rulesConfig);
+  const balanceField = BALANCE_FIELD_NAMES.find((field) =>
+    csvRows.some((row) => row[field] !== undefined && row[field].trim() !== '')
+  );
+  if (!balanceField) {
+    return {
+      rowsChecked: 0,
+      divergence: null,
+      note: 'The CSV has no running balance column to diagnose the mismatch.',
+    };
+  }
+
+  const rows = toStatementRows(csvRows, rulesConfig, balanceField, numberFormat);
+  if (rows.length === 0) {
+    return { balanceField, rowsChecked: 0, divergence: null, note: 'No dated CSV rows found.' };
+  }
+  const firstDate = rows[0].date;
+  const lastDate = rows[rows.length - 1].date;
+
+  const openingBalance = await getAccountBalance(
+    mainJournalPath,
+    account,
+    getPreviousDay(firstDate),
+    hledgerExecutor,
+    commodity
+  );
+  const register = await hledgerExecutor([
+    'register',
+    account,
+    ...(commodity ? [commodityQuery(commodity)] : []),
+    '-f',
+    mainJournalPath,
+    '-b',
+    firstDate,
+    '-e',
+    getNextDay(lastDate),
+    '-O',
+    'csv',
+  ]);
+  if (openingBalance === null || register.exitCode !== 0) {
+    return {
+      balanceField,
+      rowsChecked: 0,
+      divergence: null,
+      note: 'Failed to query the journal postings from hledger.',
+    };
+  }
+
+  const openingAmount = commodity
+    ? getCommodityAmount(openingBalance, commodity)
+    : parseAmountValue(openingBalance);
+  if (openingAmount === null) {
+    return {
+      balanceField,
+      rowsChecked: 0,
+      divergence: null,
+      note: `Cannot parse the journal balance "${openingBalance}".`,
+    };
+  }
+
+  const divergence = findRunningBalanceDivergence(
+    rows,
+    parseRegisterPostings(register.stdout),
+    openingAmount
+  );
+
+  return {
+    balanceField,
+    rowsChecked: rows.length,
+    divergence,
+    note: divergence
+      ? undefined
+      : 'The running balance matches the journal on every statement date; the mismatch is in the closing balance or after the last row.',
+  };
+}
+
+/**
+ * Summarize statement results per account, in order of first appearance.
+ * The balances reported are those of the account's last checked statement.
+ */
+function summarizeAccounts(statements: Partial<ReconcileResult>[]): AccountReconciliation[] {
+  const accounts = new Map<string, AccountReconciliation>();
+
+  for (const statement of statements) {
+    const name = statement.account ?? 'unknown';
+    let summary = accounts.get(name);
+    if (!summary) {
+      summary = {
+        account: name,
+        success: true,
+        statements: 0,
+        reconciled: 0,
+        skipped: 0,
+        failed: 0,
+      };
+      accounts.set(name, summary);
+    }
+
+    summary.statements++;
+    if (!statement.success) {
+      summary.failed++;
+      summary.success = false;
+    } else if (statement.skipped) {
+      summary.skipped++;
+    } else {
+      summary.reconciled++;
+    }
+
+    if (statement.actualBalance !== undefined) {
+      summary.expectedBalance = statement.expectedBalance;
+      summary.actualBalance = statement.actualBalance;
+      summary.balanceDate = statement.balanceDate;
+    }
+  }
+
+  return Array.from(accounts.values());
+}
+
+/**
+ * Implementation of the reconcile-statement tool
+ */
+export async function reconcileStatement(
+  directory: string,
+  agent: string,
+  options: ReconcileStatementsArgs,
+  configLoader: (configDir: string) => ImportConfig = loadImportConfig,
+  hledgerExecutor: HledgerExecutor = defaultHledgerExecutor
+): Promise<string> {
+  // 1. Agent restriction
+  const restrictionError = checkAccountantAgent(agent, 'reconcile statement');
+  if (restrictionError) {
+    return restrictionError;
+  }
+
+  // 2. Load configuration
+  const configResult = loadConfiguration(directory, configLoader);
+  if ('error' in configResult) {
+    return configResult.error;
+  }
+  const { config } = configResult;
+
+  const doneDir = path.join(directory, config.paths.done);
+  const rulesDir = path.join(directory, config.paths.rules);
+  const mainJournalPath = path.join(directory, '.hledger.journal');
+  const context = { config, rulesDir, mainJournalPath, options };
+
+  // 3. Several statements: reconcile each and report per account
+  if (options.csvFiles) {
+    return reconcileStatements(directory, options.csvFiles, context, hledgerExecutor);
+  }
+
+  // 4. Find CSV file
+  const csvResult = findCsvToReconcile(doneDir, options);
+  if ('error' in csvResult) {
+    return csvResult.error;
+  }
+  const { csvFile, relativePath: relativeCsvPath } = csvResult;
+
+  // 5. Determine account
+  const accountResult = determineAccount(csvFile, rulesDir, options, relativeCsvPath);
+  if ('error' in accountResult) {
+    return JSON.stringify(accountResult.error);
+  }
+
+  // 6. Compare closing balance and journal balance
+  const result = await reconcileCsvFile(
+    csvFile,
+    relativeCsvPath,
+    accountResult.account,
+    { ...context, manualClosingBalance: options.closingBalance },
+    hledgerExecutor
+  );
+  return JSON.stringify(result);
+}
+
+/**
+ * Reconcile each of the given statements in order and report per account.
+ * A statement without a closing balance is skipped unless it is the last one
+ * of its account; a manual closing balance applies to the last statement.
+ */
+async function reconcileStatements(
+  directory: string,
+  csvFiles: string[],
+  context: {
+    config: ImportConfig;
+    rulesDir: string;
+    mainJournalPath: string;
+    options: ReconcileStatementsArgs;
+  },
+  hledgerExecutor: HledgerExecutor
+): Promise<string> {
+  if (csvFiles.length === 0) {
+    return JSON.stringify({
+      success: false,
+      statements: [],
+      accounts: [],
+      error: 'No CSV files to reconcile',
+    } satisfies ReconcileStatementsResult);
+  }
+
+  // Determine the account of each statement first, to know each account's last statement
+  const accountResults = csvFiles.map((relativeCsvPath) =>
+    determineAccount(
+      path.join(directory, relativeCsvPath),
+      context.rulesDir,
+      context.options,
+      relativeCsvPath
+    )
+  );
+  const lastIndexByAccount = new Map<string, number>();
+  accountResults.forEach((accountResult, index) => {
+    if ('account' in accountResult) {
+      lastIndexByAccount.set(accountResult.account, index);
+    }
+  });
+
+  const statements: Partial<ReconcileResult>[] = [];
+  for (const [index, relativeCsvPath] of csvFiles.entries()) {
+    const accountResult = accountResults[index];
+    if ('error' in accountResult) {
+      statements.push(accountResult.error);
+      continue;
+    }
+
+    const csvFile = path.join(directory, relativeCsvPath);
+    if (!fs.existsSync(csvFile)) {
+      statements.push(
+        buildErrorDetails({
+          csvFile: relativeCsvPath,
+          account: accountResult.account,
+          error: 'CSV file not found',
+        })
+      );
+      continue;
+    }
+
+    statements.push(
+      await reconcileCsvFile(
+        csvFile,
+        relativeCsvPath,
+        accountResult.account,
+        {
+          ...context,
+          manualClosingBalance:
+            index === csvFiles.length - 1 ? context.options.closingBalance : undefined,
+          allowMissingBalance: lastIndexByAccount.get(accountResult.account) !== index,
+        },
+        hledgerExecutor
+      )
+    );
+  }
+
+  const failed = statements.filter((statement) => !statement.success);
+  const result: ReconcileStatementsResult = {
+    success: failed.length === 0,
+    statements,
+    accounts: summarizeAccounts(statements),
+  };
+
+  if (failed.length > 0) {
+    result.error = `Reconciliation failed for ${failed.length} of ${statements.length} statement(s): ${failed
+      .map((statement) => `${statement.csvFile}: ${statement.error}`)
+      .join('; ')}`;
+    result.hint =
+      failed.length === 1 && failed[0].hint
+        ? failed[0].hint
+        : 'Check the statements in order: the first mismatch usually points to missing transactions, duplicate imports, or incorrect rules';
+  }
+
+  return JSON.stringify(result);
+}
+
 export default tool({
   description: `ACCOUNTANT AGENT ONLY: Reconcile imported bank statement against closing balance.
 
 This tool validates that the imported transactions result in the correct closing balance.
 
 **Workflow:**
-1. Finds the most recently imported CSV in the done directory
+1. Finds the most recently imported CSV in the done directory (or uses the csvFiles argument)
 2. Extracts closing balance from CSV metadata (or uses manual override)
 3. Determines the account from the matching rules file (or uses manual override)
-4. Queries hledger for the actual balance as of the last transaction date
-5. Compares expected vs actual balance
+4. Checks the opening balance (if in CSV metadata) against the balance on the day before the from-date
+5. Queries hledger for the actual balance as of the statement's until-date (or its last transaction)
+6. Compares expected vs actual balance
+
+**Diagnosing Mismatches (diagnose):**
+- Walks the CSV running balance column (e.g., Balance) alongside the journal postings
+- Reports the first date where the balances diverge and likely causes: missing row, duplicate, sign flip, fee not imported
+
+**Several Statements (csvFiles):**
+- Each statement is checked against its own closing balance and until-date, in the given order
+- A statement without closing balance is skipped, unless it is the last one of its account
+- The manual closingBalance applies to the last statement
+- Returns the per-statement results and a per-account summary
 
 **Balance Sources:**
 - Automatic: Extracted from CSV header metadata (e.g., UBS files have "Closing balance:" row)
@@ -601,6 +1215,18 @@ This tool validates that the imported transactions result in the correct closing
       .describe(
         'Manual account (e.g., "assets:bank:ubs:checking"). Auto-detected from rules file if not provided.'
       ),
+    csvFiles: tool.schema
+      .array(tool.schema.string())
+      .optional()
+      .describe(
+        'CSV files to reconcile (relative to the repository, oldest first). Defaults to the most recent CSV in the done directory.'
+      ),
+    diagnose: tool.schema
+      .boolean()
+      .optional()
+      .describe(
+        'On a balance mismatch, compare the CSV running balance with the journal row by row to find where they diverge (default: false)'
+      ),
   },
   async execute(params, context) {
     const { directory, agent } = context;
@@ -609,6 +1235,8 @@ This tool validates that the imported transactions result in the correct closing
       currency: params.currency,
       closingBalance: params.closingBalance,
       account: params.account,
+      csvFiles: params.csvFiles,
+      diagnose: params.diagnose,
     });
   },
 });
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { rulesCoverage } from './rules-coverage.ts';
+import type { HledgerExecutor } from '../utils/hledgerExecutor.ts';
+import type { ImportConfig } from '../utils/importConfig.ts';
+
+describe('rules-coverage tool', () => {
+  let testDir: string;
+  let executedArgs: string[][];
+
+  const configLoader = (): ImportConfig => ({
+    paths: {
+      import: 'import/incoming',
+      pending: 'import/pending',
+      done: 'import/done',
+      unrecognized: 'import/unrecognized',
+      rules: 'ledger/rules',
+    },
+    providers: {},
+  });
+
+  const printOutput = `2026-01-02 Migros Basel
+    assets:bank:ubs              CHF-12.50
+    expenses:groceries            CHF12.50
+
+2026-01-03 Kiosk
+    assets:bank:ubs               CHF-3.00
+    expenses:unknown               CHF3.00
+`;
+
+  const executor: HledgerExecutor = async (args) => {
+    executedArgs.push(args);
+    return { stdout: printOutput, stderr: '', exitCode: 0 };
+  };
+
+  const writeFile = (relativePath: string, content: string) => {
+    const filePath = path.join(testDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-coverage-test-'));
+    executedArgs = [];
+
+    writeFile(
+      'ledger/rules/ubs-account.rules',
+      `source ../../import/pending/ubs/chf/ubs-account*.csv
+fields date, description, amount
+account1 assets:bank:ubs
+
+if Migros
+  account2 expenses:groceries
+
+if Denner
+  account2 expenses:groceries
+`
+    );
+    writeFile('ledger/rules/revolut.rules', 'fields date, description, amount\n');
+    writeFile(
+      'import/done/ubs/chf/ubs-account-2026-01.csv',
+      'Date,Description,Amount\n2026-01-02,Migros Basel,-12.50\n2026-01-03,Kiosk,-3.00\n'
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('rejects other agents', async () => {
+    const result = await rulesCoverage(testDir, 'other', {}, configLoader, executor);
+
+    expect(result).toContain('restricted to the accountant agent');
+  });
+
+  it('replays the done CSVs and reports dead rules and unknown transactions', async () => {
+    const result = JSON.parse(
+      await rulesCoverage(testDir, 'accountant', {}, configLoader, executor)
+    );
+
+    const csv = path.join(testDir, 'import/done/ubs/chf/ubs-account-2026-01.csv');
+    const rules = path.join(testDir, 'ledger/rules/ubs-account.rules');
+    expect(executedArgs).toEqual([['print', '-f', csv, '--rules-file', rules]]);
+
+    expect(result.success).toBe(true);
+    expect(result.skipped).toEqual(['ledger/rules/revolut.rules']);
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0]).toMatchObject({
+      rulesFile: 'ledger/rules/ubs-account.rules',
+      transactions: 2,
+      attributed: 1,
+      hotRules: [{ line: 5, account: 'expenses:groceries', transactions: 1 }],
+      deadRules: [{ line: 8, matchers: ['Denner'], transactions: 0 }],
+      unknown: [{ date: '2026-01-03', description: 'Kiosk', account: 'expenses:unknown' }],
+    });
+    expect(result.summary).toEqual({ transactions: 2, attributed: 1, unknown: 1, deadRules: 1 });
+    expect(result.hint).toContain('unknown accounts');
+  });
+
+  it('attributes transactions to the rules of included rules files', async () => {
+    writeFile(
+      'ledger/rules/ubs-account.rules',
+      `source ../../import/pending/ubs/chf/ubs-account*.csv
+fields date, description, amount
+account1 assets:bank:ubs
+include common/groceries.rules
+`
+    );
+    writeFile(
+      'ledger/rules/common/groceries.rules',
+      'if Migros\n  account2 expenses:groceries\n\nif Denner\n  account2 expenses:groceries\n'
+    );
+
+    const result = JSON.parse(
+      await rulesCoverage(testDir, 'accountant', {}, configLoader, executor)
+    );
+
+    expect(result.files[0]).toMatchObject({
+      attributed: 1,
+      unattributed: [],
+      hotRules: [{ file: 'ledger/rules/common/groceries.rules', line: 1, transactions: 1 }],
+      deadRules: [{ file: 'ledger/rules/common/groceries.rules', line: 4, matchers: ['Denner'] }],
+    });
+  });
+
+  it('reports hledger errors', async () => {
+    const failing: HledgerExecutor = async () => ({
+      stdout: '',
+      stderr: 'bad rules',
+      exitCode: 1,
+    });
+
+    const result = JSON.parse(
+      await rulesCoverage(testDir, 'accountant', {}, configLoader, failing)
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.files[0].error).toContain('bad rules');
+  });
+});
@@ -0,0 +1,246 @@
+import { tool } from '@opencode-ai/plugin';
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkAccountantAgent } from '../utils/agentRestriction.ts';
+import { loadImportConfig, type ImportConfig } from '../utils/importConfig.ts';
+import { parseCsvFile } from '../utils/csvParser.ts';
+import { parsePrintedTransactions } from '../utils/duplicateDetector.ts';
+import { defaultHledgerExecutor, type HledgerExecutor } from '../utils/hledgerExecutor.ts';
+import { findCsvFiles } from '../utils/journalUtils.ts';
+import { detectProvider } from '../utils/providerDetector.ts';
+import { groupCsvFilesByRules, loadRulesMapping } from '../utils/rulesMatcher.ts';
+import {
+  getFieldNames,
+  getRulesConfig,
+  getTopLevelAssignment,
+  readRulesFile,
+} from '../utils/rulesParser.ts';
+import {
+  measureRulesCoverage,
+  type CoverageStatement,
+  type RuleCoverage,
+  type RulesCoverage,
+} from '../utils/rulesCoverage.ts';
+
+/**
+ * Arguments for the rules-coverage tool
+ */
+export interface RulesCoverageArgs {
+  /** File name of a single rules file to report on (default: all) */
+  rulesFile?: string;
+}
+
+/**
+ * Coverage of a single rules file
+ */
+interface RulesFileCoverageResult extends Partial<RulesCoverage> {
+  rulesFile: string;
+  /** CSVs in done/ replayed through the rules file */
+  csvFiles: string[];
+  error?: string;
+}
+
+/**
+ * Overall result of the rules-coverage tool
+ */
+interface RulesCoverageResult {
+  success: boolean;
+  files: RulesFileCoverageResult[];
+  /** Rules files without CSVs in done/ */
+  skipped: string[];
+  summary: {
+    transactions: number;
+    attributed: number;
+    unknown: number;
+    deadRules: number;
+  };
+  error?: string;
+  hint?: string;
+}
+
+/**
+ * Builds an error result with an optional hint
+ */
+function buildErrorResult(error: string, hint?: string): string {
+  return JSON.stringify({
+    success: false,
+    error,
+    hint,
+  } satisfies Partial<RulesCoverageResult>);
+}
+
+/**
+ * Replays the CSVs of one rules file through hledger and measures the coverage of its rules.
+ */
+async function measureRulesFile(
+  directory: string,
+  rulesPath: string,
+  csvFiles: string[],
+  config: ImportConfig,
+  hledgerExecutor: HledgerExecutor
+): Promise<RulesFileCoverageResult> {
+  const result: RulesFileCoverageResult = {
+    rulesFile: path.relative(directory, rulesPath),
+    csvFiles: csvFiles.map((csv) => path.relative(directory, csv)),
+  };
+
+  const expanded = readRulesFile(rulesPath);
+  const account1 = getTopLevelAssignment(expanded, 'account1');
+  if (!account1) {
+    result.error = 'Rules file has no account1 assignment';
+    return result;
+  }
+  const rulesConfig = getRulesConfig(expanded);
+
+  const statements: CoverageStatement[] = [];
+  for (const csv of csvFiles) {
+    const printResult = await hledgerExecutor(['print', '-f', csv, '--rules-file', rulesPath]);
+    if (printResult.exitCode !== 0) {
+      result.error = `hledger error for ${path.relative(directory, csv)}: ${printResult.stderr.trim() || 'Unknown error'}`;
+      return result;
+    }
+    const content = fs.readFileSync(csv, 'utf-8');
+    statements.push({
+      csv: path.relative(directory, csv),
+      transactions: parsePrintedTransactions(printResult.stdout, account1),
+      rows: parseCsvFile(csv, rulesConfig),
+      config: rulesConfig,
+      numberFormat: detectProvider(path.basename(csv), content, config)?.rule.numberFormat,
+    });
+  }
+
+  const coverage = measureRulesCoverage(expanded, getFieldNames(expanded), statements);
+  const relativeFile = (rule: RuleCoverage): RuleCoverage =>
+    rule.file ? { ...rule, file: path.relative(directory, rule.file) } : rule;
+  return {
+    ...result,
+    ...coverage,
+    hotRules: coverage.hotRules.map(relativeFile),
+    deadRules: coverage.deadRules.map(relativeFile),
+  };
+}
+
+/**
+ * Replays the CSVs in paths.done through their rules files and reports which
+ * account2 rules fire, how often, and which transactions fall through to the unknown accounts
+ */
+export async function rulesCoverage(
+  directory: string,
+  agent: string,
+  options: RulesCoverageArgs,
+  configLoader: (dir: string) => ImportConfig = loadImportConfig,
+  hledgerExecutor: HledgerExecutor = defaultHledgerExecutor
+): Promise<string> {
+  // Agent restriction
+  const restrictionError = checkAccountantAgent(agent, 'report rules coverage');
+  if (restrictionError) {
+    return restrictionError;
+  }
+
+  let config: ImportConfig;
+  try {
+    config = configLoader(directory);
+  } catch (error) {
+    return buildErrorResult(
+      `Failed to load configuration: ${error instanceof Error ? error.message : String(error)}`,
+      'Ensure config/import/providers.yaml exists'
+    );
+  }
+
+  const rulesDir = path.join(directory, config.paths.rules);
+  if (!fs.existsSync(rulesDir)) {
+    return buildErrorResult(
+      `Rules directory not found: ${config.paths.rules}`,
+      'Run init-directories or create the rules directory'
+    );
+  }
+
+  const rulesFiles = fs
+    .readdirSync(rulesDir)
+    .filter((file) => file.endsWith('.rules'))
+    .filter((file) => !options.rulesFile || file === path.basename(options.rulesFile))
+    .sort()
+    .map((file) => path.join(rulesDir, file));
+
+  if (options.rulesFile && rulesFiles.length === 0) {
+    return buildErrorResult(
+      `Rules file not found: ${options.rulesFile}`,
+      `Rules files are read from ${config.paths.rules}`
+    );
+  }
+
+  const csvFilesByRules = groupCsvFilesByRules(
+    findCsvFiles(path.join(directory, config.paths.done)),
+    loadRulesMapping(rulesDir)
+  );
+
+  const result: RulesCoverageResult = {
+    success: true,
+    files: [],
+    skipped: [],
+    summary: { transactions: 0, attributed: 0, unknown: 0, deadRules: 0 },
+  };
+
+  for (const rulesPath of rulesFiles) {
+    const csvFiles = csvFilesByRules.get(rulesPath) ?? [];
+    if (csvFiles.length === 0) {
+      result.skipped.push(path.relative(directory, rulesPath));
+      continue;
+    }
+
+    let fileResult: RulesFileCoverageResult;
+    try {
+      fileResult = await measureRulesFile(directory, rulesPath, csvFiles, config, hledgerExecutor);
+    } catch (error) {
+      fileResult = {
+        rulesFile: path.relative(directory, rulesPath),
+        csvFiles: csvFiles.map((csv) => path.relative(directory, csv)),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    result.files.push(fileResult);
+
+    if (fileResult.error) {
+      result.success = false;
+      continue;
+    }
+    result.summary.transactions += fileResult.transactions ?? 0;
+    result.summary.attributed += fileResult.attributed ?? 0;
+    result.summary.unknown += fileResult.unknown?.length ?? 0;
+    result.summary.deadRules += fileResult.deadRules?.length ?? 0;
+  }
+
+  if (result.summary.unknown > 0) {
+    result.hint =
+      'Some transactions fall through to the unknown accounts. Add if blocks for them to the rules files.';
+  } else if (result.summary.deadRules > 0) {
+    result.hint =
+      'Dead rules never fired on the imported statements. Check their patterns or remove them.';
+  }
+
+  return JSON.stringify(result);
+}
+
+export default tool({
+  description: `ACCOUNTANT AGENT ONLY: Report which rules in each rules file fire, and how often.
+
+Replays the CSVs in done/ through their rules files (hledger print) and attributes each transaction's account2 to the \`if\` block or if table row that assigned it. Rules in included rules files are covered too; they are reported with their file.
+
+Reports per rules file:
+- Hot rules: the rules that fired most often
+- Dead rules: rules assigning account2 that never fired
+- Unknown transactions: transactions falling through to income:unknown / expenses:unknown
+- Unattributed transactions: other accounts no rule explains (e.g., a top-level account2)
+
+Nothing is modified.`,
+  args: {
+    rulesFile: tool.schema
+      .string()
+      .optional()
+      .describe('File name of a single rules file to report on (default: all rules files)'),
+  },
+  async execute(params, context) {
+    const { directory, agent } = context;
+    return rulesCoverage(directory, agent, { rulesFile: params.rulesFile });
+  },
+});
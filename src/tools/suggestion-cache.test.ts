@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { suggestionCache } from './suggestion-cache.ts';
+import type { ImportConfig } from '../utils/importConfig.ts';
+import {
+  getSuggestionCacheSection,
+  loadSuggestionCache,
+  saveSuggestionCache,
+} from '../utils/suggestionCache.ts';
+
+describe('suggestion-cache tool', () => {
+  let testDir: string;
+
+  const configLoader = (): ImportConfig => ({
+    paths: {
+      import: 'import/incoming',
+      pending: 'import/pending',
+      done: 'import/done',
+      unrecognized: 'import/unrecognized',
+      rules: 'ledger/rules',
+      logs: 'logs',
+    },
+    providers: {},
+  });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'suggestion-cache-tool-test-'));
+    const cachePath = path.join(testDir, 'logs', 'suggestion-cache.json');
+    const data = loadSuggestionCache(cachePath);
+    getSuggestionCacheSection(data, 'ledger/rules/ubs.rules', 'fp').entries.abc = {
+      account: 'expenses:groceries',
+      confidence: 'high',
+      reasoning: 'Grocery store',
+      description: 'Migros',
+      amount: 'CHF10.00',
+      createdAt: '2026-01-01T00:00:00.000Z',
+    };
+    saveSuggestionCache(cachePath, data);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should reject non-accountant agents', async () => {
+    const result = await suggestionCache(testDir, 'other-agent', {}, configLoader);
+
+    expect(result).toContain('restricted to the accountant agent');
+  });
+
+  it('should list cached suggestions', async () => {
+    const parsed = JSON.parse(await suggestionCache(testDir, 'accountant', {}, configLoader));
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.path).toBe(path.join('logs', 'suggestion-cache.json'));
+    expect(parsed.versionMatches).toBe(true);
+    expect(parsed.entryCount).toBe(1);
+    expect(parsed.fingerprints).toEqual({ 'ledger/rules/ubs.rules': 'fp' });
+    expect(parsed.entries[0]).toMatchObject({
+      rulesFile: 'ledger/rules/ubs.rules',
+      hash: 'abc',
+      description: 'Migros',
+      account: 'expenses:groceries',
+    });
+  });
+
+  it('should clear the cache', async () => {
+    const parsed = JSON.parse(
+      await suggestionCache(testDir, 'accountant', { clear: true }, configLoader)
+    );
+
+    expect(parsed.action).toBe('clear');
+    expect(parsed.removed).toBe(1);
+    expect(fs.existsSync(path.join(testDir, 'logs', 'suggestion-cache.json'))).toBe(false);
+  });
+
+  it('should report a missing cache', async () => {
+    fs.rmSync(path.join(testDir, 'logs'), { recursive: true });
+
+    const parsed = JSON.parse(await suggestionCache(testDir, 'accountant', {}, configLoader));
+
+    expect(parsed.exists).toBe(false);
+    expect(parsed.entryCount).toBe(0);
+  });
+});
@@ -0,0 +1,153 @@
+import { tool } from '@opencode-ai/plugin';
+import * as path from 'path';
+import { checkAccountantAgent } from '../utils/agentRestriction.ts';
+import { loadImportConfig, type ImportConfig } from '../utils/importConfig.ts';
+import {
+  clearSuggestionCacheFile,
+  getSuggestionCachePath,
+  readSuggestionCache,
+  SUGGESTION_CACHE_VERSION,
+} from '../utils/suggestionCache.ts';
+
+/**
+ * Arguments for the suggestion-cache tool
+ */
+export interface SuggestionCacheArgs {
+  /** Delete the cache instead of inspecting it */
+  clear?: boolean;
+}
+
+/**
+ * A cache entry as reported by the tool
+ */
+interface SuggestionCacheEntryInfo {
+  /** Rules file of the section holding the entry */
+  rulesFile: string;
+  hash: string;
+  description: string;
+  amount: string;
+  account: string;
+  confidence: 'high' | 'medium' | 'low';
+  createdAt: string;
+}
+
+/**
+ * Result of the suggestion-cache tool
+ */
+interface SuggestionCacheResult {
+  success: boolean;
+  action: 'inspect' | 'clear';
+  path: string;
+  exists: boolean;
+  version?: number;
+  /** False if the cache was written by another format version and will be discarded */
+  versionMatches?: boolean;
+  /** Fingerprint of each section, by rules file */
+  fingerprints?: Record<string, string>;
+  updatedAt?: string;
+  entryCount: number;
+  entries?: SuggestionCacheEntryInfo[];
+  removed?: number;
+  error?: string;
+}
+
+/**
+ * Inspects or clears the persistent account suggestion cache
+ */
+export async function suggestionCache(
+  directory: string,
+  agent: string,
+  options: SuggestionCacheArgs,
+  configLoader: (dir: string) => ImportConfig = loadImportConfig
+): Promise<string> {
+  // Agent restriction
+  const restrictionError = checkAccountantAgent(agent, 'manage the suggestion cache');
+  if (restrictionError) {
+    return restrictionError;
+  }
+
+  let config: ImportConfig;
+  try {
+    config = configLoader(directory);
+  } catch (error) {
+    return JSON.stringify({
+      success: false,
+      error: `Failed to load configuration: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+
+  const cachePath = getSuggestionCachePath(path.join(directory, config.paths.logs ?? '.memory'));
+  const relativePath = path.relative(directory, cachePath);
+
+  if (options.clear) {
+    const existed = readSuggestionCache(cachePath) !== null;
+    const removed = clearSuggestionCacheFile(cachePath);
+    return JSON.stringify({
+      success: true,
+      action: 'clear',
+      path: relativePath,
+      exists: existed,
+      entryCount: 0,
+      removed,
+    } satisfies SuggestionCacheResult);
+  }
+
+  const data = readSuggestionCache(cachePath);
+  if (!data) {
+    return JSON.stringify({
+      success: true,
+      action: 'inspect',
+      path: relativePath,
+      exists: false,
+      entryCount: 0,
+    } satisfies SuggestionCacheResult);
+  }
+
+  const sections = Object.entries(data.sections);
+  const entries = sections.flatMap(([rulesFile, section]) =>
+    Object.entries(section.entries).map(([hash, entry]) => ({
+      rulesFile,
+      hash,
+      description: entry.description,
+      amount: entry.amount,
+      account: entry.account,
+      confidence: entry.confidence,
+      createdAt: entry.createdAt,
+    }))
+  );
+
+  return JSON.stringify({
+    success: true,
+    action: 'inspect',
+    path: relativePath,
+    exists: true,
+    version: data.version,
+    versionMatches: data.version === SUGGESTION_CACHE_VERSION,
+    fingerprints: Object.fromEntries(
+      sections.map(([rulesFile, section]) => [rulesFile, section.fingerprint])
+    ),
+    updatedAt: data.updatedAt,
+    entryCount: entries.length,
+    entries,
+  } satisfies SuggestionCacheResult);
+}
+
+export default tool({
+  description: `ACCOUNTANT AGENT ONLY: Inspect or clear the persistent account suggestion cache.
+
+import-pipeline caches account suggestions for unknown postings in <logs>/suggestion-cache.json (default: .memory/), keyed by rules file and transaction (description, amount, account). The suggestions of a rules file are invalidated automatically when the account declarations or that rules file change.
+
+**Usage:**
+- suggestion-cache: list cached suggestions
+- suggestion-cache --clear true: delete the cache so suggestions are regenerated`,
+  args: {
+    clear: tool.schema
+      .boolean()
+      .optional()
+      .describe('Delete the cache instead of inspecting it (default: false)'),
+  },
+  async execute(params, context) {
+    const { directory, agent } = context;
+    return suggestionCache(directory, agent, { clear: params.clear });
+  },
+});
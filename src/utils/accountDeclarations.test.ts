@@ -83,6 +83,34 @@ if %description Test
     expect(accounts.size).toBe(2);
   });
 
+  it('extracts accounts from if tables and included files', () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'categories.rules'),
+      `
+if,account2,comment
+Migros,expenses:groceries,food
+Netflix,expenses:subscriptions,
+`
+    );
+    fs.writeFileSync(
+      rulesFile,
+      `
+account1 assets:bank:ubs:checking
+include categories.rules
+
+if %category .
+  account2 expenses:%category
+`
+    );
+
+    const accounts = extractAccountsFromRulesFile(rulesFile);
+    expect(Array.from(accounts).sort()).toEqual([
+      'assets:bank:ubs:checking',
+      'expenses:groceries',
+      'expenses:subscriptions',
+    ]);
+  });
+
   it('returns empty set for non-existent file', () => {
     const accounts = extractAccountsFromRulesFile('/non/existent/file.rules');
     expect(accounts.size).toBe(0);
@@ -1,10 +1,10 @@
 import * as fs from 'fs';
+import { getAllAssignments, getFieldReferences, readRulesFile } from './rulesParser.ts';
 
 /**
- * Extracts all account names from a hledger rules file.
- * Looks for:
- * - account1 directive (primary account)
- * - account2 directives in if rules (category accounts)
+ * Extracts all account names from a hledger rules file (and the files it includes).
+ * Looks for account1, account2, ... assignments at the top level, in if blocks and
+ * in if tables. Values built from CSV fields (e.g., "expenses:%category") are skipped.
  *
  * @param rulesPath Path to the .rules file
  * @returns Set of unique account names
@@ -16,29 +16,13 @@ export function extractAccountsFromRulesFile(rulesPath: string): Set<string> {
     return accounts;
   }
 
-  const content = fs.readFileSync(rulesPath, 'utf-8');
-  const lines = content.split('\n');
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-
-    // Skip comments and empty lines
-    if (trimmed.startsWith('#') || trimmed.startsWith(';') || trimmed === '') {
-      continue;
-    }
-
-    // Extract account1 directive
-    const account1Match = trimmed.match(/^account1\s+(.+?)(?:\s+|$)/);
-    if (account1Match) {
-      accounts.add(account1Match[1].trim());
-      continue;
-    }
-
-    // Extract account2 directives (in if rules or standalone)
-    const account2Match = trimmed.match(/account2\s+(.+?)(?:\s+|$)/);
-    if (account2Match) {
-      accounts.add(account2Match[1].trim());
-      continue;
+  for (const assignment of getAllAssignments(readRulesFile(rulesPath))) {
+    if (
+      /^account\d+$/.test(assignment.field) &&
+      assignment.value !== '' &&
+      getFieldReferences(assignment.value).length === 0
+    ) {
+      accounts.add(assignment.value);
     }
   }
 
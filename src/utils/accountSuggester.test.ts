@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  clearSuggestionCache,
+  extractRulePatternsFromFile,
+  parseBatchSuggestionResponse,
+  suggestAccountsForPostingsBatch,
+} from './accountSuggester.ts';
+import { localSuggestionBackend } from './suggestionBackend.ts';
+import type { UnknownPosting } from './hledgerExecutor.ts';
+
+const postings: UnknownPosting[] = [
+  {
+    date: '2026-01-02',
+    description: 'Coop Basel',
+    amount: 'CHF20.00',
+    account: 'expenses:unknown',
+  },
+  {
+    date: '2026-01-05',
+    description: 'Employer AG',
+    amount: 'CHF-5000.00',
+    account: 'income:unknown',
+  },
+];
+
+describe('accountSuggester', () => {
+  beforeEach(() => {
+    clearSuggestionCache();
+  });
+
+  describe('parseBatchSuggestionResponse', () => {
+    it('parses transaction blocks', () => {
+      const response = `TRANSACTION 1:
+ACCOUNT: expenses:groceries
+CONFIDENCE: High
+REASONING: Grocery store
+
+TRANSACTION 2:
+ACCOUNT: income:salary
+CONFIDENCE: medium
+`;
+      expect(parseBatchSuggestionResponse(response)).toEqual(
+        new Map([
+          [1, { account: 'expenses:groceries', confidence: 'high', reasoning: 'Grocery store' }],
+          [2, { account: 'income:salary', confidence: 'medium', reasoning: '' }],
+        ])
+      );
+    });
+
+    it('keys suggestions by transaction number and drops numbers answered twice', () => {
+      const response = `Here are my suggestions.
+ACCOUNT: expenses:ignored
+CONFIDENCE: low
+
+TRANSACTION 3:
+ACCOUNT: expenses:travel
+CONFIDENCE: low
+
+TRANSACTION 1:
+ACCOUNT: expenses:groceries
+CONFIDENCE: high
+
+TRANSACTION 1:
+ACCOUNT: expenses:food
+CONFIDENCE: high
+`;
+      const suggestions = parseBatchSuggestionResponse(response);
+
+      expect(Array.from(suggestions.keys())).toEqual([3]);
+      expect(suggestions.get(3)?.account).toBe('expenses:travel');
+    });
+  });
+
+  describe('suggestAccountsForPostingsBatch', () => {
+    it('enriches postings with suggestions from the backend', async () => {
+      const results = await suggestAccountsForPostingsBatch(
+        postings,
+        {
+          existingAccounts: ['expenses:groceries'],
+          existingRules: [{ condition: 'coop', account: 'expenses:groceries' }],
+        },
+        localSuggestionBackend
+      );
+
+      expect(results[0].suggestedAccount).toBe('expenses:groceries');
+      expect(results[0].suggestionConfidence).toBe('medium');
+      expect(results[1].suggestedAccount).toBe('income:other');
+    });
+
+    it('passes the batch prompt to the backend and caches suggestions', async () => {
+      const backend = vi.fn(localSuggestionBackend);
+
+      await suggestAccountsForPostingsBatch(postings, { existingAccounts: [] }, backend);
+      const results = await suggestAccountsForPostingsBatch(
+        postings,
+        { existingAccounts: [] },
+        backend
+      );
+
+      expect(backend).toHaveBeenCalledTimes(1);
+      expect(backend.mock.calls[0][0].prompt).toContain('Description: Coop Basel');
+      expect(results[1].suggestedAccount).toBe('income:other');
+    });
+
+    it('leaves the batch unsuggested and uncached when an answer is missing', async () => {
+      const backend = vi.fn(
+        async () => `TRANSACTION 2:
+ACCOUNT: income:salary
+CONFIDENCE: high
+REASONING: Employer
+`
+      );
+
+      const results = await suggestAccountsForPostingsBatch(
+        postings,
+        { existingAccounts: [] },
+        backend
+      );
+      await suggestAccountsForPostingsBatch(postings, { existingAccounts: [] }, backend);
+
+      expect(results).toEqual(postings);
+      expect(backend).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns postings without suggestions when the backend fails', async () => {
+      const results = await suggestAccountsForPostingsBatch(
+        postings,
+        { existingAccounts: [] },
+        async () => {
+          throw new Error('offline');
+        }
+      );
+
+      expect(results).toEqual(postings);
+    });
+  });
+
+  describe('journal history', () => {
+    const history = [
+      {
+        description: 'coop basel',
+        example: 'Coop Basel',
+        account: 'expenses:groceries',
+        count: 5,
+        lastDate: '2025-12-20',
+      },
+    ];
+
+    it('suggests recurring merchants from history without calling the backend', async () => {
+      const backend = vi.fn(localSuggestionBackend);
+
+      const results = await suggestAccountsForPostingsBatch(
+        postings,
+        { existingAccounts: [], history },
+        backend
+      );
+
+      expect(results[0].suggestedAccount).toBe('expenses:groceries');
+      expect(results[0].suggestionConfidence).toBe('high');
+      expect(backend).toHaveBeenCalledTimes(1);
+      expect(backend.mock.calls[0][0].postings).toEqual([postings[1]]);
+      expect(backend.mock.calls[0][0].prompt).toContain(
+        '## Past Classifications from the Journals'
+      );
+    });
+
+    it('falls back to weaker history matches when the backend fails', async () => {
+      const results = await suggestAccountsForPostingsBatch(
+        [{ ...postings[0], description: 'Coop Basel Bahnhof' }],
+        { existingAccounts: [], history },
+        async () => {
+          throw new Error('offline');
+        }
+      );
+
+      expect(results[0].suggestedAccount).toBe('expenses:groceries');
+      expect(results[0].suggestionConfidence).not.toBe('high');
+    });
+  });
+
+  describe('persistent cache', () => {
+    let testDir: string;
+    let cachePath: string;
+
+    beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'account-suggester-test-'));
+      cachePath = path.join(testDir, '.memory', 'suggestion-cache.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('reuses suggestions across runs', async () => {
+      const backend = vi.fn(localSuggestionBackend);
+      const context = { existingAccounts: ['expenses:groceries'], cachePath };
+
+      await suggestAccountsForPostingsBatch(postings, context, backend);
+      clearSuggestionCache();
+      const results = await suggestAccountsForPostingsBatch(postings, context, backend);
+
+      expect(backend).toHaveBeenCalledTimes(1);
+      expect(results[1].suggestedAccount).toBe('income:other');
+      const stored = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+      expect(Object.values(stored.sections[''].entries)).toHaveLength(2);
+    });
+
+    it('keeps the suggestions of other rules files when one rules file changes', async () => {
+      const backend = vi.fn(localSuggestionBackend);
+      const ubsRules = path.join(testDir, 'ubs.rules');
+      const revolutRules = path.join(testDir, 'revolut.rules');
+      fs.writeFileSync(ubsRules, 'skip 1\n');
+      fs.writeFileSync(revolutRules, 'skip 1\n');
+      const ubs = { existingAccounts: [], rulesFilePath: ubsRules, cachePath };
+      const revolut = { existingAccounts: [], rulesFilePath: revolutRules, cachePath };
+
+      await suggestAccountsForPostingsBatch(postings, ubs, backend);
+      await suggestAccountsForPostingsBatch(postings, revolut, backend);
+      fs.appendFileSync(revolutRules, 'if coop\n  account2 expenses:groceries\n');
+      await suggestAccountsForPostingsBatch(postings, revolut, backend);
+      await suggestAccountsForPostingsBatch(postings, ubs, backend);
+
+      expect(backend).toHaveBeenCalledTimes(3);
+      const stored = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+      expect(Object.keys(stored.sections)).toEqual(['ubs.rules', 'revolut.rules']);
+    });
+
+    it('regenerates suggestions when the rules file changes', async () => {
+      const backend = vi.fn(localSuggestionBackend);
+      const rulesFilePath = path.join(testDir, 'bank.rules');
+      fs.writeFileSync(rulesFilePath, 'skip 1\n');
+      const context = { existingAccounts: [], rulesFilePath, cachePath };
+
+      await suggestAccountsForPostingsBatch(postings, context, backend);
+      fs.appendFileSync(rulesFilePath, 'if coop\n  account2 expenses:groceries\n');
+      await suggestAccountsForPostingsBatch(postings, context, backend);
+
+      expect(backend).toHaveBeenCalledTimes(2);
+    });
+
+    it('regenerates suggestions when the accounts change', async () => {
+      const backend = vi.fn(localSuggestionBackend);
+
+      await suggestAccountsForPostingsBatch(postings, { existingAccounts: [], cachePath }, backend);
+      await suggestAccountsForPostingsBatch(
+        postings,
+        { existingAccounts: ['expenses:groceries'], cachePath },
+        backend
+      );
+
+      expect(backend).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('extractRulePatternsFromFile', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rule-patterns-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('extracts the regexes of if blocks and if table rows assigning account2', async () => {
+      const rulesPath = path.join(tempDir, 'ubs.rules');
+      fs.writeFileSync(
+        rulesPath,
+        `account1 assets:bank:ubs
+
+if %description COOP
+MIGROS
+    account2 expenses:groceries
+
+if %description SBB
+& %amount ^-
+    account2 expenses:transport
+
+if,account2
+Netflix,expenses:subscriptions
+`
+      );
+
+      expect(await extractRulePatternsFromFile(rulesPath)).toEqual([
+        { condition: '(?:COOP)|(?:MIGROS)', account: 'expenses:groceries' },
+        { condition: 'Netflix', account: 'expenses:subscriptions' },
+      ]);
+    });
+  });
+});
@@ -7,8 +7,19 @@
 
 import * as fs from 'fs';
 import * as crypto from 'crypto';
+import * as path from 'path';
 import { UnknownPosting, UnknownPostingWithSuggestion } from './hledgerExecutor.ts';
-import { loadAgent } from './agentLoader.ts';
+import { defaultSuggestionBackend, type SuggestionBackend } from './suggestionBackend.ts';
+import { suggestFromHistory, type HistoryRecord } from './historyClassifier.ts';
+import { readRulesFile } from './rulesParser.ts';
+import {
+  computeSuggestionFingerprint,
+  getSuggestionCacheSection,
+  loadSuggestionCache,
+  saveSuggestionCache,
+  type SuggestionCacheData,
+  type SuggestionCacheSection,
+} from './suggestionCache.ts';
 import type { Logger } from './logger.js';
 
 /**
@@ -19,6 +30,15 @@ export interface SuggestionContext {
   rulesFilePath?: string;
   existingRules?: RulePattern[];
   yearJournalPath?: string;
+  /** Description → account pairs mined from the year journals */
+  history?: HistoryRecord[];
+  /** Path of the persistent suggestion cache file (in-memory cache only if omitted) */
+  cachePath?: string;
+  /**
+   * Section of the persistent cache: the rules file relative to the repository
+   * (default: the name of rulesFilePath)
+   */
+  cacheSection?: string;
   logger?: Logger;
 }
 
@@ -31,7 +51,7 @@ export interface RulePattern {
 }
 
 /**
- * Suggestion result from LLM
+ * Suggestion result from the suggestion backend
  */
 export interface AccountSuggestion {
   account: string;
@@ -47,12 +67,12 @@ interface SuggestionCache {
 }
 
 /**
- * Global cache instance (per import run)
+ * Global in-memory cache instance, used when no persistent cache path is given
  */
 const suggestionCache: SuggestionCache = {};
 
 /**
- * Clears the suggestion cache.
+ * Clears the in-memory suggestion cache.
  * Useful for testing or starting fresh import runs.
  */
 export function clearSuggestionCache(): void {
@@ -95,48 +115,38 @@ export async function loadExistingAccounts(yearJournalPath: string): Promise<str
 
 /**
  * Extract rule patterns from a rules file for learning.
- * Looks for 'if ... account2 ...' patterns.
+ * Looks for if blocks and if table rows assigning account2. The condition is the
+ * regex of the block's matchers (alternatives joined with |); blocks with
+ * negated or &-combined matchers are skipped.
  */
 export async function extractRulePatternsFromFile(rulesPath: string): Promise<RulePattern[]> {
   if (!fs.existsSync(rulesPath)) {
     return [];
   }
 
-  const content = fs.readFileSync(rulesPath, 'utf-8');
-  const lines = content.split('\n');
   const patterns: RulePattern[] = [];
-
-  let currentCondition: string | null = null;
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-
-    // Skip comments and empty lines
-    if (trimmed.startsWith('#') || trimmed.startsWith(';') || trimmed === '') {
-      continue;
-    }
-
-    // Match 'if' condition
-    const ifMatch = trimmed.match(/^if\s+(.+)$/);
-    if (ifMatch) {
-      currentCondition = ifMatch[1].trim();
-      continue;
-    }
-
-    // Match 'account2' directive (must follow an 'if')
-    const account2Match = trimmed.match(/^\s*account2\s+(.+?)(?:\s+|$)/);
-    if (account2Match && currentCondition) {
+  for (const node of readRulesFile(rulesPath).nodes) {
+    if (node.type === 'if') {
+      const account = node.assignments.find((a) => a.field === 'account2')?.value;
+      if (!account || node.matchers.some((m) => m.negated || m.and)) {
+        continue;
+      }
+      const regexes = node.matchers.map((m) => m.pattern);
       patterns.push({
-        condition: currentCondition,
-        account: account2Match[1].trim(),
+        condition: regexes.length === 1 ? regexes[0] : regexes.map((r) => `(?:${r})`).join('|'),
+        account,
       });
-      currentCondition = null; // Reset after matching
-      continue;
-    }
-
-    // Reset condition if we hit a non-account2 line after if
-    if (currentCondition && !trimmed.startsWith('account2')) {
-      currentCondition = null;
+    } else if (node.type === 'if-table') {
+      const accountIndex = node.fields.indexOf('account2');
+      if (accountIndex === -1) {
+        continue;
+      }
+      for (const row of node.rows) {
+        const account = row.values[accountIndex];
+        if (account && !row.matcher.negated) {
+          patterns.push({ condition: row.matcher.pattern, account });
+        }
+      }
     }
   }
 
@@ -171,6 +181,15 @@ function buildBatchSuggestionPrompt(
     prompt += '\n';
   }
 
+  // Add the most frequent classifications from the journal history
+  if (context.history && context.history.length > 0) {
+    prompt += `## Past Classifications from the Journals\n\n`;
+    for (const record of context.history.slice(0, 20)) {
+      prompt += `- "${record.example}" → ${record.account} (${record.count}x, last ${record.lastDate})\n`;
+    }
+    prompt += '\n';
+  }
+
   // Add transactions to classify
   prompt += `## Transactions to Classify\n\n`;
   postings.forEach((posting, index) => {
@@ -209,19 +228,28 @@ function buildBatchSuggestionPrompt(
 }
 
 /**
- * Parse the batch response from the LLM
+ * Parse the batch response from the suggestion backend.
+ * Suggestions are keyed by their transaction number (1-based, as in the prompt); text
+ * outside a numbered block and numbers answered twice are ignored.
  */
-function parseBatchSuggestionResponse(response: string): AccountSuggestion[] {
-  const suggestions: AccountSuggestion[] = [];
-  const transactionBlocks = response.split(/TRANSACTION\s+\d+:/i).filter((b) => b.trim());
-
-  for (const block of transactionBlocks) {
+export function parseBatchSuggestionResponse(response: string): Map<number, AccountSuggestion> {
+  const suggestions = new Map<number, AccountSuggestion>();
+  const answeredTwice = new Set<number>();
+  // [text before the first block, number, block, number, block, ...]
+  const parts = response.split(/TRANSACTION\s+(\d+):/i);
+
+  for (let i = 1; i < parts.length; i += 2) {
+    const number = parseInt(parts[i], 10);
+    const block = parts[i + 1] ?? '';
     const accountMatch = block.match(/ACCOUNT:\s*(.+?)$/im);
     const confidenceMatch = block.match(/CONFIDENCE:\s*(high|medium|low)/i);
     const reasoningMatch = block.match(/REASONING:\s*(.+?)$/im);
 
-    if (accountMatch && confidenceMatch) {
-      suggestions.push({
+    if (suggestions.has(number) || answeredTwice.has(number)) {
+      suggestions.delete(number);
+      answeredTwice.add(number);
+    } else if (accountMatch && confidenceMatch) {
+      suggestions.set(number, {
         account: accountMatch[1].trim(),
         confidence: confidenceMatch[1].toLowerCase() as 'high' | 'medium' | 'low',
         reasoning: reasoningMatch ? reasoningMatch[1].trim() : '',
@@ -232,142 +260,167 @@ function parseBatchSuggestionResponse(response: string): AccountSuggestion[] {
   return suggestions;
 }
 
+/**
+ * Loads the persistent cache and the context's section of it; the section is invalidated
+ * when the accounts or its rules changed
+ */
+function loadPersistentCache(
+  context: SuggestionContext
+): { data: SuggestionCacheData; section: SuggestionCacheSection } | null {
+  if (!context.cachePath) {
+    return null;
+  }
+
+  const rulesContent =
+    context.rulesFilePath && fs.existsSync(context.rulesFilePath)
+      ? fs.readFileSync(context.rulesFilePath, 'utf-8')
+      : JSON.stringify(context.existingRules ?? []);
+  const fingerprint = computeSuggestionFingerprint(context.existingAccounts, rulesContent);
+  const sectionName =
+    context.cacheSection ?? (context.rulesFilePath ? path.basename(context.rulesFilePath) : '');
+
+  const data = loadSuggestionCache(context.cachePath);
+  return { data, section: getSuggestionCacheSection(data, sectionName, fingerprint) };
+}
+
 /**
  * Generate account suggestions for multiple postings using batch processing and caching.
  *
  * @param postings Array of unknown postings to classify
  * @param context Suggestion context with existing accounts and rules
+ * @param suggestionBackend Backend generating the suggestions (injectable for testing)
  * @returns Array of postings enriched with suggestions
  */
 export async function suggestAccountsForPostingsBatch(
   postings: UnknownPosting[],
-  context: SuggestionContext
+  context: SuggestionContext,
+  suggestionBackend: SuggestionBackend = defaultSuggestionBackend
 ): Promise<UnknownPostingWithSuggestion[]> {
   if (postings.length === 0) {
     return [];
   }
 
-  // Separate cached and uncached postings
-  const uncachedPostings: UnknownPosting[] = [];
-  const cachedResults: Map<number, AccountSuggestion> = new Map();
+  const persistentCache = loadPersistentCache(context);
+  const cache: SuggestionCache = persistentCache
+    ? persistentCache.section.entries
+    : suggestionCache;
 
+  const suggestions: Map<number, AccountSuggestion> = new Map();
+  const historyFallbacks: Map<number, AccountSuggestion> = new Map();
+  let historyCount = 0;
+  let cachedCount = 0;
+
+  // Recurring transactions are classified from the journal history, other
+  // postings come from the cache or are sent to the suggestion backend
+  const pendingIndexes: number[] = [];
   postings.forEach((posting, index) => {
-    const hash = hashTransaction(posting);
-    if (suggestionCache[hash]) {
-      cachedResults.set(index, suggestionCache[hash]);
+    const historySuggestion = context.history ? suggestFromHistory(posting, context.history) : null;
+    if (historySuggestion?.confidence === 'high') {
+      suggestions.set(index, historySuggestion);
+      historyCount++;
+      return;
+    }
+    if (historySuggestion) {
+      historyFallbacks.set(index, historySuggestion);
+    }
+
+    const cached = cache[hashTransaction(posting)];
+    if (cached) {
+      suggestions.set(index, cached);
+      cachedCount++;
     } else {
-      uncachedPostings.push(posting);
+      pendingIndexes.push(index);
     }
   });
+  const uncachedPostings = pendingIndexes.map((index) => postings[index]);
 
   context.logger?.info(
-    `Account suggestions: ${cachedResults.size} cached, ${uncachedPostings.length} to generate`
+    `Account suggestions: ${historyCount} from history, ${cachedCount} cached, ${uncachedPostings.length} to generate`
   );
 
-  // Generate suggestions for uncached postings
-  let newSuggestions: AccountSuggestion[] = [];
+  // Generate suggestions for uncached postings, keyed by their number in the batch (1-based)
+  let newSuggestions = new Map<number, AccountSuggestion>();
   if (uncachedPostings.length > 0) {
     try {
-      // Load agent configuration
-      const agentPath = './agent/account-suggester.md';
-      const agentConfig = loadAgent(agentPath);
-
-      if (!agentConfig) {
-        throw new Error(`Agent configuration not found: ${agentPath}`);
-      }
-
-      // Build batch prompt
-      const userPrompt = buildBatchSuggestionPrompt(uncachedPostings, context);
-
-      // Combine agent prompt with user prompt
-      const fullPrompt = `${agentConfig.prompt}\n\n---\n\n${userPrompt}`;
+      // Build batch prompt (the agent prompt is supplied by the backend)
+      const prompt = buildBatchSuggestionPrompt(uncachedPostings, context);
 
-      // TODO: Actually invoke LLM here with agent config
-      // For now, we'll simulate the response parsing
-      // In production, this would call an LLM API with the agent config
+      context.logger?.info('Invoking suggestion backend for account suggestions...');
+      context.logger?.info(`Prompt length: ${prompt.length}`);
 
-      context.logger?.info('Invoking LLM for account suggestions...');
-      context.logger?.info(`Agent model: ${agentConfig.model}`);
-      context.logger?.info(`Agent temperature: ${agentConfig.temperature}`);
-      context.logger?.info(`Prompt length: ${fullPrompt.length}`);
-
-      // TEMPORARY: Mock response for development
-      // TODO: Replace with actual LLM invocation
-      const mockResponse = generateMockSuggestions(uncachedPostings);
-      newSuggestions = parseBatchSuggestionResponse(mockResponse);
+      const response = await suggestionBackend({
+        postings: uncachedPostings,
+        prompt,
+        existingRules: context.existingRules,
+      });
+      newSuggestions = parseBatchSuggestionResponse(response);
+
+      // A skipped, merged or renumbered answer may shift the others: trust none of them
+      const complete =
+        newSuggestions.size === uncachedPostings.length &&
+        uncachedPostings.every((_, index) => newSuggestions.has(index + 1));
+      if (!complete) {
+        context.logger?.warn(
+          `Suggestion backend returned ${newSuggestions.size} numbered suggestion(s) for ${uncachedPostings.length} posting(s); leaving them without suggestions`
+        );
+        newSuggestions = new Map();
+      }
 
       // Cache the new suggestions
       uncachedPostings.forEach((posting, index) => {
-        if (newSuggestions[index]) {
+        const suggestion = newSuggestions.get(index + 1);
+        if (suggestion) {
           const hash = hashTransaction(posting);
-          suggestionCache[hash] = newSuggestions[index];
+          if (persistentCache) {
+            persistentCache.section.entries[hash] = {
+              ...suggestion,
+              description: posting.description,
+              amount: posting.amount,
+              createdAt: new Date().toISOString(),
+            };
+          } else {
+            suggestionCache[hash] = suggestion;
+          }
         }
       });
     } catch (error) {
       context.logger?.error(
         `[ERROR] Failed to generate account suggestions: ${error instanceof Error ? error.message : String(error)}`
       );
-      // Return postings without suggestions on error
-      return postings;
+      // Continue with history-based suggestions (if any) for the remaining postings
+      newSuggestions = new Map();
     }
   }
 
-  // Merge cached and new suggestions back into original order
-  const results: UnknownPostingWithSuggestion[] = [];
-  let uncachedIndex = 0;
-
-  postings.forEach((posting, index) => {
-    const cachedSuggestion = cachedResults.get(index);
-    const suggestion = cachedSuggestion || newSuggestions[uncachedIndex++];
-
-    results.push({
-      ...posting,
-      suggestedAccount: suggestion?.account,
-      suggestionConfidence: suggestion?.confidence,
-      suggestionReasoning: suggestion?.reasoning,
-    });
+  pendingIndexes.forEach((postingIndex, index) => {
+    const suggestion = newSuggestions.get(index + 1) ?? historyFallbacks.get(postingIndex);
+    if (suggestion) {
+      suggestions.set(postingIndex, suggestion);
+    }
   });
 
-  return results;
-}
-
-/**
- * TEMPORARY: Generate mock suggestions for development.
- * TODO: Remove this once LLM integration is complete.
- */
-function generateMockSuggestions(postings: UnknownPosting[]): string {
-  let response = '';
-
-  postings.forEach((posting, index) => {
-    response += `TRANSACTION ${index + 1}:\n`;
-
-    // Simple heuristic-based mock suggestions
-    const desc = posting.description.toLowerCase();
-    const isIncome = posting.account === 'income:unknown';
-
-    let account = isIncome ? 'income:other' : 'expenses:other';
-    let confidence: 'high' | 'medium' | 'low' = 'low';
-    let reasoning = 'Generic classification based on transaction type';
-
-    // Simple pattern matching for mock
-    if (desc.includes('migros') || desc.includes('coop')) {
-      account = 'expenses:groceries';
-      confidence = 'high';
-      reasoning = 'Transaction from known grocery store';
-    } else if (desc.includes('salary') || desc.includes('lohn')) {
-      account = 'income:salary';
-      confidence = 'high';
-      reasoning = 'Salary payment detected';
-    } else if (desc.includes('sbb') || desc.includes('train')) {
-      account = 'expenses:transport';
-      confidence = 'medium';
-      reasoning = 'Transportation-related transaction';
+  if (persistentCache && context.cachePath && newSuggestions.size > 0) {
+    try {
+      saveSuggestionCache(context.cachePath, persistentCache.data);
+    } catch (error) {
+      // Suggestions are still returned, they just won't survive this run
+      context.logger?.warn(
+        `Failed to save suggestion cache: ${error instanceof Error ? error.message : String(error)}`
+      );
     }
+  }
 
-    response += `ACCOUNT: ${account}\n`;
-    response += `CONFIDENCE: ${confidence}\n`;
-    response += `REASONING: ${reasoning}\n\n`;
+  // Merge suggestions back into original order
+  return postings.map((posting, index) => {
+    const suggestion = suggestions.get(index);
+    if (!suggestion) {
+      return posting;
+    }
+    return {
+      ...posting,
+      suggestedAccount: suggestion.account,
+      suggestionConfidence: suggestion.confidence,
+      suggestionReasoning: suggestion.reasoning,
+    };
   });
-
-  return response;
 }
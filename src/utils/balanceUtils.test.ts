@@ -5,6 +5,9 @@ import {
   calculateDifference,
   formatBalance,
   balancesMatch,
+  normalizeBalance,
+  canonicalizeAmount,
+  getCommodityAmount,
 } from './balanceUtils.ts';
 
 describe('balanceUtils', () => {
@@ -118,6 +121,103 @@ describe('balanceUtils', () => {
       const result = parseBalance('0');
       expect(result).toEqual({ currency: '', amount: 0.0 });
     });
+
+    it('handles commodities other than 3-letter currencies', () => {
+      expect(parseBalance('USDT 12.5')).toEqual({ currency: 'USDT', amount: 12.5 });
+      expect(parseBalance('0.12345678 BTC')).toEqual({ currency: 'BTC', amount: 0.12345678 });
+    });
+
+    it('handles apostrophe thousands separators and a sign before the commodity', () => {
+      expect(parseBalance("CHF 2'324.79")).toEqual({ currency: 'CHF', amount: 2324.79 });
+      expect(parseBalance('-CHF 10.00')).toEqual({ currency: 'CHF', amount: -10 });
+    });
+
+    it('returns null for multi-commodity balances', () => {
+      expect(parseBalance('CHF 100.00, EUR 50.00')).toBeNull();
+    });
+  });
+
+  describe('getCommodityAmount', () => {
+    it('picks the amount of the commodity from a multi-commodity balance', () => {
+      expect(getCommodityAmount('CHF 100.00, EUR 50.00', 'EUR')).toBe(50);
+      expect(getCommodityAmount('CHF 100.00, EUR -50.00', 'CHF')).toBe(100);
+    });
+
+    it('returns 0 for a commodity not in the balance', () => {
+      expect(getCommodityAmount('CHF 100.00', 'EUR')).toBe(0);
+      expect(getCommodityAmount('0', 'EUR')).toBe(0);
+    });
+
+    it('takes a single amount without commodity as the commodity', () => {
+      expect(getCommodityAmount('12.50', 'CHF')).toBe(12.5);
+    });
+
+    it('returns null for an unparseable balance', () => {
+      expect(getCommodityAmount('invalid', 'CHF')).toBeNull();
+    });
+  });
+
+  describe('canonicalizeAmount', () => {
+    it('removes grouping marks of the default format', () => {
+      expect(canonicalizeAmount("1'234.50")).toBe('1234.50');
+      expect(canonicalizeAmount('CHF -1 234.50')).toBe('CHF -1234.50');
+      expect(canonicalizeAmount('1,234,567.89 EUR')).toBe('1234567.89 EUR');
+    });
+
+    it('converts a decimal comma', () => {
+      expect(canonicalizeAmount('1.234,50', { decimalMark: ',' })).toBe('1234.50');
+      expect(canonicalizeAmount('EUR -0,99', { decimalMark: ',' })).toBe('EUR -0.99');
+    });
+
+    it('uses the configured grouping marks only', () => {
+      expect(canonicalizeAmount('1 234,50', { decimalMark: ',', groupMarks: ' ' })).toBe('1234.50');
+    });
+
+    it('moves a trailing sign to the front', () => {
+      const format = { signPlacement: 'trailing' } as const;
+      expect(canonicalizeAmount('1234.50-', format)).toBe('-1234.50');
+      expect(canonicalizeAmount('1234.50 +', format)).toBe('1234.50');
+    });
+
+    it('reads parentheses as a negative amount', () => {
+      expect(canonicalizeAmount('(1,234.50)', { parenthesesNegative: true })).toBe('-1234.50');
+      expect(canonicalizeAmount('(1,234.50)')).toBe('(1234.50)');
+    });
+  });
+
+  describe('parseAmountValue with a number format', () => {
+    it('parses amounts of German banks', () => {
+      expect(parseAmountValue('-1.234,50', { decimalMark: ',' })).toBe(-1234.5);
+    });
+
+    it('parses Swiss amounts with spaces and apostrophes', () => {
+      expect(parseAmountValue("CHF 1'234.50")).toBe(1234.5);
+      expect(parseAmountValue('CHF -1 234.50')).toBe(-1234.5);
+    });
+  });
+
+  describe('normalizeBalance', () => {
+    it('adds the default commodity and two decimals', () => {
+      expect(normalizeBalance("2'324.7", 'CHF')).toBe('CHF 2324.70');
+    });
+
+    it('keeps all decimals of the original amount', () => {
+      expect(normalizeBalance('0.12345678 BTC')).toBe('BTC 0.12345678');
+    });
+
+    it('reads four-letter tickers and currency signs', () => {
+      expect(normalizeBalance('USDT 12.5')).toBe('USDT 12.50');
+      expect(normalizeBalance('$-12.5')).toBe('$ -12.50');
+      expect(normalizeBalance('-€ 3')).toBe('€ -3.00');
+    });
+
+    it('reads the balance in the given number format', () => {
+      expect(normalizeBalance('1.234,5', 'EUR', { decimalMark: ',' })).toBe('EUR 1234.50');
+    });
+
+    it('returns null for unparseable balances', () => {
+      expect(normalizeBalance('n/a', 'CHF')).toBeNull();
+    });
   });
 
   describe('calculateDifference', () => {
@@ -178,6 +278,15 @@ describe('balanceUtils', () => {
       const result = calculateDifference('CHF -50.00', 'CHF -30.00');
       expect(result).toBe('CHF +20.00');
     });
+
+    it('calculates exactly with many decimals', () => {
+      expect(calculateDifference('BTC 0.30000000', 'BTC 0.10000001')).toBe('BTC -0.19999999');
+      expect(calculateDifference('CHF 0.3', 'CHF 0.1')).toBe('CHF -0.20');
+    });
+
+    it('uses the matching commodity of a multi-commodity balance', () => {
+      expect(calculateDifference('EUR 50.00', 'CHF 100.00, EUR 45.00')).toBe('EUR -5.00');
+    });
   });
 
   describe('formatBalance', () => {
@@ -256,5 +365,30 @@ describe('balanceUtils', () => {
     it('returns false for negative vs positive', () => {
       expect(balancesMatch('CHF -100.00', 'CHF 100.00')).toBe(false);
     });
+
+    it('compares decimals exactly', () => {
+      expect(balancesMatch('CHF 0.30', 'CHF 0.3')).toBe(true);
+      expect(balancesMatch('BTC 0.12345678', 'BTC 0.12345679')).toBe(false);
+    });
+
+    it('accepts differences within the tolerance', () => {
+      expect(balancesMatch('CHF 100.00', 'CHF 100.01', 0.01)).toBe(true);
+      expect(balancesMatch('CHF 100.00', 'CHF 100.02', 0.01)).toBe(false);
+    });
+
+    it('uses the tolerance of the commodity', () => {
+      const tolerance = { BTC: 0.00000001 };
+      expect(balancesMatch('BTC 0.12345678', 'BTC 0.12345679', tolerance)).toBe(true);
+      expect(balancesMatch('CHF 100.00', 'CHF 100.01', tolerance)).toBe(false);
+    });
+
+    it('compares only the expected commodity of a multi-commodity balance', () => {
+      expect(balancesMatch('CHF 100.00', 'CHF 100.00, EUR 50.00')).toBe(true);
+      expect(balancesMatch('EUR 50.00', 'CHF 100.00, EUR 49.00')).toBe(false);
+    });
+
+    it('treats a commodity missing from a multi-commodity balance as zero', () => {
+      expect(balancesMatch('USD 0.00', 'CHF 100.00, EUR 50.00')).toBe(true);
+    });
   });
 });
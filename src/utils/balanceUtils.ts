@@ -11,11 +11,220 @@ export interface ParsedBalance {
   amount: number;
 }
 
+/**
+ * Allowed difference between two balances, as an amount in the balance's commodity.
+ * A number applies to every commodity; a map sets it per commodity (e.g., { CHF: 0.01, BTC: 0.00000001 }).
+ */
+export type BalanceTolerance = number | Record<string, number>;
+
+/**
+ * How a bank writes amounts (configured per detection rule). Without one, amounts use
+ * "." as decimal mark and ",", "'" or spaces as grouping marks (e.g., "CHF -1'234.50").
+ */
+export interface NumberFormat {
+  /** Decimal mark (default: ".") */
+  decimalMark?: '.' | ',';
+  /** Characters grouping thousands (default: "'", spaces, and "," or "." whichever isn't the decimal mark) */
+  groupMarks?: string;
+  /** Position of the minus sign: before (default) or after the number (e.g., "1234.50-") */
+  signPlacement?: 'leading' | 'trailing';
+  /** Negative amounts are written in parentheses (e.g., "(1,234.50)") */
+  parenthesesNegative?: boolean;
+}
+
+/**
+ * An exact decimal amount: units / 10^scale
+ */
+interface Decimal {
+  units: bigint;
+  scale: number;
+}
+
+/**
+ * An exact amount of one commodity ('' if the amount has none)
+ */
+interface CommodityAmount {
+  commodity: string;
+  value: Decimal;
+}
+
+/** A commodity symbol: uppercase letters (CHF, BTC, USDT), a currency sign ($, €) or a quoted name */
+const COMMODITY = '[A-Z]{2,}|\\p{Sc}|"[^"]+"';
+/** A number with optional sign, thousands separators (, or ') and decimals */
+const NUMBER = "[+-]?\\d[\\d,']*(?:\\.\\d+)?|[+-]?\\.\\d+";
+const LEADING_SIGN_PATTERN = new RegExp(`^([+-])\\s*(${COMMODITY})\\s*`, 'u');
+const AMOUNT_PATTERN = new RegExp(
+  `^(?:(${COMMODITY})\\s*(${NUMBER})|(${NUMBER})\\s*(${COMMODITY})|(${NUMBER}))$`,
+  'u'
+);
+
+/**
+ * Rewrite an amount written in a bank's number format to the canonical format: "."
+ * as decimal mark, no grouping marks and a leading sign. The commodity is kept.
+ *
+ * @example
+ * canonicalizeAmount("1.234,50", { decimalMark: "," }) // "1234.50"
+ * canonicalizeAmount("CHF -1 234.50") // "CHF -1234.50"
+ * canonicalizeAmount("(45.00)", { parenthesesNegative: true }) // "-45.00"
+ */
+export function canonicalizeAmount(amount: string, format: NumberFormat = {}): string {
+  const decimalMark = format.decimalMark ?? '.';
+  const groupMarks = format.groupMarks ?? `${decimalMark === '.' ? ',' : '.'}'\u2019 \u00a0\u202f`;
+
+  let text = amount.trim();
+  let negative = false;
+  const parenthesized = text.match(/^\((.*)\)$/);
+  if (format.parenthesesNegative && parenthesized) {
+    text = parenthesized[1].trim();
+    negative = true;
+  }
+  const trailingSign = text.match(/^(.*?)\s*([+-])$/);
+  if (format.signPlacement === 'trailing' && trailingSign) {
+    text = trailingSign[1];
+    negative = negative || trailingSign[2] === '-';
+  }
+
+  if (groupMarks !== '') {
+    const marks = groupMarks.replace(/[\\\]^-]/g, '\\$&');
+    text = text.replace(new RegExp(`(?<=\\d)[${marks}](?=\\d)`, 'g'), '');
+  }
+  if (decimalMark === ',') {
+    text = text.replace(/,(?=\d)/g, '.');
+  }
+  return negative ? `-${text}` : text;
+}
+
+/**
+ * Parse a number to an exact decimal. Accepts thousands separators and exponent notation.
+ */
+function parseDecimal(value: string): Decimal | null {
+  const match = value
+    .replace(/[,']/g, '')
+    .trim()
+    .match(/^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+  if (!match || (match[2] === '' && !match[3])) {
+    return null;
+  }
+
+  const [, sign, integer, fraction = '', exponent = '0'] = match;
+  let scale = fraction.length - parseInt(exponent, 10);
+  let digits = `${integer}${fraction}` || '0';
+  if (scale < 0) {
+    digits += '0'.repeat(-scale);
+    scale = 0;
+  }
+  const units = BigInt(digits);
+  return { units: sign === '-' ? -units : units, scale };
+}
+
+/**
+ * Bring two decimals to the same scale
+ */
+function alignDecimals(a: Decimal, b: Decimal): [bigint, bigint, number] {
+  const scale = Math.max(a.scale, b.scale);
+  return [
+    a.units * 10n ** BigInt(scale - a.scale),
+    b.units * 10n ** BigInt(scale - b.scale),
+    scale,
+  ];
+}
+
+/**
+ * Format a decimal with at least minScale decimal places (more if the value has them)
+ */
+function formatDecimal(value: Decimal, minScale = 2): string {
+  const scale = Math.max(value.scale, minScale);
+  const units = value.units * 10n ** BigInt(scale - value.scale);
+  const negative = units < 0n;
+  const digits = (negative ? -units : units).toString().padStart(scale + 1, '0');
+  const integer = digits.slice(0, digits.length - scale);
+  const fraction = digits.slice(digits.length - scale);
+  return `${negative ? '-' : ''}${integer}${scale > 0 ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Parse a balance into its commodity amounts. Several commodities are separated by
+ * a comma and whitespace (e.g., "CHF 100.00, EUR 50.00", as returned by getAccountBalance).
+ *
+ * @returns The commodity amounts, or null if any part cannot be parsed
+ */
+function parseCommodityAmounts(balance: string, format?: NumberFormat): CommodityAmount[] | null {
+  const parts = balance
+    .split(/,\s+/)
+    .map((part) => canonicalizeAmount(part, format))
+    .filter((part) => part !== '');
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const amounts: CommodityAmount[] = [];
+  for (const part of parts) {
+    // "-CHF 10.00" is the same as "CHF -10.00"
+    const match = part.replace(LEADING_SIGN_PATTERN, '$2 $1').match(AMOUNT_PATTERN);
+    const value = match ? parseDecimal(match[2] ?? match[3] ?? match[5]) : null;
+    if (!match || !value) {
+      return null;
+    }
+    amounts.push({ commodity: (match[1] ?? match[4] ?? '').replace(/"/g, ''), value });
+  }
+  return amounts;
+}
+
+/**
+ * Pair the commodities of an expected balance with the actual balance.
+ * An amount without commodity pairs with a single amount of any commodity. A commodity
+ * missing from a multi-commodity actual balance counts as zero.
+ *
+ * @throws Error if the balances cannot be parsed or hold different single commodities
+ */
+function pairCommodityAmounts(
+  expected: string,
+  actual: string,
+  currencyMismatch: (expected: string, actual: string) => string
+): { commodity: string; expected: Decimal; actual: Decimal }[] {
+  const expectedAmounts = parseCommodityAmounts(expected);
+  const actualAmounts = parseCommodityAmounts(actual);
+  if (!expectedAmounts || !actualAmounts) {
+    throw new Error(`Cannot parse balances: expected="${expected}", actual="${actual}"`);
+  }
+
+  return expectedAmounts.map((exp) => {
+    const exact = actualAmounts.find((act) => act.commodity === exp.commodity);
+    if (exact) {
+      return { commodity: exp.commodity, expected: exp.value, actual: exact.value };
+    }
+    if (actualAmounts.length === 1) {
+      const [single] = actualAmounts;
+      if (exp.commodity && single.commodity) {
+        throw new Error(currencyMismatch(exp.commodity, single.commodity));
+      }
+      return {
+        commodity: exp.commodity || single.commodity,
+        expected: exp.value,
+        actual: single.value,
+      };
+    }
+    if (!exp.commodity) {
+      throw new Error(`Cannot compare "${expected}" without commodity to "${actual}"`);
+    }
+    return { commodity: exp.commodity, expected: exp.value, actual: { units: 0n, scale: 0 } };
+  });
+}
+
+/**
+ * Get the tolerance for a commodity (0 if not configured)
+ */
+function toleranceFor(tolerance: BalanceTolerance, commodity: string): Decimal {
+  const value = typeof tolerance === 'number' ? tolerance : (tolerance[commodity] ?? 0);
+  return parseDecimal(String(value)) ?? { units: 0n, scale: 0 };
+}
+
 /**
  * Parse amount string to extract numeric value.
  * Handles formats like "CHF95.25", "CHF-10.00", "-95.25", "95.25"
  *
  * @param amountStr - Amount string to parse
+ * @param format - Number format of the amount (default: "." decimal mark)
  * @returns Numeric value
  *
  * @example
@@ -23,20 +232,42 @@ export interface ParsedBalance {
  * parseAmountValue("CHF-10.00") // returns -10.00
  * parseAmountValue("-95.25") // returns -95.25
  * parseAmountValue("1,234.56") // returns 1234.56
+ * parseAmountValue("1.234,56", { decimalMark: "," }) // returns 1234.56
  */
-export function parseAmountValue(amountStr: string): number {
-  const cleaned = amountStr
-    .replace(/[A-Z]{3}\s*/g, '')
-    .replace(/,/g, '')
+export function parseAmountValue(amountStr: string, format?: NumberFormat): number {
+  const cleaned = canonicalizeAmount(amountStr.replace(/[A-Z]{2,}\s*/g, ''), format)
+    .replace(/[,']/g, '')
     .trim();
   return parseFloat(cleaned) || 0;
 }
 
+/**
+ * Get the amount of one commodity in a balance, which may hold several commodities
+ * (e.g., 50 for "EUR" in "CHF 100.00, EUR 50.00"). An amount without commodity counts
+ * as the commodity if it is the balance's only amount.
+ *
+ * @param balance - Balance string to parse
+ * @param commodity - Commodity whose amount to get
+ * @returns Numeric value (0 if the commodity is not in the balance), or null if invalid
+ */
+export function getCommodityAmount(balance: string, commodity: string): number | null {
+  const amounts = parseCommodityAmounts(balance);
+  if (!amounts) {
+    return null;
+  }
+
+  const match =
+    amounts.find((amount) => amount.commodity === commodity) ??
+    (amounts.length === 1 && amounts[0].commodity === '' ? amounts[0] : undefined);
+  return match ? Number(formatDecimal(match.value, 0)) : 0;
+}
+
 /**
  * Parse a balance string to extract currency and amount.
  * Supports multiple formats with currency prefix, suffix, or no currency.
  *
  * @param balance - Balance string to parse
+ * @param format - Number format of the balance (default: "." decimal mark)
  * @returns Parsed balance object with currency and amount, or null if invalid
  *
  * @example
@@ -48,23 +279,43 @@ export function parseAmountValue(amountStr: string): number {
  * parseBalance("1,234.56") // { currency: "", amount: 1234.56 }
  * parseBalance("invalid") // null
  */
-export function parseBalance(balance: string): ParsedBalance | null {
-  // Handle formats like "CHF 2324.79" or "2324.79 CHF" or "CHF2324.79"
-  const match = balance.match(/([A-Z]{3})\s*([-\d.,]+)|([+-]?[\d.,]+)\s*([A-Z]{3})/);
-  if (!match) {
-    // Try pure number
-    const numMatch = balance.match(/^([+-]?[\d.,]+)$/);
-    if (numMatch) {
-      return { currency: '', amount: parseFloat(numMatch[1].replace(/,/g, '')) };
-    }
+export function parseBalance(balance: string, format?: NumberFormat): ParsedBalance | null {
+  const amounts = parseCommodityAmounts(balance, format);
+  if (!amounts || amounts.length !== 1) {
     return null;
   }
 
-  const currency = match[1] || match[4];
-  const amountStr = match[2] || match[3];
-  const amount = parseFloat(amountStr.replace(/,/g, ''));
+  const [{ commodity, value }] = amounts;
+  return { currency: commodity, amount: Number(formatDecimal(value, 0)) };
+}
+
+/**
+ * Normalize a single-commodity balance to "COMMODITY amount" with at least 2 decimals,
+ * keeping all decimals of the original (e.g., for crypto commodities).
+ *
+ * @param balance - Balance string to normalize
+ * @param defaultCommodity - Commodity to use if the balance has none
+ * @param format - Number format of the balance (default: "." decimal mark)
+ * @returns Normalized balance, or null if it cannot be parsed
+ *
+ * @example
+ * normalizeBalance("2'324.79", "CHF") // "CHF 2324.79"
+ * normalizeBalance("0.12345678 BTC") // "BTC 0.12345678"
+ * normalizeBalance("1.234,5", "EUR", { decimalMark: "," }) // "EUR 1234.50"
+ */
+export function normalizeBalance(
+  balance: string,
+  defaultCommodity?: string,
+  format?: NumberFormat
+): string | null {
+  const amounts = parseCommodityAmounts(balance, format);
+  if (!amounts || amounts.length !== 1) {
+    return null;
+  }
 
-  return { currency, amount };
+  const [{ commodity, value }] = amounts;
+  const symbol = commodity || defaultCommodity;
+  return symbol ? `${symbol} ${formatDecimal(value)}` : formatDecimal(value);
 }
 
 /**
@@ -81,29 +332,20 @@ export function parseBalance(balance: string): ParsedBalance | null {
  * calculateDifference("CHF 100.00", "EUR 100.00") // throws Error
  */
 export function calculateDifference(expected: string, actual: string): string {
-  const expectedParsed = parseBalance(expected);
-  const actualParsed = parseBalance(actual);
-
-  if (!expectedParsed || !actualParsed) {
-    throw new Error(`Cannot parse balances: expected="${expected}", actual="${actual}"`);
-  }
-
-  // Check currency mismatch
-  if (
-    expectedParsed.currency &&
-    actualParsed.currency &&
-    expectedParsed.currency !== actualParsed.currency
-  ) {
-    throw new Error(
-      `Currency mismatch: expected ${expectedParsed.currency}, got ${actualParsed.currency}`
-    );
-  }
-
-  const diff = actualParsed.amount - expectedParsed.amount;
-  const sign = diff >= 0 ? '+' : '';
-  const currency = expectedParsed.currency || actualParsed.currency;
+  const pairs = pairCommodityAmounts(
+    expected,
+    actual,
+    (exp, act) => `Currency mismatch: expected ${exp}, got ${act}`
+  );
 
-  return currency ? `${currency} ${sign}${diff.toFixed(2)}` : `${sign}${diff.toFixed(2)}`;
+  return pairs
+    .map(({ commodity, expected: exp, actual: act }) => {
+      const [expUnits, actUnits, scale] = alignDecimals(exp, act);
+      const diff = actUnits - expUnits;
+      const formatted = `${diff >= 0n ? '+' : ''}${formatDecimal({ units: diff, scale })}`;
+      return commodity ? `${commodity} ${formatted}` : formatted;
+    })
+    .join(', ');
 }
 
 /**
@@ -124,31 +366,45 @@ export function formatBalance(amount: number, currency?: string): string {
 }
 
 /**
- * Check if two balances match exactly (no tolerance).
+ * Check if two balances match, using exact decimal arithmetic.
+ * Each commodity of the first balance is compared with the same commodity of the second;
+ * other commodities of the second balance (e.g., EUR on a multi-currency account reconciled
+ * against a CHF statement) are ignored.
  *
- * @param balance1 - First balance string
- * @param balance2 - Second balance string
- * @returns True if balances match exactly
+ * @param balance1 - First (expected) balance string
+ * @param balance2 - Second (actual) balance string
+ * @param tolerance - Allowed difference per commodity (default: exact match)
+ * @returns True if balances match within the tolerance
  * @throws Error if currencies don't match
  *
  * @example
  * balancesMatch("CHF 100.00", "CHF 100.00") // true
  * balancesMatch("CHF 100.00", "CHF 100.01") // false
+ * balancesMatch("CHF 100.00", "CHF 100.01", 0.01) // true
+ * balancesMatch("CHF 100.00", "CHF 100.00, EUR 50.00") // true
  * balancesMatch("CHF 100.00", "EUR 100.00") // throws Error
  */
-export function balancesMatch(balance1: string, balance2: string): boolean {
-  const parsed1 = parseBalance(balance1);
-  const parsed2 = parseBalance(balance2);
-
-  if (!parsed1 || !parsed2) {
+export function balancesMatch(
+  balance1: string,
+  balance2: string,
+  tolerance: BalanceTolerance = 0
+): boolean {
+  if (!parseCommodityAmounts(balance1) || !parseCommodityAmounts(balance2)) {
     return false;
   }
 
-  // Check currency mismatch
-  if (parsed1.currency && parsed2.currency && parsed1.currency !== parsed2.currency) {
-    throw new Error(`Currency mismatch: ${parsed1.currency} vs ${parsed2.currency}`);
-  }
+  const pairs = pairCommodityAmounts(
+    balance1,
+    balance2,
+    (exp, act) => `Currency mismatch: ${exp} vs ${act}`
+  );
 
-  // Exact match (no tolerance)
-  return parsed1.amount === parsed2.amount;
+  return pairs.every(({ commodity, expected, actual }) => {
+    const [expUnits, actUnits, scale] = alignDecimals(expected, actual);
+    const [diff, allowed] = alignDecimals(
+      { units: actUnits - expUnits, scale },
+      toleranceFor(tolerance, commodity)
+    );
+    return (diff < 0n ? -diff : diff) <= allowed;
+  });
 }
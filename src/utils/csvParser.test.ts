@@ -1,7 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
-import { parseCsvFile, findMatchingCsvRow, type CsvRowData } from './csvParser.ts';
+import {
+  parseCsvFile,
+  findMatchingCsvRow,
+  resolveNumberFormat,
+  splitCsvContentByYear,
+  type CsvRowData,
+} from './csvParser.ts';
 import type { RulesConfig } from './rulesParser.ts';
 
 const testDir = path.join(process.cwd(), '.memory', 'test-csv-parser');
@@ -145,6 +151,35 @@ describe('csvParser', () => {
       expect(result).toEqual(csvRows[0]);
     });
 
+    it('should match amounts in the statement number format', () => {
+      const csvRows: CsvRowData[] = [
+        { date: '2026-01-15', description: 'Rent', amount: '1.500,00-', transaction_no: 'TX001' },
+        { date: '2026-01-15', description: 'Refund', amount: '1.500,00', transaction_no: 'TX002' },
+      ];
+
+      const posting = { date: '2026-01-15', description: 'Rent', amount: 'EUR-1500.00' };
+      const result = findMatchingCsvRow(posting, csvRows, baseConfig, {
+        decimalMark: ',',
+        signPlacement: 'trailing',
+      });
+
+      expect(result).toEqual(csvRows[0]);
+    });
+
+    it('should match dates with a time of day', () => {
+      const csvRows: CsvRowData[] = [
+        { date: '2026-01-16 10:22:13', description: 'Coffee', amount: '-4.50', transaction_no: '' },
+      ];
+
+      const posting = { date: '2026-01-16', description: 'Coffee', amount: 'CHF-4.50' };
+      const result = findMatchingCsvRow(posting, csvRows, {
+        ...baseConfig,
+        dateFormat: '%Y-%m-%d %H:%M:%S',
+      });
+
+      expect(result).toEqual(csvRows[0]);
+    });
+
     it('should match negative amount', () => {
       const csvRows: CsvRowData[] = [
         { date: '2026-01-15', description: 'Payment', amount: '-100.00', transaction_no: 'TX001' },
@@ -242,4 +277,73 @@ describe('csvParser', () => {
       expect(result).toBeDefined();
     });
   });
+
+  describe('resolveNumberFormat', () => {
+    const config: RulesConfig = {
+      skipRows: 0,
+      separator: ';',
+      fieldNames: ['date', 'amount'],
+      dateFormat: '%Y-%m-%d',
+      dateField: 'date',
+      amountFields: { single: 'amount' },
+    };
+
+    it("should fall back to the rules file's decimal mark", () => {
+      expect(resolveNumberFormat({ ...config, decimalMark: ',' })).toEqual({ decimalMark: ',' });
+      expect(resolveNumberFormat(config)).toBeUndefined();
+    });
+
+    it("should prefer the detection rule's number format", () => {
+      expect(
+        resolveNumberFormat({ ...config, decimalMark: ',' }, { signPlacement: 'trailing' })
+      ).toEqual({ signPlacement: 'trailing' });
+    });
+  });
+
+  describe('splitCsvContentByYear', () => {
+    const config: RulesConfig = {
+      skipRows: 1,
+      separator: ',',
+      fieldNames: [],
+      dateFormat: '%d.%m.%Y',
+      dateField: 'Date',
+      amountFields: { single: 'Amount' },
+    };
+
+    it('should split rows by year and keep the metadata and header rows in every part', () => {
+      const content =
+        'Closing balance,100.00\nDate,Description,Amount\n' +
+        '31.12.2025,"Dinner, late",-40.00\n01.01.2026,Coffee,-5.00\n02.01.2026,Lunch,-15.00\n';
+
+      const parts = splitCsvContentByYear(content, config);
+
+      expect(Array.from(parts.keys())).toEqual([2025, 2026]);
+      expect(parts.get(2025)).toBe(
+        'Closing balance,100.00\nDate,Description,Amount\n31.12.2025,"Dinner, late",-40.00\n'
+      );
+      expect(parts.get(2026)).toBe(
+        'Closing balance,100.00\nDate,Description,Amount\n01.01.2026,Coffee,-5.00\n02.01.2026,Lunch,-15.00\n'
+      );
+    });
+
+    it('should copy rows without a date into every part', () => {
+      const content =
+        'Closing balance,100.00\nDate,Description,Amount\n31.12.2025,Dinner,-40.00\n01.01.2026,Coffee,-5.00\nTotal,,-45.00';
+
+      const parts = splitCsvContentByYear(content, config);
+
+      expect(parts.get(2025)).toContain('Total,,-45.00');
+      expect(parts.get(2026)).toContain('Total,,-45.00');
+      expect(parts.get(2026)!.endsWith('\n')).toBe(false);
+    });
+
+    it('should return a single part for a single-year CSV', () => {
+      const parts = splitCsvContentByYear(
+        'meta\nDate,Description,Amount\n01.01.2026,Coffee,-5.00\n',
+        config
+      );
+
+      expect(Array.from(parts.keys())).toEqual([2026]);
+    });
+  });
 });
@@ -5,8 +5,10 @@
 
 import * as fs from 'fs';
 import csvToJson from 'convert-csv-to-json';
+import Papa from 'papaparse';
 import type { RulesConfig, AmountFields } from './rulesParser.ts';
-import { parseAmountValue } from './balanceUtils.ts';
+import { parseAmountValue, type NumberFormat } from './balanceUtils.ts';
+import { parseDateWithFormat } from './dateUtils.ts';
 
 /**
  * Represents a single CSV row with field names as keys.
@@ -24,6 +26,25 @@ export interface PostingToMatch {
   amount: string; // e.g., "CHF95.25" or "CHF-10.00"
 }
 
+/**
+ * Get the number format of a statement's CSV amounts: the provider's detection rule's,
+ * or else the decimal mark of the rules file's decimal-mark directive.
+ *
+ * @param config Configuration parsed from the rules file
+ * @param numberFormat Number format of the detection rule (optional)
+ * @returns The number format (undefined for the default format)
+ */
+export function resolveNumberFormat(
+  config: RulesConfig,
+  numberFormat?: NumberFormat
+): NumberFormat | undefined {
+  const { decimalMark } = config;
+  if (numberFormat || (decimalMark !== ',' && decimalMark !== '.')) {
+    return numberFormat;
+  }
+  return { decimalMark };
+}
+
 /**
  * Parse a CSV file using the configuration from a rules file.
  *
@@ -71,14 +92,23 @@ export function parseCsvFile(csvPath: string, config: RulesConfig): CsvRowData[]
 
 /**
  * Get the amount value from a CSV row using the amount field configuration.
+ * The number format is the one of the statement's detection rule (default: "." decimal mark).
  */
-function getRowAmount(row: CsvRowData, amountFields: AmountFields): number {
+export function getRowAmount(
+  row: CsvRowData,
+  amountFields: AmountFields,
+  numberFormat?: NumberFormat
+): number {
   if (amountFields.single) {
-    return parseAmountValue(row[amountFields.single] || '0');
+    return parseAmountValue(row[amountFields.single] || '0', numberFormat);
   }
 
-  const debitValue = amountFields.debit ? parseAmountValue(row[amountFields.debit] || '0') : 0;
-  const creditValue = amountFields.credit ? parseAmountValue(row[amountFields.credit] || '0') : 0;
+  const debitValue = amountFields.debit
+    ? parseAmountValue(row[amountFields.debit] || '0', numberFormat)
+    : 0;
+  const creditValue = amountFields.credit
+    ? parseAmountValue(row[amountFields.credit] || '0', numberFormat)
+    : 0;
 
   if (debitValue !== 0) {
     return -Math.abs(debitValue);
@@ -91,38 +121,19 @@ function getRowAmount(row: CsvRowData, amountFields: AmountFields): number {
 }
 
 /**
- * Parse date string according to format.
+ * Parse date string according to the rules file's date-format (any strftime format).
  * Converts to ISO format (YYYY-MM-DD) for comparison.
+ * Returns the trimmed input if it doesn't match the format.
  */
-function parseDateToIso(dateStr: string, dateFormat: string): string {
+export function parseDateToIso(dateStr: string, dateFormat: string): string {
   if (!dateStr) return '';
 
-  if (dateFormat === '%Y-%m-%d' || dateFormat === '%F') {
+  try {
+    return parseDateWithFormat(dateStr, dateFormat) ?? dateStr.trim();
+  } catch {
+    // Unsupported directive in the date format
     return dateStr.trim();
   }
-
-  if (dateFormat === '%d.%m.%Y') {
-    const parts = dateStr.split('.');
-    if (parts.length === 3) {
-      return `${parts[2]}-${parts[1].padStart(2, '0')}-${parts[0].padStart(2, '0')}`;
-    }
-  }
-
-  if (dateFormat === '%m/%d/%Y') {
-    const parts = dateStr.split('/');
-    if (parts.length === 3) {
-      return `${parts[2]}-${parts[0].padStart(2, '0')}-${parts[1].padStart(2, '0')}`;
-    }
-  }
-
-  if (dateFormat === '%d/%m/%Y') {
-    const parts = dateStr.split('/');
-    if (parts.length === 3) {
-      return `${parts[2]}-${parts[1].padStart(2, '0')}-${parts[0].padStart(2, '0')}`;
-    }
-  }
-
-  return dateStr.trim();
 }
 
 /**
@@ -156,7 +167,7 @@ function looksLikeTransactionId(fieldName: string, value: string): boolean {
 /**
  * Find the transaction ID field and value from a CSV row.
  */
-function findTransactionId(row: CsvRowData): { field: string; value: string } | null {
+export function findTransactionId(row: CsvRowData): { field: string; value: string } | null {
   for (const [field, value] of Object.entries(row)) {
     if (looksLikeTransactionId(field, value)) {
       return { field, value: value.trim() };
@@ -172,18 +183,20 @@ function findTransactionId(row: CsvRowData): { field: string; value: string } |
  * 2. If transaction ID available, use it to narrow down
  * 3. If multiple matches, use description fields
  *
+ * @param numberFormat Number format of the CSV amounts (the posting's is hledger's)
  * @throws Error if no match found (should never happen)
  */
 export function findMatchingCsvRow(
   posting: PostingToMatch,
   csvRows: CsvRowData[],
-  config: RulesConfig
+  config: RulesConfig,
+  numberFormat?: NumberFormat
 ): CsvRowData {
   const postingAmount = parseAmountValue(posting.amount);
 
   let candidates = csvRows.filter((row) => {
     const rowDate = parseDateToIso(row[config.dateField] || '', config.dateFormat);
-    const rowAmount = getRowAmount(row, config.amountFields);
+    const rowAmount = getRowAmount(row, config.amountFields, numberFormat);
 
     if (rowDate !== posting.date) return false;
 
@@ -230,3 +243,79 @@ export function findMatchingCsvRow(
 
   return candidates[0];
 }
+
+/**
+ * Split CSV text into records, keeping line breaks inside quoted fields
+ * within their record.
+ */
+export function splitCsvRecords(lines: string[]): string[] {
+  const records: string[] = [];
+  let pending: string | null = null;
+
+  for (const line of lines) {
+    const record: string = pending === null ? line : `${pending}\n${line}`;
+    const quoteCount = (record.match(/"/g) || []).length;
+    if (quoteCount % 2 === 1) {
+      pending = record;
+      continue;
+    }
+    records.push(record);
+    pending = null;
+  }
+
+  if (pending !== null) {
+    records.push(pending);
+  }
+
+  return records;
+}
+
+/**
+ * Split CSV content into one CSV per transaction year.
+ * The lines up to and including the header (see parseCsvFile) are copied into
+ * every part, so metadata rows and the rules file's skip directive stay valid.
+ * Data rows are assigned by the year of their date field; rows without a parseable
+ * date (e.g., footers) are copied into every part.
+ *
+ * @param content CSV file content
+ * @param config Configuration parsed from the rules file
+ * @returns CSV content per year, in ascending year order
+ */
+export function splitCsvContentByYear(content: string, config: RulesConfig): Map<number, string> {
+  const lines = content.split('\n');
+  const headerIndex = config.skipRows;
+  if (headerIndex >= lines.length) {
+    return new Map();
+  }
+
+  const prefix = lines.slice(0, headerIndex + 1);
+  const parseFields = (record: string): string[] =>
+    Papa.parse<string[]>(record, { delimiter: config.separator }).data[0] ?? [];
+
+  const fieldNames =
+    config.fieldNames.length > 0 ? config.fieldNames : parseFields(lines[headerIndex]);
+  const dateIndex = fieldNames.indexOf(config.dateField);
+
+  const records = splitCsvRecords(lines.slice(headerIndex + 1)).filter(
+    (record) => record.trim() !== ''
+  );
+  const recordYears = records.map((record) => {
+    const dateValue = dateIndex >= 0 ? parseFields(record)[dateIndex] : undefined;
+    const yearMatch = parseDateToIso(dateValue ?? '', config.dateFormat).match(
+      /^(\d{4})-\d{2}-\d{2}/
+    );
+    return yearMatch ? parseInt(yearMatch[1], 10) : null;
+  });
+
+  const years = Array.from(new Set(recordYears.filter((year) => year !== null))).sort(
+    (a, b) => a - b
+  );
+  const parts = new Map<number, string>();
+  for (const year of years) {
+    const body = records.filter((_, i) => recordYears[i] === year || recordYears[i] === null);
+    const text = [...prefix, ...body].join('\n');
+    parts.set(year, content.endsWith('\n') ? `${text}\n` : text);
+  }
+
+  return parts;
+}
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { formatDateISO, getYesterday, getNextDay } from './dateUtils.ts';
+import {
+  formatDateISO,
+  getYesterday,
+  getNextDay,
+  getPreviousDay,
+  normalizeStatementDate,
+  parseDateWithFormat,
+} from './dateUtils.ts';
 
 describe('dateUtils', () => {
   describe('formatDateISO', () => {
@@ -87,4 +94,86 @@ describe('dateUtils', () => {
       expect(getNextDay('2024-06-15')).toBe('2024-06-16');
     });
   });
+
+  describe('getPreviousDay', () => {
+    it('subtracts one day from given date string', () => {
+      expect(getPreviousDay('2024-03-15')).toBe('2024-03-14');
+    });
+
+    it('handles month and year boundaries correctly', () => {
+      expect(getPreviousDay('2024-04-01')).toBe('2024-03-31');
+      expect(getPreviousDay('2025-01-01')).toBe('2024-12-31');
+    });
+
+    it('handles leap year February correctly', () => {
+      expect(getPreviousDay('2024-03-01')).toBe('2024-02-29');
+      expect(getPreviousDay('2023-03-01')).toBe('2023-02-28');
+    });
+  });
+
+  describe('normalizeStatementDate', () => {
+    it('keeps ISO dates', () => {
+      expect(normalizeStatementDate('2026-01-05')).toBe('2026-01-05');
+    });
+
+    it('converts day-first dates', () => {
+      expect(normalizeStatementDate('05.01.2026')).toBe('2026-01-05');
+      expect(normalizeStatementDate('5/1/2026')).toBe('2026-01-05');
+    });
+
+    it('finds the first date in a filename', () => {
+      expect(normalizeStatementDate('ubs-transactions-2026-01-05-to-2026-01-31.csv')).toBe(
+        '2026-01-05'
+      );
+    });
+
+    it('returns null without a date', () => {
+      expect(normalizeStatementDate('transactions.csv')).toBeNull();
+    });
+  });
+
+  describe('parseDateWithFormat', () => {
+    it.each([
+      ['2026-01-05', '%Y-%m-%d'],
+      ['2026-01-05', '%F'],
+      ['05.01.2026', '%d.%m.%Y'],
+      ['5.1.2026', '%-d.%-m.%Y'],
+      ['05-01-2026', '%d-%m-%Y'],
+      ['01/05/2026', '%m/%d/%Y'],
+      ['20260105', '%Y%m%d'],
+      ['Jan 05, 2026', '%b %d, %Y'],
+      ['5 January 2026', '%e %B %Y'],
+      ['05/01/26', '%d/%m/%y'],
+      ['01/05/26', '%D'],
+      ['2026-01-05 10:22:13', '%Y-%m-%d %H:%M:%S'],
+      ['2026-01-05T10:22:13Z', '%Y-%m-%dT%H:%M:%S%z'],
+      ['Mon, 05 Jan 2026 10:22 PM', '%a, %d %b %Y %I:%M %p'],
+      ['2026-005', '%Y-%j'],
+      ['1767571200', '%s'],
+      ['  05.01.2026 ', '%d.%m.%Y'],
+    ])('parses %s with %s', (value, format) => {
+      expect(parseDateWithFormat(value, format)).toBe('2026-01-05');
+    });
+
+    it('maps two-digit years like hledger', () => {
+      expect(parseDateWithFormat('31.12.68', '%d.%m.%y')).toBe('2068-12-31');
+      expect(parseDateWithFormat('01.01.69', '%d.%m.%y')).toBe('1969-01-01');
+    });
+
+    it('returns null if the value does not match the format', () => {
+      expect(parseDateWithFormat('2026-01-05', '%d.%m.%Y')).toBeNull();
+      expect(parseDateWithFormat('2026-01-05 10:22:13', '%Y-%m-%d')).toBeNull();
+    });
+
+    it('returns null for invalid dates', () => {
+      expect(parseDateWithFormat('2026-02-30', '%Y-%m-%d')).toBeNull();
+      expect(parseDateWithFormat('2026-13-01', '%Y-%m-%d')).toBeNull();
+    });
+
+    it('throws for unsupported directives', () => {
+      expect(() => parseDateWithFormat('2026', '%Y %K')).toThrow(
+        'Unsupported date format directive %K'
+      );
+    });
+  });
 });
@@ -52,3 +52,238 @@ export function getNextDay(dateStr: string): string {
   date.setDate(date.getDate() + 1);
   return formatDateISO(date);
 }
+
+/**
+ * Gets the day before a given date in YYYY-MM-DD format
+ *
+ * @param dateStr - Date string in YYYY-MM-DD format
+ * @returns Previous day's date string
+ *
+ * @example
+ * ```typescript
+ * getPreviousDay('2024-03-15') // '2024-03-14'
+ * getPreviousDay('2024-03-01') // '2024-02-29'
+ * getPreviousDay('2025-01-01') // '2024-12-31'
+ * ```
+ */
+export function getPreviousDay(dateStr: string): string {
+  const date = new Date(dateStr);
+  date.setDate(date.getDate() - 1);
+  return formatDateISO(date);
+}
+
+/**
+ * Normalizes a statement date (from CSV metadata or a filename) to YYYY-MM-DD format
+ * Supports ISO dates and day-first dates with dots or slashes
+ *
+ * @param value - Text containing the date
+ * @returns Date string in YYYY-MM-DD format, or null if no date was found
+ *
+ * @example
+ * ```typescript
+ * normalizeStatementDate('2026-01-05') // '2026-01-05'
+ * normalizeStatementDate('5.1.2026') // '2026-01-05'
+ * normalizeStatementDate('ubs-transactions-2026-01-05-to-2026-01-31.csv') // '2026-01-05'
+ * ```
+ */
+export function normalizeStatementDate(value: string): string | null {
+  const iso = value.match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+
+  const dayFirst = value.match(/(\d{1,2})[./](\d{1,2})[./](\d{4})/);
+  if (dayFirst) {
+    return `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+const MONTH_NAMES = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+/** Month names or their 3-letter abbreviations */
+const MONTH_NAME_PATTERN = `(${MONTH_NAMES.map((name) => `${name.slice(0, 3)}(?:${name.slice(3)})?`).join('|')})`;
+
+/**
+ * Regex and date part captured by each strftime directive.
+ * Directives without a part are matched but ignored (time of day, weekday, time zone).
+ */
+const DIRECTIVES: Record<string, { pattern: string; part?: string }> = {
+  Y: { pattern: '(\\d{4})', part: 'year' },
+  y: { pattern: '(\\d{1,2})', part: 'shortYear' },
+  C: { pattern: '(\\d{1,2})', part: 'century' },
+  m: { pattern: '(\\d{1,2})', part: 'month' },
+  d: { pattern: '(\\d{1,2})', part: 'day' },
+  e: { pattern: ' ?(\\d{1,2})', part: 'day' },
+  j: { pattern: '(\\d{1,3})', part: 'dayOfYear' },
+  b: { pattern: MONTH_NAME_PATTERN, part: 'monthName' },
+  B: { pattern: MONTH_NAME_PATTERN, part: 'monthName' },
+  h: { pattern: MONTH_NAME_PATTERN, part: 'monthName' },
+  s: { pattern: '(-?\\d+)', part: 'epoch' },
+  a: { pattern: '[A-Za-z]{3,}' },
+  A: { pattern: '[A-Za-z]{3,}' },
+  u: { pattern: '\\d' },
+  w: { pattern: '\\d' },
+  H: { pattern: ' ?\\d{1,2}' },
+  k: { pattern: ' ?\\d{1,2}' },
+  I: { pattern: ' ?\\d{1,2}' },
+  l: { pattern: ' ?\\d{1,2}' },
+  M: { pattern: '\\d{1,2}' },
+  S: { pattern: '\\d{1,2}' },
+  q: { pattern: '\\d*' },
+  Q: { pattern: '(?:\\.\\d*)?' },
+  p: { pattern: '[AaPp][Mm]' },
+  P: { pattern: '[AaPp][Mm]' },
+  z: { pattern: '(?:Z|[+-]\\d{2}:?\\d{2})' },
+  Z: { pattern: '[A-Za-z]+|[+-]\\d{2}:?\\d{2}' },
+};
+
+/** Directives standing for a combination of others */
+const COMPOSITE_DIRECTIVES: Record<string, string> = {
+  F: '%Y-%m-%d',
+  D: '%m/%d/%y',
+  x: '%m/%d/%y',
+  T: '%H:%M:%S',
+  X: '%H:%M:%S',
+  R: '%H:%M',
+  r: '%I:%M:%S %p',
+};
+
+const compiledFormats = new Map<string, { regex: RegExp; parts: string[] }>();
+
+/**
+ * Compile a strftime format to a regex with the date part of each capture group.
+ *
+ * @throws Error if the format contains an unsupported directive
+ */
+function compileDateFormat(format: string): { regex: RegExp; parts: string[] } {
+  const cached = compiledFormats.get(format);
+  if (cached) {
+    return cached;
+  }
+
+  const expanded = format.replace(
+    /%[-_0^#]?([A-Za-z])/g,
+    (directive, letter: string) => COMPOSITE_DIRECTIVES[letter] ?? directive
+  );
+  const parts: string[] = [];
+  let pattern = '';
+  for (let i = 0; i < expanded.length; i++) {
+    const char = expanded[i];
+    if (char !== '%') {
+      // Whitespace in the format matches any amount of whitespace
+      pattern += /\s/.test(char) ? '\\s*' : char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      continue;
+    }
+
+    // Padding modifiers (%-d, %_d, %0d) and case modifiers (%^b, %#b) don't change parsing
+    const modifier = expanded[i + 1] && '-_0^#'.includes(expanded[i + 1]) ? 1 : 0;
+    const letter = expanded[i + 1 + modifier];
+    i += 1 + modifier;
+    if (letter === '%') {
+      pattern += '%';
+      continue;
+    }
+    const directive = letter ? DIRECTIVES[letter] : undefined;
+    if (!directive) {
+      throw new Error(`Unsupported date format directive %${letter ?? ''} in "${format}"`);
+    }
+    pattern += directive.pattern;
+    if (directive.part) {
+      parts.push(directive.part);
+    }
+  }
+
+  const compiled = { regex: new RegExp(`^\\s*${pattern}\\s*$`, 'i'), parts };
+  compiledFormats.set(format, compiled);
+  return compiled;
+}
+
+/**
+ * Parses a date written in a strftime format, as used by hledger's date-format rule,
+ * to YYYY-MM-DD format. Supports the date directives (%Y %y %C %m %d %e %j %b %B %h %s),
+ * the time and weekday directives (matched but ignored), the combinations %F %D %T %R,
+ * and the padding modifiers of %-d, %_d and %0d. Two-digit years are 1969-2068, as in hledger.
+ *
+ * @param value - The date (or date-time) text
+ * @param format - strftime format (e.g., "%d.%m.%Y", "%Y-%m-%d %H:%M:%S", "%b %d, %Y")
+ * @returns Date string in YYYY-MM-DD format, or null if the value doesn't match the format
+ *   or isn't a valid date
+ * @throws Error if the format contains an unsupported directive
+ *
+ * @example
+ * ```typescript
+ * parseDateWithFormat('05.01.2026', '%d.%m.%Y') // '2026-01-05'
+ * parseDateWithFormat('2026-01-16 10:22:13', '%Y-%m-%d %H:%M:%S') // '2026-01-16'
+ * parseDateWithFormat('Jan 5, 2026', '%b %d, %Y') // '2026-01-05'
+ * parseDateWithFormat('05/01/26', '%d/%m/%y') // '2026-01-05'
+ * ```
+ */
+export function parseDateWithFormat(value: string, format: string): string | null {
+  const { regex, parts } = compileDateFormat(format);
+  const match = value.match(regex);
+  if (!match) {
+    return null;
+  }
+
+  const captured: Record<string, string> = {};
+  parts.forEach((part, index) => {
+    captured[part] = match[index + 1];
+  });
+
+  if (captured.epoch !== undefined) {
+    return formatDateISO(new Date(parseInt(captured.epoch, 10) * 1000));
+  }
+
+  let year: number;
+  if (captured.year !== undefined) {
+    year = parseInt(captured.year, 10);
+  } else if (captured.shortYear !== undefined) {
+    const shortYear = parseInt(captured.shortYear, 10);
+    const century =
+      captured.century !== undefined ? parseInt(captured.century, 10) : shortYear < 69 ? 20 : 19;
+    year = century * 100 + shortYear;
+  } else {
+    return null;
+  }
+
+  let month: number;
+  let day: number;
+  if (captured.dayOfYear !== undefined) {
+    const date = new Date(Date.UTC(year, 0, parseInt(captured.dayOfYear, 10)));
+    if (date.getUTCFullYear() !== year) {
+      return null;
+    }
+    month = date.getUTCMonth() + 1;
+    day = date.getUTCDate();
+  } else {
+    month =
+      captured.monthName !== undefined
+        ? MONTH_NAMES.findIndex((name) =>
+            name.startsWith(captured.monthName.toLowerCase().slice(0, 3))
+          ) + 1
+        : parseInt(captured.month ?? '1', 10);
+    day = parseInt(captured.day ?? '1', 10);
+  }
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth) {
+    return null;
+  }
+
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDuplicateTransactions,
+  parsePrintedTransactions,
+  type PrintedTransaction,
+} from './duplicateDetector.ts';
+
+const journalOutput = `2026-01-05 (TX-1001) Migros Zuerich
+    expenses:groceries             CHF12.00
+    assets:bank:ubs               CHF-12.00 = CHF988.00
+
+2026-01-06 * Coop Basel  ; ref: TX-1002
+    expenses:groceries              CHF8.00
+    assets:bank:ubs                CHF-8.00
+
+2026-01-07 Transfer
+    assets:bank:revolut            CHF100.00
+    assets:bank:postfinance       CHF-100.00
+`;
+
+const tx = (date: string, description: string, amount: string): PrintedTransaction => ({
+  date,
+  description,
+  amount,
+  comment: '',
+});
+
+describe('duplicateDetector', () => {
+  describe('parsePrintedTransactions', () => {
+    it('extracts code, comments, the amount of the given account and the other accounts', () => {
+      const transactions = parsePrintedTransactions(journalOutput, 'assets:bank:ubs');
+
+      expect(transactions).toEqual([
+        {
+          date: '2026-01-05',
+          description: 'Migros Zuerich',
+          amount: 'CHF-12.00',
+          code: 'TX-1001',
+          comment: '',
+          otherAccounts: ['expenses:groceries'],
+        },
+        {
+          date: '2026-01-06',
+          description: 'Coop Basel',
+          amount: 'CHF-8.00',
+          code: undefined,
+          comment: 'ref: TX-1002',
+          otherAccounts: ['expenses:groceries'],
+        },
+      ]);
+    });
+
+    it('omits transactions without a posting to the account', () => {
+      expect(parsePrintedTransactions(journalOutput, 'assets:bank:revolut')).toHaveLength(1);
+      expect(parsePrintedTransactions(journalOutput, 'assets:bank:other')).toEqual([]);
+    });
+  });
+
+  describe('findDuplicateTransactions', () => {
+    const existing = parsePrintedTransactions(journalOutput, 'assets:bank:ubs');
+
+    it('matches by transaction ID in the code or comment', () => {
+      const candidates = [
+        tx('2026-01-05', 'MIGROS ZUERICH 0105', 'CHF-12.00'),
+        tx('2026-01-06', 'Coop', 'CHF-8.00'),
+      ];
+
+      const duplicates = findDuplicateTransactions(candidates, existing, ['TX-1001', 'TX-1002']);
+
+      expect(duplicates).toHaveLength(2);
+      expect(duplicates[0]).toMatchObject({
+        reason: 'transaction-id',
+        transactionId: 'TX-1001',
+        existing: { date: '2026-01-05', description: 'Migros Zuerich' },
+      });
+      expect(duplicates[1].reason).toBe('transaction-id');
+    });
+
+    it('does not match a transaction ID that is only part of a longer ID', () => {
+      const candidates = [tx('2026-02-01', 'Other', 'CHF-1.00')];
+
+      expect(findDuplicateTransactions(candidates, existing, ['TX-100'])).toEqual([]);
+    });
+
+    it('matches by date, amount and description ignoring case and spacing', () => {
+      const candidates = [tx('2026-01-06', 'coop  basel', 'CHF -8.00')];
+
+      const duplicates = findDuplicateTransactions(candidates, existing);
+
+      expect(duplicates).toHaveLength(1);
+      expect(duplicates[0].reason).toBe('date-amount-description');
+    });
+
+    it('does not match when date, amount or commodity differ', () => {
+      const candidates = [
+        tx('2026-01-07', 'Coop Basel', 'CHF-8.00'),
+        tx('2026-01-06', 'Coop Basel', 'CHF-8.50'),
+        tx('2026-01-06', 'Coop Basel', 'EUR-8.00'),
+      ];
+
+      expect(findDuplicateTransactions(candidates, existing)).toEqual([]);
+    });
+
+    it('matches each existing transaction at most once', () => {
+      const candidates = [
+        tx('2026-01-06', 'Coop Basel', 'CHF-8.00'),
+        tx('2026-01-06', 'Coop Basel', 'CHF-8.00'),
+      ];
+
+      expect(findDuplicateTransactions(candidates, existing)).toHaveLength(1);
+    });
+  });
+});
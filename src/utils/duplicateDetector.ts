@@ -0,0 +1,211 @@
+/**
+ * Duplicate Detector
+ *
+ * Finds statement transactions that are already recorded in the journal,
+ * e.g. when a monthly and a quarterly export of the same account overlap.
+ */
+
+import { parseAmountValue } from './balanceUtils.ts';
+
+/**
+ * A transaction from hledger print output, reduced to one account's posting
+ */
+export interface PrintedTransaction {
+  date: string;
+  description: string;
+  /** Amount of the posting to the queried account (e.g., "CHF-95.25") */
+  amount: string;
+  code?: string;
+  /** Transaction and posting comments */
+  comment: string;
+  /** Accounts of the other postings (e.g., the account2 assigned by the rules file) */
+  otherAccounts?: string[];
+  /** CSV the transaction is read from, for transactions of statements not yet imported */
+  csv?: string;
+}
+
+/**
+ * A statement transaction suspected to be already in the journal
+ */
+export interface DuplicateTransaction {
+  date: string;
+  description: string;
+  amount: string;
+  /** transaction-id: same transaction ID; date-amount-description: same date, amount and description */
+  reason: 'transaction-id' | 'date-amount-description';
+  transactionId?: string;
+  existing: {
+    date: string;
+    description: string;
+    /** Set if the match is in an earlier statement of the same import, not in the journal */
+    csv?: string;
+  };
+}
+
+/**
+ * Parses hledger print output into transactions, keeping the amount of the
+ * posting to the given account. Transactions without such a posting are omitted.
+ *
+ * @param printOutput The stdout from hledger print
+ * @param account Account whose posting amount is extracted (usually the rules file's account1)
+ */
+export function parsePrintedTransactions(
+  printOutput: string,
+  account: string
+): PrintedTransaction[] {
+  const transactions: PrintedTransaction[] = [];
+  let current: PrintedTransaction | null = null;
+  let hasAccountPosting = false;
+
+  const finish = () => {
+    if (current && hasAccountPosting) {
+      transactions.push(current);
+    }
+    current = null;
+    hasAccountPosting = false;
+  };
+
+  for (const line of printOutput.split('\n')) {
+    const header = line.match(
+      /^(\d{4}-\d{2}-\d{2})(?:=\S+)?\s+(?:[*!]\s+)?(?:\(([^)]*)\)\s*)?(.*)$/
+    );
+    if (header) {
+      finish();
+      const [description, ...comment] = header[3].split(/\s*;/);
+      current = {
+        date: header[1],
+        description: description.trim(),
+        amount: '',
+        code: header[2]?.trim() || undefined,
+        comment: comment.join(';').trim(),
+        otherAccounts: [],
+      };
+      continue;
+    }
+
+    if (!current || !/^\s+\S/.test(line)) {
+      continue;
+    }
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith(';')) {
+      current.comment = `${current.comment} ${trimmed.slice(1).trim()}`.trim();
+      continue;
+    }
+
+    // Account names end at two spaces or a tab; the amount ends at a balance assertion or comment
+    const [postingAccount, rest = ''] = trimmed.split(/\s{2,}|\t/, 2);
+    const [amountPart, ...postingComment] = rest.split(';');
+    if (postingComment.length > 0) {
+      current.comment = `${current.comment} ${postingComment.join(';').trim()}`.trim();
+    }
+    if (postingAccount.trim() === account && !hasAccountPosting) {
+      current.amount = amountPart.split('=')[0].trim();
+      hasAccountPosting = true;
+    } else {
+      current.otherAccounts?.push(postingAccount.trim());
+    }
+  }
+  finish();
+
+  return transactions;
+}
+
+/**
+ * Normalizes a description for comparison (case and whitespace insensitive)
+ */
+function normalizeDescription(description: string): string {
+  return description.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Extracts the commodity symbol of an amount (e.g., "CHF" from "CHF-95.25")
+ */
+function commodityOf(amount: string): string {
+  return amount.replace(/[-+0-9.,'\s]/g, '');
+}
+
+/**
+ * Checks whether two amounts are equal (same commodity and value)
+ */
+function amountsEqual(a: string, b: string): boolean {
+  return (
+    commodityOf(a) === commodityOf(b) && Math.abs(parseAmountValue(a) - parseAmountValue(b)) < 0.005
+  );
+}
+
+/**
+ * Checks whether an existing transaction carries the given transaction ID
+ * (as transaction code, or as a whole word in the description or comments)
+ */
+function hasTransactionId(transaction: PrintedTransaction, transactionId: string): boolean {
+  if (transaction.code === transactionId) {
+    return true;
+  }
+  const escaped = transactionId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(^|[^A-Za-z0-9_-])${escaped}($|[^A-Za-z0-9_-])`);
+  return pattern.test(transaction.description) || pattern.test(transaction.comment);
+}
+
+/**
+ * Finds candidate transactions already present in the journal.
+ * A candidate is a duplicate if an existing transaction has the same transaction ID,
+ * or the same date, amount and description. Each existing transaction matches at most
+ * one candidate, so repeated identical purchases are only reported as often as they
+ * are already recorded.
+ *
+ * @param candidates Transactions about to be imported
+ * @param existing Transactions already in the journal for the same account
+ * @param transactionIds Transaction IDs of the candidates (by candidate index), if known
+ */
+export function findDuplicateTransactions(
+  candidates: PrintedTransaction[],
+  existing: PrintedTransaction[],
+  transactionIds: (string | undefined)[] = []
+): DuplicateTransaction[] {
+  const duplicates: DuplicateTransaction[] = [];
+  const used = new Set<number>();
+
+  const toDuplicate = (
+    candidate: PrintedTransaction,
+    match: PrintedTransaction,
+    reason: DuplicateTransaction['reason'],
+    transactionId?: string
+  ): DuplicateTransaction => ({
+    date: candidate.date,
+    description: candidate.description,
+    amount: candidate.amount,
+    reason,
+    transactionId,
+    existing: { date: match.date, description: match.description, csv: match.csv },
+  });
+
+  candidates.forEach((candidate, index) => {
+    const transactionId = transactionIds[index];
+    if (transactionId) {
+      const byId = existing.findIndex(
+        (tx, i) => !used.has(i) && hasTransactionId(tx, transactionId)
+      );
+      if (byId !== -1) {
+        used.add(byId);
+        duplicates.push(toDuplicate(candidate, existing[byId], 'transaction-id', transactionId));
+        return;
+      }
+    }
+
+    const description = normalizeDescription(candidate.description);
+    const byContent = existing.findIndex(
+      (tx, i) =>
+        !used.has(i) &&
+        tx.date === candidate.date &&
+        amountsEqual(tx.amount, candidate.amount) &&
+        normalizeDescription(tx.description) === description
+    );
+    if (byContent !== -1) {
+      used.add(byContent);
+      duplicates.push(toDuplicate(candidate, existing[byContent], 'date-amount-description'));
+    }
+  });
+
+  return duplicates;
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  collectStatementAccounts,
+  descriptionSimilarity,
+  loadJournalHistory,
+  normalizeDescription,
+  parseJournalHistory,
+  suggestFromHistory,
+  type HistoryRecord,
+} from './historyClassifier.ts';
+import type { UnknownPosting } from './hledgerExecutor.ts';
+
+const journal2025 = `; 2025 transactions
+
+2025-03-01 * Migros Zuerich 1234
+    expenses:groceries             CHF45.10
+    assets:bank:ubs               CHF-45.10
+
+2025-03-02 Coop Basel ; weekly shopping
+    expenses:groceries             CHF20.00
+    assets:bank:ubs               CHF-20.00
+
+2025-03-25 Employer AG
+    assets:bank:ubs              CHF5000.00
+    income:salary               CHF-5000.00
+`;
+
+const journal2026 = `2026-01-05 Migros Zuerich 5678
+    expenses:groceries             CHF12.00
+    assets:bank:ubs               CHF-12.00
+
+2026-01-06 (REF1) Migros Zuerich 9999
+    expenses:household              CHF8.00  ; toilet paper
+    assets:bank:ubs                CHF-8.00
+
+2026/01/07 Unknown Shop
+    expenses:unknown                CHF9.00
+    assets:bank:ubs                CHF-9.00
+`;
+
+const expense = (description: string, date = '2026-02-01'): UnknownPosting => ({
+  date,
+  description,
+  amount: 'CHF10.00',
+  account: 'expenses:unknown',
+});
+
+describe('historyClassifier', () => {
+  describe('normalizeDescription', () => {
+    it('removes digits and punctuation and lowercases', () => {
+      expect(normalizeDescription('MIGROS Zürich 1234, Card-No. 5678')).toBe(
+        'migros zürich card no'
+      );
+    });
+  });
+
+  describe('descriptionSimilarity', () => {
+    it('is 1 for identical descriptions and lower for different ones', () => {
+      expect(descriptionSimilarity('migros zuerich', 'migros zuerich')).toBe(1);
+      expect(descriptionSimilarity('migros zuerich', 'migros basel')).toBeGreaterThan(0.4);
+      expect(descriptionSimilarity('migros zuerich', 'sbb ticket')).toBeLessThan(0.2);
+      expect(descriptionSimilarity('', 'sbb')).toBe(0);
+    });
+  });
+
+  describe('parseJournalHistory', () => {
+    it('extracts description and account pairs', () => {
+      const pairs = parseJournalHistory(journal2026, new Set(['assets:bank:ubs']));
+
+      expect(pairs).toEqual([
+        { date: '2026-01-05', description: 'Migros Zuerich 5678', account: 'expenses:groceries' },
+        { date: '2026-01-06', description: 'Migros Zuerich 9999', account: 'expenses:household' },
+      ]);
+    });
+
+    it('strips status, code and comments from descriptions', () => {
+      const pairs = parseJournalHistory(journal2025, new Set(['assets:bank:ubs']));
+
+      expect(pairs.map((p) => p.description)).toEqual([
+        'Migros Zuerich 1234',
+        'Coop Basel',
+        'Employer AG',
+      ]);
+    });
+  });
+
+  describe('loadJournalHistory and collectStatementAccounts', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-classifier-test-'));
+      fs.mkdirSync(path.join(testDir, 'ledger/rules'), { recursive: true });
+      fs.writeFileSync(path.join(testDir, 'ledger/2025.journal'), journal2025);
+      fs.writeFileSync(path.join(testDir, 'ledger/2026.journal'), journal2026);
+      fs.writeFileSync(path.join(testDir, 'ledger/notes.journal'), journal2026);
+      fs.writeFileSync(
+        path.join(testDir, 'ledger/rules/ubs.rules'),
+        'skip 1\naccount1 assets:bank:ubs\n'
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('collects account1 from rules files', () => {
+      expect(collectStatementAccounts(path.join(testDir, 'ledger/rules'))).toEqual(
+        new Set(['assets:bank:ubs'])
+      );
+    });
+
+    it('ranks records by frequency, then recency', () => {
+      const history = loadJournalHistory(
+        path.join(testDir, 'ledger'),
+        collectStatementAccounts(path.join(testDir, 'ledger/rules'))
+      );
+
+      expect(history[0]).toEqual({
+        description: 'migros zuerich',
+        example: 'Migros Zuerich 5678',
+        account: 'expenses:groceries',
+        count: 2,
+        lastDate: '2026-01-05',
+      });
+      expect(history.map((r) => r.account)).toEqual([
+        'expenses:groceries',
+        'expenses:household',
+        'income:salary',
+        'expenses:groceries',
+      ]);
+    });
+
+    it('returns an empty history without ledger directory', () => {
+      expect(loadJournalHistory(path.join(testDir, 'missing'))).toEqual([]);
+    });
+  });
+
+  describe('suggestFromHistory', () => {
+    const history: HistoryRecord[] = [
+      {
+        description: 'migros zuerich',
+        example: 'Migros Zuerich 1',
+        account: 'expenses:groceries',
+        count: 12,
+        lastDate: '2026-01-20',
+      },
+      {
+        description: 'migros zuerich',
+        example: 'Migros Zuerich 2',
+        account: 'expenses:household',
+        count: 1,
+        lastDate: '2025-02-01',
+      },
+      {
+        description: 'employer ag',
+        example: 'Employer AG',
+        account: 'income:salary',
+        count: 3,
+        lastDate: '2026-01-25',
+      },
+    ];
+
+    it('gives high confidence for recurring merchants', () => {
+      const suggestion = suggestFromHistory(expense('MIGROS ZUERICH 4711'), history);
+
+      expect(suggestion?.account).toBe('expenses:groceries');
+      expect(suggestion?.confidence).toBe('high');
+    });
+
+    it('gives lower confidence for similar but not identical descriptions', () => {
+      const suggestion = suggestFromHistory(expense('Migros Zuerich Oerlikon'), history);
+
+      expect(suggestion?.account).toBe('expenses:groceries');
+      expect(suggestion?.confidence).not.toBe('high');
+    });
+
+    it('prefers recent classifications', () => {
+      const suggestion = suggestFromHistory(expense('Migros Zuerich', '2026-02-01'), [
+        { ...history[0], count: 2, lastDate: '2022-01-01' },
+        { ...history[1], count: 2, lastDate: '2026-01-01' },
+      ]);
+
+      expect(suggestion?.account).toBe('expenses:household');
+    });
+
+    it('ignores accounts of the opposite direction', () => {
+      expect(suggestFromHistory(expense('Employer AG'), history)).toBeNull();
+    });
+
+    it('returns null without similar descriptions', () => {
+      expect(suggestFromHistory(expense('SBB Ticket'), history)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * History Classifier
+ *
+ * Learns description → account pairs from already-categorized year journals
+ * (ledger/YYYY.journal) and suggests accounts for unknown postings by
+ * nearest-neighbour matching on the description, without any model call.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AccountSuggestion } from './accountSuggester.ts';
+import type { UnknownPosting } from './hledgerExecutor.ts';
+import { getAccountFromRulesFile } from './rulesParser.ts';
+
+/**
+ * A description → account pair found in the journals
+ */
+export interface HistoryRecord {
+  /** Normalized description (see normalizeDescription) */
+  description: string;
+  /** Description as it appeared in the most recent transaction */
+  example: string;
+  account: string;
+  /** Number of transactions with this description and account */
+  count: number;
+  /** Date of the most recent transaction (YYYY-MM-DD) */
+  lastDate: string;
+}
+
+/**
+ * Minimum similarity for a history description to count as a neighbour
+ */
+const MIN_SIMILARITY = 0.6;
+
+/**
+ * Half-life (in days) of a history record's weight
+ */
+const RECENCY_HALF_LIFE_DAYS = 365;
+
+/**
+ * Normalizes a description for matching: lowercase, without digits
+ * (card numbers, dates, references) and punctuation, whitespace collapsed.
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[0-9]+/g, ' ')
+    .replace(/[^\p{L}\s]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Builds the set of character trigrams of a string (padded with spaces)
+ */
+function trigrams(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const result = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+/**
+ * Dice coefficient of the trigram sets of two normalized descriptions (0..1)
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (a === '' || b === '') {
+    return 0;
+  }
+
+  const aGrams = trigrams(a);
+  const bGrams = trigrams(b);
+  let shared = 0;
+  for (const gram of aGrams) {
+    if (bGrams.has(gram)) {
+      shared++;
+    }
+  }
+  return (2 * shared) / (aGrams.size + bGrams.size);
+}
+
+/**
+ * Extracts description → account pairs from journal content.
+ * Postings to unknown accounts and to excluded accounts (the statement side of
+ * imported transactions, e.g. assets:bank:ubs) are ignored.
+ *
+ * @param content Journal content
+ * @param excludeAccounts Accounts that never count as a classification
+ */
+export function parseJournalHistory(
+  content: string,
+  excludeAccounts: Set<string> = new Set()
+): { date: string; description: string; account: string }[] {
+  const pairs: { date: string; description: string; account: string }[] = [];
+  let current: { date: string; description: string } | null = null;
+
+  for (const line of content.split('\n')) {
+    const header = line.match(
+      /^(\d{4}[-/.]\d{2}[-/.]\d{2})(?:=\S+)?\s+(?:[*!]\s+)?(?:\([^)]*\)\s+)?(.*)$/
+    );
+    if (header) {
+      const description = header[2].split(/\s+;/)[0].trim();
+      current = { date: header[1].replace(/[/.]/g, '-'), description };
+      continue;
+    }
+
+    if (!/^\s+\S/.test(line)) {
+      current = null;
+      continue;
+    }
+
+    const trimmed = line.trim();
+    if (!current || trimmed.startsWith(';')) {
+      continue;
+    }
+
+    // Account names end at two spaces or a tab
+    const account = trimmed.split(/\s{2,}|\t/)[0].trim();
+    if (account === '' || account.endsWith(':unknown') || excludeAccounts.has(account)) {
+      continue;
+    }
+
+    pairs.push({ date: current.date, description: current.description, account });
+  }
+
+  return pairs;
+}
+
+/**
+ * Collects the account1 (statement side) accounts of all rules files in a directory
+ */
+export function collectStatementAccounts(rulesDir: string): Set<string> {
+  const accounts = new Set<string>();
+  if (!fs.existsSync(rulesDir)) {
+    return accounts;
+  }
+
+  for (const file of fs.readdirSync(rulesDir)) {
+    if (!file.endsWith('.rules')) {
+      continue;
+    }
+    const account = getAccountFromRulesFile(path.join(rulesDir, file));
+    if (account) {
+      accounts.add(account);
+    }
+  }
+
+  return accounts;
+}
+
+/**
+ * Mines all year journals (YYYY.journal) in the ledger directory for
+ * description → account pairs, ranked by frequency and then recency.
+ *
+ * @param ledgerDir Directory containing the year journals
+ * @param excludeAccounts Accounts that never count as a classification
+ */
+export function loadJournalHistory(
+  ledgerDir: string,
+  excludeAccounts: Set<string> = new Set()
+): HistoryRecord[] {
+  if (!fs.existsSync(ledgerDir)) {
+    return [];
+  }
+
+  const records = new Map<string, HistoryRecord>();
+  const journals = fs.readdirSync(ledgerDir).filter((file) => /^\d{4}\.journal$/.test(file));
+
+  for (const journal of journals) {
+    const content = fs.readFileSync(path.join(ledgerDir, journal), 'utf-8');
+    for (const pair of parseJournalHistory(content, excludeAccounts)) {
+      const description = normalizeDescription(pair.description);
+      if (description === '') {
+        continue;
+      }
+
+      const key = `${description}\0${pair.account}`;
+      const record = records.get(key);
+      if (!record) {
+        records.set(key, {
+          description,
+          example: pair.description,
+          account: pair.account,
+          count: 1,
+          lastDate: pair.date,
+        });
+      } else {
+        record.count++;
+        if (pair.date > record.lastDate) {
+          record.lastDate = pair.date;
+          record.example = pair.description;
+        }
+      }
+    }
+  }
+
+  return Array.from(records.values()).sort(
+    (a, b) => b.count - a.count || b.lastDate.localeCompare(a.lastDate)
+  );
+}
+
+/**
+ * Weight of a history record relative to a reference date (halves every year)
+ */
+function recencyWeight(lastDate: string, referenceDate: string): number {
+  const ageDays = (Date.parse(referenceDate) - Date.parse(lastDate)) / (1000 * 60 * 60 * 24);
+  if (Number.isNaN(ageDays) || ageDays <= 0) {
+    return 1;
+  }
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * Suggests an account for an unknown posting from the journal history.
+ * Neighbours are history descriptions similar to the posting's description; each votes
+ * for its account weighted by similarity, frequency and recency.
+ * Accounts of the opposite direction (expenses:* for income, income:* for expenses) are ignored.
+ *
+ * @returns A suggestion, or null if no sufficiently similar description was found
+ */
+export function suggestFromHistory(
+  posting: UnknownPosting,
+  history: HistoryRecord[]
+): AccountSuggestion | null {
+  const query = normalizeDescription(posting.description);
+  if (query === '') {
+    return null;
+  }
+
+  const oppositeRoot = posting.account === 'income:unknown' ? 'expenses' : 'income';
+  const scores = new Map<string, { score: number; similarity: number; count: number }>();
+  let totalScore = 0;
+
+  for (const record of history) {
+    if (record.account === oppositeRoot || record.account.startsWith(`${oppositeRoot}:`)) {
+      continue;
+    }
+
+    const similarity = descriptionSimilarity(query, record.description);
+    if (similarity < MIN_SIMILARITY) {
+      continue;
+    }
+
+    const score = similarity * record.count * recencyWeight(record.lastDate, posting.date);
+    const entry = scores.get(record.account) ?? { score: 0, similarity: 0, count: 0 };
+    entry.score += score;
+    entry.similarity = Math.max(entry.similarity, similarity);
+    entry.count += record.count;
+    scores.set(record.account, entry);
+    totalScore += score;
+  }
+
+  if (scores.size === 0) {
+    return null;
+  }
+
+  const [account, best] = Array.from(scores.entries()).sort((a, b) => b[1].score - a[1].score)[0];
+  const share = best.score / totalScore;
+
+  let confidence: AccountSuggestion['confidence'] = 'low';
+  if (best.similarity >= 0.9 && share >= 0.8 && best.count >= 2) {
+    confidence = 'high';
+  } else if (best.similarity >= 0.75 && share >= 0.6) {
+    confidence = 'medium';
+  }
+
+  return {
+    account,
+    confidence,
+    reasoning: `Matches ${best.count} past transaction(s) with a similar description (similarity ${best.similarity.toFixed(2)})`,
+  };
+}
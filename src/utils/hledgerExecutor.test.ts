@@ -5,7 +5,9 @@ import {
   extractTransactionYears,
   validateLedger,
   getLastTransactionDate,
+  getLastTransactionDateBefore,
   getAccountBalance,
+  parseBalanceOutput,
   type HledgerExecutor,
 } from './hledgerExecutor.ts';
 
@@ -333,6 +335,54 @@ describe('hledgerExecutor', () => {
     });
   });
 
+  describe('getLastTransactionDateBefore', () => {
+    it('queries the register up to the exclusive end date', async () => {
+      const mockExecutor: HledgerExecutor = vi.fn().mockResolvedValue({
+        stdout: `"txnidx","date","code","description","account","amount","total"
+"1","2026-01-15","","First Transaction","assets:bank:ubs:checking","CHF 100.00","CHF 100.00"
+"2","2026-01-31","","Last Transaction","assets:bank:ubs:checking","CHF -25.00","CHF 75.00"`,
+        stderr: '',
+        exitCode: 0,
+      });
+
+      const result = await getLastTransactionDateBefore(
+        '/path/to/.hledger.journal',
+        'assets:bank:ubs:checking',
+        '2026-02-01',
+        mockExecutor
+      );
+
+      expect(result).toBe('2026-01-31');
+      expect(mockExecutor).toHaveBeenCalledWith([
+        'register',
+        'assets:bank:ubs:checking',
+        '-f',
+        '/path/to/.hledger.journal',
+        '-e',
+        '2026-02-01',
+        '-O',
+        'csv',
+      ]);
+    });
+
+    it('returns null when there are no earlier transactions', async () => {
+      const mockExecutor: HledgerExecutor = vi.fn().mockResolvedValue({
+        stdout: `"txnidx","date","code","description","account","amount","total"`,
+        stderr: '',
+        exitCode: 0,
+      });
+
+      const result = await getLastTransactionDateBefore(
+        '/path/to/.hledger.journal',
+        'assets:bank:ubs:checking',
+        '2026-01-01',
+        mockExecutor
+      );
+
+      expect(result).toBeNull();
+    });
+  });
+
   describe('getAccountBalance', () => {
     it('returns balance for account as of date', async () => {
       const balOutput = `                CHF 2324.79  assets:bank:ubs:checking`;
@@ -380,6 +430,20 @@ describe('hledgerExecutor', () => {
       expect(mockExecutor).toHaveBeenCalledWith(expect.arrayContaining(['-e', '2026-02-01']));
     });
 
+    it('restricts the balance to a commodity', async () => {
+      const mockExecutor: HledgerExecutor = vi.fn().mockResolvedValue({
+        stdout: 'USD 10.00  assets:bank:revolut',
+        stderr: '',
+        exitCode: 0,
+      });
+
+      await getAccountBalance('/j', 'assets:bank:revolut', '2026-01-31', mockExecutor, 'USD');
+      await getAccountBalance('/j', 'assets:bank:revolut', '2026-01-31', mockExecutor, '$');
+
+      expect(mockExecutor).toHaveBeenCalledWith(expect.arrayContaining(['cur:USD']));
+      expect(mockExecutor).toHaveBeenCalledWith(expect.arrayContaining(['cur:\\$']));
+    });
+
     it('handles zero balance', async () => {
       const mockExecutor: HledgerExecutor = vi.fn().mockResolvedValue({
         stdout: '',
@@ -506,4 +570,25 @@ describe('hledgerExecutor', () => {
       expect(result).toBe('CHF 999999.99');
     });
   });
+
+  describe('parseBalanceOutput', () => {
+    it('joins the amounts of a multi-commodity balance', () => {
+      const output = `          CHF 100.00  assets:bank:revolut
+           EUR 50.00
+--------------------
+          CHF 100.00
+           EUR 50.00`;
+
+      expect(parseBalanceOutput(output, 'assets:bank:revolut')).toBe('CHF 100.00, EUR 50.00');
+    });
+
+    it('handles the account name on the last line of a multi-commodity balance', () => {
+      const output = `          BTC 0.12345678
+          CHF 100.00  assets:bank:revolut
+          BTC 0.5  assets:crypto:wallet`;
+
+      expect(parseBalanceOutput(output, 'assets:bank:revolut')).toBe('BTC 0.12345678, CHF 100.00');
+      expect(parseBalanceOutput(output, 'assets:crypto:wallet')).toBe('BTC 0.5');
+    });
+  });
 });
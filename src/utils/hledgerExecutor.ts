@@ -211,7 +211,45 @@ export async function getLastTransactionDate(
 ): Promise<string | null> {
   // Use hledger register to get all transactions for the account in CSV format
   const result = await executor(['register', account, '-f', mainJournalPath, '-O', 'csv']);
+  return parseLastRegisterDate(result);
+}
 
+/**
+ * Gets the date of the last transaction for an account before a given date.
+ *
+ * @param mainJournalPath Path to the main .hledger.journal file
+ * @param account Account to query (e.g., "assets:bank:ubs:checking")
+ * @param beforeDate Exclusive end date (YYYY-MM-DD format)
+ * @param executor Optional hledger executor (for testing)
+ * @returns The last transaction date before beforeDate in YYYY-MM-DD format, or null if none
+ *
+ * @example
+ * const lastDate = await getLastTransactionDateBefore('/path/to/.hledger.journal', 'assets:bank:ubs:checking', '2026-02-01');
+ * // Returns: "2026-01-31" or null
+ */
+export async function getLastTransactionDateBefore(
+  mainJournalPath: string,
+  account: string,
+  beforeDate: string,
+  executor: HledgerExecutor = defaultHledgerExecutor
+): Promise<string | null> {
+  const result = await executor([
+    'register',
+    account,
+    '-f',
+    mainJournalPath,
+    '-e',
+    beforeDate,
+    '-O',
+    'csv',
+  ]);
+  return parseLastRegisterDate(result);
+}
+
+/**
+ * Extracts the date of the last row from hledger register CSV output.
+ */
+function parseLastRegisterDate(result: HledgerResult): string | null {
   if (result.exitCode !== 0 || !result.stdout.trim()) {
     return null;
   }
@@ -229,6 +267,16 @@ export async function getLastTransactionDate(
   return match ? match[1] : null;
 }
 
+/**
+ * Builds an hledger query matching the postings of exactly one commodity.
+ * cur: takes a regular expression, so symbols such as "$" are escaped.
+ *
+ * @param commodity Commodity symbol (e.g., "CHF")
+ */
+export function commodityQuery(commodity: string): string {
+  return `cur:${commodity.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`;
+}
+
 /**
  * Gets the balance for an account as of a specific date using hledger.
  * Uses hledger bal command with an exclusive end date.
@@ -237,6 +285,7 @@ export async function getLastTransactionDate(
  * @param account Account to query (e.g., "assets:bank:ubs:checking")
  * @param asOfDate Date to query balance as of (YYYY-MM-DD format)
  * @param executor Optional hledger executor (for testing)
+ * @param commodity Optional commodity to restrict the balance to (e.g., "CHF")
  * @returns The account balance string (e.g., "CHF 2324.79"), or null if query fails
  *
  * @example
@@ -247,7 +296,8 @@ export async function getAccountBalance(
   mainJournalPath: string,
   account: string,
   asOfDate: string,
-  executor: HledgerExecutor = defaultHledgerExecutor
+  executor: HledgerExecutor = defaultHledgerExecutor,
+  commodity?: string
 ): Promise<string | null> {
   // Use hledger balance with end date (exclusive, so add 1 day)
   // -e flag is exclusive, so we need to use the day after
@@ -262,6 +312,7 @@ export async function getAccountBalance(
     nextDay,
     '-N', // No total row
     '--flat',
+    ...(commodity ? [commodityQuery(commodity)] : []),
   ]);
 
   if (result.exitCode !== 0) {
@@ -275,7 +326,51 @@ export async function getAccountBalance(
     return '0';
   }
 
-  // Extract the balance value (everything before the account name)
-  const match = output.match(/^\s*(.+?)\s{2,}/);
-  return match ? match[1].trim() : output.trim();
+  return parseBalanceOutput(result.stdout, account);
+}
+
+/**
+ * Extracts an account's balance from hledger bal --flat output.
+ * A multi-commodity balance spans several lines, one amount per line, with the
+ * account name on the first or last of them; its amounts are joined with ", "
+ * (e.g., "CHF 100.00, EUR 50.00"). A total row, if present, is ignored.
+ *
+ * @param output The stdout from hledger bal
+ * @param account Account whose balance to extract (the first account if not listed)
+ */
+export function parseBalanceOutput(output: string, account: string): string {
+  const allLines = output.split('\n');
+  const totalIndex = allLines.findIndex((line) => /^-{3,}$/.test(line.trim()));
+  const lines = (totalIndex === -1 ? allLines : allLines.slice(0, totalIndex))
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      const match = line.match(/^\s*(.+?)(?:\s{2,}(\S.*))?$/);
+      return { amount: match?.[1].trim() ?? line.trim(), account: match?.[2]?.trim() };
+    });
+
+  // Group amount-only lines with the account line above (names on top) or below (names at bottom)
+  const namesOnTop = lines.length > 0 && lines[0].account !== undefined;
+  const blocks: { account?: string; amounts: string[] }[] = [];
+  let pending: string[] = [];
+  for (const line of lines) {
+    if (namesOnTop) {
+      if (line.account !== undefined || blocks.length === 0) {
+        blocks.push({ account: line.account, amounts: [line.amount] });
+      } else {
+        blocks[blocks.length - 1].amounts.push(line.amount);
+      }
+    } else {
+      pending.push(line.amount);
+      if (line.account !== undefined) {
+        blocks.push({ account: line.account, amounts: pending });
+        pending = [];
+      }
+    }
+  }
+  if (pending.length > 0) {
+    blocks.push({ amounts: pending });
+  }
+
+  const block = blocks.find((b) => b.account === account) ?? blocks[0];
+  return block ? block.amounts.join(', ') : '0';
 }
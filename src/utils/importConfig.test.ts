@@ -522,5 +522,214 @@ providers:
         "Invalid config: provider 'ubs' detect[0].metadata[0].normalize must be 'spaces-to-dashes'"
       );
     });
+
+    it('should accept a reconciliation tolerance per provider and per commodity', () => {
+      const configPath = path.join(configDir, 'providers.yaml');
+      fs.writeFileSync(
+        configPath,
+        `paths:
+  import: statements/import
+  pending: doc/agent/todo/import
+  done: doc/agent/done/import
+  unrecognized: statements/import/unrecognized
+  rules: ledger/rules
+
+providers:
+  ubs:
+    detect:
+      - header: "Date,Amount,Balance"
+        currencyField: Currency
+    currencies:
+      CHF: chf
+    tolerance: 0.01
+  revolut:
+    detect:
+      - header: "Type,Product"
+        currencyField: Currency
+    currencies:
+      BTC: btc
+    tolerance:
+      BTC: 0.00000001
+`
+      );
+
+      const config = loadImportConfig(testDir);
+
+      expect(config.providers.ubs.tolerance).toBe(0.01);
+      expect(config.providers.revolut.tolerance).toEqual({ BTC: 0.00000001 });
+    });
+
+    it('should throw error when tolerance is negative', () => {
+      const configPath = path.join(configDir, 'providers.yaml');
+      fs.writeFileSync(
+        configPath,
+        `paths:
+  import: statements/import
+  pending: doc/agent/todo/import
+  done: doc/agent/done/import
+  unrecognized: statements/import/unrecognized
+  rules: ledger/rules
+
+providers:
+  ubs:
+    detect:
+      - header: "Date,Amount,Balance"
+        currencyField: Currency
+    currencies:
+      CHF: chf
+    tolerance:
+      CHF: -1
+`
+      );
+
+      expect(() => loadImportConfig(testDir)).toThrow(
+        "Invalid config for provider 'ubs': tolerance.CHF must be a non-negative number"
+      );
+    });
+
+    it('should load the number format of a detection rule', () => {
+      const configPath = path.join(configDir, 'providers.yaml');
+      fs.writeFileSync(
+        configPath,
+        `paths:
+  import: statements/import
+  pending: doc/agent/todo/import
+  done: doc/agent/done/import
+  unrecognized: statements/import/unrecognized
+  rules: ledger/rules
+
+providers:
+  dkb:
+    detect:
+      - header: "Buchungsdatum,Betrag,Saldo"
+        currencyField: Currency
+        numberFormat:
+          decimalMark: ","
+          signPlacement: trailing
+    currencies:
+      EUR: eur
+`
+      );
+
+      const config = loadImportConfig(testDir);
+
+      expect(config.providers.dkb.detect[0].numberFormat).toEqual({
+        decimalMark: ',',
+        signPlacement: 'trailing',
+      });
+    });
+
+    it('should throw error when the number format has an invalid decimal mark', () => {
+      const configPath = path.join(configDir, 'providers.yaml');
+      fs.writeFileSync(
+        configPath,
+        `paths:
+  import: statements/import
+  pending: doc/agent/todo/import
+  done: doc/agent/done/import
+  unrecognized: statements/import/unrecognized
+  rules: ledger/rules
+
+providers:
+  dkb:
+    detect:
+      - header: "Buchungsdatum,Betrag,Saldo"
+        currencyField: Currency
+        numberFormat:
+          decimalMark: ";"
+    currencies:
+      EUR: eur
+`
+      );
+
+      expect(() => loadImportConfig(testDir)).toThrow(
+        "Invalid config: provider 'dkb' detect[0].numberFormat.decimalMark must be '.' or ','"
+      );
+    });
+
+    it('should load required columns, ignoreCase and aliases instead of a header', () => {
+      const configPath = path.join(configDir, 'providers.yaml');
+      fs.writeFileSync(
+        configPath,
+        `paths:
+  import: statements/import
+  pending: doc/agent/todo/import
+  done: doc/agent/done/import
+  unrecognized: statements/import/unrecognized
+  rules: ledger/rules
+
+providers:
+  revolut:
+    detect:
+      - requiredColumns: [Completed Date, Amount, Currency]
+        ignoreCase: true
+        aliases:
+          Amount: [Betrag]
+        currencyField: Currency
+    currencies:
+      CHF: chf
+`
+      );
+
+      const rule = loadImportConfig(testDir).providers.revolut.detect[0];
+
+      expect(rule.header).toBeUndefined();
+      expect(rule.requiredColumns).toEqual(['Completed Date', 'Amount', 'Currency']);
+      expect(rule.ignoreCase).toBe(true);
+      expect(rule.aliases).toEqual({ Amount: ['Betrag'] });
+    });
+
+    it('should throw error when aliases are not lists of column names', () => {
+      const configPath = path.join(configDir, 'providers.yaml');
+      fs.writeFileSync(
+        configPath,
+        `paths:
+  import: statements/import
+  pending: doc/agent/todo/import
+  done: doc/agent/done/import
+  unrecognized: statements/import/unrecognized
+  rules: ledger/rules
+
+providers:
+  revolut:
+    detect:
+      - header: "Date,Amount,Currency"
+        aliases:
+          Amount: Betrag
+        currencyField: Currency
+    currencies:
+      CHF: chf
+`
+      );
+
+      expect(() => loadImportConfig(testDir)).toThrow(
+        "Invalid config: provider 'revolut' detect[0].aliases.Amount must be an array of column names"
+      );
+    });
+
+    it('should throw error when neither header nor requiredColumns is set', () => {
+      const configPath = path.join(configDir, 'providers.yaml');
+      fs.writeFileSync(
+        configPath,
+        `paths:
+  import: statements/import
+  pending: doc/agent/todo/import
+  done: doc/agent/done/import
+  unrecognized: statements/import/unrecognized
+  rules: ledger/rules
+
+providers:
+  revolut:
+    detect:
+      - currencyField: Currency
+    currencies:
+      CHF: chf
+`
+      );
+
+      expect(() => loadImportConfig(testDir)).toThrow(
+        "Invalid config: provider 'revolut' detect[0].header is required"
+      );
+    });
   });
 });
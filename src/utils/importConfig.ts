@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import yaml from 'js-yaml';
+import type { BalanceTolerance, NumberFormat } from './balanceUtils.ts';
 
 export interface MetadataExtraction {
   field: string; // Placeholder name to use in renamePattern (e.g., "account-number")
@@ -11,17 +12,22 @@ export interface MetadataExtraction {
 
 export interface DetectionRule {
   filenamePattern?: string; // Optional: regex pattern to match filename
-  header: string;
+  header?: string; // Exact header (comma-separated); required unless requiredColumns is set
+  requiredColumns?: string[]; // Optional: columns that must be present, in any order
+  ignoreCase?: boolean; // Optional: compare column names case- and whitespace-insensitively
+  aliases?: Record<string, string[]>; // Optional: alternative names per column
   currencyField: string;
   skipRows?: number; // Optional: rows to skip before header (default: 0)
   delimiter?: string; // Optional: CSV delimiter (default: ',')
   renamePattern?: string; // Optional: output filename pattern with placeholders
   metadata?: MetadataExtraction[]; // Optional: metadata extraction from skipped rows
+  numberFormat?: NumberFormat; // Optional: how amounts are written (default: "." decimal mark)
 }
 
 export interface ProviderConfig {
   detect: DetectionRule[];
   currencies: Record<string, string>;
+  tolerance?: BalanceTolerance; // Optional: allowed reconciliation difference (default: exact)
 }
 
 export interface ImportPaths {
@@ -47,7 +53,7 @@ const REQUIRED_PATH_FIELDS: (keyof ImportPaths)[] = [
   'unrecognized',
   'rules',
 ];
-const REQUIRED_DETECTION_FIELDS: (keyof DetectionRule)[] = ['header', 'currencyField'];
+const REQUIRED_DETECTION_FIELDS: (keyof DetectionRule)[] = ['currencyField'];
 
 /**
  * Validates the paths configuration
@@ -97,6 +103,53 @@ function validateDetectionRule(providerName: string, index: number, rule: unknow
     }
   }
 
+  // Validate the header, or the required columns replacing it
+  if (ruleObj.requiredColumns !== undefined) {
+    if (
+      !Array.isArray(ruleObj.requiredColumns) ||
+      ruleObj.requiredColumns.length === 0 ||
+      ruleObj.requiredColumns.some((column) => typeof column !== 'string' || column === '')
+    ) {
+      throw new Error(
+        `Invalid config: provider '${providerName}' detect[${index}].requiredColumns must be a non-empty array of column names`
+      );
+    }
+  }
+  if (ruleObj.header !== undefined || ruleObj.requiredColumns === undefined) {
+    if (typeof ruleObj.header !== 'string' || ruleObj.header === '') {
+      throw new Error(
+        `Invalid config: provider '${providerName}' detect[${index}].header is required`
+      );
+    }
+  }
+
+  // Validate optional ignoreCase
+  if (ruleObj.ignoreCase !== undefined && typeof ruleObj.ignoreCase !== 'boolean') {
+    throw new Error(
+      `Invalid config: provider '${providerName}' detect[${index}].ignoreCase must be a boolean`
+    );
+  }
+
+  // Validate optional aliases
+  if (ruleObj.aliases !== undefined) {
+    if (
+      typeof ruleObj.aliases !== 'object' ||
+      ruleObj.aliases === null ||
+      Array.isArray(ruleObj.aliases)
+    ) {
+      throw new Error(
+        `Invalid config: provider '${providerName}' detect[${index}].aliases must be an object`
+      );
+    }
+    for (const [column, names] of Object.entries(ruleObj.aliases)) {
+      if (!Array.isArray(names) || names.some((name) => typeof name !== 'string' || name === '')) {
+        throw new Error(
+          `Invalid config: provider '${providerName}' detect[${index}].aliases.${column} must be an array of column names`
+        );
+      }
+    }
+  }
+
   // Validate optional filenamePattern is a valid regex if present
   if (ruleObj.filenamePattern !== undefined) {
     if (typeof ruleObj.filenamePattern !== 'string') {
@@ -172,22 +225,75 @@ function validateDetectionRule(providerName: string, index: number, rule: unknow
     }
   }
 
+  // Validate optional numberFormat
+  if (ruleObj.numberFormat !== undefined) {
+    validateNumberFormat(
+      `provider '${providerName}' detect[${index}].numberFormat`,
+      ruleObj.numberFormat
+    );
+  }
+
   return {
     filenamePattern: ruleObj.filenamePattern as string | undefined,
-    header: ruleObj.header as string,
+    header: ruleObj.header as string | undefined,
+    requiredColumns: ruleObj.requiredColumns as string[] | undefined,
+    ignoreCase: ruleObj.ignoreCase as boolean | undefined,
+    aliases: ruleObj.aliases as Record<string, string[]> | undefined,
     currencyField: ruleObj.currencyField as string,
     skipRows: ruleObj.skipRows as number | undefined,
     delimiter: ruleObj.delimiter as string | undefined,
     renamePattern: ruleObj.renamePattern as string | undefined,
     metadata: ruleObj.metadata as import('./importConfig.ts').MetadataExtraction[] | undefined,
+    numberFormat: ruleObj.numberFormat as NumberFormat | undefined,
   };
 }
 
+/**
+ * Validates a detection rule's number format
+ * @throws Error if a field has an invalid value
+ */
+function validateNumberFormat(location: string, format: unknown): void {
+  if (typeof format !== 'object' || format === null || Array.isArray(format)) {
+    throw new Error(`Invalid config: ${location} must be an object`);
+  }
+
+  const formatObj = format as Record<string, unknown>;
+  if (
+    formatObj.decimalMark !== undefined &&
+    formatObj.decimalMark !== '.' &&
+    formatObj.decimalMark !== ','
+  ) {
+    throw new Error(`Invalid config: ${location}.decimalMark must be '.' or ','`);
+  }
+  if (
+    formatObj.groupMarks !== undefined &&
+    (typeof formatObj.groupMarks !== 'string' ||
+      formatObj.groupMarks.includes((formatObj.decimalMark as string | undefined) ?? '.'))
+  ) {
+    throw new Error(
+      `Invalid config: ${location}.groupMarks must be a string not containing the decimal mark`
+    );
+  }
+  if (
+    formatObj.signPlacement !== undefined &&
+    formatObj.signPlacement !== 'leading' &&
+    formatObj.signPlacement !== 'trailing'
+  ) {
+    throw new Error(`Invalid config: ${location}.signPlacement must be 'leading' or 'trailing'`);
+  }
+  if (
+    formatObj.parenthesesNegative !== undefined &&
+    typeof formatObj.parenthesesNegative !== 'boolean'
+  ) {
+    throw new Error(`Invalid config: ${location}.parenthesesNegative must be a boolean`);
+  }
+}
+
 /**
  * Validates a provider configuration
  * @throws Error if required fields are missing
  */
-function validateProviderConfig(name: string, config: unknown): ProviderConfig {
+export function validateProviderConfig(name: string, config: unknown): ProviderConfig {
   if (typeof config !== 'object' || config === null) {
     throw new Error(`Invalid config for provider '${name}': expected an object`);
   }
@@ -225,7 +331,44 @@ function validateProviderConfig(name: string, config: unknown): ProviderConfig {
     );
   }
 
-  return { detect, currencies };
+  const tolerance = validateTolerance(name, configObj.tolerance);
+
+  return tolerance === undefined ? { detect, currencies } : { detect, currencies, tolerance };
+}
+
+/**
+ * Validates the optional reconciliation tolerance of a provider:
+ * a non-negative number, or a mapping of commodity to non-negative number
+ * @throws Error if the tolerance is invalid
+ */
+function validateTolerance(name: string, tolerance: unknown): BalanceTolerance | undefined {
+  if (tolerance === undefined) {
+    return undefined;
+  }
+
+  const isValidAmount = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+  if (isValidAmount(tolerance)) {
+    return tolerance as number;
+  }
+
+  if (typeof tolerance === 'object' && tolerance !== null && !Array.isArray(tolerance)) {
+    const result: Record<string, number> = {};
+    for (const [commodity, value] of Object.entries(tolerance)) {
+      if (!isValidAmount(value)) {
+        throw new Error(
+          `Invalid config for provider '${name}': tolerance.${commodity} must be a non-negative number`
+        );
+      }
+      result[commodity] = value as number;
+    }
+    return result;
+  }
+
+  throw new Error(
+    `Invalid config for provider '${name}': 'tolerance' must be a non-negative number or a mapping of commodity to number`
+  );
 }
 
 /**
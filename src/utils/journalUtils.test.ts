@@ -1,7 +1,12 @@
 import { describe, it, expect, beforeEach, afterAll } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
-import { extractDateFromPriceLine, updatePriceJournal, findCsvFiles } from './journalUtils.ts';
+import {
+  extractDateFromPriceLine,
+  updatePriceJournal,
+  findCsvFiles,
+  appendBalanceAssertion,
+} from './journalUtils.ts';
 
 describe('journalUtils', () => {
   const testDir = path.join(process.cwd(), '.memory', 'test-journalUtils');
@@ -306,4 +311,33 @@ describe('journalUtils', () => {
       expect(result[0]).toContain('lowercase.csv');
     });
   });
+
+  describe('appendBalanceAssertion', () => {
+    const assertion = {
+      date: '2026-01-31',
+      account: 'assets:bank:ubs',
+      balance: 'CHF 2324.79',
+      description: 'Closing balance',
+      comment: 'statement: ubs.csv',
+    };
+
+    it('should append a zero-amount posting asserting the balance', () => {
+      const journal = path.join(testDir, '2026.journal');
+      fs.writeFileSync(journal, '; 2026 transactions\n');
+
+      expect(appendBalanceAssertion(journal, assertion)).toBe(true);
+      expect(fs.readFileSync(journal, 'utf-8')).toBe(
+        '; 2026 transactions\n\n2026-01-31 Closing balance  ; statement: ubs.csv\n    assets:bank:ubs  0 = CHF 2324.79\n'
+      );
+    });
+
+    it('should not append the same assertion twice', () => {
+      const journal = path.join(testDir, '2026.journal');
+      fs.writeFileSync(journal, '');
+
+      appendBalanceAssertion(journal, assertion);
+      expect(appendBalanceAssertion(journal, assertion)).toBe(false);
+      expect(fs.readFileSync(journal, 'utf-8').match(/0 = CHF 2324.79/g)).toHaveLength(1);
+    });
+  });
 });
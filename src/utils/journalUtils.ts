@@ -137,3 +137,54 @@ export function ensureYearJournalExists(directory: string, year: number): string
 
   return yearJournalPath;
 }
+
+/**
+ * A balance assertion for an account at the end of a date
+ */
+export interface BalanceAssertion {
+  date: string;
+  account: string;
+  /** Asserted balance including commodity (e.g., "CHF 2324.79") */
+  balance: string;
+  description: string;
+  comment?: string;
+}
+
+/**
+ * Formats a balance assertion as a transaction with a single zero-amount posting,
+ * so it asserts the balance without changing it.
+ *
+ * @example
+ * formatBalanceAssertion({ date: '2026-01-31', account: 'assets:bank:ubs', balance: 'CHF 2324.79', description: 'Closing balance' })
+ * // "2026-01-31 Closing balance\n    assets:bank:ubs  0 = CHF 2324.79\n"
+ */
+export function formatBalanceAssertion(assertion: BalanceAssertion): string {
+  const comment = assertion.comment ? `  ; ${assertion.comment}` : '';
+  return (
+    `${assertion.date} ${assertion.description}${comment}\n` +
+    `    ${assertion.account}  0 = ${assertion.balance}\n`
+  );
+}
+
+/**
+ * Appends a balance assertion transaction to a journal file.
+ * Does nothing if the journal already asserts the same balance for the account on that date.
+ *
+ * @returns true if the assertion was appended
+ */
+export function appendBalanceAssertion(journalPath: string, assertion: BalanceAssertion): boolean {
+  const content = fs.existsSync(journalPath) ? fs.readFileSync(journalPath, 'utf-8') : '';
+  const postingLine = `    ${assertion.account}  0 = ${assertion.balance}`;
+  const lines = content.split('\n');
+  const alreadyAsserted = lines.some(
+    (line, i) => line === postingLine && i > 0 && lines[i - 1].startsWith(`${assertion.date} `)
+  );
+  if (alreadyAsserted) {
+    return false;
+  }
+
+  const existing = content.trimEnd();
+  const transaction = formatBalanceAssertion(assertion);
+  fs.writeFileSync(journalPath, existing ? `${existing}\n\n${transaction}` : transaction);
+  return true;
+}
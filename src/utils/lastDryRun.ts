@@ -0,0 +1,73 @@
+/**
+ * Last Dry Run
+ *
+ * Persists the unknown postings (with account suggestions) found by the most recent
+ * failed import-pipeline dry run, so they can be turned into rules afterwards.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { UnknownPostingWithSuggestion } from './hledgerExecutor.ts';
+
+/**
+ * Name of the file inside the logs directory
+ */
+export const LAST_DRY_RUN_FILE = 'last-dry-run.json';
+
+/**
+ * Unknown postings of a single CSV file
+ */
+export interface DryRunFileRecord {
+  /** CSV path, relative to the directory the dry run ran in */
+  csv: string;
+  /** Rules file path, relative to the repository root */
+  rulesFile: string;
+  unknownPostings: UnknownPostingWithSuggestion[];
+}
+
+/**
+ * Contents of the last dry run file
+ */
+export interface LastDryRun {
+  createdAt: string;
+  /** Directory the dry run ran in (the import worktree, which may be removed later) */
+  directory: string;
+  files: DryRunFileRecord[];
+}
+
+/**
+ * Writes the last dry run, creating the logs directory if needed
+ */
+export function saveLastDryRun(logDir: string, dryRun: LastDryRun): void {
+  fs.mkdirSync(logDir, { recursive: true });
+  fs.writeFileSync(path.join(logDir, LAST_DRY_RUN_FILE), JSON.stringify(dryRun, null, 2) + '\n');
+}
+
+/**
+ * Reads the last dry run
+ *
+ * @returns The last dry run, or null if none was recorded or the file is unreadable
+ */
+export function loadLastDryRun(logDir: string): LastDryRun | null {
+  const filePath = path.join(logDir, LAST_DRY_RUN_FILE);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as LastDryRun;
+    return Array.isArray(data.files) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Removes the last dry run (e.g., after a dry run without unknown postings)
+ */
+export function clearLastDryRun(logDir: string): void {
+  const filePath = path.join(logDir, LAST_DRY_RUN_FILE);
+  if (fs.existsSync(filePath)) {
+    fs.rmSync(filePath);
+  }
+}
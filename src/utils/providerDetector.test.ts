@@ -1,6 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { detectProvider, classifyFiles } from './providerDetector.ts';
-import type { ImportConfig } from './importConfig.ts';
+import {
+  detectProvider,
+  classifyFiles,
+  diagnoseDetection,
+  splitByCurrency,
+} from './providerDetector.ts';
+import type { DetectionRule, ImportConfig } from './importConfig.ts';
 
 describe('providerDetector', () => {
   const mockConfig: ImportConfig = {
@@ -426,6 +431,259 @@ Date;Description;Amount;Currency
     });
   });
 
+  describe('fuzzy header matching', () => {
+    const fuzzyConfig = (rules: DetectionRule[]): ImportConfig => ({
+      ...mockConfig,
+      providers: { testbank: { detect: rules, currencies: { CHF: 'chf' } } },
+    });
+
+    it('should report full confidence for an exact header', () => {
+      const result = detectProvider(
+        'account-statement_2026.csv',
+        `Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance
+Deposit,Current,2026-01-02,2026-01-02,Deposit,100.00,0.00,CHF,COMPLETED,100.00`,
+        mockConfig
+      );
+
+      expect(result!.confidence).toBe(1);
+    });
+
+    it('should match a header differing in case and whitespace when ignoreCase is set', () => {
+      const content = `DATE,Description , amount,Currency
+2026-01-02,Coop,-8.00,CHF`;
+      const rule = { header: 'Date,Description,Amount,Currency', currencyField: 'Currency' };
+
+      expect(detectProvider('test.csv', content, fuzzyConfig([rule]))).toBeNull();
+
+      const result = detectProvider(
+        'test.csv',
+        content,
+        fuzzyConfig([{ ...rule, ignoreCase: true }])
+      );
+      expect(result!.provider).toBe('testbank');
+      expect(result!.confidence).toBe(0.98);
+    });
+
+    it('should match header aliases, including the currency field', () => {
+      const result = detectProvider(
+        'test.csv',
+        `Datum,Beschreibung,Betrag,Währung
+2026-01-02,Coop,-8.00,CHF`,
+        fuzzyConfig([
+          {
+            header: 'Datum,Beschreibung,Betrag,Currency',
+            aliases: { Currency: ['Währung'] },
+            currencyField: 'Currency',
+          },
+        ])
+      );
+
+      expect(result!.currency).toBe('chf');
+      expect(result!.confidence).toBe(0.98);
+    });
+
+    it('should match required columns in any order with extra columns', () => {
+      const rule: DetectionRule = {
+        requiredColumns: ['Date', 'Amount', 'Currency'],
+        currencyField: 'Currency',
+      };
+
+      const result = detectProvider(
+        'test.csv',
+        `Currency,Amount,Date,Reference
+CHF,-8.00,2026-01-02,R-1`,
+        fuzzyConfig([rule])
+      );
+      expect(result!.confidence).toBe(0.94);
+
+      expect(
+        detectProvider('test.csv', 'Currency,Date\nCHF,2026-01-02', fuzzyConfig([rule]))
+      ).toBeNull();
+    });
+
+    it('should pick the best-matching provider', () => {
+      const config: ImportConfig = {
+        ...mockConfig,
+        providers: {
+          generic: {
+            detect: [
+              { requiredColumns: ['Date', 'Amount', 'Currency'], currencyField: 'Currency' },
+            ],
+            currencies: { CHF: 'chf' },
+          },
+          testbank: {
+            detect: [{ header: 'Date,Text,Amount,Currency', currencyField: 'Currency' }],
+            currencies: { CHF: 'chf' },
+          },
+        },
+      };
+
+      const result = detectProvider(
+        'test.csv',
+        `Date,Text,Amount,Currency
+2026-01-02,Coop,-8.00,CHF`,
+        config
+      );
+
+      expect(result!.provider).toBe('testbank');
+      expect(result!.confidence).toBe(1);
+    });
+  });
+
+  describe('diagnoseDetection', () => {
+    const revolutHeader =
+      'Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance';
+
+    it('should report the header difference column by column', () => {
+      const content = `Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,Status,Balance,Note
+Deposit,Current,2026-01-02,2026-01-02,Deposit,100.00,0.00,CHF,COMPLETED,100.00,`;
+
+      const [closest] = diagnoseDetection('account-statement_2026.csv', content, mockConfig);
+
+      expect(closest).toMatchObject({ provider: 'revolut', ruleIndex: 0, similarity: 0.9 });
+      expect(closest.failures.map((failure) => failure.reason)).toEqual(['header-mismatch']);
+      expect(closest.failures[0].message).toBe(
+        'Header does not match: missing "State"; unexpected "Status", "Note"'
+      );
+      expect(closest.headerDiff).toEqual({
+        missing: ['State'],
+        unexpected: ['Status', 'Note'],
+        mismatched: [
+          { position: 9, expected: 'State', actual: 'Status' },
+          { position: 11, expected: '', actual: 'Note' },
+        ],
+      });
+    });
+
+    it('should report a filename mismatch and an empty first row', () => {
+      const [closest] = diagnoseDetection('statement.csv', revolutHeader, mockConfig);
+
+      expect(closest.failures).toEqual([
+        {
+          reason: 'filename-mismatch',
+          message: 'Filename does not match pattern ^account-statement_',
+        },
+        { reason: 'empty-first-row', message: 'No data row after the header' },
+      ]);
+    });
+
+    it('should suggest the delimiter splitting the header into the expected columns', () => {
+      const content = `${revolutHeader.replace(/,/g, ';')}
+Deposit;Current;2026-01-02;2026-01-02;Deposit;100.00;0.00;CHF;COMPLETED;100.00`;
+
+      const [closest] = diagnoseDetection('account-statement_2026.csv', content, mockConfig);
+
+      expect(closest.suggestedDelimiter).toBe(';');
+      expect(closest.failures.map((failure) => failure.reason)).toEqual([
+        'wrong-delimiter',
+        'header-mismatch',
+        'missing-currency-field',
+      ]);
+    });
+
+    it('should order the rules by similarity and omit matching ones', () => {
+      const content = `Symbol,Type,Quantity,Price,Value,Fees,Date
+BTC,Buy,0.001,50000.00,50.00,0.50,2026-01-02`;
+
+      const diagnoses = diagnoseDetection('crypto-account-statement_2026.csv', content, mockConfig);
+
+      expect(diagnoses.map((diagnosis) => diagnosis.ruleIndex)).toEqual([0]);
+      expect(diagnoses[0].similarity).toBe(0.1);
+    });
+  });
+
+  describe('splitByCurrency', () => {
+    const header =
+      'Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance';
+    const chfRow = 'Deposit,Current,2026-01-02,2026-01-02,Top-up,100.00,0.00,CHF,COMPLETED,100.00';
+    const eurRow =
+      'Transfer,Current,2026-01-03,2026-01-03,"Rent, Jan",-50.00,0.00,EUR,COMPLETED,10.00';
+    const usdRow = 'Card,Current,2026-01-04,2026-01-04,Book,-5.00,0.00,USD,COMPLETED,5.00';
+
+    const split = (content: string) =>
+      splitByCurrency(
+        content,
+        detectProvider('account-statement_2026.csv', content, mockConfig)!,
+        mockConfig
+      );
+
+    it('should split the rows by currency, keeping the header in every part', () => {
+      const parts = split(`${header}\n${chfRow}\n${eurRow}\n${usdRow}\n${chfRow}\n`);
+
+      expect(Array.from(parts.keys())).toEqual(['chf', 'eur', 'usd']);
+      expect(parts.get('chf')).toBe(`${header}\n${chfRow}\n${chfRow}\n`);
+      expect(parts.get('eur')).toBe(`${header}\n${eurRow}\n`);
+      expect(parts.get('usd')).toBe(`${header}\n${usdRow}\n`);
+    });
+
+    it('should keep the metadata rows and copy rows without currency into every part', () => {
+      const config: ImportConfig = {
+        ...mockConfig,
+        providers: {
+          bank: {
+            detect: [{ header: 'Date,Amount,Currency', currencyField: 'Currency', skipRows: 1 }],
+            currencies: { CHF: 'chf', EUR: 'eur' },
+          },
+        },
+      };
+      const content =
+        'Account:,1234\nDate,Amount,Currency\n2026-01-02,10,CHF\n2026-01-03,20,EUR\nTotal,30,';
+
+      const parts = splitByCurrency(content, detectProvider('bank.csv', content, config)!, config);
+
+      expect(parts.get('chf')).toBe(
+        'Account:,1234\nDate,Amount,Currency\n2026-01-02,10,CHF\nTotal,30,'
+      );
+      expect(parts.get('eur')).toBe(
+        'Account:,1234\nDate,Amount,Currency\n2026-01-03,20,EUR\nTotal,30,'
+      );
+    });
+
+    it('should blank the statement balances in the metadata rows of every part', () => {
+      const config: ImportConfig = {
+        ...mockConfig,
+        providers: {
+          bank: {
+            detect: [
+              {
+                header: 'Date,Amount,Currency',
+                currencyField: 'Currency',
+                skipRows: 2,
+                delimiter: ';',
+                metadata: [
+                  { field: 'opening-balance', row: 0, column: 1 },
+                  { field: 'closing-balance', row: 0, column: 3 },
+                  { field: 'until-date', row: 1, column: 1 },
+                ],
+              },
+            ],
+            currencies: { CHF: 'chf', EUR: 'eur' },
+          },
+        },
+      };
+      const content =
+        'Opening;100.00;Closing;70.00\nUntil;31.01.2026\nDate;Amount;Currency\n' +
+        '2026-01-02;-10;CHF\n2026-01-03;-20;EUR\n';
+
+      const parts = splitByCurrency(content, detectProvider('bank.csv', content, config)!, config);
+
+      expect(parts.get('chf')).toBe(
+        'Opening;;Closing;\nUntil;31.01.2026\nDate;Amount;Currency\n2026-01-02;-10;CHF\n'
+      );
+      expect(detectProvider('bank.csv', parts.get('eur')!, config)?.metadata).toEqual({
+        'opening-balance': '',
+        'closing-balance': '',
+        'until-date': '31.01.2026',
+      });
+    });
+
+    it('should return a single-currency CSV unchanged', () => {
+      const content = `${header}\n${chfRow}\n${chfRow}\n`;
+
+      expect(split(content)).toEqual(new Map([['chf', content]]));
+    });
+  });
+
   describe('classifyFiles', () => {
     it('should classify multiple files', () => {
       const files = [
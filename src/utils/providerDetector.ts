@@ -1,14 +1,82 @@
 import Papa from 'papaparse';
 import { ImportConfig, DetectionRule, MetadataExtraction } from './importConfig.ts';
+import { splitCsvRecords } from './csvParser.ts';
 
 export interface DetectionResult {
   provider: string;
   currency: string;
   rule: DetectionRule;
+  /** How well the header matched the rule, from 0 to 1 (1: exact header) */
+  confidence: number;
   outputFilename?: string;
   metadata?: Record<string, string>;
 }
 
+/** Score of a column matched case- or whitespace-insensitively instead of exactly */
+const INSENSITIVE_MATCH_SCORE = 0.95;
+
+/** Score of a column matched by one of its aliases instead of its name */
+const ALIAS_MATCH_SCORE = 0.9;
+
+/** Share of the confidence of a required-columns match that depends on the unmatched extra columns */
+const EXTRA_COLUMNS_WEIGHT = 0.25;
+
+/**
+ * Why a detection rule did not match a file
+ */
+export interface DetectionFailure {
+  /**
+   * filename-mismatch: filenamePattern doesn't match; no-header: no header row after skipRows;
+   * wrong-delimiter: another delimiter splits the header into the expected columns;
+   * header-mismatch: the columns differ (see headerDiff); missing-currency-field: no currencyField
+   * column; empty-first-row: no data row, or no currency in it
+   */
+  reason:
+    | 'filename-mismatch'
+    | 'no-header'
+    | 'wrong-delimiter'
+    | 'header-mismatch'
+    | 'missing-currency-field'
+    | 'empty-first-row';
+  message: string;
+}
+
+/**
+ * Column-level difference between the CSV header and a detection rule
+ */
+export interface HeaderDiff {
+  /** Expected columns not found in the CSV header */
+  missing: string[];
+  /** CSV columns the rule's header doesn't contain */
+  unexpected: string[];
+  /** Positions (1-based) where the CSV column differs from the rule's header */
+  mismatched: { position: number; expected: string; actual: string }[];
+}
+
+/**
+ * A detection rule tried for an unrecognized file and why it failed
+ */
+export interface RuleDiagnosis {
+  provider: string;
+  /** Index of the rule in the provider's detect list */
+  ruleIndex: number;
+  /** Share of the rule's expected columns found in the CSV header, from 0 to 1 */
+  similarity: number;
+  failures: DetectionFailure[];
+  headerDiff?: HeaderDiff;
+  /** Delimiter that splits the header into the expected columns */
+  suggestedDelimiter?: string;
+}
+
+/** Delimiters tried when the header doesn't split into the expected columns */
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/** Number of closest detection rules reported for an unrecognized file */
+const DIAGNOSED_RULE_COUNT = 3;
+
+/** Metadata fields holding a balance of the whole statement, blanked in its currency parts */
+const BALANCE_METADATA_FIELDS = ['opening-balance', 'closing-balance'];
+
 export interface ClassificationResult {
   filename: string;
   detected: DetectionResult | null;
@@ -104,15 +172,84 @@ function parseCSVPreview(
 }
 
 /**
- * Normalizes header fields to a comparable string
- * Joins fields with comma, trims whitespace
+ * Normalizes a column name for case- and whitespace-insensitive comparison
+ */
+function normalizeColumnName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Scores how well an actual column matches an expected column of a detection rule:
+ * 1 for the exact name, less for a case/whitespace-insensitive or alias match, 0 for none.
+ */
+function scoreColumn(expected: string, actual: string, rule: DetectionRule): number {
+  const names = [expected, ...(rule.aliases?.[expected] ?? [])];
+  let best = 0;
+  names.forEach((name, index) => {
+    const aliasScore = index === 0 ? 1 : ALIAS_MATCH_SCORE;
+    if (actual.trim() === name.trim()) {
+      best = Math.max(best, aliasScore);
+    } else if (rule.ignoreCase && normalizeColumnName(actual) === normalizeColumnName(name)) {
+      best = Math.max(best, aliasScore * INSENSITIVE_MATCH_SCORE);
+    }
+  });
+  return best;
+}
+
+/**
+ * Finds the actual column matching an expected column of a detection rule
+ */
+function findColumn(fields: string[], expected: string, rule: DetectionRule): string | undefined {
+  let best: { field: string; score: number } | undefined;
+  for (const field of fields) {
+    const score = scoreColumn(expected, field, rule);
+    if (score > 0 && (!best || score > best.score)) {
+      best = { field, score };
+    }
+  }
+  return best?.field;
+}
+
+/**
+ * Scores how well the CSV header matches a detection rule, from 0 (no match) to 1.
+ * The header must match column by column; otherwise all required columns must be
+ * present in any order, and extra columns lower the score.
  */
-function normalizeHeader(fields: string[]): string {
-  return fields.map((f) => f.trim()).join(',');
+function scoreHeader(fields: string[], rule: DetectionRule): number {
+  if (rule.header !== undefined) {
+    const expected = rule.header.split(',');
+    if (expected.length === fields.length) {
+      const scores = expected.map((column, i) => scoreColumn(column, fields[i], rule));
+      if (scores.every((score) => score > 0)) {
+        return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+      }
+    }
+  }
+
+  if (!rule.requiredColumns) {
+    return 0;
+  }
+
+  const unmatched = [...fields];
+  const scores: number[] = [];
+  for (const column of rule.requiredColumns) {
+    const field = findColumn(unmatched, column, rule);
+    if (field === undefined) {
+      return 0;
+    }
+    scores.push(scoreColumn(column, field, rule));
+    unmatched.splice(unmatched.indexOf(field), 1);
+  }
+
+  const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const coverage = scores.length / fields.filter((field) => field.trim() !== '').length;
+  return average * (1 - EXTRA_COLUMNS_WEIGHT + EXTRA_COLUMNS_WEIGHT * Math.min(coverage, 1));
 }
 
 /**
- * Detects the provider and currency for a given CSV file
+ * Detects the provider and currency for a given CSV file.
+ * Every detection rule is scored by how well the header matches; the best-scoring
+ * rule wins, and on a tie the first one in the configuration.
  * @param filename The name of the file (not full path)
  * @param content The CSV file content
  * @param config The import configuration
@@ -123,6 +260,9 @@ export function detectProvider(
   content: string,
   config: ImportConfig
 ): DetectionResult | null {
+  let best: DetectionResult | null = null;
+  let bestScore = 0;
+
   // Try each provider
   for (const [providerName, providerConfig] of Object.entries(config.providers)) {
     // Try each detection rule for this provider
@@ -145,8 +285,8 @@ export function detectProvider(
       }
 
       // Check header match
-      const actualHeader = normalizeHeader(fields);
-      if (actualHeader !== rule.header) {
+      const confidence = scoreHeader(fields, rule);
+      if (confidence <= bestScore) {
         continue;
       }
 
@@ -155,7 +295,8 @@ export function detectProvider(
         continue;
       }
 
-      const rawCurrency = firstRow[rule.currencyField];
+      const currencyColumn = findColumn(fields, rule.currencyField, rule);
+      const rawCurrency = currencyColumn !== undefined ? firstRow[currencyColumn] : undefined;
       if (!rawCurrency) {
         continue;
       }
@@ -166,30 +307,268 @@ export function detectProvider(
       // Generate output filename if renamePattern is specified
       const outputFilename = generateOutputFilename(rule.renamePattern, metadata);
 
-      // Map currency using provider's currency mapping
-      const normalizedCurrency = providerConfig.currencies[rawCurrency];
-      if (!normalizedCurrency) {
-        // Currency found but not in mapping - still a match but with raw currency lowercased
-        return {
-          provider: providerName,
-          currency: rawCurrency.toLowerCase(),
-          rule,
-          outputFilename,
-          metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
-        };
-      }
-
-      return {
+      // Map currency using provider's currency mapping; an unmapped currency is
+      // still a match, with the raw currency lowercased
+      bestScore = confidence;
+      best = {
         provider: providerName,
-        currency: normalizedCurrency,
+        currency: providerConfig.currencies[rawCurrency] || rawCurrency.toLowerCase(),
         rule,
+        confidence: Math.round(confidence * 100) / 100,
         outputFilename,
         metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
       };
     }
   }
 
-  return null;
+  return best;
+}
+
+/**
+ * Splits a CSV by the currency field of its detection rule into one CSV per currency.
+ * The rows up to and including the header are copied into every part, so metadata rows
+ * and the rule's skipRows stay valid. The opening and closing balances in those rows are
+ * blanked, since they cover the whole statement and no single part. Rows without a
+ * currency (e.g., footers) are copied into every part.
+ * @param content The CSV file content
+ * @param detection The file's detection result
+ * @param config The import configuration (for the provider's currency mapping)
+ * @returns CSV content per currency, in order of first appearance; a single-currency
+ * CSV yields one part
+ */
+export function splitByCurrency(
+  content: string,
+  detection: DetectionResult,
+  config: ImportConfig
+): Map<string, string> {
+  const { rule } = detection;
+  const delimiter = rule.delimiter ?? ',';
+  const lines = content.split('\n');
+  const headerIndex = rule.skipRows ?? 0;
+  const parseFields = (record: string): string[] =>
+    Papa.parse<string[]>(record, { delimiter }).data[0] ?? [];
+
+  const fields = parseFields(lines[headerIndex] ?? '');
+  const currencyColumn = findColumn(fields, rule.currencyField, rule);
+  if (currencyColumn === undefined) {
+    return new Map([[detection.currency, content]]);
+  }
+  const currencyIndex = fields.indexOf(currencyColumn);
+  const currencies = config.providers[detection.provider]?.currencies ?? {};
+
+  const records = splitCsvRecords(lines.slice(headerIndex + 1)).filter(
+    (record) => record.trim() !== ''
+  );
+  const recordCurrencies = records.map((record) => {
+    const rawCurrency = parseFields(record)[currencyIndex]?.trim();
+    return rawCurrency ? currencies[rawCurrency] || rawCurrency.toLowerCase() : null;
+  });
+
+  const found = Array.from(new Set(recordCurrencies.filter((currency) => currency !== null)));
+  if (found.length <= 1) {
+    return new Map([[found[0] ?? detection.currency, content]]);
+  }
+
+  const prefix = lines.slice(0, headerIndex + 1);
+  for (const { field, row, column } of rule.metadata ?? []) {
+    if (!BALANCE_METADATA_FIELDS.includes(field) || row >= headerIndex) continue;
+    const columns = prefix[row].split(delimiter);
+    if (column < columns.length) {
+      columns[column] = '';
+      prefix[row] = columns.join(delimiter);
+    }
+  }
+  const parts = new Map<string, string>();
+  for (const currency of found) {
+    const body = records.filter(
+      (_, i) => recordCurrencies[i] === currency || recordCurrencies[i] === null
+    );
+    const text = [...prefix, ...body].join('\n');
+    parts.set(currency, content.endsWith('\n') ? `${text}\n` : text);
+  }
+
+  return parts;
+}
+
+/**
+ * Lists the columns a detection rule expects: its header, or else its required columns
+ */
+function expectedColumns(rule: DetectionRule): string[] {
+  return rule.header !== undefined ? rule.header.split(',') : (rule.requiredColumns ?? []);
+}
+
+/**
+ * Computes the share of the rule's expected columns found in the CSV header
+ */
+function columnSimilarity(fields: string[], rule: DetectionRule): number {
+  const expected = expectedColumns(rule).filter((column) => column.trim() !== '');
+  if (expected.length === 0) {
+    return 0;
+  }
+  const found = expected.filter((column) => findColumn(fields, column, rule) !== undefined);
+  return found.length / expected.length;
+}
+
+/**
+ * Compares the CSV header with the columns a detection rule expects
+ */
+function diffHeader(fields: string[], rule: DetectionRule): HeaderDiff {
+  const expected = expectedColumns(rule);
+  const diff: HeaderDiff = {
+    missing: expected.filter(
+      (column) => column.trim() !== '' && findColumn(fields, column, rule) === undefined
+    ),
+    unexpected: [],
+    mismatched: [],
+  };
+
+  if (rule.header !== undefined) {
+    diff.unexpected = fields.filter(
+      (field) =>
+        field.trim() !== '' && !expected.some((column) => scoreColumn(column, field, rule) > 0)
+    );
+    for (let i = 0; i < Math.max(expected.length, fields.length); i++) {
+      const column = expected[i] ?? '';
+      const field = fields[i] ?? '';
+      if (i >= expected.length || i >= fields.length || scoreColumn(column, field, rule) === 0) {
+        diff.mismatched.push({ position: i + 1, expected: column, actual: field });
+      }
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Describes a header difference in one sentence
+ */
+function describeHeaderDiff(diff: HeaderDiff, fieldCount: number, rule: DetectionRule): string {
+  const parts: string[] = [];
+  if (diff.missing.length > 0) {
+    parts.push(`missing ${diff.missing.map((c) => `"${c}"`).join(', ')}`);
+  }
+  if (diff.unexpected.length > 0) {
+    parts.push(`unexpected ${diff.unexpected.map((c) => `"${c}"`).join(', ')}`);
+  }
+  if (parts.length === 0 && rule.header !== undefined) {
+    const expectedCount = expectedColumns(rule).length;
+    parts.push(
+      expectedCount === fieldCount
+        ? 'the columns are in a different order'
+        : `${fieldCount} columns instead of ${expectedCount} (check for a trailing delimiter)`
+    );
+  }
+  return `Header does not match: ${parts.join('; ')}`;
+}
+
+/**
+ * Explains why a detection rule doesn't match a file. All checks are run, so the
+ * diagnosis lists every failure, not just the first.
+ */
+function diagnoseRule(
+  filename: string,
+  content: string,
+  providerName: string,
+  ruleIndex: number,
+  rule: DetectionRule
+): RuleDiagnosis {
+  const diagnosis: RuleDiagnosis = {
+    provider: providerName,
+    ruleIndex,
+    similarity: 0,
+    failures: [],
+  };
+
+  if (rule.filenamePattern !== undefined && !new RegExp(rule.filenamePattern).test(filename)) {
+    diagnosis.failures.push({
+      reason: 'filename-mismatch',
+      message: `Filename does not match pattern ${rule.filenamePattern}`,
+    });
+  }
+
+  const skipRows = rule.skipRows ?? 0;
+  const delimiter = rule.delimiter ?? ',';
+  const { fields, firstRow } = parseCSVPreview(content, skipRows, delimiter);
+  if (!fields || fields.length === 0) {
+    diagnosis.failures.push({
+      reason: 'no-header',
+      message: `No header row found after skipping ${skipRows} row(s)`,
+    });
+    return diagnosis;
+  }
+
+  diagnosis.similarity = Math.round(columnSimilarity(fields, rule) * 100) / 100;
+
+  if (scoreHeader(fields, rule) === 0) {
+    // A different delimiter may split the header into the expected columns
+    for (const candidate of CANDIDATE_DELIMITERS.filter((d) => d !== delimiter)) {
+      const candidateFields = parseCSVPreview(content, skipRows, candidate).fields ?? [];
+      if (
+        candidateFields.length > fields.length &&
+        columnSimilarity(candidateFields, rule) > diagnosis.similarity
+      ) {
+        diagnosis.suggestedDelimiter = candidate;
+        diagnosis.failures.push({
+          reason: 'wrong-delimiter',
+          message: `The header splits into the expected columns with delimiter ${JSON.stringify(candidate)}, not ${JSON.stringify(delimiter)}`,
+        });
+        break;
+      }
+    }
+
+    diagnosis.headerDiff = diffHeader(fields, rule);
+    diagnosis.failures.push({
+      reason: 'header-mismatch',
+      message: describeHeaderDiff(diagnosis.headerDiff, fields.length, rule),
+    });
+  }
+
+  const currencyColumn = findColumn(fields, rule.currencyField, rule);
+  if (currencyColumn === undefined) {
+    diagnosis.failures.push({
+      reason: 'missing-currency-field',
+      message: `Currency field "${rule.currencyField}" is not a column of the header`,
+    });
+  } else if (!firstRow) {
+    diagnosis.failures.push({
+      reason: 'empty-first-row',
+      message: 'No data row after the header',
+    });
+  } else if (!firstRow[currencyColumn]) {
+    diagnosis.failures.push({
+      reason: 'empty-first-row',
+      message: `The first data row has no value in currency field "${currencyColumn}"`,
+    });
+  }
+
+  return diagnosis;
+}
+
+/**
+ * Explains why a file was not recognized: the detection rules closest to matching
+ * (by the share of expected columns in the header) and why each of them failed.
+ * @param filename The name of the file (not full path)
+ * @param content The CSV file content
+ * @param config The import configuration
+ * @param limit Maximum number of rules reported
+ */
+export function diagnoseDetection(
+  filename: string,
+  content: string,
+  config: ImportConfig,
+  limit: number = DIAGNOSED_RULE_COUNT
+): RuleDiagnosis[] {
+  const diagnoses: RuleDiagnosis[] = [];
+  for (const [providerName, providerConfig] of Object.entries(config.providers)) {
+    providerConfig.detect.forEach((rule, index) => {
+      diagnoses.push(diagnoseRule(filename, content, providerName, index, rule));
+    });
+  }
+
+  return diagnoses
+    .filter((diagnosis) => diagnosis.failures.length > 0)
+    .sort((a, b) => b.similarity - a.similarity || a.failures.length - b.failures.length)
+    .slice(0, limit);
 }
 
 /**
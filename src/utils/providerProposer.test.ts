@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import yaml from 'js-yaml';
+import { proposeProvider } from './providerProposer.ts';
+import { detectProvider } from './providerDetector.ts';
+import type { ImportConfig } from './importConfig.ts';
+
+const paths = {
+  import: 'import/incoming',
+  pending: 'import/pending',
+  done: 'import/done',
+  unrecognized: 'import/unrecognized',
+  rules: 'ledger/rules',
+};
+
+const ubsContent = `Account number:;1234 56789012.3;
+IBAN:;CH93 0076 2011 6238 5295 7;
+From:;2026-01-05;
+Until:;2026-01-31;
+Opening balance:;1632.63;
+Closing balance:;2324.79;
+Valued in:;CHF;
+Numbers of transactions in this period:;24;
+Date;Description;Amount;Currency
+2026-01-15;Test payment;-100.00;CHF
+2026-01-16;Coffee;-4.50;CHF
+`;
+
+describe('providerProposer', () => {
+  describe('proposeProvider', () => {
+    it('proposes a header-only rule for a plain CSV', () => {
+      const content =
+        'Type,Product,Started Date,Description,Amount,Currency\n' +
+        'CARD_PAYMENT,Current,2026-01-02 10:00:00,Migros,-12.50,CHF\n' +
+        'TOPUP,Current,2026-01-03 08:00:00,Top-up,100.00,EUR\n';
+
+      const proposal = proposeProvider('account-statement_2026-01.csv', content, 'revolut');
+
+      expect(proposal.config).toEqual({
+        detect: [
+          {
+            filenamePattern: '^account-statement',
+            header: 'Type,Product,Started Date,Description,Amount,Currency',
+            currencyField: 'Currency',
+          },
+        ],
+        currencies: { CHF: 'chf', EUR: 'eur' },
+      });
+    });
+
+    it('finds the header below metadata rows and extracts the metadata', () => {
+      const proposal = proposeProvider('export_2026-01.csv', ubsContent, 'ubs');
+      const [rule] = proposal.config.detect;
+
+      expect(rule).toMatchObject({
+        filenamePattern: '^export',
+        header: 'Date,Description,Amount,Currency',
+        currencyField: 'Currency',
+        skipRows: 8,
+        delimiter: ';',
+        renamePattern: 'ubs-{account-number}-{from-date}-{until-date}.csv',
+      });
+      expect(rule.metadata).toEqual([
+        { field: 'account-number', row: 0, column: 1, normalize: 'spaces-to-dashes' },
+        { field: 'iban', row: 1, column: 1, normalize: 'spaces-to-dashes' },
+        { field: 'from-date', row: 2, column: 1 },
+        { field: 'until-date', row: 3, column: 1 },
+        { field: 'opening-balance', row: 4, column: 1 },
+        { field: 'closing-balance', row: 5, column: 1 },
+        { field: 'currency', row: 6, column: 1 },
+      ]);
+      expect(proposal.notes).toContain('Currency column "Currency" with CHF');
+    });
+
+    it('proposes a configuration that detects the file', () => {
+      const proposal = proposeProvider('export_2026-01.csv', ubsContent, 'ubs');
+      const config: ImportConfig = { paths, providers: { ubs: proposal.config } };
+
+      const result = detectProvider('export_2026-01.csv', ubsContent, config);
+
+      expect(result).toMatchObject({
+        provider: 'ubs',
+        currency: 'chf',
+        confidence: 1,
+        outputFilename: 'ubs-1234-56789012.3-2026-01-05-2026-01-31.csv',
+      });
+    });
+
+    it('emits the configuration as a YAML block keyed by the provider', () => {
+      const proposal = proposeProvider('export_2026-01.csv', ubsContent, 'ubs');
+
+      expect(yaml.load(proposal.yaml)).toEqual({ ubs: proposal.config });
+    });
+
+    it('detects the currency column by its values and comma decimals', () => {
+      const content =
+        'Datum;Text;Betrag;Whg\n02.01.2026;Migros;-12,50;CHF\n03.01.2026;Coop;-3,20;CHF\n';
+
+      const proposal = proposeProvider('Umsaetze.csv', content, 'bank');
+
+      expect(proposal.config.detect[0]).toMatchObject({
+        header: 'Datum,Text,Betrag,Whg',
+        currencyField: 'Whg',
+        delimiter: ';',
+        numberFormat: { decimalMark: ',' },
+      });
+    });
+
+    it('uses required columns when column names contain commas', () => {
+      const content = 'Date,"Amount, CHF",Currency\n2026-01-02,-12.50,CHF\n2026-01-03,-3.00,CHF\n';
+
+      const proposal = proposeProvider('bank-2026.csv', content, 'bank');
+
+      expect(proposal.config.detect[0].header).toBeUndefined();
+      expect(proposal.config.detect[0].requiredColumns).toEqual([
+        'Date',
+        'Amount, CHF',
+        'Currency',
+      ]);
+    });
+
+    it('throws when no currency column is found', () => {
+      const content = 'Date,Description,Amount\n2026-01-02,Migros,-12.50\n2026-01-03,Coop,-3.00\n';
+
+      expect(() => proposeProvider('bank.csv', content, 'bank')).toThrow(
+        'Could not find a currency column'
+      );
+    });
+
+    it('throws when no delimiter splits the lines into columns', () => {
+      expect(() => proposeProvider('notes.csv', 'just some text\n', 'bank')).toThrow(
+        'Could not find a delimiter'
+      );
+    });
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Provider Proposer
+ *
+ * Drafts a provider configuration for a CSV no provider recognizes: sniffs the delimiter
+ * and the header row, guesses the currency column and the metadata rows above the header
+ * (account number, dates, balances), and validates the draft like providers.yaml.
+ */
+
+import Papa from 'papaparse';
+import yaml from 'js-yaml';
+import type { NumberFormat } from './balanceUtils.ts';
+import {
+  validateProviderConfig,
+  type DetectionRule,
+  type MetadataExtraction,
+  type ProviderConfig,
+} from './importConfig.ts';
+
+/** Delimiters tried when sniffing, in order of preference */
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/** Column names that hold the currency of a transaction */
+const CURRENCY_COLUMN_PATTERN = /currency|ccy|w(ä|ae)hrung|devise|valuta|divisa/i;
+
+/**
+ * Labels of the rows above the header, per metadata field. Balances come before the
+ * dates so that e.g. "Start balance" is not taken for the start date.
+ */
+const METADATA_LABELS: { field: string; pattern: RegExp }[] = [
+  { field: 'opening-balance', pattern: /opening|(start|anfangs).*(balance|saldo)|solde initial/i },
+  { field: 'closing-balance', pattern: /closing|(end|schluss).*(balance|saldo)|solde final/i },
+  { field: 'iban', pattern: /\biban\b/i },
+  { field: 'account-number', pattern: /account|konto|compte|conto/i },
+  { field: 'from-date', pattern: /\bfrom\b|\bstart|\bvon\b|\bdu\b|\bdal\b/i },
+  { field: 'until-date', pattern: /until|\bto\b|\bend|\bbis\b|\bau\b|\bal\b/i },
+  { field: 'currency', pattern: /currency|valued in|w(ä|ae)hrung|devise|valuta/i },
+];
+
+/**
+ * A provider configuration drafted from a sample CSV
+ */
+export interface ProviderProposal {
+  config: ProviderConfig;
+  /** The configuration as a YAML block to paste under `providers:` */
+  yaml: string;
+  /** What was guessed from the file, and what to check before using the configuration */
+  notes: string[];
+}
+
+/**
+ * Splits a line into fields, honoring quotes
+ */
+function splitLine(line: string, delimiter: string): string[] {
+  return Papa.parse<string[]>(line, { delimiter }).data[0] ?? [];
+}
+
+/**
+ * Counts the lines per number of fields (of at least 2 fields)
+ */
+function countFieldCounts(lines: string[], delimiter: string): Map<number, number> {
+  const frequencies = new Map<number, number>();
+  for (const line of lines) {
+    if (line.trim() === '') continue;
+    const count = splitLine(line, delimiter).length;
+    if (count >= 2) {
+      frequencies.set(count, (frequencies.get(count) ?? 0) + 1);
+    }
+  }
+  return frequencies;
+}
+
+/**
+ * Picks the delimiter that splits the most lines into the same number of fields
+ */
+function sniffDelimiter(lines: string[]): string | null {
+  let best: { delimiter: string; lines: number } | null = null;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const modal = Math.max(0, ...countFieldCounts(lines, delimiter).values());
+    if (modal > 0 && (!best || modal > best.lines)) {
+      best = { delimiter, lines: modal };
+    }
+  }
+  return best?.delimiter ?? null;
+}
+
+/**
+ * Checks whether a value looks like data (a number, an amount or a date) rather than a label
+ */
+function looksLikeData(value: string): boolean {
+  return /^[-+(]?[\d\s'.,:/()+-]*\d[\d\s'.,:/()+-]*$/.test(value.trim());
+}
+
+/**
+ * Finds the header line: the first line consisting mostly of labels and followed by a
+ * line with the same number of fields. The widest tables are tried first, so rows of
+ * metadata above the header are not taken for the table.
+ *
+ * @returns The 0-based line index, or -1
+ */
+function findHeaderLine(lines: string[], delimiter: string): number {
+  const fieldCounts = lines.map((line) =>
+    line.trim() === '' ? 0 : splitLine(line, delimiter).length
+  );
+  const tableWidths = [...countFieldCounts(lines, delimiter)]
+    .filter(([, frequency]) => frequency >= 2)
+    .map(([count]) => count)
+    .sort((a, b) => b - a);
+
+  for (const fieldCount of tableWidths) {
+    for (let i = 0; i < lines.length; i++) {
+      if (fieldCounts[i] !== fieldCount) continue;
+      const labels = splitLine(lines[i], delimiter)
+        .map((field) => field.trim())
+        .filter((field) => field !== '');
+      if (
+        labels.length < 2 ||
+        labels.length * 2 <= fieldCount ||
+        labels.some((field) => looksLikeData(field))
+      ) {
+        continue;
+      }
+      const next = fieldCounts.findIndex((count, j) => j > i && count > 0);
+      if (next !== -1 && fieldCounts[next] === fieldCount) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Picks the currency column: a column named like a currency holding currency codes,
+ * else any column holding only currency codes, else a column named like a currency.
+ */
+function findCurrencyColumn(fields: string[], rows: Record<string, string>[]): string | undefined {
+  const holdsCodes = (field: string) => {
+    const values = rows.map((row) => (row[field] ?? '').trim()).filter((value) => value !== '');
+    return values.length > 0 && values.every((value) => /^[A-Z]{3}$/.test(value));
+  };
+  const named = fields.filter((field) => CURRENCY_COLUMN_PATTERN.test(field));
+  return (
+    named.find(holdsCodes) ??
+    fields.find(holdsCodes) ??
+    named.find((field) => rows.some((row) => (row[field] ?? '').trim() !== ''))
+  );
+}
+
+/**
+ * Guesses the number format from the amount-like values: a comma decimal mark when
+ * values end in ",dd" and none in ".dd"
+ */
+function guessNumberFormat(rows: Record<string, string>[]): NumberFormat | undefined {
+  const values = rows.flatMap((row) => Object.values(row).map((value) => (value ?? '').trim()));
+  const amounts = values.filter((value) => /^[-+]?[\d'., ]*\d-?$/.test(value));
+  const commaDecimals = amounts.some((value) => /\d,\d{1,2}-?$/.test(value));
+  const pointDecimals = amounts.some((value) => /\d\.\d{1,2}-?$/.test(value));
+  return commaDecimals && !pointDecimals ? { decimalMark: ',' } : undefined;
+}
+
+/**
+ * Finds metadata in the rows above the header: a known label followed by a value
+ * in a later column. Columns are split like the detector splits them (no quoting).
+ */
+function findMetadata(
+  lines: string[],
+  delimiter: string
+): { extraction: MetadataExtraction; label: string; value: string }[] {
+  const found: { extraction: MetadataExtraction; label: string; value: string }[] = [];
+  lines.forEach((line, row) => {
+    const columns = line.split(delimiter).map((column) => column.trim());
+    const labelColumn = columns.findIndex((column) => column !== '');
+    const valueColumn = columns.findIndex((column, i) => i > labelColumn && column !== '');
+    if (labelColumn === -1 || valueColumn === -1) return;
+
+    const label = columns[labelColumn];
+    const value = columns[valueColumn];
+    const match = METADATA_LABELS.find(
+      ({ field, pattern }) =>
+        pattern.test(label) &&
+        !found.some((entry) => entry.extraction.field === field) &&
+        (field === 'currency' ? /^[A-Za-z]{3}$/.test(value) : /\d/.test(value))
+    );
+    if (!match) return;
+
+    const extraction: MetadataExtraction = { field: match.field, row, column: valueColumn };
+    if (/\s/.test(value) && (match.field === 'account-number' || match.field === 'iban')) {
+      extraction.normalize = 'spaces-to-dashes';
+    }
+    found.push({ extraction, label, value });
+  });
+  return found;
+}
+
+/**
+ * Escapes a string for use in a regular expression
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Drafts a provider configuration from a sample CSV of the provider.
+ *
+ * @param filename The name of the file (not full path)
+ * @param content The CSV file content
+ * @param providerName Name of the provider in providers.yaml
+ * @returns The configuration, validated like providers.yaml
+ * @throws Error if no delimiter, header or currency column can be found
+ */
+export function proposeProvider(
+  filename: string,
+  content: string,
+  providerName: string
+): ProviderProposal {
+  const lines = content.split('\n').map((line) => line.replace(/\r$/, ''));
+  const notes: string[] = [];
+
+  const delimiter = sniffDelimiter(lines);
+  if (!delimiter) {
+    throw new Error(
+      `Could not find a delimiter splitting the lines of ${filename} into columns (tried ${CANDIDATE_DELIMITERS.map((d) => JSON.stringify(d)).join(', ')})`
+    );
+  }
+
+  const headerLine = findHeaderLine(lines, delimiter);
+  if (headerLine === -1) {
+    throw new Error(
+      `Could not find a header row of column names followed by data rows in ${filename}`
+    );
+  }
+
+  const parsed = Papa.parse<Record<string, string>>(lines.slice(headerLine).join('\n'), {
+    header: true,
+    skipEmptyLines: true,
+    delimiter,
+  });
+  const fields = parsed.meta.fields ?? [];
+  const rows = parsed.data;
+  notes.push(
+    `Delimiter ${JSON.stringify(delimiter)}; header on line ${headerLine + 1} with ${fields.length} columns, followed by ${rows.length} data rows`
+  );
+
+  const currencyField = findCurrencyColumn(fields, rows);
+  if (!currencyField) {
+    throw new Error(
+      `Could not find a currency column in ${filename} (columns: ${fields.join(', ')})`
+    );
+  }
+  const codes = [
+    ...new Set(rows.map((row) => (row[currencyField] ?? '').trim()).filter((code) => code !== '')),
+  ].sort();
+  notes.push(`Currency column "${currencyField}" with ${codes.join(', ')}`);
+
+  const prefix = filename
+    .replace(/\.csv$/i, '')
+    .split(/\d/)[0]
+    .replace(/[-_ .]+$/, '');
+  const filenamePattern = prefix.length >= 3 ? `^${escapeRegex(prefix)}` : undefined;
+  if (filenamePattern === undefined) {
+    notes.push('No filename prefix to match: the rule matches files of any name');
+  }
+
+  const columns = fields.map((field) => field.trim());
+  const commaInColumns = columns.some((column) => column.includes(','));
+  if (commaInColumns) {
+    notes.push('Column names contain commas: required columns are used instead of a header');
+  }
+
+  const rule: DetectionRule = {
+    ...(filenamePattern !== undefined && { filenamePattern }),
+    ...(commaInColumns ? { requiredColumns: columns } : { header: columns.join(',') }),
+    currencyField: currencyField.trim(),
+  };
+  if (headerLine > 0) {
+    rule.skipRows = headerLine;
+  }
+  if (delimiter !== ',') {
+    rule.delimiter = delimiter;
+  }
+
+  const metadata = findMetadata(lines.slice(0, headerLine), delimiter);
+  for (const { extraction, label, value } of metadata) {
+    notes.push(`Metadata "${extraction.field}" from "${label}" (row ${extraction.row}): ${value}`);
+  }
+  const metadataFields = metadata.map(({ extraction }) => extraction.field);
+  const accountField = ['account-number', 'iban'].find((field) => metadataFields.includes(field));
+  if (accountField) {
+    const period =
+      metadataFields.includes('from-date') && metadataFields.includes('until-date')
+        ? '-{from-date}-{until-date}'
+        : '';
+    rule.renamePattern = `${providerName}-{${accountField}}${period}.csv`;
+    rule.metadata = metadata.map(({ extraction }) => extraction);
+  } else if (metadata.length > 0) {
+    rule.metadata = metadata.map(({ extraction }) => extraction);
+    notes.push('No account number above the header: files keep their names (no renamePattern)');
+  }
+
+  const numberFormat = guessNumberFormat(rows);
+  if (numberFormat) {
+    rule.numberFormat = numberFormat;
+    notes.push('Amounts use a comma as decimal mark');
+  }
+
+  const config: ProviderConfig = {
+    detect: [rule],
+    currencies: Object.fromEntries(codes.map((code) => [code, code.toLowerCase()])),
+  };
+  validateProviderConfig(providerName, config);
+
+  return {
+    config,
+    yaml: yaml.dump({ [providerName]: config }, { lineWidth: -1 }),
+    notes,
+  };
+}
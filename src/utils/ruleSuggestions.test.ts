@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendRuleBlocks,
+  escapeRulePattern,
+  formatRuleBlock,
+  isValidAccountName,
+  isValidRulePattern,
+} from './ruleSuggestions.ts';
+
+describe('ruleSuggestions', () => {
+  describe('escapeRulePattern', () => {
+    it('escapes regex metacharacters', () => {
+      expect(escapeRulePattern('Coop (Basel) 1.5*')).toBe('Coop \\(Basel\\) 1\\.5\\*');
+      expect(escapeRulePattern('A|B [x] {y} $^?+\\')).toBe(
+        'A\\|B \\[x\\] \\{y\\} \\$\\^\\?\\+\\\\'
+      );
+    });
+
+    it('collapses whitespace', () => {
+      expect(escapeRulePattern('  Kaeser,   Joel ')).toBe('Kaeser, Joel');
+    });
+
+    it('wraps leading matcher prefixes in a character class', () => {
+      expect(escapeRulePattern('%20 discount')).toBe('[%]20 discount');
+      expect(escapeRulePattern('& Co')).toBe('[&] Co');
+      expect(escapeRulePattern('!important')).toBe('[!]important');
+    });
+  });
+
+  describe('isValidAccountName', () => {
+    it('accepts hierarchical account names', () => {
+      expect(isValidAccountName('expenses:food:groceries')).toBe(true);
+      expect(isValidAccountName('expenses:public transport')).toBe(true);
+    });
+
+    it('rejects empty, multi-line and double-spaced names', () => {
+      expect(isValidAccountName(' ')).toBe(false);
+      expect(isValidAccountName('expenses:food\nincome:x')).toBe(false);
+      expect(isValidAccountName('expenses:food  CHF5')).toBe(false);
+    });
+  });
+
+  describe('isValidRulePattern', () => {
+    it('accepts single-line patterns', () => {
+      expect(isValidRulePattern('MIGROS|COOP')).toBe(true);
+    });
+
+    it('rejects empty and multi-line patterns', () => {
+      expect(isValidRulePattern(' ')).toBe(false);
+      expect(isValidRulePattern('Migros\naccount1 assets:other')).toBe(false);
+      expect(isValidRulePattern('Migros\rinclude other.rules')).toBe(false);
+    });
+  });
+
+  describe('formatRuleBlock', () => {
+    it('formats an if block with account2', () => {
+      expect(formatRuleBlock({ pattern: 'Migros', account: 'expenses:groceries' })).toBe(
+        'if Migros\n  account2 expenses:groceries\n'
+      );
+    });
+  });
+
+  describe('appendRuleBlocks', () => {
+    it('appends blocks separated by blank lines', () => {
+      const { content, added } = appendRuleBlocks('skip 1', [
+        { pattern: 'Migros', account: 'expenses:groceries' },
+        { pattern: 'SBB', account: 'expenses:transport' },
+      ]);
+
+      expect(added).toHaveLength(2);
+      expect(content).toBe(
+        'skip 1\n\nif Migros\n  account2 expenses:groceries\n\nif SBB\n  account2 expenses:transport\n'
+      );
+    });
+
+    it('skips patterns that already exist or are duplicated', () => {
+      const { content, added } = appendRuleBlocks('if Migros\n  account2 expenses:food\n', [
+        { pattern: 'Migros', account: 'expenses:groceries' },
+        { pattern: 'SBB', account: 'expenses:transport' },
+        { pattern: 'SBB', account: 'expenses:travel' },
+      ]);
+
+      expect(added).toEqual([{ pattern: 'SBB', account: 'expenses:transport' }]);
+      expect(content).not.toContain('expenses:groceries');
+    });
+
+    it('leaves content untouched when nothing is added', () => {
+      const original = 'if Migros\n  account2 expenses:food\n';
+      expect(appendRuleBlocks(original, [{ pattern: 'Migros', account: 'x' }]).content).toBe(
+        original
+      );
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Rule Suggestions
+ *
+ * Helpers for turning accepted account suggestions into hledger CSV rules
+ * (`if <pattern>` / `account2 <account>` blocks).
+ */
+
+/**
+ * A rule to be added to a rules file
+ */
+export interface RuleBlock {
+  /** Regular expression matched (case-insensitively) against the CSV record */
+  pattern: string;
+  /** Account assigned to matching transactions */
+  account: string;
+}
+
+/**
+ * Characters with a special meaning in hledger's regular expressions
+ */
+const REGEX_SPECIAL_CHARS = /[\\^$.|?*+()[\]{}]/g;
+
+/**
+ * Builds an `if` pattern matching the given transaction description literally.
+ * Regex metacharacters are escaped, whitespace is collapsed, and a leading
+ * `%`, `&` or `!` (field reference / AND / negation in hledger matchers) is wrapped
+ * in a character class so it is matched literally.
+ *
+ * @param description The transaction description
+ * @returns A single-line pattern for an `if` directive
+ */
+export function escapeRulePattern(description: string): string {
+  const escaped = description.trim().replace(/\s+/g, ' ').replace(REGEX_SPECIAL_CHARS, '\\$&');
+
+  if (/^[%&!]/.test(escaped)) {
+    return `[${escaped[0]}]${escaped.slice(1)}`;
+  }
+
+  return escaped;
+}
+
+/**
+ * Checks whether a string is usable as an hledger account name in a rules file.
+ * Account names must not be empty, span lines, or contain two consecutive spaces
+ * (which hledger treats as the end of the account name).
+ */
+export function isValidAccountName(account: string): boolean {
+  const trimmed = account.trim();
+  return trimmed !== '' && !/[\r\n\t]/.test(trimmed) && !trimmed.includes('  ');
+}
+
+/**
+ * Checks whether a string is usable as the pattern of an `if` line in a rules file.
+ * A pattern spanning lines would add its other lines to the rules file as directives.
+ */
+export function isValidRulePattern(pattern: string): boolean {
+  return pattern.trim() !== '' && !/[\r\n]/.test(pattern);
+}
+
+/**
+ * Formats a rule as an `if` block
+ */
+export function formatRuleBlock(rule: RuleBlock): string {
+  return `if ${rule.pattern}\n  account2 ${rule.account.trim()}\n`;
+}
+
+/**
+ * Appends rule blocks to the content of a rules file.
+ * Rules whose pattern already has an `if` line in the file are skipped.
+ *
+ * @param content Current content of the rules file
+ * @param rules Rules to add
+ * @returns The new content and the rules actually added
+ */
+export function appendRuleBlocks(
+  content: string,
+  rules: RuleBlock[]
+): { content: string; added: RuleBlock[] } {
+  const existingPatterns = new Set(
+    content
+      .split('\n')
+      .map((line) => line.trim().match(/^if\s+(.+)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map((match) => match[1].trim())
+  );
+
+  const added: RuleBlock[] = [];
+  for (const rule of rules) {
+    if (existingPatterns.has(rule.pattern)) {
+      continue;
+    }
+    existingPatterns.add(rule.pattern);
+    added.push(rule);
+  }
+
+  if (added.length === 0) {
+    return { content, added };
+  }
+
+  let newContent = content;
+  if (newContent !== '' && !newContent.endsWith('\n')) {
+    newContent += '\n';
+  }
+  newContent += '\n' + added.map(formatRuleBlock).join('\n');
+
+  return { content: newContent, added };
+}
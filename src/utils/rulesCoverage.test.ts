@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { findAccountRule, measureRulesCoverage, type CoverageStatement } from './rulesCoverage.ts';
+import { getConditionalRules } from './rulesLinter.ts';
+import { parseRulesAst, type RulesConfig } from './rulesParser.ts';
+import type { PrintedTransaction } from './duplicateDetector.ts';
+
+const fieldNames = ['date', 'description', 'amount'];
+
+const config: RulesConfig = {
+  skipRows: 0,
+  separator: ',',
+  fieldNames,
+  dateFormat: '%Y-%m-%d',
+  dateField: 'date',
+  amountFields: { single: 'amount' },
+};
+
+const ast = parseRulesAst(`fields date, description, amount
+account1 assets:bank:ubs
+
+if Migros|Coop
+  account2 expenses:groceries
+
+if Coop Pronto
+  account2 expenses:fuel
+
+if,account2
+Salary,income:salary
+Sal,income:other
+Denner,expenses:groceries
+`);
+
+const rows = [
+  { date: '2026-01-02', description: 'Migros Basel', amount: '-12.50' },
+  { date: '2026-01-03', description: 'Coop Pronto', amount: '-40.00' },
+  { date: '2026-01-04', description: 'Migros Bern', amount: '-7.00' },
+  { date: '2026-01-05', description: 'Salary', amount: '5000.00' },
+  { date: '2026-01-06', description: 'Kiosk', amount: '-3.00' },
+];
+
+const tx = (
+  date: string,
+  description: string,
+  amount: string,
+  account: string
+): PrintedTransaction => ({
+  date,
+  description,
+  amount,
+  comment: '',
+  otherAccounts: [account],
+});
+
+const statement: CoverageStatement = {
+  csv: 'import/done/ubs/chf/ubs-2026-01.csv',
+  transactions: [
+    tx('2026-01-02', 'Migros Basel', 'CHF-12.50', 'expenses:groceries'),
+    tx('2026-01-03', 'Coop Pronto', 'CHF-40.00', 'expenses:fuel'),
+    tx('2026-01-04', 'Migros Bern', 'CHF-7.00', 'expenses:groceries'),
+    tx('2026-01-05', 'Salary', 'CHF5000.00', 'income:salary'),
+    tx('2026-01-06', 'Kiosk', 'CHF-3.00', 'expenses:unknown'),
+  ],
+  rows,
+  config,
+};
+
+describe('rulesCoverage', () => {
+  describe('findAccountRule', () => {
+    const rules = getConditionalRules(ast);
+
+    it('returns the last matching if block', () => {
+      expect(findAccountRule(rules, rows[0], fieldNames)?.line).toBe(4);
+      expect(findAccountRule(rules, rows[1], fieldNames)?.line).toBe(7);
+    });
+
+    it('applies only the first matching row of an if table', () => {
+      expect(findAccountRule(rules, rows[3], fieldNames)?.line).toBe(11);
+    });
+
+    it('returns undefined when no rule matches', () => {
+      expect(findAccountRule(rules, rows[4], fieldNames)).toBeUndefined();
+    });
+  });
+
+  describe('measureRulesCoverage', () => {
+    it('reports hot rules, dead rules and unknown transactions', () => {
+      const coverage = measureRulesCoverage(ast, fieldNames, [statement]);
+
+      expect(coverage).toMatchObject({ transactions: 5, attributed: 4, unattributed: [] });
+      expect(coverage.hotRules).toEqual([
+        { line: 4, matchers: ['Migros|Coop'], account: 'expenses:groceries', transactions: 2 },
+        { line: 7, matchers: ['Coop Pronto'], account: 'expenses:fuel', transactions: 1 },
+        { line: 11, matchers: ['Salary'], account: 'income:salary', transactions: 1 },
+      ]);
+      expect(coverage.deadRules.map((rule) => rule.line)).toEqual([12, 13]);
+      expect(coverage.unknown).toEqual([
+        {
+          csv: 'import/done/ubs/chf/ubs-2026-01.csv',
+          date: '2026-01-06',
+          description: 'Kiosk',
+          amount: 'CHF-3.00',
+          account: 'expenses:unknown',
+        },
+      ]);
+    });
+
+    it('does not attribute a transaction whose account differs from the rule', () => {
+      const coverage = measureRulesCoverage(ast, fieldNames, [
+        {
+          ...statement,
+          transactions: [tx('2026-01-02', 'Migros Basel', 'CHF-12.50', 'expenses:household')],
+        },
+      ]);
+
+      expect(coverage.attributed).toBe(0);
+      expect(coverage.unattributed).toEqual([
+        expect.objectContaining({ description: 'Migros Basel', account: 'expenses:household' }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Rules Coverage
+ *
+ * Attributes the transactions hledger generated from bank statements to the if block
+ * or if table row of the rules file that assigned their account2, and aggregates how
+ * often each rule fired.
+ */
+
+import type { NumberFormat } from './balanceUtils.ts';
+import { findMatchingCsvRow, type CsvRowData } from './csvParser.ts';
+import type { PrintedTransaction } from './duplicateDetector.ts';
+import {
+  getConditionalRules,
+  matchesRecord,
+  toRulesRecords,
+  type ConditionalRule,
+} from './rulesLinter.ts';
+import {
+  getFieldReferences,
+  type RulesAst,
+  type RulesConfig,
+  type RulesMatcher,
+} from './rulesParser.ts';
+
+/**
+ * Accounts hledger assigns to transactions no rule matched
+ */
+export const UNKNOWN_ACCOUNTS = ['income:unknown', 'expenses:unknown'];
+
+/** Number of most frequently firing rules reported as hot */
+export const HOT_RULE_COUNT = 5;
+
+/**
+ * A statement replayed through its rules file
+ */
+export interface CoverageStatement {
+  /** Path of the CSV, as reported */
+  csv: string;
+  /** Transactions from hledger print, with the rules file's account1 as account */
+  transactions: PrintedTransaction[];
+  /** CSV rows parsed with the rules file's configuration */
+  rows: CsvRowData[];
+  config: RulesConfig;
+  numberFormat?: NumberFormat;
+}
+
+/**
+ * How often a rule assigning account2 fired
+ */
+export interface RuleCoverage {
+  /** Included rules file the rule is in (unset for the rules file itself) */
+  file?: string;
+  line: number;
+  /** Matchers as written in the rules file */
+  matchers: string[];
+  account: string;
+  transactions: number;
+}
+
+/**
+ * A transaction that could not be attributed to a rule
+ */
+export interface UncoveredTransaction {
+  csv: string;
+  date: string;
+  description: string;
+  amount: string;
+  account: string;
+}
+
+/**
+ * Coverage of the account2 rules of one rules file
+ */
+export interface RulesCoverage {
+  transactions: number;
+  /** Transactions whose account2 was assigned by a rule */
+  attributed: number;
+  /** Rules assigning account2 that fired most often, most frequent first */
+  hotRules: RuleCoverage[];
+  /** Rules assigning account2 that never fired */
+  deadRules: RuleCoverage[];
+  /** Transactions falling through to income:unknown / expenses:unknown */
+  unknown: UncoveredTransaction[];
+  /** Transactions with another account that no rule explains (e.g., a top-level account2) */
+  unattributed: UncoveredTransaction[];
+}
+
+/**
+ * Format a matcher as written in a rules file.
+ */
+function formatMatcher(matcher: RulesMatcher): string {
+  return [
+    matcher.and ? '& ' : '',
+    matcher.negated ? '!' : '',
+    matcher.field ? `%${matcher.field} ` : '',
+    matcher.pattern,
+  ].join('');
+}
+
+/**
+ * Find the rule that assigns account2 to a CSV row: the last matching if block, where
+ * only the first matching row of each if table applies.
+ */
+export function findAccountRule(
+  rules: ConditionalRule[],
+  row: CsvRowData,
+  fieldNames: string[]
+): ConditionalRule | undefined {
+  const [record] = toRulesRecords([row]);
+  const matchedTables = new Set<number>();
+  let accountRule: ConditionalRule | undefined;
+
+  for (const rule of rules) {
+    if (rule.table !== undefined && matchedTables.has(rule.table)) {
+      continue;
+    }
+    if (!matchesRecord(rule.matchers, record, fieldNames)) {
+      continue;
+    }
+    if (rule.table !== undefined) {
+      matchedTables.add(rule.table);
+    }
+    if (rule.assignments.some((assignment) => assignment.field === 'account2')) {
+      accountRule = rule;
+    }
+  }
+
+  return accountRule;
+}
+
+/**
+ * Attribute the transactions of the statements to the rules assigning their account2.
+ * A transaction is attributed if its CSV row is found and the rule's account (unless
+ * it references CSV fields) is the transaction's account.
+ *
+ * @param ast The rules file, with its includes expanded (see readRulesFile)
+ * @param fieldNames CSV field names
+ * @param statements The statements imported with the rules file
+ */
+export function measureRulesCoverage(
+  ast: RulesAst,
+  fieldNames: string[],
+  statements: CoverageStatement[]
+): RulesCoverage {
+  const rules = getConditionalRules(ast).filter((rule) =>
+    rule.assignments.some((assignment) => assignment.field === 'account2')
+  );
+  const counts = new Map<ConditionalRule, number>(rules.map((rule) => [rule, 0]));
+  const coverage: RulesCoverage = {
+    transactions: 0,
+    attributed: 0,
+    hotRules: [],
+    deadRules: [],
+    unknown: [],
+    unattributed: [],
+  };
+
+  for (const statement of statements) {
+    for (const transaction of statement.transactions) {
+      coverage.transactions++;
+      const account = transaction.otherAccounts?.[0] ?? '';
+      const uncovered: UncoveredTransaction = {
+        csv: statement.csv,
+        date: transaction.date,
+        description: transaction.description,
+        amount: transaction.amount,
+        account,
+      };
+      if (UNKNOWN_ACCOUNTS.includes(account)) {
+        coverage.unknown.push(uncovered);
+        continue;
+      }
+
+      let rule: ConditionalRule | undefined;
+      try {
+        const row = findMatchingCsvRow(
+          transaction,
+          statement.rows,
+          statement.config,
+          statement.numberFormat
+        );
+        rule = findAccountRule(rules, row, fieldNames);
+      } catch {
+        // The CSV row of the transaction was not found
+        rule = undefined;
+      }
+
+      const assigned = rule?.assignments.find((assignment) => assignment.field === 'account2');
+      if (
+        !rule ||
+        !assigned ||
+        (getFieldReferences(assigned.value).length === 0 && assigned.value.trim() !== account)
+      ) {
+        coverage.unattributed.push(uncovered);
+        continue;
+      }
+      counts.set(rule, (counts.get(rule) ?? 0) + 1);
+      coverage.attributed++;
+    }
+  }
+
+  const ruleCoverage: RuleCoverage[] = rules.map((rule) => ({
+    ...(rule.file ? { file: rule.file } : {}),
+    line: rule.line,
+    matchers: rule.matchers.map(formatMatcher),
+    account: rule.assignments.find((assignment) => assignment.field === 'account2')?.value ?? '',
+    transactions: counts.get(rule) ?? 0,
+  }));
+  coverage.deadRules = ruleCoverage.filter((rule) => rule.transactions === 0);
+  coverage.hotRules = ruleCoverage
+    .filter((rule) => rule.transactions > 0)
+    .sort((a, b) => b.transactions - a.transactions || a.line - b.line)
+    .slice(0, HOT_RULE_COUNT);
+
+  return coverage;
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildStarterRules, writeStarterRules } from './rulesGenerator.ts';
+import { getRulesConfig, parseAccount1, parseRulesAst } from './rulesParser.ts';
+import type { DetectionResult } from './providerDetector.ts';
+
+const rulesDir = '/books/ledger/rules';
+const pendingDir = '/books/import/pending';
+
+const ubsContent = `Account number:;1234 56789012.3;
+From:;05.01.2026;
+Trade date;Trade time;Booking date;Currency;Debit;Credit;Balance;Description1;Description2;
+15.01.2026;10:00;15.01.2026;CHF;-100.00;;1532.63;Migros;Basel;
+16.01.2026;;16.01.2026;CHF;;200.00;1732.63;Salary;;
+`;
+
+const ubsDetection: DetectionResult = {
+  provider: 'ubs',
+  currency: 'chf',
+  confidence: 1,
+  metadata: { 'account-number': '1234-56789012.3' },
+  rule: {
+    header:
+      'Trade date,Trade time,Booking date,Currency,Debit,Credit,Balance,Description1,Description2,',
+    currencyField: 'Currency',
+    skipRows: 2,
+    delimiter: ';',
+  },
+};
+
+describe('rulesGenerator', () => {
+  describe('buildStarterRules', () => {
+    it('writes the CSV settings and debit/credit handling of a UBS-style statement', () => {
+      const starter = buildStarterRules(
+        `${pendingDir}/ubs/chf/ubs-1234-56789012.3-2026-01.csv`,
+        ubsContent,
+        ubsDetection,
+        rulesDir
+      );
+
+      expect(starter.rulesFile).toBe(`${rulesDir}/ubs-1234-56789012.3.rules`);
+      expect(starter.content).toContain(
+        'source ../../import/pending/ubs/chf/ubs-1234-56789012.3*.csv\n'
+      );
+      expect(starter.content).toContain(
+        'skip 3\nseparator ;\nfields trade_date, trade_time, booking_date, currency, debit, credit, csv_balance, description1, description2\n'
+      );
+      expect(starter.content).toContain(
+        'date %trade_date\ndate-format %d.%m.%Y\ncurrency %currency\ndescription %description1 %description2\n'
+      );
+      expect(starter.content).toContain('account1 assets:bank:ubs:chf\n');
+      expect(starter.content).toContain(
+        'if %debit .\n  amount-out -%debit\nif %credit .\n  amount-in %credit\n'
+      );
+    });
+
+    it('is read back with the same CSV configuration', () => {
+      const starter = buildStarterRules(
+        `${pendingDir}/ubs/chf/ubs-1234-56789012.3-2026-01.csv`,
+        ubsContent,
+        ubsDetection,
+        rulesDir
+      );
+
+      expect(getRulesConfig(parseRulesAst(starter.content))).toMatchObject({
+        skipRows: 3,
+        separator: ';',
+        dateFormat: '%d.%m.%Y',
+        dateField: 'trade_date',
+        amountFields: { debit: 'debit', credit: 'credit' },
+      });
+      expect(parseAccount1(starter.content)).toBe('assets:bank:ubs:chf');
+    });
+
+    it('uses a single amount column and the decimal mark of the detection rule', () => {
+      const content =
+        'Started Date,Description,Amount,Currency\n' +
+        '2026-01-02 10:00:00,Migros,"-12,50",EUR\n' +
+        '2026-01-03 08:00:00,Top-up,"100,00",EUR\n';
+
+      const starter = buildStarterRules(
+        `${pendingDir}/revolut/eur/account-statement_2026-01.csv`,
+        content,
+        {
+          provider: 'revolut',
+          currency: 'eur',
+          confidence: 1,
+          rule: {
+            header: 'Started Date,Description,Amount,Currency',
+            currencyField: 'Currency',
+            numberFormat: { decimalMark: ',' },
+          },
+        },
+        rulesDir
+      );
+
+      expect(starter.rulesFile).toBe(`${rulesDir}/revolut-eur.rules`);
+      expect(starter.content).toContain('source ../../import/pending/revolut/eur/*.csv\n');
+      expect(starter.content).toContain(
+        'skip 1\nfields started_date, description, amount, currency\ndecimal-mark ,\n'
+      );
+      expect(starter.content).toContain('date-format %Y-%m-%d %H:%M:%S\n');
+      expect(starter.content).toContain('amount %amount\n');
+      expect(starter.content).not.toContain('separator');
+    });
+
+    it('throws when there is no amount column', () => {
+      expect(() =>
+        buildStarterRules(
+          `${pendingDir}/bank/chf/bank.csv`,
+          'Date,Text,Currency\n2026-01-02,Migros,CHF\n',
+          {
+            provider: 'bank',
+            currency: 'chf',
+            confidence: 1,
+            rule: { header: 'Date,Text,Currency', currencyField: 'Currency' },
+          },
+          rulesDir
+        )
+      ).toThrow('No amount column');
+    });
+  });
+
+  describe('writeStarterRules', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-generator-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('writes the rules file but never overwrites one', () => {
+      const csvFile = path.join(testDir, 'import/pending/ubs/chf/ubs-1234-56789012.3-2026-01.csv');
+      fs.mkdirSync(path.dirname(csvFile), { recursive: true });
+      fs.writeFileSync(csvFile, ubsContent);
+      const rules = path.join(testDir, 'ledger/rules');
+
+      const starter = writeStarterRules(csvFile, ubsDetection, rules);
+
+      expect(starter?.rulesFile).toBe(path.join(rules, 'ubs-1234-56789012.3.rules'));
+      expect(fs.readFileSync(starter!.rulesFile, 'utf-8')).toBe(starter!.content);
+      expect(writeStarterRules(csvFile, ubsDetection, rules)).toBeNull();
+    });
+  });
+});
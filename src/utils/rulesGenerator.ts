@@ -0,0 +1,265 @@
+/**
+ * Starter Rules Generator
+ *
+ * Writes a starter hledger rules file for a classified CSV that has none: the CSV
+ * settings (source, skip, separator, fields, date-format, decimal-mark) come from the
+ * provider's detection rule, and the date, description, amount and currency columns
+ * are recognized from the header and the data rows. Only the category rules are left
+ * to write.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Papa from 'papaparse';
+import { parseAmountValue } from './balanceUtils.ts';
+import { parseDateWithFormat } from './dateUtils.ts';
+import type { DetectionResult } from './providerDetector.ts';
+import { isAssignableField } from './rulesParser.ts';
+
+/** Date formats tried for the date column, in order of preference */
+const CANDIDATE_DATE_FORMATS = [
+  '%Y-%m-%d',
+  '%Y-%m-%d %H:%M:%S',
+  '%Y-%m-%d %H:%M',
+  '%d.%m.%Y',
+  '%d.%m.%Y %H:%M:%S',
+  '%d.%m.%Y %H:%M',
+  '%d.%m.%y',
+  '%d/%m/%Y',
+  '%m/%d/%Y',
+  '%Y/%m/%d',
+  '%d-%m-%Y',
+  '%d/%m/%y',
+  '%m/%d/%y',
+];
+
+/** Column names of the amount withdrawn from the account */
+const DEBIT_COLUMN_PATTERN = /debit|withdrawal|belastung|\bsoll\b|paid out|money out|lastschrift/i;
+
+/** Column names of the amount deposited to the account */
+const CREDIT_COLUMN_PATTERN = /credit|deposit|gutschrift|\bhaben\b|paid in|money in/i;
+
+/** Column names of a signed amount */
+const AMOUNT_COLUMN_PATTERN = /amount|betrag|montant|importo/i;
+
+/** Columns that look like amounts but aren't the transaction amount */
+const NOT_AMOUNT_COLUMN_PATTERN = /balance|saldo|fee|geb(ü|ue)hr|original/i;
+
+/** Column names of the transaction description, in order of preference */
+const DESCRIPTION_COLUMN_PATTERN =
+  /description|text|details|payee|merchant|recipient|empf(ä|ae)nger|verwendungszweck|libell|memo/i;
+
+/** Most description columns combined into the transaction description */
+const MAX_DESCRIPTION_COLUMNS = 3;
+
+/**
+ * A starter rules file for a classified CSV
+ */
+export interface StarterRules {
+  /** Absolute path of the rules file */
+  rulesFile: string;
+  content: string;
+}
+
+/**
+ * Converts a CSV column name to an hledger field name: lowercase letters, digits
+ * and underscores
+ */
+function toFieldName(column: string): string {
+  return column
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Finds the first column of which all values are dates in one format, and the format
+ */
+function findDateColumn(
+  columns: string[],
+  rows: string[][]
+): { index: number; format: string } | undefined {
+  for (let index = 0; index < columns.length; index++) {
+    const values = rows.map((row) => (row[index] ?? '').trim()).filter((value) => value !== '');
+    if (values.length === 0) continue;
+    const format = CANDIDATE_DATE_FORMATS.find((candidate) =>
+      values.every((value) => parseDateWithFormat(value, candidate) !== null)
+    );
+    if (format) {
+      return { index, format };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the index of the first column matching a pattern (and none of the excluded)
+ */
+function findColumnIndex(columns: string[], pattern: RegExp, exclude: number[] = []): number {
+  return columns.findIndex(
+    (column, index) =>
+      pattern.test(column) && !NOT_AMOUNT_COLUMN_PATTERN.test(column) && !exclude.includes(index)
+  );
+}
+
+/**
+ * Builds the starter rules file for a classified CSV.
+ *
+ * The rules file is named after the provider and the account number metadata (or the
+ * currency), and its source directive matches the CSVs of the account in the CSV's directory.
+ *
+ * @param csvFile Absolute path of the classified CSV
+ * @param content The CSV file content
+ * @param detection The CSV's provider detection
+ * @param rulesDir Absolute path of the rules directory
+ * @throws Error if no date or amount column is found
+ */
+export function buildStarterRules(
+  csvFile: string,
+  content: string,
+  detection: DetectionResult,
+  rulesDir: string
+): StarterRules {
+  const { rule, provider, currency } = detection;
+  const skipRows = rule.skipRows ?? 0;
+  const delimiter = rule.delimiter ?? ',';
+  const parsed = Papa.parse<string[]>(content.split('\n').slice(skipRows).join('\n'), {
+    delimiter,
+    skipEmptyLines: true,
+  });
+  const [columns = [], ...rows] = parsed.data.map((row) => row.map((value) => value.trim()));
+
+  const date = findDateColumn(columns, rows);
+  if (!date) {
+    throw new Error(`No date column found in ${path.basename(csvFile)}`);
+  }
+
+  const debit = findColumnIndex(columns, DEBIT_COLUMN_PATTERN);
+  const credit = findColumnIndex(columns, CREDIT_COLUMN_PATTERN, [debit]);
+  const hasDebitCredit = debit !== -1 && credit !== -1;
+  const amount = hasDebitCredit ? -1 : findColumnIndex(columns, AMOUNT_COLUMN_PATTERN);
+  if (!hasDebitCredit && amount === -1) {
+    throw new Error(
+      `No amount column (or debit and credit columns) found in ${path.basename(csvFile)}`
+    );
+  }
+
+  const currencyColumn = columns.findIndex(
+    (column) =>
+      column === rule.currencyField.trim() ||
+      toFieldName(column) === toFieldName(rule.currencyField)
+  );
+  const descriptions = columns
+    .map((column, index) => ({ column, index }))
+    .filter(
+      ({ column, index }) =>
+        DESCRIPTION_COLUMN_PATTERN.test(column) &&
+        ![date.index, debit, credit, amount, currencyColumn].includes(index)
+    )
+    .slice(0, MAX_DESCRIPTION_COLUMNS)
+    .map(({ index }) => index);
+
+  // Field names; a column named like an hledger field is renamed unless it has that role
+  const roles = new Map<number, string>([
+    [date.index, 'date'],
+    [amount, 'amount'],
+    [currencyColumn, 'currency'],
+    [descriptions[0] ?? -1, 'description'],
+  ]);
+  const fieldNames: string[] = [];
+  columns.forEach((column, index) => {
+    let name = toFieldName(column);
+    if (name !== '' && isAssignableField(name) && roles.get(index) !== name) {
+      name = `csv_${name}`;
+    }
+    const base = name;
+    for (let n = 2; name !== '' && fieldNames.includes(name); n++) {
+      name = `${base}_${n}`;
+    }
+    fieldNames.push(name);
+  });
+  // A trailing delimiter adds an unnamed column
+  while (fieldNames.length > 0 && fieldNames[fieldNames.length - 1] === '') {
+    fieldNames.pop();
+  }
+  const field = (index: number) => `%${fieldNames[index]}`;
+
+  const accountNumber = detection.metadata?.['account-number'];
+  const rulesName = `${provider}-${accountNumber ?? currency}`;
+  const csvName = path.basename(csvFile);
+  const sourcePattern = csvName.startsWith(rulesName) ? `${rulesName}*.csv` : '*.csv';
+  const sourceDir = path.relative(rulesDir, path.dirname(csvFile)).split(path.sep).join('/');
+
+  const lines = [
+    `# ${provider} ${currency.toUpperCase()}${accountNumber ? ` ${accountNumber}` : ''}`,
+    '# Starter rules generated from the detection rule. Check account1 and add if blocks',
+    '# assigning account2 for the transactions falling through to the unknown accounts.',
+    `source ${sourceDir}/${sourcePattern}`,
+    '',
+    `skip ${skipRows + 1}`,
+  ];
+  if (delimiter !== ',') {
+    lines.push(`separator ${delimiter === '\t' ? 'TAB' : delimiter}`);
+  }
+  lines.push(`fields ${fieldNames.join(', ')}`);
+  if (rule.numberFormat?.decimalMark === ',') {
+    lines.push('decimal-mark ,');
+  }
+  lines.push('', `date ${field(date.index)}`, `date-format ${date.format}`);
+  if (currencyColumn !== -1) {
+    lines.push(`currency ${field(currencyColumn)}`);
+  }
+  if (descriptions.length > 0) {
+    lines.push(`description ${descriptions.map(field).join(' ')}`);
+  }
+  lines.push('', `account1 assets:bank:${provider}:${currency}`, '');
+
+  if (hasDebitCredit) {
+    // A negative debit is negated twice; hledger removes the double minus
+    const negativeDebits = rows.some(
+      (row) => parseAmountValue(row[debit] ?? '', rule.numberFormat) < 0
+    );
+    lines.push(
+      `if ${field(debit)} .`,
+      `  amount-out ${negativeDebits ? '-' : ''}${field(debit)}`,
+      `if ${field(credit)} .`,
+      `  amount-in ${field(credit)}`,
+      ''
+    );
+  } else {
+    lines.push(`amount ${field(amount)}`, '');
+  }
+
+  return {
+    rulesFile: path.join(rulesDir, `${rulesName}.rules`),
+    content: lines.join('\n'),
+  };
+}
+
+/**
+ * Writes the starter rules file for a classified CSV (see buildStarterRules).
+ * An existing rules file is never overwritten.
+ *
+ * @returns The rules file written, or null if it already exists
+ * @throws Error if no date or amount column is found
+ */
+export function writeStarterRules(
+  csvFile: string,
+  detection: DetectionResult,
+  rulesDir: string
+): StarterRules | null {
+  const starter = buildStarterRules(
+    csvFile,
+    fs.readFileSync(csvFile, 'utf-8'),
+    detection,
+    rulesDir
+  );
+  if (fs.existsSync(starter.rulesFile)) {
+    return null;
+  }
+  fs.mkdirSync(rulesDir, { recursive: true });
+  fs.writeFileSync(starter.rulesFile, starter.content);
+  return starter;
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  lintRulesAgainstRecords,
+  lintRulesAst,
+  matchesRecord,
+  toRulesRecords,
+} from './rulesLinter.ts';
+import { parseRulesAst, type RulesMatcher } from './rulesParser.ts';
+
+const fieldNames = ['date', 'description', 'amount'];
+
+const lint = (content: string, rulesFile = '/nonexistent/ubs.rules') =>
+  lintRulesAst(parseRulesAst(content), fieldNames, rulesFile);
+
+const records = toRulesRecords([
+  { date: '2026-01-02', description: 'Migros Basel', amount: '-12.50' },
+  { date: '2026-01-03', description: 'Coop Pronto', amount: '-8.00' },
+  { date: '2026-01-05', description: 'Salary', amount: '5000.00' },
+]);
+
+describe('rulesLinter', () => {
+  describe('matchesRecord', () => {
+    const matcher = (pattern: string, extra: Partial<RulesMatcher> = {}): RulesMatcher => ({
+      pattern,
+      negated: false,
+      and: false,
+      line: 1,
+      ...extra,
+    });
+
+    it('matches the whole record case-insensitively', () => {
+      expect(matchesRecord([matcher('migros')], records[0], fieldNames)).toBe(true);
+      expect(matchesRecord([matcher('2026-01-02,Migros')], records[0], fieldNames)).toBe(true);
+    });
+
+    it('matches a field by name or index, negated and combined with &', () => {
+      const matchers = [
+        matcher('^Coop', { field: '2' }),
+        matcher('^-', { field: 'amount', and: true }),
+        matcher('Salary', { field: 'description', negated: true, and: true }),
+      ];
+
+      expect(records.map((record) => matchesRecord(matchers, record, fieldNames))).toEqual([
+        false,
+        true,
+        false,
+      ]);
+    });
+  });
+
+  describe('lintRulesAst', () => {
+    it('reports nothing for a clean rules file', () => {
+      const content = `skip 1
+fields date, description, amount
+account1 assets:bank:ubs
+
+if Migros
+  account2 expenses:groceries
+`;
+
+      expect(lint(content)).toEqual([]);
+    });
+
+    it('reports invalid regexes and unknown fields with line numbers', () => {
+      const content = `fields date, description, amount
+
+if Migros (Basel
+  account2 expenses:groceries
+
+if %payee Coop
+  account2 expenses:groceries
+  comment %memo
+`;
+
+      expect(lint(content).map(({ line, severity, rule }) => ({ line, severity, rule }))).toEqual([
+        { line: 3, severity: 'error', rule: 'invalid-regex' },
+        { line: 6, severity: 'error', rule: 'unreachable-rule' },
+        { line: 8, severity: 'error', rule: 'unknown-field' },
+      ]);
+    });
+
+    it('reports account2 outside an if block and empty if blocks', () => {
+      const content = `fields date, description, amount
+account2 expenses:unknown
+
+if Migros
+`;
+
+      expect(lint(content).map((issue) => [issue.line, issue.rule])).toEqual([
+        [2, 'account2-outside-if'],
+        [4, 'empty-rule'],
+      ]);
+    });
+
+    it('reports a rule overridden by a later rule with the same pattern', () => {
+      const content = `fields date, description, amount
+
+if Migros
+  account2 expenses:groceries
+
+if migros
+  account2 expenses:food
+`;
+
+      expect(lint(content)).toEqual([
+        expect.objectContaining({ line: 3, rule: 'shadowed-rule', severity: 'warning' }),
+      ]);
+    });
+
+    it('reports a later if table row with the pattern of an earlier row', () => {
+      const content = `fields date, description, amount
+
+if,account2
+Migros,expenses:groceries
+Migros,expenses:food
+`;
+
+      expect(lint(content)).toEqual([expect.objectContaining({ line: 5, rule: 'shadowed-rule' })]);
+    });
+
+    it('checks account names against the naming conventions', () => {
+      const content = `fields date, description, amount
+account1 Assets:Bank
+
+if Migros
+  account2 groceries
+
+if Coop
+  account2 expenses::food
+
+if Salary
+  account2 income:%description
+`;
+
+      expect(lint(content).map((issue) => [issue.line, issue.rule])).toEqual([
+        [2, 'account-naming'],
+        [5, 'account-naming'],
+        [8, 'account-naming'],
+      ]);
+    });
+
+    describe('source directive', () => {
+      let testDir: string;
+
+      beforeEach(() => {
+        testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-linter-test-'));
+        fs.mkdirSync(path.join(testDir, 'import/pending/ubs'), { recursive: true });
+      });
+
+      afterEach(() => {
+        fs.rmSync(testDir, { recursive: true, force: true });
+      });
+
+      it('accepts a source glob in an existing directory', () => {
+        const rulesFile = path.join(testDir, 'ubs.rules');
+
+        expect(lint('source import/pending/ubs/*.csv\n', rulesFile)).toEqual([]);
+      });
+
+      it('reports a source in a missing directory', () => {
+        const rulesFile = path.join(testDir, 'ubs.rules');
+
+        expect(lint('source import/pending/ubs-old/*.csv\n', rulesFile)).toEqual([
+          expect.objectContaining({ line: 1, rule: 'missing-source', severity: 'error' }),
+        ]);
+      });
+    });
+  });
+
+  describe('lintRulesAgainstRecords', () => {
+    it('reports rules that match no record', () => {
+      const ast = parseRulesAst(`fields date, description, amount
+
+if Migros
+  account2 expenses:groceries
+
+if,account2
+Coop,expenses:groceries
+Denner,expenses:groceries
+`);
+
+      expect(lintRulesAgainstRecords(ast, fieldNames, records)).toEqual([
+        expect.objectContaining({ line: 8, rule: 'unmatched-rule', severity: 'warning' }),
+      ]);
+    });
+
+    it('reports a rule whose records are all matched by a later rule', () => {
+      const ast = parseRulesAst(`fields date, description, amount
+
+if Migros Basel
+  account2 expenses:groceries
+
+if %amount ^-
+  account2 expenses:unknown
+
+if Salary
+  account2 income:salary
+  comment salary
+`);
+
+      expect(lintRulesAgainstRecords(ast, fieldNames, records)).toEqual([
+        expect.objectContaining({ line: 3, rule: 'shadowed-rule' }),
+      ]);
+    });
+  });
+});
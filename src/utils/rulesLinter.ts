@@ -0,0 +1,440 @@
+/**
+ * Rules File Linter
+ *
+ * Checks a parsed hledger rules file for common mistakes (invalid regexes, misplaced
+ * or shadowed rules, unknown field references, badly named accounts, missing source
+ * directories) and, given the rows of already imported CSVs, for rules that never match.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CsvRowData } from './csvParser.ts';
+import { isValidAccountName } from './ruleSuggestions.ts';
+import { resolveSourcePath } from './rulesMatcher.ts';
+import {
+  getAllAssignments,
+  getFieldReferences,
+  resolveFieldReference,
+  type AssignmentNode,
+  type RulesAst,
+  type RulesMatcher,
+} from './rulesParser.ts';
+
+/**
+ * Top-level accounts of our chart of accounts
+ */
+export const ACCOUNT_TYPES = ['assets', 'liabilities', 'equity', 'income', 'expenses'];
+
+export type LintRuleName =
+  | 'invalid-regex'
+  | 'unknown-line'
+  | 'unknown-field'
+  | 'account2-outside-if'
+  | 'empty-rule'
+  | 'unreachable-rule'
+  | 'shadowed-rule'
+  | 'invalid-account'
+  | 'account-naming'
+  | 'missing-source'
+  | 'unmatched-rule';
+
+/**
+ * A problem found in a rules file
+ */
+export interface LintIssue {
+  /** 1-based line in the rules file */
+  line: number;
+  severity: 'error' | 'warning';
+  rule: LintRuleName;
+  message: string;
+}
+
+/**
+ * A CSV record as seen by the matchers of a rules file
+ */
+export interface RulesRecord {
+  /** The whole record: field values joined by commas */
+  text: string;
+  fields: CsvRowData;
+}
+
+/**
+ * An if block or if table row: matchers and the field assignments applied to matching records
+ */
+export interface ConditionalRule {
+  line: number;
+  matchers: RulesMatcher[];
+  assignments: AssignmentNode[];
+  /** Index of the if table (rows of one table are exclusive: the first match applies) */
+  table?: number;
+  /** Included rules file the rule was read from */
+  file?: string;
+}
+
+/**
+ * Convert parsed CSV rows to records for matching.
+ */
+export function toRulesRecords(rows: CsvRowData[]): RulesRecord[] {
+  return rows.map((fields) => ({ text: Object.values(fields).join(','), fields }));
+}
+
+/**
+ * Compile a matcher pattern like hledger does (case-insensitive).
+ *
+ * @returns The regex, or null if the pattern is invalid
+ */
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a CSV field reference exists in the fields list (by name or 1-based index).
+ * Without a fields list every reference is accepted.
+ */
+function isKnownField(reference: string, fieldNames: string[]): boolean {
+  if (fieldNames.length === 0) {
+    return true;
+  }
+  if (/^\d+$/.test(reference)) {
+    const index = parseInt(reference, 10);
+    return index >= 1 && index <= fieldNames.length;
+  }
+  return fieldNames.includes(reference);
+}
+
+/**
+ * Check whether a record matches a list of matchers. Matchers starting with & are
+ * combined with the previous one; the resulting groups are alternatives.
+ */
+export function matchesRecord(
+  matchers: RulesMatcher[],
+  record: RulesRecord,
+  fieldNames: string[]
+): boolean {
+  const groups: RulesMatcher[][] = [];
+  for (const matcher of matchers) {
+    if (matcher.and && groups.length > 0) {
+      groups[groups.length - 1].push(matcher);
+    } else {
+      groups.push([matcher]);
+    }
+  }
+
+  return groups.some((group) =>
+    group.every((matcher) => {
+      const regex = compilePattern(matcher.pattern);
+      if (!regex) {
+        return false;
+      }
+      const value = matcher.field
+        ? (record.fields[resolveFieldReference(matcher.field, fieldNames)] ?? '')
+        : record.text;
+      return regex.test(value) !== matcher.negated;
+    })
+  );
+}
+
+/**
+ * List the if blocks and if table rows of a rules file in file order.
+ */
+export function getConditionalRules(ast: RulesAst): ConditionalRule[] {
+  return ast.nodes.flatMap((node, index): ConditionalRule[] => {
+    if (node.type === 'if') {
+      return [
+        {
+          line: node.line,
+          matchers: node.matchers,
+          assignments: node.assignments,
+          file: node.file,
+        },
+      ];
+    }
+    if (node.type === 'if-table') {
+      return node.rows.map((row) => ({
+        line: row.line,
+        matchers: [row.matcher],
+        assignments: node.fields.map((field, fieldIndex) => ({
+          type: 'assignment' as const,
+          field,
+          value: row.values[fieldIndex] ?? '',
+          line: row.line,
+        })),
+        table: index,
+        file: node.file,
+      }));
+    }
+    return [];
+  });
+}
+
+/** Matchers of both rules are the same (ignoring case and surrounding whitespace) */
+const sameMatchers = (a: ConditionalRule, b: ConditionalRule) => {
+  const signature = (rule: ConditionalRule) =>
+    rule.matchers
+      .map((m) => `${m.and ? '&' : ''}${m.negated ? '!' : ''}%${m.field ?? ''} ${m.pattern}`)
+      .join('\n')
+      .toLowerCase();
+  return signature(a) === signature(b);
+};
+
+/**
+ * Find the rule overriding all assignments of a rule for the records it matches:
+ * a later if block assigning the same fields, or an earlier row of the same if table.
+ *
+ * @param overlaps Whether the other rule matches every record the rule matches
+ */
+function findShadowingRule(
+  rules: ConditionalRule[],
+  index: number,
+  overlaps: (rule: ConditionalRule, other: ConditionalRule) => boolean
+): ConditionalRule | undefined {
+  const rule = rules[index];
+  if (rule.assignments.length === 0) {
+    return undefined;
+  }
+  return rules.find((other, otherIndex) => {
+    const takesPrecedence =
+      rule.table !== undefined && rule.table === other.table
+        ? otherIndex < index
+        : otherIndex > index && other.table === undefined;
+    return (
+      takesPrecedence &&
+      rule.assignments.every((a) => other.assignments.some((b) => b.field === a.field)) &&
+      overlaps(rule, other)
+    );
+  });
+}
+
+/**
+ * Check the account name conventions: lowercase, colon-separated, and under one of
+ * the account types.
+ */
+function checkAccountName(account: string, line: number): LintIssue | null {
+  if (!isValidAccountName(account)) {
+    return {
+      line,
+      severity: 'error',
+      rule: 'invalid-account',
+      message: `Invalid account name "${account}"`,
+    };
+  }
+  const segments = account.trim().split(':');
+  if (!ACCOUNT_TYPES.includes(segments[0])) {
+    return {
+      line,
+      severity: 'warning',
+      rule: 'account-naming',
+      message: `Account "${account}" does not start with one of ${ACCOUNT_TYPES.join(', ')}`,
+    };
+  }
+  if (segments.some((segment) => segment.trim() === '' || segment !== segment.toLowerCase())) {
+    return {
+      line,
+      severity: 'warning',
+      rule: 'account-naming',
+      message: `Account "${account}" should consist of non-empty lowercase segments separated by ":"`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Check that the directory of a source path exists. For a glob, the directory
+ * before the first glob character is checked.
+ */
+function checkSource(source: string, line: number, rulesFilePath: string): LintIssue | null {
+  const resolved = resolveSourcePath(source.split('#')[0].trim(), rulesFilePath);
+  const globIndex = resolved.search(/[*?[{]/);
+  const directory = path.dirname(globIndex === -1 ? resolved : resolved.slice(0, globIndex + 1));
+  if (fs.existsSync(directory)) {
+    return null;
+  }
+  return {
+    line,
+    severity: 'error',
+    rule: 'missing-source',
+    message: `Directory of source "${source}" does not exist (${directory})`,
+  };
+}
+
+/**
+ * Check a rules file for mistakes that don't need any CSV data.
+ *
+ * @param ast The rules file's own nodes (includes not expanded, so lines refer to this file)
+ * @param fieldNames CSV field names (from the fields directive, possibly in an included file)
+ * @param rulesFilePath Path to the rules file, for resolving the source directive
+ */
+export function lintRulesAst(
+  ast: RulesAst,
+  fieldNames: string[],
+  rulesFilePath: string
+): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const checkReferences = (value: string, line: number) => {
+    for (const reference of getFieldReferences(value)) {
+      if (!isKnownField(reference, fieldNames)) {
+        issues.push({
+          line,
+          severity: 'error',
+          rule: 'unknown-field',
+          message: `Unknown CSV field %${reference}`,
+        });
+      }
+    }
+  };
+
+  for (const node of ast.nodes) {
+    switch (node.type) {
+      case 'directive':
+        if (node.name === 'source') {
+          const issue = checkSource(node.value, node.line, rulesFilePath);
+          if (issue) issues.push(issue);
+        }
+        break;
+      case 'assignment':
+        if (node.field === 'account2') {
+          issues.push({
+            line: node.line,
+            severity: 'warning',
+            rule: 'account2-outside-if',
+            message: 'account2 is assigned outside an if block and applies to every record',
+          });
+        }
+        break;
+      case 'if':
+        if (node.matchers.length === 0) {
+          issues.push({
+            line: node.line,
+            severity: 'error',
+            rule: 'unreachable-rule',
+            message: 'if block without a matcher never applies',
+          });
+        }
+        if (node.assignments.length === 0) {
+          issues.push({
+            line: node.line,
+            severity: 'warning',
+            rule: 'empty-rule',
+            message: 'if block without field assignments has no effect',
+          });
+        }
+        break;
+      case 'unknown':
+        issues.push({
+          line: node.line,
+          severity: 'warning',
+          rule: 'unknown-line',
+          message: `Unknown directive or field "${node.text.split(/\s+/)[0]}"`,
+        });
+        break;
+    }
+  }
+
+  const rules = getConditionalRules(ast);
+  for (const rule of rules) {
+    for (const matcher of rule.matchers) {
+      if (!compilePattern(matcher.pattern)) {
+        issues.push({
+          line: matcher.line,
+          severity: 'error',
+          rule: 'invalid-regex',
+          message: `Invalid regular expression "${matcher.pattern}"`,
+        });
+      }
+      if (matcher.field && !isKnownField(matcher.field, fieldNames)) {
+        issues.push({
+          line: matcher.line,
+          severity: 'error',
+          rule: 'unreachable-rule',
+          message: `Matcher on unknown CSV field %${matcher.field} never matches`,
+        });
+      }
+    }
+  }
+
+  rules.forEach((rule, index) => {
+    const shadowing = findShadowingRule(rules, index, sameMatchers);
+    if (shadowing) {
+      issues.push({
+        line: rule.line,
+        severity: 'warning',
+        rule: 'shadowed-rule',
+        message: `Rule has the same pattern as the rule at line ${shadowing.line}, which overrides it`,
+      });
+    }
+  });
+
+  for (const assignment of getAllAssignments(ast)) {
+    checkReferences(assignment.value, assignment.line);
+    if (
+      /^account\d+$/.test(assignment.field) &&
+      getFieldReferences(assignment.value).length === 0
+    ) {
+      const issue = checkAccountName(assignment.value, assignment.line);
+      if (issue) issues.push(issue);
+    }
+  }
+
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Check the rules of a rules file against the records of its CSVs: rules that match
+ * no record, and rules overridden by another rule on every record they match.
+ *
+ * @param ast The rules file's own nodes
+ * @param fieldNames CSV field names
+ * @param records Records of the CSVs imported with the rules file
+ */
+export function lintRulesAgainstRecords(
+  ast: RulesAst,
+  fieldNames: string[],
+  records: RulesRecord[]
+): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const rules = getConditionalRules(ast);
+  const matched = rules.map((rule) =>
+    records.filter((record) => matchesRecord(rule.matchers, record, fieldNames))
+  );
+
+  rules.forEach((rule, index) => {
+    const valid = rule.matchers.every(
+      (m) => compilePattern(m.pattern) && (!m.field || isKnownField(m.field, fieldNames))
+    );
+    if (!valid || rule.matchers.length === 0) {
+      return;
+    }
+
+    if (matched[index].length === 0) {
+      issues.push({
+        line: rule.line,
+        severity: 'warning',
+        rule: 'unmatched-rule',
+        message: `Rule never matched any of ${records.length} imported CSV records`,
+      });
+      return;
+    }
+
+    const shadowing = findShadowingRule(
+      rules,
+      index,
+      (_, other) =>
+        !sameMatchers(rule, other) &&
+        matched[index].every((record) => matched[rules.indexOf(other)].includes(record))
+    );
+    if (shadowing) {
+      issues.push({
+        line: rule.line,
+        severity: 'warning',
+        rule: 'shadowed-rule',
+        message: `Every record matched by this rule is also matched by the rule at line ${shadowing.line}, which overrides it`,
+      });
+    }
+  });
+
+  return issues;
+}
@@ -6,6 +6,7 @@ import {
   resolveSourcePath,
   loadRulesMapping,
   findRulesForCsv,
+  groupCsvFilesByRules,
 } from './rulesMatcher.ts';
 
 const testDir = path.join(process.cwd(), '.memory', 'test-rules-matcher');
@@ -245,4 +246,30 @@ source actual-file.csv`;
       });
     });
   });
+
+  describe('groupCsvFilesByRules', () => {
+    it('should group CSV files by rules file and omit CSVs without one', () => {
+      const mapping = {
+        '/repo/import/pending/ubs/ubs*.csv': '/repo/rules/ubs.rules',
+        '/repo/import/pending/revolut/revolut*.csv': '/repo/rules/revolut.rules',
+      };
+      const csvFiles = [
+        '/repo/import/done/ubs/chf/ubs-2026-01.csv',
+        '/repo/import/done/other/statement.csv',
+        '/repo/import/done/ubs/chf/ubs-2026-02.csv',
+      ];
+
+      expect(groupCsvFilesByRules(csvFiles, mapping)).toEqual(
+        new Map([
+          [
+            '/repo/rules/ubs.rules',
+            [
+              '/repo/import/done/ubs/chf/ubs-2026-01.csv',
+              '/repo/import/done/ubs/chf/ubs-2026-02.csv',
+            ],
+          ],
+        ])
+      );
+    });
+  });
 });
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { minimatch } from 'minimatch';
+import { getDirective, parseRulesAst } from './rulesParser.ts';
 
 /**
  * Mapping of absolute CSV file paths to their corresponding rules file paths
@@ -17,13 +18,9 @@ export interface RulesMapping {
  * @returns The source path as specified in the file, or null if not found
  */
 export function parseSourceDirective(content: string): string | null {
-  // Match 'source' at the start of a line, followed by whitespace and the path
   // The path continues until end of line or a comment (#)
-  const match = content.match(/^source\s+([^\n#]+)/m);
-  if (!match) {
-    return null;
-  }
-  return match[1].trim();
+  const source = getDirective(parseRulesAst(content), 'source')?.split('#')[0].trim();
+  return source || null;
 }
 
 /**
@@ -136,3 +133,25 @@ export function findRulesForCsv(csvPath: string, mapping: RulesMapping): string
 
   return null;
 }
+
+/**
+ * Groups CSV files by the rules file they match (see findRulesForCsv).
+ * CSV files without a rules file are omitted.
+ *
+ * @param csvFiles Absolute paths to the CSV files
+ * @param mapping The rules mapping from loadRulesMapping
+ * @returns The CSV files per absolute rules file path
+ */
+export function groupCsvFilesByRules(
+  csvFiles: string[],
+  mapping: RulesMapping
+): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  for (const csvFile of csvFiles) {
+    const rulesFile = findRulesForCsv(csvFile, mapping);
+    if (rulesFile) {
+      groups.set(rulesFile, [...(groups.get(rulesFile) ?? []), csvFile]);
+    }
+  }
+  return groups;
+}
@@ -1,12 +1,18 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {
+  parseRulesAst,
+  readRulesFile,
+  getAllAssignments,
   parseSkipRows,
   parseSeparator,
   parseFieldNames,
   parseDateFormat,
   parseDateField,
   parseAmountFields,
-  parseRulesFile,
+  getRulesConfig,
 } from './rulesParser.ts';
 
 describe('rulesParser', () => {
@@ -26,6 +32,10 @@ describe('rulesParser', () => {
     it('should parse skip 1', () => {
       expect(parseSkipRows('skip 1')).toBe(1);
     });
+
+    it('should skip one row for skip without a number', () => {
+      expect(parseSkipRows('skip\nfields date,amount')).toBe(1);
+    });
   });
 
   describe('parseSeparator', () => {
@@ -41,6 +51,11 @@ describe('rulesParser', () => {
       expect(parseSeparator('separator \t')).toBe('\t');
     });
 
+    it('should parse TAB and SPACE separators', () => {
+      expect(parseSeparator('separator TAB')).toBe('\t');
+      expect(parseSeparator('separator SPACE')).toBe(' ');
+    });
+
     it('should default to comma when no separator directive', () => {
       expect(parseSeparator('skip 1\nfields date')).toBe(',');
     });
@@ -133,13 +148,34 @@ if %credit .
       expect(result.single).toBeUndefined();
     });
 
+    it('should parse amount-in and amount-out fields', () => {
+      const result = parseAmountFields('amount-in %3\namount-out %4', [
+        'date',
+        'desc',
+        'in',
+        'out',
+      ]);
+      expect(result).toEqual({ credit: 'in', debit: 'out' });
+    });
+
+    it('should parse debit/credit fields assigned with amount-in/amount-out in if blocks', () => {
+      const content = `
+if %withdrawal .
+    amount-out %withdrawal
+if %deposit .
+    amount-in %deposit
+`;
+      const result = parseAmountFields(content, ['date', 'withdrawal', 'deposit']);
+      expect(result).toEqual({ debit: 'withdrawal', credit: 'deposit' });
+    });
+
     it('should default to "amount" when no amount directive', () => {
       const result = parseAmountFields('skip 1', fieldNames);
       expect(result).toEqual({ single: 'amount' });
     });
   });
 
-  describe('parseRulesFile', () => {
+  describe('getRulesConfig', () => {
     it('should parse complete UBS-style rules file', () => {
       const content = `
 # UBS account rules
@@ -165,7 +201,7 @@ if SALARY
 account2 assets:bank:ubs:checking
 `;
 
-      const result = parseRulesFile(content);
+      const result = getRulesConfig(parseRulesAst(content));
 
       expect(result.skipRows).toBe(9);
       expect(result.separator).toBe(';');
@@ -190,7 +226,7 @@ description %5
 account2 assets:bank:revolut
 `;
 
-      const result = parseRulesFile(content);
+      const result = getRulesConfig(parseRulesAst(content));
 
       expect(result.skipRows).toBe(1);
       expect(result.separator).toBe(',');
@@ -199,4 +235,177 @@ account2 assets:bank:revolut
       expect(result.amountFields.single).toBe('amount'); // %6 -> index 5
     });
   });
+
+  describe('parseRulesAst', () => {
+    it('should parse directives, fields and top-level assignments with line numbers', () => {
+      const ast = parseRulesAst(`# comment
+source ../import/*.csv
+newest-first
+decimal-mark ,
+encoding iso-8859-1
+fields date, description, amount
+account1 assets:bank:ubs
+frobnicate yes
+`);
+
+      expect(ast.nodes).toEqual([
+        { type: 'directive', name: 'source', value: '../import/*.csv', line: 2 },
+        { type: 'directive', name: 'newest-first', value: '', line: 3 },
+        { type: 'directive', name: 'decimal-mark', value: ',', line: 4 },
+        { type: 'directive', name: 'encoding', value: 'iso-8859-1', line: 5 },
+        { type: 'fields', names: ['date', 'description', 'amount'], line: 6 },
+        { type: 'assignment', field: 'account1', value: 'assets:bank:ubs', line: 7 },
+        { type: 'unknown', text: 'frobnicate yes', line: 8 },
+      ]);
+    });
+
+    it('should parse if blocks with several matcher lines', () => {
+      const ast = parseRulesAst(`if
+%description MIGROS
+& %amount ^-
+!%description REFUND
+    account2 expenses:groceries
+    comment shopping
+
+if SBB|ZVV
+    account2 expenses:transport
+`);
+
+      expect(ast.nodes).toEqual([
+        {
+          type: 'if',
+          matchers: [
+            { field: 'description', pattern: 'MIGROS', negated: false, and: false, line: 2 },
+            { field: 'amount', pattern: '^-', negated: false, and: true, line: 3 },
+            { field: 'description', pattern: 'REFUND', negated: true, and: false, line: 4 },
+          ],
+          assignments: [
+            { type: 'assignment', field: 'account2', value: 'expenses:groceries', line: 5 },
+            { type: 'assignment', field: 'comment', value: 'shopping', line: 6 },
+          ],
+          line: 1,
+        },
+        {
+          type: 'if',
+          matchers: [{ pattern: 'SBB|ZVV', negated: false, and: false, line: 8 }],
+          assignments: [
+            { type: 'assignment', field: 'account2', value: 'expenses:transport', line: 9 },
+          ],
+          line: 8,
+        },
+      ]);
+    });
+
+    it('should parse if tables', () => {
+      const ast = parseRulesAst(`if,account2,comment
+%description Migros,expenses:groceries,food
+Netflix,expenses:subscriptions,
+
+account1 assets:bank
+`);
+
+      expect(ast.nodes[0]).toEqual({
+        type: 'if-table',
+        separator: ',',
+        fields: ['account2', 'comment'],
+        rows: [
+          {
+            matcher: {
+              field: 'description',
+              pattern: 'Migros',
+              negated: false,
+              and: false,
+              line: 2,
+            },
+            values: ['expenses:groceries', 'food'],
+            line: 2,
+          },
+          {
+            matcher: { pattern: 'Netflix', negated: false, and: false, line: 3 },
+            values: ['expenses:subscriptions', ''],
+            line: 3,
+          },
+        ],
+        line: 1,
+      });
+      expect(getAllAssignments(ast).map((a) => `${a.field} ${a.value}`)).toEqual([
+        'account2 expenses:groceries',
+        'comment food',
+        'account2 expenses:subscriptions',
+        'comment ',
+        'account1 assets:bank',
+      ]);
+    });
+  });
+
+  describe('readRulesFile', () => {
+    let tempDir: string | undefined;
+
+    afterEach(() => {
+      if (tempDir) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should inline included rules files', () => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-parser-test-'));
+      fs.mkdirSync(path.join(tempDir, 'common'));
+      fs.writeFileSync(
+        path.join(tempDir, 'common/categories.rules'),
+        'if Migros\n    account2 expenses:groceries\n'
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'ubs.rules'),
+        'account1 assets:bank:ubs\ninclude common/categories.rules\ninclude missing.rules\n'
+      );
+
+      const ast = readRulesFile(path.join(tempDir, 'ubs.rules'));
+
+      expect(ast.nodes.map((node) => node.type)).toEqual(['assignment', 'if', 'directive']);
+      expect(ast.nodes[2]).toMatchObject({ name: 'include', value: 'missing.rules' });
+    });
+
+    it('should derive the CSV configuration from directives in included files', () => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-parser-test-'));
+      fs.writeFileSync(
+        path.join(tempDir, 'ubs-csv.rules'),
+        'skip 9\nseparator ;\nfields trade_date, debit, credit, description\ndate-format %d.%m.%Y\n'
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'ubs.rules'),
+        'include ubs-csv.rules\naccount1 assets:bank:ubs\n'
+      );
+
+      expect(getRulesConfig(readRulesFile(path.join(tempDir, 'ubs.rules')))).toMatchObject({
+        skipRows: 9,
+        separator: ';',
+        fieldNames: ['trade_date', 'debit', 'credit', 'description'],
+        dateFormat: '%d.%m.%Y',
+        dateField: 'trade_date',
+      });
+    });
+  });
+
+  describe('getRulesConfig with optional directives', () => {
+    it('should report decimal mark, newest-first, encoding and currency', () => {
+      const result = getRulesConfig(
+        parseRulesAst(
+          'fields date, amount\ndecimal-mark ,\nnewest-first\nencoding utf-16\ncurrency EUR\n'
+        )
+      );
+
+      expect(result).toMatchObject({
+        decimalMark: ',',
+        newestFirst: true,
+        encoding: 'utf-16',
+        currency: 'EUR',
+      });
+    });
+
+    it('should use a CSV field named date as date field', () => {
+      expect(getRulesConfig(parseRulesAst('fields description, date, amount')).dateField).toBe(
+        'date'
+      );
+    });
+  });
 });
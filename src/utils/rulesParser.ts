@@ -1,9 +1,12 @@
 /**
  * Utilities for parsing hledger rules files.
- * Extracts directives like skip, separator, fields, date-format, and amount patterns.
+ * Parses the rules file into an AST of directives, field assignments and conditional
+ * blocks and tables, and derives the CSV configuration (skip, separator, fields,
+ * date-format, amount fields) from it.
  */
 
 import * as fs from 'fs';
+import * as path from 'path';
 
 export interface RulesConfig {
   skipRows: number;
@@ -12,6 +15,14 @@ export interface RulesConfig {
   dateFormat: string;
   dateField: string;
   amountFields: AmountFields;
+  /** Decimal mark of the CSV amounts (decimal-mark directive) */
+  decimalMark?: string;
+  /** The CSV lists the newest record first (newest-first directive) */
+  newestFirst?: boolean;
+  /** Text encoding of the CSV (encoding directive) */
+  encoding?: string;
+  /** Currency assigned to all amounts (top-level currency assignment) */
+  currency?: string;
 }
 
 export interface AmountFields {
@@ -21,23 +32,408 @@ export interface AmountFields {
   credit?: string;
 }
 
+/**
+ * Rules-file directives that configure the conversion rather than assign a field
+ */
+const DIRECTIVE_NAMES = [
+  'source',
+  'archive',
+  'encoding',
+  'separator',
+  'skip',
+  'date-format',
+  'timezone',
+  'newest-first',
+  'intra-day-reversed',
+  'decimal-mark',
+  'balance-type',
+  'include',
+] as const;
+
+export type DirectiveName = (typeof DIRECTIVE_NAMES)[number];
+
+/** hledger fields that can be assigned (e.g., account2, amount-in, amount1-out, comment3) */
+const FIELD_NAME_PATTERN =
+  /^(date2?|status|code|description|comment\d*|account\d+|amount\d*(?:-in|-out)?|currency\d*|balance\d*)$/;
+
+/** A reference to a CSV field in a value (%date, %3) */
+const FIELD_REFERENCE_PATTERN = /%(\w+(?:-\w+)*)/g;
+
+/**
+ * A directive line, e.g. "skip 9" or "newest-first" (value '')
+ */
+export interface DirectiveNode {
+  type: 'directive';
+  name: DirectiveName;
+  value: string;
+  line: number;
+}
+
+/**
+ * The CSV field names ("fields date, description, amount")
+ */
+export interface FieldsNode {
+  type: 'fields';
+  names: string[];
+  line: number;
+}
+
+/**
+ * A field assignment, e.g. "account2 expenses:food" or "amount -%debit"
+ */
+export interface AssignmentNode {
+  type: 'assignment';
+  field: string;
+  value: string;
+  line: number;
+}
+
+/**
+ * A matcher of a conditional block or table row: a regex matched against the whole
+ * CSV record, or against one field ("%description Migros")
+ */
+export interface RulesMatcher {
+  /** CSV field reference without % (e.g., "description" or "3") */
+  field?: string;
+  pattern: string;
+  /** The matcher starts with ! and matches records the pattern doesn't match */
+  negated: boolean;
+  /** The matcher starts with & and must match together with the previous one */
+  and: boolean;
+  line: number;
+}
+
+/**
+ * An if block: field assignments applied to records matching any of the matchers
+ */
+export interface IfBlockNode {
+  type: 'if';
+  matchers: RulesMatcher[];
+  assignments: AssignmentNode[];
+  line: number;
+  /** Included rules file the block was read from (see readRulesFile) */
+  file?: string;
+}
+
+/**
+ * A row of an if table: the matcher and the values for the table's fields
+ */
+export interface IfTableRow {
+  matcher: RulesMatcher;
+  values: string[];
+  line: number;
+}
+
+/**
+ * An if table ("if,account2,comment"): assigns the values of the first matching row
+ */
+export interface IfTableNode {
+  type: 'if-table';
+  separator: string;
+  fields: string[];
+  rows: IfTableRow[];
+  line: number;
+  /** Included rules file the table was read from (see readRulesFile) */
+  file?: string;
+}
+
+/**
+ * A line the parser doesn't recognize
+ */
+export interface UnknownNode {
+  type: 'unknown';
+  text: string;
+  line: number;
+}
+
+export type RulesNode =
+  | DirectiveNode
+  | FieldsNode
+  | AssignmentNode
+  | IfBlockNode
+  | IfTableNode
+  | UnknownNode;
+
+/**
+ * A parsed rules file. Nodes are in file order; comments and blank lines are dropped.
+ */
+export interface RulesAst {
+  nodes: RulesNode[];
+}
+
+const isComment = (trimmed: string) => /^[#;*]/.test(trimmed);
+
+/**
+ * Parse a matcher line of an if block or table row.
+ */
+function parseMatcher(text: string, line: number): RulesMatcher {
+  let rest = text.trim();
+  const and = rest.startsWith('&');
+  if (and) {
+    rest = rest.slice(1).trim();
+  }
+  const negated = rest.startsWith('!');
+  if (negated) {
+    rest = rest.slice(1).trim();
+  }
+  const fieldMatch = rest.match(/^%(\w+(?:-\w+)*)\s+(.*)$/);
+  return fieldMatch
+    ? { field: fieldMatch[1], pattern: fieldMatch[2].trim(), negated, and, line }
+    : { pattern: rest, negated, and, line };
+}
+
+/**
+ * Split a field assignment line into field name and value.
+ */
+function parseAssignment(trimmed: string, line: number): AssignmentNode {
+  const match = trimmed.match(/^(\S+)\s*(.*)$/);
+  return { type: 'assignment', field: match?.[1] ?? trimmed, value: match?.[2].trim() ?? '', line };
+}
+
+/**
+ * Check whether a name is an hledger field that can be assigned.
+ */
+export function isAssignableField(name: string): boolean {
+  return FIELD_NAME_PATTERN.test(name);
+}
+
+/**
+ * Parse rules file content into an AST of directives, field assignments and
+ * conditional blocks and tables. Includes are not followed (see readRulesFile).
+ *
+ * @param rulesContent Content of the rules file
+ */
+export function parseRulesAst(rulesContent: string): RulesAst {
+  const nodes: RulesNode[] = [];
+  const lines = rulesContent.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i];
+    const trimmed = raw.trim();
+    const line = i + 1;
+    if (trimmed === '' || isComment(trimmed)) {
+      continue;
+    }
+
+    // if table: "if" directly followed by the separator character
+    const tableMatch = raw.match(/^if([^\s\w%&!])(.*)$/);
+    if (tableMatch) {
+      const [, separator, header] = tableMatch;
+      const table: IfTableNode = {
+        type: 'if-table',
+        separator,
+        fields: header.split(separator).map((field) => field.trim()),
+        rows: [],
+        line,
+      };
+      while (i + 1 < lines.length && lines[i + 1].trim() !== '') {
+        i++;
+        const rowText = lines[i].trim();
+        if (isComment(rowText)) {
+          continue;
+        }
+        const [matcherText, ...values] = rowText.split(separator);
+        table.rows.push({
+          matcher: parseMatcher(matcherText, i + 1),
+          values: values.map((value) => value.trim()),
+          line: i + 1,
+        });
+      }
+      nodes.push(table);
+      continue;
+    }
+
+    // if block: matchers on the if line and/or the following unindented lines,
+    // then indented field assignments
+    const ifMatch = raw.match(/^if(?:\s+(.*))?$/);
+    if (ifMatch) {
+      const block: IfBlockNode = { type: 'if', matchers: [], assignments: [], line };
+      if (ifMatch[1]?.trim()) {
+        block.matchers.push(parseMatcher(ifMatch[1], line));
+      }
+      while (i + 1 < lines.length && lines[i + 1].trim() !== '') {
+        const next = lines[i + 1];
+        const nextTrimmed = next.trim();
+        if (isComment(nextTrimmed)) {
+          i++;
+          continue;
+        }
+        if (/^\s/.test(next)) {
+          block.assignments.push(parseAssignment(nextTrimmed, i + 2));
+        } else if (block.assignments.length === 0) {
+          block.matchers.push(parseMatcher(nextTrimmed, i + 2));
+        } else {
+          break;
+        }
+        i++;
+      }
+      nodes.push(block);
+      continue;
+    }
+
+    const name = trimmed.split(/\s+/)[0];
+    const rest = raw.trimStart().slice(name.length);
+
+    if (name === 'fields') {
+      nodes.push({
+        type: 'fields',
+        names: rest.split(',').map((field) => field.trim()),
+        line,
+      });
+      continue;
+    }
+
+    if ((DIRECTIVE_NAMES as readonly string[]).includes(name)) {
+      // Keep a whitespace value such as a tab separator
+      const value = rest.trim() || rest.replace(/^ /, '');
+      nodes.push({ type: 'directive', name: name as DirectiveName, value, line });
+      continue;
+    }
+
+    nodes.push(
+      isAssignableField(name)
+        ? parseAssignment(trimmed, line)
+        : { type: 'unknown', text: trimmed, line }
+    );
+  }
+
+  return { nodes };
+}
+
+/**
+ * Read and parse a rules file, replacing include directives with the nodes of the
+ * included files (relative to the including file). Includes that cannot be read are kept.
+ * If blocks and tables of included files carry the path of their file, as their line
+ * numbers refer to it.
+ *
+ * @param rulesFilePath Path to the rules file
+ * @throws Error if the rules file itself cannot be read
+ */
+export function readRulesFile(rulesFilePath: string): RulesAst {
+  const expand = (filePath: string, visited: Set<string>): RulesNode[] => {
+    const ast = parseRulesAst(fs.readFileSync(filePath, 'utf-8'));
+    return ast.nodes.flatMap((node): RulesNode[] => {
+      if ((node.type === 'if' || node.type === 'if-table') && filePath !== absolutePath) {
+        return [{ ...node, file: filePath }];
+      }
+      if (node.type !== 'directive' || node.name !== 'include') {
+        return [node];
+      }
+      const includedPath = path.resolve(path.dirname(filePath), node.value);
+      if (visited.has(includedPath) || !fs.existsSync(includedPath)) {
+        return [node];
+      }
+      return expand(includedPath, new Set([...visited, includedPath]));
+    });
+  };
+
+  const absolutePath = path.resolve(rulesFilePath);
+  return { nodes: expand(absolutePath, new Set([absolutePath])) };
+}
+
+/**
+ * Get the value of the first directive with the given name.
+ */
+export function getDirective(ast: RulesAst, name: DirectiveName): string | undefined {
+  const node = ast.nodes.find((n): n is DirectiveNode => n.type === 'directive' && n.name === name);
+  return node?.value;
+}
+
+/**
+ * Get the CSV field names of the fields directive.
+ */
+export function getFieldNames(ast: RulesAst): string[] {
+  return ast.nodes.find((n): n is FieldsNode => n.type === 'fields')?.names ?? [];
+}
+
+/**
+ * Get the value of the first top-level (unconditional) assignment of a field.
+ */
+export function getTopLevelAssignment(ast: RulesAst, field: string): string | undefined {
+  return ast.nodes.find((n): n is AssignmentNode => n.type === 'assignment' && n.field === field)
+    ?.value;
+}
+
+/**
+ * List all field assignments: top-level, in if blocks, and in if table rows
+ * (one per row and table field).
+ */
+export function getAllAssignments(ast: RulesAst): AssignmentNode[] {
+  return ast.nodes.flatMap((node): AssignmentNode[] => {
+    switch (node.type) {
+      case 'assignment':
+        return [node];
+      case 'if':
+        return node.assignments;
+      case 'if-table':
+        return node.rows.flatMap((row) =>
+          node.fields.map((field, index) => ({
+            type: 'assignment' as const,
+            field,
+            value: row.values[index] ?? '',
+            line: row.line,
+          }))
+        );
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * List the CSV fields referenced in a value ("%date %time" → ["date", "time"]).
+ */
+export function getFieldReferences(value: string): string[] {
+  return Array.from(value.matchAll(FIELD_REFERENCE_PATTERN), (match) => match[1]);
+}
+
+/**
+ * Resolve a CSV field reference to its name ("%3" is the third of the fields directive).
+ */
+export function resolveFieldReference(reference: string, fieldNames: string[]): string {
+  if (/^\d+$/.test(reference)) {
+    return fieldNames[parseInt(reference, 10) - 1] || reference;
+  }
+  return reference;
+}
+
 /**
  * Parse the 'skip' directive from rules file.
- * Example: "skip 9" returns 9
+ * Example: "skip 9" returns 9; "skip" alone skips 1 row
  */
 export function parseSkipRows(rulesContent: string): number {
-  const match = rulesContent.match(/^skip\s+(\d+)/m);
-  return match ? parseInt(match[1], 10) : 0;
+  return skipRowsOf(parseRulesAst(rulesContent));
+}
+
+function skipRowsOf(ast: RulesAst): number {
+  const value = getDirective(ast, 'skip');
+  if (value === undefined) {
+    return 0;
+  }
+  return value === '' ? 1 : parseInt(value, 10) || 0;
 }
 
 /**
  * Parse the 'separator' directive from rules file.
- * Example: "separator ;" returns ";"
+ * Example: "separator ;" returns ";", "separator TAB" returns "\t"
  * Default: ","
  */
 export function parseSeparator(rulesContent: string): string {
-  const match = rulesContent.match(/^separator\s+(.)/m);
-  return match ? match[1] : ',';
+  return separatorOf(parseRulesAst(rulesContent));
+}
+
+function separatorOf(ast: RulesAst): string {
+  const value = getDirective(ast, 'separator');
+  if (!value) {
+    return ',';
+  }
+  if (value.toUpperCase() === 'TAB') {
+    return '\t';
+  }
+  if (value.toUpperCase() === 'SPACE') {
+    return ' ';
+  }
+  return value[0];
 }
 
 /**
@@ -46,11 +442,7 @@ export function parseSeparator(rulesContent: string): string {
  * Returns: ["date", "description", "amount", "balance"]
  */
 export function parseFieldNames(rulesContent: string): string[] {
-  const match = rulesContent.match(/^fields\s+(.+)$/m);
-  if (!match) {
-    return [];
-  }
-  return match[1].split(',').map((field) => field.trim());
+  return getFieldNames(parseRulesAst(rulesContent));
 }
 
 /**
@@ -59,8 +451,7 @@ export function parseFieldNames(rulesContent: string): string[] {
  * Default: "%Y-%m-%d"
  */
 export function parseDateFormat(rulesContent: string): string {
-  const match = rulesContent.match(/^date-format\s+(.+)$/m);
-  return match ? match[1].trim() : '%Y-%m-%d';
+  return getDirective(parseRulesAst(rulesContent), 'date-format') || '%Y-%m-%d';
 }
 
 /**
@@ -69,69 +460,74 @@ export function parseDateFormat(rulesContent: string): string {
  * Example: "date %1" returns field at index 0 from fields list
  */
 export function parseDateField(rulesContent: string, fieldNames: string[]): string {
-  const match = rulesContent.match(/^date\s+%(\w+|\d+)/m);
-  if (!match) {
-    // Default to first field or 'date'
-    return fieldNames[0] || 'date';
-  }
+  return dateFieldOf(parseRulesAst(rulesContent), fieldNames);
+}
 
-  const value = match[1];
-  // Check if it's a numeric index (1-indexed in hledger)
-  if (/^\d+$/.test(value)) {
-    const index = parseInt(value, 10) - 1;
-    return fieldNames[index] || value;
+function dateFieldOf(ast: RulesAst, fieldNames: string[]): string {
+  const [reference] = getFieldReferences(getTopLevelAssignment(ast, 'date') ?? '');
+  if (reference) {
+    return resolveFieldReference(reference, fieldNames);
   }
-
-  return value;
+  // A CSV field named "date" is assigned automatically; default to first field or 'date'
+  return fieldNames.includes('date') ? 'date' : fieldNames[0] || 'date';
 }
 
 /**
  * Parse amount field configuration from rules file.
- * Handles both single amount field and separate debit/credit fields.
+ * Handles a single amount field, amount-in/amount-out fields, and separate
+ * debit/credit fields assigned in if blocks.
  *
  * Examples:
  *   "amount %amount" -> { single: "amount" }
+ *   "amount-in %credit\namount-out %debit" -> { debit: "debit", credit: "credit" }
  *   "if %debit .\n    amount -%debit" -> { debit: "debit" }
  *   "if %credit .\n    amount %credit" -> { credit: "credit" }
  */
 export function parseAmountFields(rulesContent: string, fieldNames: string[]): AmountFields {
-  const result: AmountFields = {};
-
-  // Check for simple amount field
-  const simpleMatch = rulesContent.match(/^amount\s+(-?)%(\w+|\d+)/m);
-  if (simpleMatch) {
-    const fieldRef = simpleMatch[2];
-    if (/^\d+$/.test(fieldRef)) {
-      const index = parseInt(fieldRef, 10) - 1;
-      result.single = fieldNames[index] || fieldRef;
-    } else {
-      result.single = fieldRef;
-    }
-  }
+  return amountFieldsOf(parseRulesAst(rulesContent), fieldNames);
+}
 
-  // Check for conditional debit field
-  const debitMatch = rulesContent.match(/if\s+%(\w+)\s+\.\s*\n\s*amount\s+-?%\1/m);
-  if (debitMatch) {
-    result.debit = debitMatch[1];
-  }
+function amountFieldsOf(ast: RulesAst, fieldNames: string[]): AmountFields {
+  const referenceOf = (value: string | undefined) => {
+    const match = value?.match(/^-?%(\w+(?:-\w+)*)/);
+    return match ? resolveFieldReference(match[1], fieldNames) : undefined;
+  };
 
-  // Check for conditional credit field
-  const creditMatch = rulesContent.match(/if\s+%(\w+)\s+\.\s*\n\s*amount\s+%\1(?!\w)/m);
-  if (creditMatch && creditMatch[1] !== result.debit) {
-    result.credit = creditMatch[1];
-  }
+  // amount-in/amount-out assignments, or CSV fields named so
+  let credit =
+    referenceOf(getTopLevelAssignment(ast, 'amount-in')) ??
+    (fieldNames.includes('amount-in') ? 'amount-in' : undefined);
+  let debit =
+    referenceOf(getTopLevelAssignment(ast, 'amount-out')) ??
+    (fieldNames.includes('amount-out') ? 'amount-out' : undefined);
 
-  // If we found debit/credit pattern, clear single
-  if (result.debit || result.credit) {
-    delete result.single;
+  // Conditional debit/credit fields: "if %debit ." with "amount -%debit"
+  for (const block of ast.nodes) {
+    if (block.type !== 'if') {
+      continue;
+    }
+    const matchedFields = block.matchers.map((matcher) => matcher.field);
+    for (const assignment of block.assignments) {
+      const reference = assignment.value.match(/^(-?)%(\w+(?:-\w+)*)$/);
+      if (!reference || !matchedFields.includes(reference[2])) {
+        continue;
+      }
+      const field = resolveFieldReference(reference[2], fieldNames);
+      const negated = reference[1] === '-';
+      if (assignment.field === 'amount-out' || (assignment.field === 'amount' && negated)) {
+        debit ??= field;
+      } else if (assignment.field === 'amount-in' || assignment.field === 'amount') {
+        credit ??= field === debit ? undefined : field;
+      }
+    }
   }
 
-  // Default to 'amount' if nothing found
-  if (!result.single && !result.debit && !result.credit) {
-    result.single = 'amount';
+  if (debit || credit) {
+    return { ...(debit && { debit }), ...(credit && { credit }) };
   }
 
-  return result;
+  // Simple amount field, defaulting to 'amount'
+  return { single: referenceOf(getTopLevelAssignment(ast, 'amount')) ?? 'amount' };
 }
 
 /**
@@ -140,8 +536,7 @@ export function parseAmountFields(rulesContent: string, fieldNames: string[]): A
  * Example: "account1 assets:bank:ubs:checking" returns "assets:bank:ubs:checking"
  */
 export function parseAccount1(rulesContent: string): string | null {
-  const match = rulesContent.match(/^account1\s+(.+)$/m);
-  return match ? match[1].trim() : null;
+  return getTopLevelAssignment(parseRulesAst(rulesContent), 'account1') || null;
 }
 
 /**
@@ -153,25 +548,40 @@ export function parseAccount1(rulesContent: string): string | null {
  */
 export function getAccountFromRulesFile(rulesFilePath: string): string | null {
   try {
-    const content = fs.readFileSync(rulesFilePath, 'utf-8');
-    return parseAccount1(content);
+    return getTopLevelAssignment(readRulesFile(rulesFilePath), 'account1') || null;
   } catch {
     return null;
   }
 }
 
 /**
- * Parse all relevant directives from a rules file.
+ * Derive the CSV configuration from a parsed rules file.
  */
-export function parseRulesFile(rulesContent: string): RulesConfig {
-  const fieldNames = parseFieldNames(rulesContent);
-
-  return {
-    skipRows: parseSkipRows(rulesContent),
-    separator: parseSeparator(rulesContent),
+export function getRulesConfig(ast: RulesAst): RulesConfig {
+  const fieldNames = getFieldNames(ast);
+  const config: RulesConfig = {
+    skipRows: skipRowsOf(ast),
+    separator: separatorOf(ast),
     fieldNames,
-    dateFormat: parseDateFormat(rulesContent),
-    dateField: parseDateField(rulesContent, fieldNames),
-    amountFields: parseAmountFields(rulesContent, fieldNames),
+    dateFormat: getDirective(ast, 'date-format') || '%Y-%m-%d',
+    dateField: dateFieldOf(ast, fieldNames),
+    amountFields: amountFieldsOf(ast, fieldNames),
   };
+
+  const decimalMark = getDirective(ast, 'decimal-mark');
+  if (decimalMark) {
+    config.decimalMark = decimalMark;
+  }
+  if (getDirective(ast, 'newest-first') !== undefined) {
+    config.newestFirst = true;
+  }
+  const encoding = getDirective(ast, 'encoding');
+  if (encoding) {
+    config.encoding = encoding;
+  }
+  const currency = getTopLevelAssignment(ast, 'currency');
+  if (currency) {
+    config.currency = currency;
+  }
+  return config;
 }
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findRunningBalanceDivergence,
+  parseRegisterPostings,
+  toStatementRows,
+  type JournalPosting,
+  type StatementRow,
+} from './runningBalance.ts';
+import type { RulesConfig } from './rulesParser.ts';
+
+const config: RulesConfig = {
+  skipRows: 0,
+  separator: ',',
+  fieldNames: ['date', 'description', 'amount', 'balance'],
+  dateFormat: '%d.%m.%Y',
+  dateField: 'date',
+  amountFields: { single: 'amount' },
+};
+
+// Opening balance 100.00
+const rows: StatementRow[] = [
+  { row: 1, date: '2026-01-05', description: 'Coop', amount: -10, balance: 90 },
+  { row: 2, date: '2026-01-05', description: 'Migros', amount: -20, balance: 70 },
+  { row: 3, date: '2026-01-10', description: 'Salary', amount: 500, balance: 570 },
+  { row: 4, date: '2026-01-12', description: 'Card payment', amount: -30, balance: 538.5 },
+];
+
+const posting = (date: string, description: string, amount: number): JournalPosting => ({
+  date,
+  description,
+  amount,
+});
+
+const matchingPostings = [
+  posting('2026-01-05', 'Migros', -20),
+  posting('2026-01-05', 'Coop', -10),
+  posting('2026-01-10', 'Salary', 500),
+  posting('2026-01-12', 'Card payment', -30),
+  posting('2026-01-12', 'Card fee', -1.5),
+];
+
+describe('runningBalance', () => {
+  describe('toStatementRows', () => {
+    it('converts rows and reverses newest-first exports', () => {
+      const csvRows = [
+        { date: '10.01.2026', description: 'Salary', amount: '500.00', balance: '570.00' },
+        { date: '05.01.2026', description: 'Coop', amount: '-10.00', balance: '70.00' },
+        { date: '', description: 'Total', amount: '', balance: '' },
+      ];
+
+      expect(toStatementRows(csvRows, config, 'balance')).toEqual([
+        { row: 2, date: '2026-01-05', description: 'Coop', amount: -10, balance: 70 },
+        { row: 1, date: '2026-01-10', description: 'Salary', amount: 500, balance: 570 },
+      ]);
+    });
+  });
+
+  describe('parseRegisterPostings', () => {
+    it('parses hledger register CSV output', () => {
+      const output = `"txnidx","date","code","description","account","amount","total"
+"1","2026-01-05","","Coop, Basel","assets:bank:ubs","CHF -10.00","CHF 90.00"
+"2","2026-01-10","","Salary","assets:bank:ubs","CHF 500.00","CHF 590.00"`;
+
+      expect(parseRegisterPostings(output)).toEqual([
+        posting('2026-01-05', 'Coop, Basel', -10),
+        posting('2026-01-10', 'Salary', 500),
+      ]);
+    });
+  });
+
+  describe('findRunningBalanceDivergence', () => {
+    it('returns null when the balances agree on every date', () => {
+      expect(findRunningBalanceDivergence(rows, matchingPostings, 100)).toBeNull();
+    });
+
+    it('reports a statement row missing from the journal', () => {
+      const postings = matchingPostings.filter((p) => p.description !== 'Salary');
+
+      const divergence = findRunningBalanceDivergence(rows, postings, 100);
+
+      expect(divergence).toMatchObject({
+        date: '2026-01-10',
+        row: 3,
+        expectedBalance: 570,
+        actualBalance: 70,
+        difference: -500,
+      });
+      expect(divergence?.causes).toEqual([
+        expect.objectContaining({ type: 'missing-row', row: 3 }),
+      ]);
+    });
+
+    it('reports a duplicate posting', () => {
+      const postings = [...matchingPostings, posting('2026-01-05', 'Coop', -10)];
+
+      const divergence = findRunningBalanceDivergence(rows, postings, 100);
+
+      expect(divergence?.date).toBe('2026-01-05');
+      expect(divergence?.causes).toEqual([expect.objectContaining({ type: 'duplicate' })]);
+    });
+
+    it('reports a posting with the opposite sign', () => {
+      const postings = matchingPostings.map((p) =>
+        p.description === 'Migros' ? { ...p, amount: 20 } : p
+      );
+
+      const divergence = findRunningBalanceDivergence(rows, postings, 100);
+
+      expect(divergence?.causes).toEqual([
+        expect.objectContaining({ type: 'sign-flip', row: 2, amount: -20 }),
+      ]);
+    });
+
+    it('reports a fee that was deducted but not imported', () => {
+      const postings = matchingPostings.filter((p) => p.description !== 'Card fee');
+
+      const divergence = findRunningBalanceDivergence(rows, postings, 100);
+
+      expect(divergence).toMatchObject({ date: '2026-01-12', difference: 1.5 });
+      expect(divergence?.causes).toEqual([
+        expect.objectContaining({ type: 'fee-not-imported', row: 4, amount: -1.5 }),
+      ]);
+    });
+
+    it('reports a difference before the first row', () => {
+      const divergence = findRunningBalanceDivergence(rows, matchingPostings, 80);
+
+      expect(divergence).toMatchObject({
+        date: '2026-01-05',
+        expectedBalance: 100,
+        actualBalance: 80,
+      });
+      expect(divergence?.causes[0].type).toBe('opening-balance');
+    });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Running Balance Verification
+ *
+ * Walks the running balance column of a bank statement alongside the journal
+ * postings of the same account to find the first date where they diverge,
+ * and suggests likely causes for the divergence.
+ */
+
+import Papa from 'papaparse';
+import type { CsvRowData } from './csvParser.ts';
+import { getRowAmount, parseDateToIso } from './csvParser.ts';
+import type { RulesConfig } from './rulesParser.ts';
+import { parseAmountValue, type NumberFormat } from './balanceUtils.ts';
+
+/**
+ * Common names of the running balance column in bank CSVs
+ */
+export const BALANCE_FIELD_NAMES = [
+  'balance',
+  'Balance',
+  'BALANCE',
+  'closing-balance',
+  'Closing Balance',
+  'account_balance',
+  'Account Balance',
+  'saldo',
+  'Saldo',
+  'SALDO',
+];
+
+/** Amounts closer than this are considered equal */
+const TOLERANCE = 0.005;
+
+/**
+ * A statement row with its running balance, in chronological order
+ */
+export interface StatementRow {
+  /** 1-based position of the row among the CSV data rows */
+  row: number;
+  date: string;
+  description: string;
+  amount: number;
+  balance: number;
+}
+
+/**
+ * A journal posting to the reconciled account
+ */
+export interface JournalPosting {
+  date: string;
+  description: string;
+  amount: number;
+}
+
+/**
+ * A likely cause of a running balance divergence
+ */
+export interface DivergenceCause {
+  /**
+   * missing-row: statement row not in the journal; duplicate: posting recorded twice;
+   * sign-flip: posting with the opposite sign; fee-not-imported: balance moved by more than
+   * the row amount; unmatched-posting: journal posting without statement row;
+   * opening-balance: balances differ before the first row
+   */
+  type:
+    | 'missing-row'
+    | 'duplicate'
+    | 'sign-flip'
+    | 'fee-not-imported'
+    | 'unmatched-posting'
+    | 'opening-balance';
+  description: string;
+  row?: number;
+  amount?: number;
+}
+
+/**
+ * The first date on which the journal balance differs from the statement's running balance
+ */
+export interface BalanceDivergence {
+  date: string;
+  /** Last statement row of the date */
+  row?: number;
+  /** Running balance from the statement at the end of the date */
+  expectedBalance: number;
+  /** Journal balance at the end of the date */
+  actualBalance: number;
+  difference: number;
+  causes: DivergenceCause[];
+}
+
+/**
+ * Converts parsed CSV rows to statement rows in chronological order.
+ * Bank exports listing the newest row first are reversed. Rows without a date or
+ * balance (e.g., footers) are omitted.
+ *
+ * @param csvRows Rows parsed with parseCsvFile
+ * @param config Configuration parsed from the rules file
+ * @param balanceField Name of the running balance field
+ * @param numberFormat Number format of the CSV amounts
+ */
+export function toStatementRows(
+  csvRows: CsvRowData[],
+  config: RulesConfig,
+  balanceField: string,
+  numberFormat?: NumberFormat
+): StatementRow[] {
+  const rows: StatementRow[] = [];
+  csvRows.forEach((csvRow, index) => {
+    const date = parseDateToIso(csvRow[config.dateField] || '', config.dateFormat);
+    const balance = csvRow[balanceField];
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !balance || balance.trim() === '') {
+      return;
+    }
+    rows.push({
+      row: index + 1,
+      date,
+      description: (csvRow.description ?? '').trim(),
+      amount: getRowAmount(csvRow, config.amountFields, numberFormat),
+      balance: parseAmountValue(balance, numberFormat),
+    });
+  });
+
+  if (rows.length > 1 && rows[0].date > rows[rows.length - 1].date) {
+    rows.reverse();
+  }
+  return rows;
+}
+
+/**
+ * Parses hledger register CSV output into postings.
+ *
+ * @param registerOutput The stdout from hledger register -O csv
+ */
+export function parseRegisterPostings(registerOutput: string): JournalPosting[] {
+  const postings: JournalPosting[] = [];
+  const records = Papa.parse<string[]>(registerOutput.trim(), { skipEmptyLines: true }).data;
+  // CSV format: "txnidx","date","code","description","account","amount","total"
+  for (const fields of records.slice(1)) {
+    if (fields.length < 6 || !/^\d{4}-\d{2}-\d{2}$/.test(fields[1])) {
+      continue;
+    }
+    postings.push({
+      date: fields[1],
+      description: fields[3],
+      amount: parseAmountValue(fields[5]),
+    });
+  }
+  return postings;
+}
+
+const equal = (a: number, b: number) => Math.abs(a - b) < TOLERANCE;
+
+const describeRow = (row: StatementRow) =>
+  row.description
+    ? `Row ${row.row} "${row.description}" (${row.amount.toFixed(2)})`
+    : `Row ${row.row} (${row.amount.toFixed(2)})`;
+
+/**
+ * Finds likely causes of a divergence arising on one date, by pairing the statement
+ * rows and journal postings of that date by amount.
+ */
+function findCauses(
+  rows: StatementRow[],
+  postings: JournalPosting[],
+  previousBalance: number,
+  difference: number
+): DivergenceCause[] {
+  const causes: DivergenceCause[] = [];
+  const unmatchedPostings = [...postings];
+  const unmatchedRows: StatementRow[] = [];
+
+  for (const row of rows) {
+    const index = unmatchedPostings.findIndex((posting) => equal(posting.amount, row.amount));
+    if (index === -1) {
+      unmatchedRows.push(row);
+    } else {
+      unmatchedPostings.splice(index, 1);
+    }
+  }
+
+  for (const row of unmatchedRows) {
+    const flipped = unmatchedPostings.findIndex((posting) => equal(posting.amount, -row.amount));
+    if (flipped !== -1) {
+      unmatchedPostings.splice(flipped, 1);
+      causes.push({
+        type: 'sign-flip',
+        description: `${describeRow(row)} is in the journal with the opposite sign`,
+        row: row.row,
+        amount: row.amount,
+      });
+    } else {
+      causes.push({
+        type: 'missing-row',
+        description: `${describeRow(row)} is not in the journal`,
+        row: row.row,
+        amount: row.amount,
+      });
+    }
+  }
+
+  for (const posting of unmatchedPostings) {
+    const isDuplicate = rows.some((row) => equal(row.amount, posting.amount));
+    causes.push({
+      type: isDuplicate ? 'duplicate' : 'unmatched-posting',
+      description: isDuplicate
+        ? `"${posting.description}" (${posting.amount.toFixed(2)}) is in the journal more often than in the statement`
+        : `"${posting.description}" (${posting.amount.toFixed(2)}) has no matching statement row`,
+      amount: posting.amount,
+    });
+  }
+
+  // The running balance moved by more than the row amount: a fee or charge deducted with the row
+  let balance = previousBalance;
+  for (const row of rows) {
+    const charge = row.balance - balance - row.amount;
+    if (!equal(charge, 0) && equal(charge, -difference)) {
+      causes.push({
+        type: 'fee-not-imported',
+        description: `${describeRow(row)} moved the balance by ${(row.balance - balance).toFixed(2)} instead of its amount; a fee of ${(-charge).toFixed(2)} was probably not imported`,
+        row: row.row,
+        amount: charge,
+      });
+    }
+    balance = row.balance;
+  }
+
+  return causes;
+}
+
+/**
+ * Finds the first date on which the journal balance diverges from the statement's
+ * running balance. Balances are compared at the end of each date, so rows of the
+ * same day may be listed in any order.
+ *
+ * @param rows Statement rows in chronological order
+ * @param postings Journal postings to the account within the statement period
+ * @param journalOpeningBalance Journal balance before the first statement row
+ * @returns The divergence, or null if the balances agree on every date
+ */
+export function findRunningBalanceDivergence(
+  rows: StatementRow[],
+  postings: JournalPosting[],
+  journalOpeningBalance: number
+): BalanceDivergence | null {
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const statementOpeningBalance = rows[0].balance - rows[0].amount;
+  if (!equal(statementOpeningBalance, journalOpeningBalance)) {
+    const difference = journalOpeningBalance - statementOpeningBalance;
+    return {
+      date: rows[0].date,
+      expectedBalance: statementOpeningBalance,
+      actualBalance: journalOpeningBalance,
+      difference,
+      causes: [
+        {
+          type: 'opening-balance',
+          description: `The balances differ by ${difference.toFixed(2)} before the first row: transactions before the statement are missing or wrong`,
+        },
+      ],
+    };
+  }
+
+  const dates = Array.from(new Set(rows.map((row) => row.date)));
+  let previousBalance = statementOpeningBalance;
+  for (const date of dates) {
+    const dayRows = rows.filter((row) => row.date === date);
+    const dayPostings = postings.filter((posting) => posting.date === date);
+    const expectedBalance = dayRows[dayRows.length - 1].balance;
+    const actualBalance =
+      journalOpeningBalance +
+      postings
+        .filter((posting) => posting.date <= date)
+        .reduce((sum, posting) => sum + posting.amount, 0);
+
+    if (!equal(expectedBalance, actualBalance)) {
+      const difference = actualBalance - expectedBalance;
+      return {
+        date,
+        row: dayRows[dayRows.length - 1].row,
+        expectedBalance,
+        actualBalance,
+        difference,
+        causes: findCauses(dayRows, dayPostings, previousBalance, difference),
+      };
+    }
+    previousBalance = expectedBalance;
+  }
+
+  return null;
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createOpencodeSuggestionBackend,
+  defaultSuggestionBackend,
+  localSuggestionBackend,
+  parseModelId,
+  setSuggestionBackend,
+  type OpencodeClient,
+  type SuggestionRequest,
+} from './suggestionBackend.ts';
+import type { AgentConfig } from './agentLoader.ts';
+
+const request: SuggestionRequest = {
+  postings: [
+    {
+      date: '2026-01-02',
+      description: 'MIGROS ZURICH',
+      amount: 'CHF12.50',
+      account: 'expenses:unknown',
+    },
+    { date: '2026-01-03', description: 'Refund', amount: 'CHF-5.00', account: 'income:unknown' },
+  ],
+  prompt: 'Classify these transactions',
+  existingRules: [{ condition: 'migros|coop', account: 'expenses:groceries' }],
+};
+
+describe('suggestionBackend', () => {
+  afterEach(() => {
+    setSuggestionBackend(null);
+  });
+
+  describe('parseModelId', () => {
+    it('splits provider and model', () => {
+      expect(parseModelId('anthropic/claude-sonnet-4-5')).toEqual({
+        providerID: 'anthropic',
+        modelID: 'claude-sonnet-4-5',
+      });
+    });
+
+    it('keeps slashes in the model part', () => {
+      expect(parseModelId('openrouter/meta/llama')).toEqual({
+        providerID: 'openrouter',
+        modelID: 'meta/llama',
+      });
+    });
+
+    it('returns undefined without a provider', () => {
+      expect(parseModelId('claude-sonnet-4-5')).toBeUndefined();
+      expect(parseModelId(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('defaultSuggestionBackend', () => {
+    it('throws when no backend is configured', async () => {
+      await expect(defaultSuggestionBackend(request)).rejects.toThrow(
+        'No suggestion backend configured'
+      );
+    });
+
+    it('delegates to the configured backend', async () => {
+      setSuggestionBackend(async () => 'configured');
+
+      expect(await defaultSuggestionBackend(request)).toBe('configured');
+    });
+  });
+
+  describe('localSuggestionBackend', () => {
+    it('suggests accounts from matching rule patterns and falls back by type', async () => {
+      const response = await localSuggestionBackend(request);
+
+      expect(response).toContain('TRANSACTION 1:\nACCOUNT: expenses:groceries\nCONFIDENCE: medium');
+      expect(response).toContain('TRANSACTION 2:\nACCOUNT: income:other\nCONFIDENCE: low');
+    });
+
+    it('is deterministic', async () => {
+      expect(await localSuggestionBackend(request)).toBe(await localSuggestionBackend(request));
+    });
+  });
+
+  describe('createOpencodeSuggestionBackend', () => {
+    const agentConfig: AgentConfig = {
+      description: 'Suggester',
+      model: 'anthropic/claude-sonnet-4-5',
+      prompt: 'You are an accounting assistant.',
+    };
+
+    const createClient = (promptResult: { data?: unknown; error?: unknown }) => {
+      const session = {
+        create: vi.fn(async () => ({ data: { id: 'ses_1' } })),
+        prompt: vi.fn(async () => promptResult),
+        delete: vi.fn(async () => ({ data: true })),
+      };
+      return { client: { session } as unknown as OpencodeClient, session };
+    };
+
+    it('prompts the configured model and returns the text parts', async () => {
+      const { client, session } = createClient({
+        data: {
+          parts: [
+            { type: 'reasoning', text: 'thinking' },
+            { type: 'text', text: 'TRANSACTION 1:\nACCOUNT: expenses:groceries' },
+          ],
+        },
+      });
+
+      const response = await createOpencodeSuggestionBackend(client, agentConfig)(request);
+
+      expect(response).toBe('TRANSACTION 1:\nACCOUNT: expenses:groceries');
+      expect(session.prompt).toHaveBeenCalledWith({
+        path: { id: 'ses_1' },
+        body: {
+          model: { providerID: 'anthropic', modelID: 'claude-sonnet-4-5' },
+          system: 'You are an accounting assistant.',
+          tools: { '*': false },
+          parts: [{ type: 'text', text: 'Classify these transactions' }],
+        },
+      });
+      expect(session.delete).toHaveBeenCalledWith({ path: { id: 'ses_1' } });
+    });
+
+    it('throws on client errors and still deletes the session', async () => {
+      const { client, session } = createClient({ error: { name: 'BadRequest' } });
+
+      await expect(createOpencodeSuggestionBackend(client, agentConfig)(request)).rejects.toThrow(
+        'Model invocation failed'
+      );
+      expect(session.delete).toHaveBeenCalled();
+    });
+  });
+});
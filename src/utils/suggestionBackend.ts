@@ -0,0 +1,176 @@
+/**
+ * Suggestion Backends
+ *
+ * Backends turn a batch suggestion prompt into a response in the
+ * TRANSACTION/ACCOUNT/CONFIDENCE/REASONING format parsed by the account suggester.
+ */
+
+import type { PluginInput } from '@opencode-ai/plugin';
+import type { RulePattern } from './accountSuggester.ts';
+import type { AgentConfig } from './agentLoader.ts';
+import type { UnknownPosting } from './hledgerExecutor.ts';
+
+/**
+ * Request passed to a suggestion backend
+ */
+export interface SuggestionRequest {
+  /** Postings to classify, in the order they appear in the prompt */
+  postings: UnknownPosting[];
+  /** Batch prompt describing the postings, existing accounts and rule patterns */
+  prompt: string;
+  /** Rule patterns (condition → account) extracted from the rules file */
+  existingRules?: RulePattern[];
+}
+
+/**
+ * Type for the suggestion backend function (allows dependency injection for testing)
+ */
+export type SuggestionBackend = (request: SuggestionRequest) => Promise<string>;
+
+/**
+ * opencode SDK client as provided to the plugin
+ */
+export type OpencodeClient = PluginInput['client'];
+
+/**
+ * Backend registered by the plugin at startup (null when running outside opencode)
+ */
+let configuredBackend: SuggestionBackend | null = null;
+
+/**
+ * Registers the backend used by defaultSuggestionBackend.
+ * Pass null to unregister.
+ */
+export function setSuggestionBackend(backend: SuggestionBackend | null): void {
+  configuredBackend = backend;
+}
+
+/**
+ * Default suggestion backend delegating to the backend registered by the plugin
+ *
+ * @throws Error if no backend has been registered
+ */
+export async function defaultSuggestionBackend(request: SuggestionRequest): Promise<string> {
+  if (!configuredBackend) {
+    throw new Error('No suggestion backend configured');
+  }
+  return configuredBackend(request);
+}
+
+/**
+ * Splits an opencode model identifier ("provider/model") into its parts.
+ * Returns undefined for identifiers without a provider, so the session default model is used.
+ */
+export function parseModelId(
+  model: string | undefined
+): { providerID: string; modelID: string } | undefined {
+  if (!model) {
+    return undefined;
+  }
+
+  const separatorIndex = model.indexOf('/');
+  if (separatorIndex <= 0 || separatorIndex === model.length - 1) {
+    return undefined;
+  }
+
+  return {
+    providerID: model.slice(0, separatorIndex),
+    modelID: model.slice(separatorIndex + 1),
+  };
+}
+
+/**
+ * Formats an SDK error response for an error message
+ */
+function formatClientError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return typeof error === 'string' ? error : JSON.stringify(error);
+}
+
+/**
+ * Creates a backend that invokes the model configured in the agent frontmatter
+ * through the opencode plugin client. Each batch runs in its own short-lived session
+ * with the agent prompt as system prompt and all tools disabled.
+ *
+ * @param client The opencode client passed to the plugin
+ * @param agentConfig The account suggester agent (agent/account-suggester.md)
+ */
+export function createOpencodeSuggestionBackend(
+  client: OpencodeClient,
+  agentConfig: AgentConfig
+): SuggestionBackend {
+  return async (request: SuggestionRequest): Promise<string> => {
+    const session = await client.session.create({ body: { title: 'Account suggestions' } });
+    if (session.error || !session.data) {
+      throw new Error(`Failed to create session: ${formatClientError(session.error)}`);
+    }
+
+    const sessionId = session.data.id;
+    try {
+      const response = await client.session.prompt({
+        path: { id: sessionId },
+        body: {
+          model: parseModelId(agentConfig.model),
+          system: agentConfig.prompt,
+          tools: { '*': false },
+          parts: [{ type: 'text', text: request.prompt }],
+        },
+      });
+      if (response.error || !response.data) {
+        throw new Error(`Model invocation failed: ${formatClientError(response.error)}`);
+      }
+
+      return response.data.parts
+        .map((part) => (part.type === 'text' ? part.text : ''))
+        .join('\n')
+        .trim();
+    } finally {
+      await client.session.delete({ path: { id: sessionId } }).catch(() => undefined);
+    }
+  };
+}
+
+/**
+ * Tests a rule condition (an hledger regex) against a description, ignoring case
+ */
+function conditionMatches(condition: string, description: string): boolean {
+  try {
+    return new RegExp(condition, 'i').test(description);
+  } catch {
+    return description.toLowerCase().includes(condition.toLowerCase());
+  }
+}
+
+/**
+ * Deterministic local backend without model access.
+ * Suggests the account of the first existing rule pattern matching the description,
+ * otherwise falls back to income:other / expenses:other with low confidence.
+ */
+export async function localSuggestionBackend(request: SuggestionRequest): Promise<string> {
+  let response = '';
+
+  request.postings.forEach((posting, index) => {
+    const rule = request.existingRules?.find((pattern) =>
+      conditionMatches(pattern.condition, posting.description)
+    );
+
+    let account = posting.account === 'income:unknown' ? 'income:other' : 'expenses:other';
+    let confidence: 'high' | 'medium' | 'low' = 'low';
+    let reasoning = 'No matching rule pattern, generic classification by transaction type';
+
+    if (rule) {
+      account = rule.account;
+      confidence = 'medium';
+      reasoning = `Description matches existing rule pattern "${rule.condition}"`;
+    }
+
+    response += `TRANSACTION ${index + 1}:\n`;
+    response += `ACCOUNT: ${account}\n`;
+    response += `CONFIDENCE: ${confidence}\n`;
+    response += `REASONING: ${reasoning}\n\n`;
+  });
+
+  return response;
+}
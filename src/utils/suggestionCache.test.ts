@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  clearSuggestionCacheFile,
+  computeSuggestionFingerprint,
+  getSuggestionCacheSection,
+  getSuggestionCachePath,
+  loadSuggestionCache,
+  readSuggestionCache,
+  saveSuggestionCache,
+  SUGGESTION_CACHE_VERSION,
+} from './suggestionCache.ts';
+
+describe('suggestionCache', () => {
+  let testDir: string;
+  let cachePath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'suggestion-cache-test-'));
+    cachePath = getSuggestionCachePath(path.join(testDir, '.memory'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const entry = {
+    account: 'expenses:groceries',
+    confidence: 'high' as const,
+    reasoning: 'Grocery store',
+    description: 'Migros',
+    amount: 'CHF10.00',
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+
+  describe('computeSuggestionFingerprint', () => {
+    it('ignores account order', () => {
+      expect(computeSuggestionFingerprint(['b', 'a'], 'rules')).toBe(
+        computeSuggestionFingerprint(['a', 'b'], 'rules')
+      );
+    });
+
+    it('changes with accounts or rules', () => {
+      const base = computeSuggestionFingerprint(['a'], 'rules');
+      expect(computeSuggestionFingerprint(['a', 'b'], 'rules')).not.toBe(base);
+      expect(computeSuggestionFingerprint(['a'], 'other rules')).not.toBe(base);
+    });
+  });
+
+  describe('loadSuggestionCache', () => {
+    it('returns an empty cache when the file is missing', () => {
+      const data = loadSuggestionCache(cachePath);
+
+      expect(data.version).toBe(SUGGESTION_CACHE_VERSION);
+      expect(data.sections).toEqual({});
+    });
+
+    it('round-trips saved entries', () => {
+      const data = loadSuggestionCache(cachePath);
+      getSuggestionCacheSection(data, 'ubs.rules', 'fp').entries.abc = entry;
+      saveSuggestionCache(cachePath, data);
+
+      const loaded = loadSuggestionCache(cachePath);
+      expect(getSuggestionCacheSection(loaded, 'ubs.rules', 'fp').entries).toEqual({ abc: entry });
+    });
+
+    it('discards entries written by another version', () => {
+      fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+      fs.writeFileSync(
+        cachePath,
+        JSON.stringify({ version: 0, fingerprint: 'fp', updatedAt: '', entries: { abc: entry } })
+      );
+
+      expect(loadSuggestionCache(cachePath).sections).toEqual({});
+    });
+
+    it('ignores corrupt cache files', () => {
+      fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+      fs.writeFileSync(cachePath, '{ not json');
+
+      expect(readSuggestionCache(cachePath)).toBeNull();
+      expect(loadSuggestionCache(cachePath).sections).toEqual({});
+    });
+  });
+
+  describe('getSuggestionCacheSection', () => {
+    it('discards only the section whose fingerprint changed', () => {
+      const data = loadSuggestionCache(cachePath);
+      getSuggestionCacheSection(data, 'ubs.rules', 'ubs-fp').entries.abc = entry;
+      getSuggestionCacheSection(data, 'revolut.rules', 'revolut-fp').entries.def = entry;
+
+      expect(getSuggestionCacheSection(data, 'ubs.rules', 'changed').entries).toEqual({});
+      expect(getSuggestionCacheSection(data, 'revolut.rules', 'revolut-fp').entries).toEqual({
+        def: entry,
+      });
+    });
+  });
+
+  describe('clearSuggestionCacheFile', () => {
+    it('deletes the file and reports the removed entries', () => {
+      const data = loadSuggestionCache(cachePath);
+      getSuggestionCacheSection(data, 'ubs.rules', 'fp').entries.abc = entry;
+      getSuggestionCacheSection(data, 'revolut.rules', 'fp').entries.def = entry;
+      saveSuggestionCache(cachePath, data);
+
+      expect(clearSuggestionCacheFile(cachePath)).toBe(2);
+      expect(fs.existsSync(cachePath)).toBe(false);
+      expect(clearSuggestionCacheFile(cachePath)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Persistent Suggestion Cache
+ *
+ * Stores account suggestions on disk (keyed by transaction hash) so repeated
+ * pipeline runs don't ask the suggestion backend for the same postings again.
+ * Suggestions are kept in one section per rules file. The cache is discarded when its
+ * format version changes; a section is discarded when the account hierarchy or the
+ * rules it was built from change (tracked by a fingerprint per section).
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AccountSuggestion } from './accountSuggester.ts';
+
+/**
+ * Version of the cache file format. Bump when the stored structure changes.
+ */
+export const SUGGESTION_CACHE_VERSION = 2;
+
+/**
+ * Name of the cache file inside the logs directory
+ */
+export const SUGGESTION_CACHE_FILE = 'suggestion-cache.json';
+
+/**
+ * A cached suggestion together with the posting it was generated for
+ */
+export interface CachedSuggestion extends AccountSuggestion {
+  description: string;
+  amount: string;
+  createdAt: string;
+}
+
+/**
+ * The cached suggestions for the postings of one rules file
+ */
+export interface SuggestionCacheSection {
+  fingerprint: string;
+  entries: Record<string, CachedSuggestion>;
+}
+
+/**
+ * Contents of the cache file
+ */
+export interface SuggestionCacheData {
+  version: number;
+  updatedAt: string;
+  /** Sections keyed by rules file (relative to the repository) */
+  sections: Record<string, SuggestionCacheSection>;
+}
+
+/**
+ * Returns the path of the cache file for the given logs directory
+ */
+export function getSuggestionCachePath(logDir: string): string {
+  return path.join(logDir, SUGGESTION_CACHE_FILE);
+}
+
+/**
+ * Computes a fingerprint of the inputs suggestions depend on.
+ * Changes to the account hierarchy or the rules content invalidate the cache.
+ *
+ * @param existingAccounts Declared accounts (order-independent)
+ * @param rulesContent Content of the rules file(s) used for the suggestions
+ */
+export function computeSuggestionFingerprint(
+  existingAccounts: string[],
+  rulesContent: string
+): string {
+  const accounts = [...existingAccounts].sort().join('\n');
+  return crypto.createHash('sha256').update(`${accounts}\0${rulesContent}`).digest('hex');
+}
+
+/**
+ * Reads the cache file without validating version or fingerprint.
+ *
+ * @returns The cache data, or null if the file is missing or unreadable
+ */
+export function readSuggestionCache(cachePath: string): SuggestionCacheData | null {
+  if (!fs.existsSync(cachePath)) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as SuggestionCacheData;
+    if (typeof data !== 'object' || data === null || typeof data.sections !== 'object') {
+      return null;
+    }
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Loads the cache.
+ * Returns an empty cache if the file is missing, corrupt, or written by another format version.
+ */
+export function loadSuggestionCache(cachePath: string): SuggestionCacheData {
+  const data = readSuggestionCache(cachePath);
+  if (data && data.version === SUGGESTION_CACHE_VERSION) {
+    return data;
+  }
+
+  return {
+    version: SUGGESTION_CACHE_VERSION,
+    updatedAt: new Date().toISOString(),
+    sections: {},
+  };
+}
+
+/**
+ * Returns the section of a rules file for the given fingerprint. A section built from a
+ * different account hierarchy or rules is replaced by an empty one; other sections are kept.
+ *
+ * @param data The loaded cache
+ * @param rulesFile The section's rules file (relative to the repository)
+ * @param fingerprint Fingerprint of the accounts and the rules file content
+ */
+export function getSuggestionCacheSection(
+  data: SuggestionCacheData,
+  rulesFile: string,
+  fingerprint: string
+): SuggestionCacheSection {
+  const section = data.sections[rulesFile];
+  if (section && section.fingerprint === fingerprint) {
+    return section;
+  }
+
+  data.sections[rulesFile] = { fingerprint, entries: {} };
+  return data.sections[rulesFile];
+}
+
+/**
+ * Counts the entries of all sections
+ */
+export function countSuggestionCacheEntries(data: SuggestionCacheData): number {
+  return Object.values(data.sections).reduce(
+    (count, section) => count + Object.keys(section.entries).length,
+    0
+  );
+}
+
+/**
+ * Writes the cache file, creating the logs directory if needed
+ */
+export function saveSuggestionCache(cachePath: string, data: SuggestionCacheData): void {
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+  data.updatedAt = new Date().toISOString();
+  fs.writeFileSync(cachePath, JSON.stringify(data, null, 2) + '\n');
+}
+
+/**
+ * Deletes the cache file
+ *
+ * @returns Number of entries that were removed
+ */
+export function clearSuggestionCacheFile(cachePath: string): number {
+  const data = readSuggestionCache(cachePath);
+  if (fs.existsSync(cachePath)) {
+    fs.rmSync(cachePath);
+  }
+  return data ? countSuggestionCacheEntries(data) : 0;
+}
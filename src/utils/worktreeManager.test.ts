@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createImportWorktree,
+  hasUncommittedChanges,
+  listImportWorktrees,
+  mergeWorktree,
+  removeProcessedCSVFiles,
+  removeWorktree,
+  syncCSVFiles,
+  WorktreeMergeError,
+  type WorktreeContext,
+} from './worktreeManager.ts';
+import { initTestGitRepo } from './testHelpers.ts';
+
+describe('worktreeManager', () => {
+  let repoPath: string;
+  let worktree: WorktreeContext | undefined;
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-manager-test-'));
+    initTestGitRepo(repoPath);
+    fs.writeFileSync(path.join(repoPath, '.gitignore'), 'import/incoming/*.csv\n');
+    fs.writeFileSync(path.join(repoPath, '.hledger.journal'), '; Main journal\n');
+    execSync('git add .', { cwd: repoPath });
+    execSync('git commit -m "Initial commit"', { cwd: repoPath });
+    worktree = undefined;
+  });
+
+  afterEach(() => {
+    if (worktree && fs.existsSync(worktree.path)) {
+      fs.rmSync(worktree.path, { recursive: true, force: true });
+    }
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  describe('hasUncommittedChanges', () => {
+    it('should return false for a clean repository', async () => {
+      expect(await hasUncommittedChanges(repoPath)).toBe(false);
+    });
+
+    it('should ignore untracked files', async () => {
+      fs.writeFileSync(path.join(repoPath, 'untracked.txt'), 'hello');
+      expect(await hasUncommittedChanges(repoPath)).toBe(false);
+    });
+
+    it('should return true when tracked files are modified', async () => {
+      fs.appendFileSync(path.join(repoPath, '.hledger.journal'), 'include ledger/2026.journal\n');
+      expect(await hasUncommittedChanges(repoPath)).toBe(true);
+    });
+  });
+
+  describe('createImportWorktree', () => {
+    it('should create a worktree with a dedicated branch', async () => {
+      worktree = await createImportWorktree(repoPath);
+
+      expect(path.basename(worktree.path)).toBe(`import-worktree-${worktree.id}`);
+      expect(worktree.branch).toBe(`import-${worktree.id}`);
+      expect(fs.existsSync(path.join(worktree.path, '.hledger.journal'))).toBe(true);
+
+      const branches = execSync('git branch --list', { cwd: repoPath, encoding: 'utf-8' });
+      expect(branches).toContain(worktree.branch);
+    });
+
+    it('should throw outside of a git repository', async () => {
+      const plainDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-manager-plain-'));
+      try {
+        await expect(createImportWorktree(plainDir)).rejects.toThrow('git worktree add');
+      } finally {
+        fs.rmSync(plainDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('syncCSVFiles', () => {
+    it('should copy CSV files recursively and skip existing files', () => {
+      const targetRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-manager-target-'));
+      try {
+        fs.mkdirSync(path.join(repoPath, 'import/incoming/sub'), { recursive: true });
+        fs.writeFileSync(path.join(repoPath, 'import/incoming/a.csv'), 'a');
+        fs.writeFileSync(path.join(repoPath, 'import/incoming/sub/b.csv'), 'b');
+        fs.writeFileSync(path.join(repoPath, 'import/incoming/notes.txt'), 'ignored');
+        fs.mkdirSync(path.join(targetRoot, 'import/incoming'), { recursive: true });
+        fs.writeFileSync(path.join(targetRoot, 'import/incoming/a.csv'), 'existing');
+
+        const copied = syncCSVFiles(repoPath, targetRoot, ['import/incoming', 'import/missing']);
+
+        expect(copied).toEqual([path.join('import/incoming', 'sub', 'b.csv')]);
+        expect(fs.readFileSync(path.join(targetRoot, 'import/incoming/a.csv'), 'utf-8')).toBe(
+          'existing'
+        );
+        expect(fs.existsSync(path.join(targetRoot, 'import/incoming/notes.txt'))).toBe(false);
+      } finally {
+        fs.rmSync(targetRoot, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('mergeWorktree', () => {
+    it('should merge worktree changes with a merge commit', async () => {
+      worktree = await createImportWorktree(repoPath);
+      fs.mkdirSync(path.join(worktree.path, 'ledger'));
+      fs.writeFileSync(path.join(worktree.path, 'ledger/2026.journal'), '; 2026 transactions\n');
+
+      const merged = await mergeWorktree(worktree, 'Import: UBS CHF');
+
+      expect(merged).toBe(true);
+      expect(fs.existsSync(path.join(repoPath, 'ledger/2026.journal'))).toBe(true);
+      const log = execSync('git log --format=%s%n%P -1', { cwd: repoPath, encoding: 'utf-8' });
+      const [subject, parents] = log.trim().split('\n');
+      expect(subject).toBe('Import: UBS CHF');
+      expect(parents.split(' ')).toHaveLength(2);
+    });
+
+    it('should return false when there is nothing to commit', async () => {
+      worktree = await createImportWorktree(repoPath);
+
+      expect(await mergeWorktree(worktree, 'Import: nothing')).toBe(false);
+    });
+
+    it('should abort a conflicting merge and keep the import branch', async () => {
+      worktree = await createImportWorktree(repoPath);
+      fs.writeFileSync(path.join(worktree.path, '.hledger.journal'), '; Imported\n');
+      fs.writeFileSync(path.join(repoPath, '.hledger.journal'), '; Edited during the run\n');
+      execSync('git commit -am "Edit main journal"', { cwd: repoPath });
+
+      const merge = mergeWorktree(worktree, 'Import: UBS CHF');
+
+      await expect(merge).rejects.toBeInstanceOf(WorktreeMergeError);
+      await expect(merge).rejects.toThrow(`import kept on branch ${worktree.branch}`);
+      expect(fs.existsSync(path.join(repoPath, '.git/MERGE_HEAD'))).toBe(false);
+      expect(fs.readFileSync(path.join(repoPath, '.hledger.journal'), 'utf-8')).toBe(
+        '; Edited during the run\n'
+      );
+      const branches = execSync('git branch --list', { cwd: repoPath, encoding: 'utf-8' });
+      expect(branches).toContain(worktree.branch);
+    });
+  });
+
+  describe('removeProcessedCSVFiles', () => {
+    it('should remove only files that no longer exist in the worktree', async () => {
+      worktree = await createImportWorktree(repoPath);
+      fs.mkdirSync(path.join(repoPath, 'import/incoming'), { recursive: true });
+      fs.writeFileSync(path.join(repoPath, 'import/incoming/processed.csv'), 'a');
+      fs.writeFileSync(path.join(repoPath, 'import/incoming/kept.csv'), 'b');
+      const synced = syncCSVFiles(repoPath, worktree.path, ['import/incoming']);
+      fs.rmSync(path.join(worktree.path, 'import/incoming/processed.csv'));
+
+      const removed = removeProcessedCSVFiles(worktree, synced);
+
+      expect(removed).toEqual([path.join('import/incoming', 'processed.csv')]);
+      expect(fs.existsSync(path.join(repoPath, 'import/incoming/processed.csv'))).toBe(false);
+      expect(fs.existsSync(path.join(repoPath, 'import/incoming/kept.csv'))).toBe(true);
+    });
+  });
+
+  describe('removeWorktree', () => {
+    it('should remove the worktree directory and branch', async () => {
+      worktree = await createImportWorktree(repoPath);
+
+      await removeWorktree(worktree);
+
+      expect(fs.existsSync(worktree.path)).toBe(false);
+      const branches = execSync('git branch --list', { cwd: repoPath, encoding: 'utf-8' });
+      expect(branches).not.toContain(worktree.branch);
+    });
+  });
+
+  describe('listImportWorktrees', () => {
+    it('should list import worktrees with their branch and path', async () => {
+      worktree = await createImportWorktree(repoPath);
+      execSync('git branch feature', { cwd: repoPath });
+
+      const worktrees = await listImportWorktrees(repoPath);
+
+      expect(worktrees).toHaveLength(1);
+      expect(worktrees[0].id).toBe(worktree.id);
+      expect(worktrees[0].branch).toBe(worktree.branch);
+      expect(fs.realpathSync(worktrees[0].path)).toBe(fs.realpathSync(worktree.path));
+      expect(worktrees[0].exists).toBe(true);
+    });
+
+    it('should include import branches without a worktree', async () => {
+      const id = '1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed';
+      execSync(`git branch import-${id}`, { cwd: repoPath });
+
+      const worktrees = await listImportWorktrees(repoPath);
+
+      expect(worktrees).toHaveLength(1);
+      expect(worktrees[0].id).toBe(id);
+      expect(worktrees[0].exists).toBe(false);
+    });
+
+    it('should ignore branches and worktrees not created by an import run', async () => {
+      const id = '1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed';
+      const otherPath = fs.mkdtempSync(path.join(os.tmpdir(), 'other-worktree-'));
+      fs.rmSync(otherPath, { recursive: true });
+      execSync('git branch import-ubs-fix', { cwd: repoPath });
+      execSync(`git worktree add -b import-${id} ${otherPath} HEAD`, { cwd: repoPath });
+
+      try {
+        expect(await listImportWorktrees(repoPath)).toEqual([]);
+      } finally {
+        fs.rmSync(otherPath, { recursive: true, force: true });
+      }
+    });
+  });
+});
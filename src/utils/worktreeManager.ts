@@ -0,0 +1,294 @@
+/**
+ * Git worktree utilities for running the import pipeline in isolation.
+ * Each import run gets its own worktree and branch under the system temp directory,
+ * so a half-finished import never touches the main working tree.
+ */
+
+import { $ } from 'bun';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Prefix used for import worktree directories (e.g., /tmp/import-worktree-<uuid>)
+ */
+export const WORKTREE_DIR_PREFIX = 'import-worktree-';
+
+/**
+ * Prefix used for import branches (e.g., import-<uuid>)
+ */
+export const WORKTREE_BRANCH_PREFIX = 'import-';
+
+/**
+ * Import branches: the prefix followed by the run's UUID. Other branches starting with the
+ * prefix (e.g., import-ubs-fix) belong to the user and are never listed.
+ */
+const IMPORT_BRANCH_PATTERN =
+  /^import-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/;
+
+/**
+ * Describes an isolated import worktree
+ */
+export interface WorktreeContext {
+  /** Unique identifier of the import run */
+  id: string;
+  /** Absolute path of the worktree directory */
+  path: string;
+  /** Name of the branch checked out in the worktree */
+  branch: string;
+  /** Absolute path of the main repository */
+  mainRepoPath: string;
+}
+
+/**
+ * Runs a git command in the given directory.
+ *
+ * @throws Error with git's stderr if the command fails
+ */
+async function runGit(args: string[], cwd: string): Promise<string> {
+  const result = await $`git ${args}`.cwd(cwd).quiet().nothrow();
+  if (result.exitCode !== 0) {
+    const stderr = result.stderr.toString().trim() || result.stdout.toString().trim();
+    throw new Error(`git ${args.join(' ')} failed: ${stderr}`);
+  }
+  return result.stdout.toString();
+}
+
+/**
+ * Checks whether the main repository has uncommitted changes to tracked files.
+ * Untracked and ignored files (e.g., CSVs in the import directories) are not considered.
+ *
+ * @param mainRepoPath Path to the main repository
+ * @returns True if tracked files have uncommitted changes
+ */
+export async function hasUncommittedChanges(mainRepoPath: string): Promise<boolean> {
+  const output = await runGit(['status', '--porcelain', '--untracked-files=no'], mainRepoPath);
+  return output.trim() !== '';
+}
+
+/**
+ * Creates a new worktree with a dedicated branch based on the current HEAD.
+ *
+ * @param mainRepoPath Path to the main repository
+ * @param baseDir Directory in which the worktree is created (default: system temp directory)
+ * @returns Context describing the created worktree
+ */
+export async function createImportWorktree(
+  mainRepoPath: string,
+  baseDir: string = os.tmpdir()
+): Promise<WorktreeContext> {
+  const id = uuidv4();
+  const worktreePath = path.join(baseDir, `${WORKTREE_DIR_PREFIX}${id}`);
+  const branch = `${WORKTREE_BRANCH_PREFIX}${id}`;
+
+  await runGit(['worktree', 'add', '-b', branch, worktreePath, 'HEAD'], mainRepoPath);
+
+  return { id, path: worktreePath, branch, mainRepoPath };
+}
+
+/**
+ * Copies CSV files from the given directories of one tree into the same
+ * relative locations of another tree. Files that already exist in the target are left untouched.
+ * Needed because statement CSVs in the import directories are usually git-ignored
+ * and therefore not part of a freshly created worktree.
+ *
+ * @param sourceRoot Root of the tree to copy from
+ * @param targetRoot Root of the tree to copy to
+ * @param relativeDirs Directories (relative to the roots) to scan recursively
+ * @returns Relative paths of the copied files
+ */
+export function syncCSVFiles(
+  sourceRoot: string,
+  targetRoot: string,
+  relativeDirs: string[]
+): string[] {
+  const copied: string[] = [];
+
+  function scanDirectory(relativeDir: string): void {
+    const sourceDir = path.join(sourceRoot, relativeDir);
+    if (!fs.existsSync(sourceDir)) {
+      return;
+    }
+
+    for (const entry of fs.readdirSync(sourceDir, { withFileTypes: true })) {
+      const relativePath = path.join(relativeDir, entry.name);
+      if (entry.isDirectory()) {
+        scanDirectory(relativePath);
+      } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.csv')) {
+        const targetPath = path.join(targetRoot, relativePath);
+        if (fs.existsSync(targetPath)) {
+          continue;
+        }
+        fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+        fs.copyFileSync(path.join(sourceRoot, relativePath), targetPath);
+        copied.push(relativePath);
+      }
+    }
+  }
+
+  for (const relativeDir of relativeDirs) {
+    scanDirectory(relativeDir);
+  }
+
+  return copied;
+}
+
+/**
+ * Removes CSV files from the main repository that were processed in the worktree,
+ * i.e. files that were synced into the worktree and no longer exist there.
+ *
+ * @param context The worktree context
+ * @param syncedFiles Relative paths returned by syncCSVFiles
+ * @returns Relative paths of the removed files
+ */
+export function removeProcessedCSVFiles(context: WorktreeContext, syncedFiles: string[]): string[] {
+  const removed: string[] = [];
+
+  for (const relativePath of syncedFiles) {
+    if (fs.existsSync(path.join(context.path, relativePath))) {
+      continue;
+    }
+    const mainPath = path.join(context.mainRepoPath, relativePath);
+    if (fs.existsSync(mainPath)) {
+      fs.rmSync(mainPath);
+      removed.push(relativePath);
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Thrown when the committed import branch cannot be merged into the main repository
+ * (e.g., a conflict). The merge is aborted; the import stays on its branch.
+ */
+export class WorktreeMergeError extends Error {
+  constructor(
+    public readonly branch: string,
+    cause: string
+  ) {
+    super(`Failed to merge ${branch} (merge aborted, import kept on branch ${branch}): ${cause}`);
+    this.name = 'WorktreeMergeError';
+  }
+}
+
+/**
+ * Commits all changes in the worktree and merges its branch into the branch
+ * checked out in the main repository using a merge commit (--no-ff).
+ * A failed merge is aborted, so the main repository is left as it was.
+ *
+ * @param context The worktree context
+ * @param commitMessage Message used for both the worktree commit and the merge commit
+ * @returns True if changes were merged, false if there was nothing to commit
+ * @throws WorktreeMergeError if the merge fails
+ */
+export async function mergeWorktree(
+  context: WorktreeContext,
+  commitMessage: string
+): Promise<boolean> {
+  await runGit(['add', '-A'], context.path);
+
+  const status = await runGit(['status', '--porcelain'], context.path);
+  if (status.trim() === '') {
+    return false;
+  }
+
+  await runGit(['commit', '-m', commitMessage], context.path);
+  try {
+    await runGit(['merge', '--no-ff', context.branch, '-m', commitMessage], context.mainRepoPath);
+  } catch (error) {
+    await runGit(['merge', '--abort'], context.mainRepoPath).catch(() => undefined);
+    throw new WorktreeMergeError(
+      context.branch,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Removes the worktree directory and deletes its branch.
+ * Worktrees whose directory no longer exists (e.g., /tmp was cleared) are pruned instead.
+ *
+ * @param context The worktree context
+ */
+export async function removeWorktree(context: WorktreeContext): Promise<void> {
+  if (context.path && fs.existsSync(context.path)) {
+    await runGit(['worktree', 'remove', '--force', context.path], context.mainRepoPath);
+  } else {
+    await runGit(['worktree', 'prune'], context.mainRepoPath);
+  }
+  await runGit(['branch', '-D', context.branch], context.mainRepoPath);
+}
+
+/**
+ * An import worktree or a leftover import branch found in the repository
+ */
+export interface ImportWorktreeInfo extends WorktreeContext {
+  /** Whether the worktree directory still exists on disk */
+  exists: boolean;
+  /** Last modification of the worktree directory (or the branch tip if the directory is gone) */
+  modifiedAt: Date;
+}
+
+/**
+ * Lists all import worktrees and import branches (branches without a worktree included).
+ * Only branches named import-<uuid> are listed, and only if they have no worktree or their
+ * worktree is an import-worktree-<uuid> directory of the same run.
+ *
+ * @param mainRepoPath Path to the main repository
+ * @returns Import worktrees sorted from oldest to newest
+ */
+export async function listImportWorktrees(mainRepoPath: string): Promise<ImportWorktreeInfo[]> {
+  const worktreePaths = new Map<string, string>();
+  const porcelain = await runGit(['worktree', 'list', '--porcelain'], mainRepoPath);
+
+  let currentPath = '';
+  for (const line of porcelain.split('\n')) {
+    if (line.startsWith('worktree ')) {
+      currentPath = line.slice('worktree '.length).trim();
+    } else if (line.startsWith('branch refs/heads/')) {
+      worktreePaths.set(line.slice('branch refs/heads/'.length).trim(), currentPath);
+    }
+  }
+
+  const branchOutput = await runGit(
+    ['branch', '--list', `${WORKTREE_BRANCH_PREFIX}*`, '--format=%(refname:short)'],
+    mainRepoPath
+  );
+  const branches = branchOutput
+    .split('\n')
+    .map((b) => b.trim())
+    .filter((b) => IMPORT_BRANCH_PATTERN.test(b));
+
+  const worktrees: ImportWorktreeInfo[] = [];
+  for (const branch of branches) {
+    const id = branch.slice(WORKTREE_BRANCH_PREFIX.length);
+    const worktreePath = worktreePaths.get(branch) ?? '';
+    if (worktreePath !== '' && path.basename(worktreePath) !== `${WORKTREE_DIR_PREFIX}${id}`) {
+      continue;
+    }
+    const exists = worktreePath !== '' && fs.existsSync(worktreePath);
+
+    let modifiedAt: Date;
+    if (exists) {
+      modifiedAt = fs.statSync(worktreePath).mtime;
+    } else {
+      const timestamp = await runGit(['log', '-1', '--format=%ct', branch], mainRepoPath);
+      modifiedAt = new Date(parseInt(timestamp.trim(), 10) * 1000);
+    }
+
+    worktrees.push({
+      id,
+      path: worktreePath,
+      branch,
+      mainRepoPath,
+      exists,
+      modifiedAt,
+    });
+  }
+
+  return worktrees.sort((a, b) => a.modifiedAt.getTime() - b.modifiedAt.getTime());
+}